@@ -1,9 +1,3 @@
-<<<<<<< HEAD
-const express = require('express');
-const path = require('path');
-const app = express();
-const PORT = process.env.PORT || 3000;
-=======
 // Simple Express server for serving the built frontend
 import express from 'express';
 import path from 'path';
@@ -23,7 +17,7 @@ try {
   if (apiMatch && apiMatch[1]) {
     apiUrl = apiMatch[1];
   }
-  
+
   const fallbackMatch = envFile.match(/VITE_API_FALLBACK_URL=(.+)/);
   if (fallbackMatch && fallbackMatch[1]) {
     apiFallbackUrl = fallbackMatch[1];
@@ -34,23 +28,55 @@ try {
 
 const app = express();
 const port = process.env.PORT || 9090;
->>>>>>> 3f9ce80a49067a196ab3a53abca11710d3d0ae93
+
+// Scheduled audits are kept here between restarts
+const dataDir = process.env.DATA_DIR || path.join(__dirname, 'data');
+const scoreDropThreshold = Number(process.env.SCORE_DROP_THRESHOLD) || 10;
+
+app.use(cors());
+app.use(express.json({ limit: '1mb' }));
 
 // Serve static files from the public directory
 app.use(express.static('public'));
 
-<<<<<<< HEAD
-// Health check endpoint
-app.get('/health', (req, res) => {
-  res.status(200).json({ status: 'ok' });
-});
-=======
 // Add basic request logging
 app.use((req, res, next) => {
   console.log(`[${new Date().toISOString()}] ${req.method} ${req.url}`);
   next();
 });
 
+// Server-side modules are built from src/server with `npm run build:server`
+let server = null;
+try {
+  server = await import('./dist-ssr/index.js');
+} catch (err) {
+  if (err.code === 'ERR_MODULE_NOT_FOUND') {
+    console.warn(`[${new Date().toISOString()}] Server modules not built, the audit API and scheduled audits are disabled. Run "npm run build:server".`);
+  } else {
+    console.error(`[${new Date().toISOString()}] Could not load server modules:`, err);
+  }
+}
+
+let scheduler = null;
+let auditService = null;
+let labPerformance = false;
+if (server) {
+  // Page audits measure Web Vitals in headless Chromium when a browser is installed
+  const chromePath = process.env.LAB_PERFORMANCE === 'false' ? undefined : server.findChromeExecutable();
+  labPerformance = Boolean(chromePath);
+  if (!chromePath && process.env.LAB_PERFORMANCE !== 'false') {
+    console.warn(`[${new Date().toISOString()}] No Chrome or Chromium found (set CHROME_PATH), audits will have no lab performance metrics.`);
+  }
+  auditService = server.createAuditService({
+    queue: server.createJobQueue({ concurrency: Number(process.env.AUDIT_JOB_CONCURRENCY) || 2 }),
+    measurePerformance: labPerformance
+  });
+  scheduler = server.createScheduler({
+    store: server.createScheduleStore(path.join(dataDir, 'schedules.json')),
+    defaultScoreDropThreshold: scoreDropThreshold
+  });
+}
+
 // Add health check endpoint
 app.get('/health', (req, res) => {
   res.json({
@@ -65,13 +91,232 @@ app.get('/health', (req, res) => {
     server: {
       port: port,
       staticPath: path.join(__dirname, 'dist')
+    },
+    scheduler: {
+      enabled: !!scheduler,
+      dataDir
+    },
+    auditApi: {
+      enabled: !!auditService,
+      jobs: auditService?.queue.stats() || null,
+      labPerformance
+    }
+  });
+});
+
+// Scheduled audits
+const schedules = express.Router();
+
+schedules.use((req, res, next) => {
+  if (!scheduler) {
+    return res.status(503).json({ status: 'error', message: 'Scheduler is not available on this server' });
+  }
+  next();
+});
+
+// Send validation errors back as 400s, anything else as a 500
+const handleScheduleError = (res, err) => {
+  if (err instanceof server.ScheduleValidationError) {
+    return res.status(400).json({ status: 'error', message: err.message });
+  }
+  console.error(`[${new Date().toISOString()}] Schedule request failed:`, err);
+  res.status(500).json({ status: 'error', message: 'Internal server error' });
+};
+
+schedules.get('/', async (req, res) => {
+  try {
+    res.json({ status: 'ok', schedules: await scheduler.listSchedules() });
+  } catch (err) {
+    handleScheduleError(res, err);
+  }
+});
+
+schedules.post('/', async (req, res) => {
+  try {
+    res.status(201).json({ status: 'ok', schedule: await scheduler.createSchedule(req.body || {}) });
+  } catch (err) {
+    handleScheduleError(res, err);
+  }
+});
+
+schedules.get('/:id', async (req, res) => {
+  try {
+    const schedule = await scheduler.getSchedule(req.params.id);
+    if (!schedule) {
+      return res.status(404).json({ status: 'error', message: 'Schedule not found' });
+    }
+    res.json({ status: 'ok', schedule, running: scheduler.isRunning(schedule.id) });
+  } catch (err) {
+    handleScheduleError(res, err);
+  }
+});
+
+schedules.patch('/:id', async (req, res) => {
+  try {
+    const schedule = await scheduler.updateSchedule(req.params.id, req.body || {});
+    if (!schedule) {
+      return res.status(404).json({ status: 'error', message: 'Schedule not found' });
+    }
+    res.json({ status: 'ok', schedule });
+  } catch (err) {
+    handleScheduleError(res, err);
+  }
+});
+
+schedules.delete('/:id', async (req, res) => {
+  try {
+    if (!(await scheduler.deleteSchedule(req.params.id))) {
+      return res.status(404).json({ status: 'error', message: 'Schedule not found' });
+    }
+    res.status(204).end();
+  } catch (err) {
+    handleScheduleError(res, err);
+  }
+});
+
+// Start a run now; it continues in the background
+schedules.post('/:id/run', async (req, res) => {
+  try {
+    const schedule = await scheduler.getSchedule(req.params.id);
+    if (!schedule) {
+      return res.status(404).json({ status: 'error', message: 'Schedule not found' });
+    }
+    if (scheduler.isRunning(schedule.id)) {
+      return res.status(409).json({ status: 'error', message: 'This schedule is already running' });
+    }
+
+    scheduler.runNow(schedule.id).catch(err => {
+      console.error(`[${new Date().toISOString()}] Manual run of ${schedule.id} failed:`, err);
+    });
+    res.status(202).json({ status: 'ok', message: 'Run started' });
+  } catch (err) {
+    handleScheduleError(res, err);
+  }
+});
+
+schedules.get('/:id/runs', async (req, res) => {
+  try {
+    const schedule = await scheduler.getSchedule(req.params.id);
+    if (!schedule) {
+      return res.status(404).json({ status: 'error', message: 'Schedule not found' });
+    }
+    const limit = Number(req.query.limit) || undefined;
+    res.json({ status: 'ok', runs: await scheduler.listRuns(schedule.id, limit) });
+  } catch (err) {
+    handleScheduleError(res, err);
+  }
+});
+
+app.use('/api/schedules', schedules);
+
+// Self-hosted audit API, same contracts as the remote backends (src/api/types.ts)
+const audits = express.Router();
+
+audits.use((req, res, next) => {
+  if (!auditService) {
+    return res.status(503).json({ status: 'error', message: 'Audit API is not available on this server' });
+  }
+  next();
+});
+
+// Send request errors back with their status, anything else as a 500
+const handleAuditError = (res, err) => {
+  if (err instanceof server.AuditRequestError) {
+    return res.status(err.statusCode).json({ status: 'error', message: err.message });
+  }
+  console.error(`[${new Date().toISOString()}] Audit request failed:`, err);
+  res.status(500).json({ status: 'error', message: 'Internal server error' });
+};
+
+const jobNotFound = (res) => res.status(404).json({ status: 'error', message: 'Job not found' });
+
+audits.post('/seo-analyze', async (req, res) => {
+  try {
+    res.json(await auditService.analyze(req.body));
+  } catch (err) {
+    handleAuditError(res, err);
+  }
+});
+
+audits.post('/batch-audit', async (req, res) => {
+  try {
+    res.json(await auditService.batch(req.body));
+  } catch (err) {
+    handleAuditError(res, err);
+  }
+});
+
+audits.post('/submit-page-audit', (req, res) => {
+  try {
+    res.status(202).json(auditService.submitPageAudit(req.body));
+  } catch (err) {
+    handleAuditError(res, err);
+  }
+});
+
+audits.post('/submit-site-audit', (req, res) => {
+  try {
+    res.status(202).json(auditService.submitSiteAudit(req.body));
+  } catch (err) {
+    handleAuditError(res, err);
+  }
+});
+
+audits.get('/job-status/:id', (req, res) => {
+  const status = auditService.jobStatus(req.params.id);
+  if (!status) return jobNotFound(res);
+  res.json(status);
+});
+
+audits.get('/job-results/:id', (req, res) => {
+  try {
+    const results = auditService.jobResults(req.params.id);
+    if (!results) return jobNotFound(res);
+    res.json(results);
+  } catch (err) {
+    handleAuditError(res, err);
+  }
+});
+
+// Server-Sent Events: the current state, then every progress event until the job finishes
+audits.get('/job-progress/:id', (req, res) => {
+  const status = auditService.jobStatus(req.params.id);
+  if (!status) return jobNotFound(res);
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive'
+  });
+  res.flushHeaders();
+
+  const send = (event) => res.write(`data: ${JSON.stringify(event)}\n\n`);
+  send(server.toProgressEvent(status.job));
+
+  if (status.job.status === 'completed' || status.job.status === 'failed') {
+    return res.end();
+  }
+
+  const unsubscribe = auditService.queue.subscribe(req.params.id, (event, job) => {
+    send(event);
+    if (job.status === 'completed' || job.status === 'failed') {
+      res.end();
     }
   });
+  req.on('close', unsubscribe);
+});
+
+audits.post('/cancel-job/:id', (req, res) => {
+  if (!auditService.cancelJob(req.params.id)) {
+    return res.status(404).json({ status: 'error', message: 'Job not found or already finished' });
+  }
+  res.json({ status: 'ok', message: 'Job cancelled' });
 });
 
+app.use('/api', audits);
+
 // Serve static files from the 'dist' directory
 app.use(express.static(path.join(__dirname, 'dist')));
->>>>>>> 3f9ce80a49067a196ab3a53abca11710d3d0ae93
 
 // Handle all routes and serve index.html
 app.get('*', (req, res) => {
@@ -79,14 +324,13 @@ app.get('*', (req, res) => {
 });
 
 // Start the server
-<<<<<<< HEAD
-app.listen(PORT, () => {
-  console.log(`Server running on port ${PORT}`);
-=======
 app.listen(port, () => {
   console.log(`[${new Date().toISOString()}] Server running at http://localhost:${port}`);
   console.log(`[${new Date().toISOString()}] Serving content from: ${path.join(__dirname, 'dist')}`);
   console.log(`[${new Date().toISOString()}] Using API URL: ${apiUrl}`);
   console.log(`[${new Date().toISOString()}] Using Fallback API URL: ${apiFallbackUrl}`);
->>>>>>> 3f9ce80a49067a196ab3a53abca11710d3d0ae93
-});
\ No newline at end of file
+
+  scheduler?.start().catch(err => {
+    console.error(`[${new Date().toISOString()}] Scheduler failed to start:`, err);
+  });
+});
@@ -15,6 +15,10 @@ import TestCrawl from "./pages/TestCrawl";
 import MockDebugger from "./pages/MockDebugger";
 import ApiTestPage from "./pages/ApiTestPage";
 import ApiDiagnostics from "./pages/ApiDiagnostics";
+import HistoryPage from "./pages/HistoryPage";
+import ComparePage from "./pages/ComparePage";
+import TrendsPage from "./pages/TrendsPage";
+import RulesPage from "./pages/RulesPage";
 
 const queryClient = new QueryClient();
 
@@ -35,6 +39,11 @@ const App = () => (
           <Route path="/mock-debugger" element={<MockDebugger />} />
           <Route path="/api-test" element={<ApiTestPage />} />
           <Route path="/api-diagnostics" element={<ApiDiagnostics />} />
+          <Route path="/history" element={<HistoryPage />} />
+          <Route path="/history/:id" element={<HistoryPage />} />
+          <Route path="/compare" element={<ComparePage />} />
+          <Route path="/trends" element={<TrendsPage />} />
+          <Route path="/rules" element={<RulesPage />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
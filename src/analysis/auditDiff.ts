@@ -0,0 +1,175 @@
+/**
+ * Audit diff engine
+ * Compares two normalized audit results (usually two runs of the same URL)
+ * and reports what got better or worse: score deltas per category, issues
+ * added, resolved or re-graded, and changes to key page data
+ */
+import { AuditCategoryName, AuditIssue, AuditResult } from '../api/types';
+import { SEVERITY_ORDER } from './rules';
+
+export const CATEGORY_NAMES: AuditCategoryName[] = ['metadata', 'content', 'technical', 'userExperience'];
+
+export interface ScoreDelta {
+  before: number;
+  after: number;
+  delta: number;
+}
+
+export type IssueChangeKind = 'added' | 'resolved' | 'severity_changed';
+
+export interface IssueChange {
+  kind: IssueChangeKind;
+  category: AuditCategoryName;
+  type: string;
+  before?: AuditIssue;
+  after?: AuditIssue;
+  // Added issues and raised severities are regressions
+  regression: boolean;
+}
+
+export interface PageDataChange {
+  field: string;
+  label: string;
+  before: string | number;
+  after: string | number;
+  regression: boolean;
+}
+
+export interface AuditDiff {
+  url: string;
+  beforeAnalyzedAt: string;
+  afterAnalyzedAt: string;
+  score: ScoreDelta;
+  categories: Record<AuditCategoryName, ScoreDelta>;
+  issues: IssueChange[];
+  pageData: PageDataChange[];
+  regressionCount: number;
+  improvementCount: number;
+}
+
+function scoreDelta(before: number, after: number): ScoreDelta {
+  return { before, after, delta: after - before };
+}
+
+function severityRank(severity: string): number {
+  return SEVERITY_ORDER[severity] ?? Object.keys(SEVERITY_ORDER).length;
+}
+
+/**
+ * Compare the issues of one category
+ * Issues are matched by type; a type reported more than once is matched in order
+ */
+function diffCategoryIssues(
+  category: AuditCategoryName,
+  beforeIssues: AuditIssue[],
+  afterIssues: AuditIssue[]
+): IssueChange[] {
+  const changes: IssueChange[] = [];
+  const unmatched = [...beforeIssues];
+
+  afterIssues.forEach(after => {
+    const index = unmatched.findIndex(before => before.type === after.type);
+
+    if (index === -1) {
+      changes.push({ kind: 'added', category, type: after.type, after, regression: true });
+      return;
+    }
+
+    const [before] = unmatched.splice(index, 1);
+    if (before.severity !== after.severity) {
+      changes.push({
+        kind: 'severity_changed',
+        category,
+        type: after.type,
+        before,
+        after,
+        // Lower rank is more severe
+        regression: severityRank(after.severity) < severityRank(before.severity)
+      });
+    }
+  });
+
+  unmatched.forEach(before => {
+    changes.push({ kind: 'resolved', category, type: before.type, before, regression: false });
+  });
+
+  return changes;
+}
+
+/**
+ * A page data field that differs between runs
+ * @param isRegression Whether the change makes the page worse
+ * @returns The change, or null when the value is the same
+ */
+function fieldChange<T extends string | number>(
+  field: string,
+  label: string,
+  old: T,
+  value: T,
+  isRegression: (old: T, value: T) => boolean
+): PageDataChange | null {
+  return old === value ? null : { field, label, before: old, after: value, regression: isRegression(old, value) };
+}
+
+/**
+ * Compare the page data fields the team checks between runs
+ */
+function diffPageData(before: AuditResult, after: AuditResult): PageDataChange[] {
+  const a = before.pageData;
+  const b = after.pageData;
+
+  return [
+    fieldChange('title', 'Title', a.title.text, b.title.text, (old, value) => !!old && !value),
+    fieldChange('metaDescription', 'Meta description', a.metaDescription.text, b.metaDescription.text, (old, value) => !!old && !value),
+    fieldChange('h1Count', 'H1 headings', a.headings.h1Count, b.headings.h1Count, (old, value) => old === 1 && value !== 1),
+    fieldChange('h1Texts', 'H1 text', a.headings.h1Texts.join(' | '), b.headings.h1Texts.join(' | '), () => false),
+    fieldChange('h2Count', 'H2 headings', a.headings.h2Count, b.headings.h2Count, (old, value) => old > 0 && value === 0),
+    fieldChange('h3Count', 'H3 headings', a.headings.h3Count, b.headings.h3Count, () => false),
+    fieldChange('internalLinks', 'Internal links', a.links.internalCount, b.links.internalCount, (old, value) => old > 0 && value === 0),
+    fieldChange('externalLinks', 'External links', a.links.externalCount, b.links.externalCount, () => false),
+    fieldChange('totalLinks', 'Total links', a.links.totalCount, b.links.totalCount, () => false)
+  ].filter(Boolean);
+}
+
+/**
+ * Diff two audit results
+ * @param before Earlier run
+ * @param after Later run
+ * @returns Score deltas, issue changes and page data changes
+ */
+export function diffAuditResults(before: AuditResult, after: AuditResult): AuditDiff {
+  const categories = {} as Record<AuditCategoryName, ScoreDelta>;
+  const issues: IssueChange[] = [];
+
+  CATEGORY_NAMES.forEach(category => {
+    const beforeCategory = before.categories[category];
+    const afterCategory = after.categories[category];
+
+    categories[category] = scoreDelta(beforeCategory.score, afterCategory.score);
+    issues.push(...diffCategoryIssues(category, beforeCategory.issues, afterCategory.issues));
+  });
+
+  const pageData = diffPageData(before, after);
+  const score = scoreDelta(before.score, after.score);
+
+  const scoreChanges = [score, ...Object.values(categories)].filter(change => change.delta !== 0);
+  const regressionCount =
+    scoreChanges.filter(change => change.delta < 0).length +
+    issues.filter(change => change.regression).length +
+    pageData.filter(change => change.regression).length;
+  const improvementCount =
+    scoreChanges.filter(change => change.delta > 0).length +
+    issues.filter(change => change.kind === 'resolved' || (change.kind === 'severity_changed' && !change.regression)).length;
+
+  return {
+    url: after.url,
+    beforeAnalyzedAt: before.analyzedAt,
+    afterAnalyzedAt: after.analyzedAt,
+    score,
+    categories,
+    issues,
+    pageData,
+    regressionCount,
+    improvementCount
+  };
+}
@@ -0,0 +1,250 @@
+/**
+ * Duplicate content
+ * Fingerprints page text with simhash over word shingles, then groups a set
+ * of audited pages by near-identical content, title and meta description, and
+ * checks each page's canonical link against the other audited pages
+ */
+import { AuditResult } from '../api/types';
+import { isNoindex } from './rules';
+
+export type DuplicateKind = 'content' | 'title' | 'description';
+
+export type CanonicalIssueType = 'canonical_chain' | 'canonical_non_200' | 'canonical_noindex';
+
+export type DuplicateIssueType = 'near_duplicate_content' | 'duplicate_title' | 'duplicate_description' | CanonicalIssueType;
+
+export interface DuplicateGroup {
+  kind: DuplicateKind;
+  // Shared title or description
+  value?: string;
+  urls: string[];
+  // Content groups: every page has the same fingerprint
+  exact?: boolean;
+  // Every page canonicalizes to the same URL, so search engines already treat them as one
+  canonicalized: boolean;
+}
+
+export interface CanonicalIssue {
+  type: CanonicalIssueType;
+  url: string;
+  canonicalUrl: string;
+  message: string;
+}
+
+export interface DuplicatesReport {
+  // Successfully audited pages
+  pagesCompared: number;
+  groups: DuplicateGroup[];
+  canonicalIssues: CanonicalIssue[];
+  // Groups that aren't canonicalized, and canonical issues, by type
+  summary: Record<DuplicateIssueType, number>;
+}
+
+export const DUPLICATE_ISSUE_TYPES: DuplicateIssueType[] = [
+  'near_duplicate_content',
+  'duplicate_title',
+  'duplicate_description',
+  'canonical_chain',
+  'canonical_non_200',
+  'canonical_noindex'
+];
+
+// Words per shingle
+const SHINGLE_SIZE = 3;
+
+// Fingerprints differing in at most this many of 64 bits are near-duplicates;
+// pages with about a tenth of their text changed stay within it, unrelated pages land above 20
+export const NEAR_DUPLICATE_DISTANCE = 10;
+
+const ISSUE_BY_KIND: Record<DuplicateKind, DuplicateIssueType> = {
+  content: 'near_duplicate_content',
+  title: 'duplicate_title',
+  description: 'duplicate_description'
+};
+
+/**
+ * 32-bit FNV-1a hash, seeded so two runs give the two halves of a 64-bit hash
+ */
+function fnv1a(text: string, seed: number): number {
+  let hash = seed;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * 64-bit simhash of a text's word shingles, as 16 hex digits
+ * Similar texts get fingerprints that differ in few bits
+ * @param text Visible page text
+ * @returns Fingerprint, or an empty string for text without words
+ */
+export function contentFingerprint(text: string): string {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  if (words.length === 0) return '';
+
+  const weights = new Array<number>(64).fill(0);
+  const shingleCount = Math.max(1, words.length - SHINGLE_SIZE + 1);
+  for (let i = 0; i < shingleCount; i++) {
+    const shingle = words.slice(i, i + SHINGLE_SIZE).join(' ');
+    const halves = [fnv1a(shingle, 0x811c9dc5), fnv1a(shingle, 0x01000193)];
+    for (let bit = 0; bit < 64; bit++) {
+      weights[bit] += (halves[bit >> 5] >>> (bit & 31)) & 1 ? 1 : -1;
+    }
+  }
+
+  return [0, 32].map(offset => {
+    let half = 0;
+    for (let bit = 0; bit < 32; bit++) {
+      if (weights[offset + bit] > 0) half |= 1 << bit;
+    }
+    return (half >>> 0).toString(16).padStart(8, '0');
+  }).join('');
+}
+
+/**
+ * Number of bits two fingerprints differ in
+ */
+export function fingerprintDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 8) {
+    let diff = (parseInt(a.slice(i, i + 8), 16) ^ parseInt(b.slice(i, i + 8), 16)) >>> 0;
+    while (diff) {
+      distance += diff & 1;
+      diff >>>= 1;
+    }
+  }
+  return distance;
+}
+
+/**
+ * Key used to match URLs: no fragment
+ */
+function urlKey(url: string): string | undefined {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    return parsed.href;
+  } catch (e) {
+    return undefined;
+  }
+}
+
+const normalizeText = (text: string) => text.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Group audited pages by duplicate content, titles and descriptions, and
+ * check their canonical links
+ * @param results Audit results of a batch or a crawl
+ * @returns Duplicate groups, largest first, and canonical issues
+ */
+export function analyzeDuplicates(results: AuditResult[]): DuplicatesReport {
+  // Results by every URL they were reached at
+  const byKey = new Map<string, AuditResult>();
+  const pageUrl = (result: AuditResult) => result.pageData?.http?.finalUrl || result.url;
+  results.forEach(result => {
+    [pageUrl(result), result.url].forEach(url => {
+      const key = urlKey(url);
+      if (key && !byKey.has(key)) byKey.set(key, result);
+    });
+  });
+
+  const audited = results.filter(result => result.status !== 'error' && result.pageData);
+  const canonicalKey = (result: AuditResult) => {
+    const canonical = result.pageData.technical?.canonicalUrl;
+    return (canonical && urlKey(canonical)) || urlKey(pageUrl(result));
+  };
+
+  const groups: DuplicateGroup[] = [];
+  const addGroup = (kind: DuplicateKind, members: AuditResult[], extra: Partial<DuplicateGroup> = {}) => {
+    groups.push({
+      kind,
+      urls: members.map(pageUrl).sort(),
+      canonicalized: new Set(members.map(canonicalKey)).size === 1,
+      ...extra
+    });
+  };
+
+  // Near-duplicate content: pages linked by close fingerprints, transitively
+  const fingerprinted = audited.filter(result => result.pageData.content?.fingerprint);
+  const groupOf = fingerprinted.map((_, index) => index);
+  const find = (index: number): number => (groupOf[index] === index ? index : (groupOf[index] = find(groupOf[index])));
+  fingerprinted.forEach((a, i) => {
+    for (let j = i + 1; j < fingerprinted.length; j++) {
+      const distance = fingerprintDistance(a.pageData.content.fingerprint, fingerprinted[j].pageData.content.fingerprint);
+      if (distance <= NEAR_DUPLICATE_DISTANCE) groupOf[find(j)] = find(i);
+    }
+  });
+  const contentGroups = new Map<number, AuditResult[]>();
+  fingerprinted.forEach((result, index) => {
+    const root = find(index);
+    contentGroups.set(root, [...(contentGroups.get(root) || []), result]);
+  });
+  contentGroups.forEach(members => {
+    if (members.length < 2) return;
+    const exact = new Set(members.map(result => result.pageData.content.fingerprint)).size === 1;
+    addGroup('content', members, { exact });
+  });
+
+  // Identical titles and descriptions
+  const groupByText = (kind: 'title' | 'description', text: (result: AuditResult) => string | undefined) => {
+    const byText = new Map<string, AuditResult[]>();
+    audited.forEach(result => {
+      const value = text(result);
+      if (!value || !value.trim()) return;
+      const key = normalizeText(value);
+      byText.set(key, [...(byText.get(key) || []), result]);
+    });
+    byText.forEach(members => {
+      if (members.length > 1) addGroup(kind, members, { value: text(members[0]).trim() });
+    });
+  };
+  groupByText('title', result => result.pageData.title?.text);
+  groupByText('description', result => result.pageData.metaDescription?.text);
+
+  // Canonicals pointing at audited pages that can't be the canonical version
+  const canonicalIssues: CanonicalIssue[] = [];
+  audited.forEach(result => {
+    const url = pageUrl(result);
+    const canonicalUrl = result.pageData.technical?.canonicalUrl;
+    const key = canonicalUrl && urlKey(canonicalUrl);
+    if (!key || key === urlKey(url)) return;
+
+    const target = byKey.get(key);
+    if (!target) return;
+
+    const issue = (type: CanonicalIssueType, message: string) => canonicalIssues.push({ type, url, canonicalUrl, message });
+    const status = target.pageData?.http?.status;
+    const redirected = target.pageData?.http?.redirects?.length > 0 || urlKey(pageUrl(target)) !== key;
+
+    if (target.status === 'error') {
+      issue('canonical_non_200', `Canonical URL could not be fetched${target.error?.message ? `: ${target.error.message}` : ''}`);
+    } else if (redirected) {
+      issue('canonical_non_200', `Canonical URL redirects to ${pageUrl(target)}`);
+    } else if (status !== undefined && status !== 200) {
+      issue('canonical_non_200', `Canonical URL responds with HTTP ${status}`);
+    } else {
+      if (target.pageData.technical?.noindex || isNoindex(target.pageData.http?.headers.xRobotsTag)) {
+        issue('canonical_noindex', 'Canonical URL is marked noindex');
+      }
+      const next = target.pageData.technical?.canonicalUrl;
+      if (next && urlKey(next) && urlKey(next) !== key) {
+        issue('canonical_chain', `Canonical URL canonicalizes again, to ${next}`);
+      }
+    }
+  });
+
+  const summary = Object.fromEntries(DUPLICATE_ISSUE_TYPES.map(type => [type, 0])) as Record<DuplicateIssueType, number>;
+  groups.forEach(group => {
+    if (!group.canonicalized) summary[ISSUE_BY_KIND[group.kind]]++;
+  });
+  canonicalIssues.forEach(issue => summary[issue.type]++);
+
+  return {
+    pagesCompared: audited.length,
+    groups: groups.sort((a, b) => Number(a.canonicalized) - Number(b.canonicalized) || b.urls.length - a.urls.length),
+    canonicalIssues,
+    summary
+  };
+}
@@ -0,0 +1,262 @@
+/**
+ * Hreflang clusters
+ * Groups audited pages that point at each other with hreflang alternates and
+ * validates each group as a whole: return links, language/region codes,
+ * x-default, self references and canonicals that contradict the alternates
+ */
+import { AuditResult } from '../api/types';
+
+export type HreflangIssueType =
+  | 'invalid_code'
+  | 'missing_return_link'
+  | 'missing_x_default'
+  | 'missing_self_reference'
+  | 'conflicting_canonical';
+
+export interface HreflangIssue {
+  type: HreflangIssueType;
+  // Page the issue is on; missing for issues of the whole cluster
+  url?: string;
+  // Alternate URL involved
+  href?: string;
+  hreflang?: string;
+  message: string;
+}
+
+export interface HreflangClusterPage {
+  url: string;
+  // Codes the cluster's pages assign to this URL
+  hreflang: string[];
+  canonicalUrl?: string;
+  // Part of the audited results; only these can be checked for return links
+  audited: boolean;
+}
+
+export interface HreflangCluster {
+  pages: HreflangClusterPage[];
+  codes: string[];
+  hasXDefault: boolean;
+  issues: HreflangIssue[];
+}
+
+export interface HreflangReport {
+  // Audited pages declaring hreflang alternates
+  pagesWithHreflang: number;
+  clusters: HreflangCluster[];
+  summary: Record<HreflangIssueType, number>;
+}
+
+export const HREFLANG_ISSUE_TYPES: HreflangIssueType[] = [
+  'missing_return_link',
+  'invalid_code',
+  'missing_x_default',
+  'missing_self_reference',
+  'conflicting_canonical'
+];
+
+// ISO 639-1 language codes
+const LANGUAGES = new Set((
+  'aa ab ae af ak am an ar as av ay az ba be bg bh bi bm bn bo br bs ca ce ch co cr cs cu cv cy da de dv dz ee el ' +
+  'en eo es et eu fa ff fi fj fo fr fy ga gd gl gn gu gv ha he hi ho hr ht hu hy hz ia id ie ig ii ik io is it iu ' +
+  'ja jv ka kg ki kj kk kl km kn ko kr ks ku kv kw ky la lb lg li ln lo lt lu lv mg mh mi mk ml mn mr ms mt my na ' +
+  'nb nd ne ng nl nn no nr nv ny oc oj om or os pa pi pl ps pt qu rm rn ro ru rw sa sc sd se sg si sk sl sm sn so ' +
+  'sq sr ss st su sv sw ta te tg th ti tk tl tn to tr ts tt tw ty ug uk ur uz ve vi vo wa wo xh yi yo za zh zu'
+).split(' '));
+
+// ISO 3166-1 alpha-2 region codes
+const REGIONS = new Set((
+  'ad ae af ag ai al am ao aq ar as at au aw ax az ba bb bd be bf bg bh bi bj bl bm bn bo bq br bs bt bv bw by bz ' +
+  'ca cc cd cf cg ch ci ck cl cm cn co cr cu cv cw cx cy cz de dj dk dm do dz ec ee eg eh er es et fi fj fk fm fo ' +
+  'fr ga gb gd ge gf gg gh gi gl gm gn gp gq gr gs gt gu gw gy hk hm hn hr ht hu id ie il im in io iq ir is it je ' +
+  'jm jo jp ke kg kh ki km kn kp kr kw ky kz la lb lc li lk lr ls lt lu lv ly ma mc md me mf mg mh mk ml mm mn mo ' +
+  'mp mq mr ms mt mu mv mw mx my mz na nc ne nf ng ni nl no np nr nu nz om pa pe pf pg ph pk pl pm pn pr ps pt pw ' +
+  'py qa re ro rs ru rw sa sb sc sd se sg sh si sj sk sl sm sn so sr ss st sv sx sy sz tc td tf tg th tj tk tl tm ' +
+  'tn to tr tt tv tw tz ua ug um us uy uz va vc ve vg vi vn vu wf ws ye yt za zm zw'
+).split(' '));
+
+/**
+ * Whether an hreflang value is x-default or language[-Script][-REGION]
+ * with an ISO 639-1 language and ISO 3166-1 alpha-2 region
+ */
+export function isValidHreflang(code: string): boolean {
+  const value = code.trim().toLowerCase();
+  if (value === 'x-default') return true;
+
+  const match = /^([a-z]{2})(?:-([a-z]{4}))?(?:-([a-z]{2}))?$/.exec(value);
+  return Boolean(match && LANGUAGES.has(match[1]) && (!match[3] || REGIONS.has(match[3])));
+}
+
+/**
+ * Key used to match URLs: no fragment, lowercase host
+ */
+function urlKey(url: string): string | undefined {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    return parsed.href;
+  } catch (e) {
+    return undefined;
+  }
+}
+
+/**
+ * Codes a page is listed under, for messages
+ */
+const describeCodes = (codes: string[]) => (codes.length > 0 ? ` (${codes.join(', ')})` : '');
+
+/**
+ * Build and validate hreflang clusters across a set of audited pages
+ * @param results Audit results of a batch or a crawl
+ * @returns Clusters with their pages and issues, largest first
+ */
+export function analyzeHreflang(results: AuditResult[]): HreflangReport {
+  interface AuditedPage {
+    url: string;
+    alternates: Array<{ hreflang: string; href: string; key?: string }>;
+    canonicalUrl?: string;
+  }
+
+  // Audited pages by URL; redirected pages are reachable by both URLs
+  const pages = new Map<string, AuditedPage>();
+  results.forEach(result => {
+    if (result.status === 'error' || !result.pageData) return;
+
+    const url = result.pageData.http?.finalUrl || result.url;
+    const page: AuditedPage = {
+      url,
+      alternates: (result.pageData.hreflang || []).map(({ hreflang, href }) => ({ hreflang, href, key: urlKey(href) })),
+      canonicalUrl: result.pageData.technical?.canonicalUrl || undefined
+    };
+    [url, result.url].forEach(candidate => {
+      const key = urlKey(candidate);
+      if (key && !pages.has(key)) pages.set(key, page);
+    });
+  });
+
+  // Union-find over URLs connected by alternates
+  const parent = new Map<string, string>();
+  const find = (key: string): string => {
+    if (!parent.has(key)) parent.set(key, key);
+    const root = parent.get(key);
+    if (root === key) return key;
+    const top = find(root);
+    parent.set(key, top);
+    return top;
+  };
+  const union = (a: string, b: string) => parent.set(find(a), find(b));
+
+  const declaring = Array.from(new Set(pages.values())).filter(page => page.alternates.length > 0);
+  declaring.forEach(page => {
+    const pageKey = urlKey(page.url);
+    page.alternates.forEach(alternate => {
+      if (alternate.key) union(pageKey, pages.get(alternate.key) ? urlKey(pages.get(alternate.key).url) : alternate.key);
+    });
+  });
+
+  // Declaring pages grouped by cluster
+  const groups = new Map<string, AuditedPage[]>();
+  declaring.forEach(page => {
+    const root = find(urlKey(page.url));
+    groups.set(root, [...(groups.get(root) || []), page]);
+  });
+
+  const clusters = Array.from(groups.values()).map(members => {
+    const issues: HreflangIssue[] = [];
+    const clusterPages = new Map<string, HreflangClusterPage>();
+    const clusterPage = (key: string, url: string) => {
+      const audited = pages.get(key);
+      const pageUrl = audited ? audited.url : url;
+      const pageKey = urlKey(pageUrl);
+      if (!clusterPages.has(pageKey)) {
+        clusterPages.set(pageKey, {
+          url: pageUrl,
+          hreflang: [],
+          canonicalUrl: audited?.canonicalUrl,
+          audited: Boolean(audited)
+        });
+      }
+      return clusterPages.get(pageKey);
+    };
+
+    members.forEach(page => {
+      const pageKey = urlKey(page.url);
+      clusterPage(pageKey, page.url);
+      let selfReferenced = false;
+
+      page.alternates.forEach(alternate => {
+        if (!isValidHreflang(alternate.hreflang)) {
+          issues.push({
+            type: 'invalid_code',
+            url: page.url,
+            href: alternate.href,
+            hreflang: alternate.hreflang,
+            message: `"${alternate.hreflang}" is not a valid language or language-region code`
+          });
+        }
+        if (!alternate.key) return;
+
+        const target = clusterPage(alternate.key, alternate.href);
+        if (!target.hreflang.includes(alternate.hreflang)) target.hreflang.push(alternate.hreflang);
+
+        const targetPage = pages.get(alternate.key);
+        if (targetPage === page) {
+          selfReferenced = true;
+        } else if (targetPage && !targetPage.alternates.some(back => back.key && pages.get(back.key) === page)) {
+          issues.push({
+            type: 'missing_return_link',
+            url: page.url,
+            href: targetPage.url,
+            hreflang: alternate.hreflang,
+            message: `${targetPage.url} has no hreflang link back to this page`
+          });
+        }
+      });
+
+      if (!selfReferenced) {
+        issues.push({
+          type: 'missing_self_reference',
+          url: page.url,
+          message: 'The page does not list itself among its hreflang alternates'
+        });
+      }
+    });
+
+    // Alternates must be the canonical version of each page, or search engines ignore them
+    clusterPages.forEach(page => {
+      const canonicalKey = page.canonicalUrl && urlKey(page.canonicalUrl);
+      if (canonicalKey && canonicalKey !== urlKey(page.url)) {
+        issues.push({
+          type: 'conflicting_canonical',
+          url: page.url,
+          href: page.canonicalUrl,
+          message: `Listed as an hreflang alternate${describeCodes(page.hreflang)} but canonicalizes to ${page.canonicalUrl}`
+        });
+      }
+    });
+
+    const codes = Array.from(new Set(Array.from(clusterPages.values()).flatMap(page => page.hreflang)));
+    const hasXDefault = codes.some(code => code.trim().toLowerCase() === 'x-default');
+    if (!hasXDefault) {
+      issues.push({
+        type: 'missing_x_default',
+        message: 'No page in the cluster is marked x-default for users whose language isn\'t listed'
+      });
+    }
+
+    return {
+      pages: Array.from(clusterPages.values()).sort((a, b) => a.url.localeCompare(b.url)),
+      codes: codes.sort(),
+      hasXDefault,
+      issues
+    };
+  });
+
+  const summary = Object.fromEntries(HREFLANG_ISSUE_TYPES.map(type => [type, 0])) as Record<HreflangIssueType, number>;
+  clusters.forEach(cluster => cluster.issues.forEach(issue => summary[issue.type]++));
+
+  return {
+    pagesWithHreflang: declaring.length,
+    clusters: clusters.sort((a, b) => b.pages.length - a.pages.length),
+    summary
+  };
+}
@@ -0,0 +1,40 @@
+import { parseHTML } from 'linkedom';
+import { describe, expect, it } from 'vitest';
+import { analyzeHtml, rescoreResult } from './htmlAnalyzer';
+import { createRuleRegistry, defaultRules } from './rules';
+
+const parser = (html: string) => parseHTML(html).document as unknown as Document;
+
+const PAGE = `<!DOCTYPE html>
+<html>
+<head><title>Short</title></head>
+<body><h1>Hello</h1><p>Not many words here.</p></body>
+</html>`;
+
+const issueTypes = (result: ReturnType<typeof analyzeHtml>) =>
+  Object.values(result.categories).flatMap(category => category.issues.map(issue => issue.type));
+
+describe('rescoreResult', () => {
+  const result = analyzeHtml(PAGE, 'https://example.com/', { parser });
+
+  it('leaves out disabled rules', () => {
+    expect(issueTypes(result)).toContain('title_too_short');
+
+    const rescored = rescoreResult(result, createRuleRegistry(defaultRules, { disabled: ['title_too_short'] }));
+    expect(issueTypes(rescored)).not.toContain('title_too_short');
+    expect(rescored.totalIssuesCount).toBe(result.totalIssuesCount - 1);
+  });
+
+  it('uses threshold overrides', () => {
+    const rules = createRuleRegistry(defaultRules, { overrides: { title_too_short: { thresholds: { minLength: 3 } } } });
+    expect(issueTypes(rescoreResult(result, rules))).not.toContain('title_too_short');
+  });
+
+  it('keeps the page data and run details', () => {
+    const cached = { ...result, cached: true, cachedAt: '2026-01-01T00:00:00.000Z' };
+    const rescored = rescoreResult(cached, createRuleRegistry(defaultRules, { disabled: ['thin_content'] }));
+
+    expect(rescored.pageData).toBe(cached.pageData);
+    expect(rescored).toMatchObject({ cached: true, cachedAt: cached.cachedAt, analyzedAt: cached.analyzedAt });
+  });
+});
@@ -0,0 +1,269 @@
+/**
+ * Local HTML analysis engine
+ * Parses a page's HTML and derives the canonical AuditResult, so audits can
+ * run without any API (pasted HTML, offline fallback, server-side pipeline)
+ */
+import { AuditResult, AuditPageData, AuditCategoryName, AuditCategoryResult } from '../api/types';
+import { AUDIT_RESULT_VERSION, buildRecommendations, scoreToStatus } from '../api/normalizer';
+import { isNoindex, ruleRegistry, RuleRegistry, scoreIssues } from './rules';
+import { contentFingerprint } from './duplicates';
+import { analyzeStructuredData } from './structuredData';
+
+/**
+ * Converts an HTML string into a Document. In the browser this is DOMParser;
+ * on the server pass an equivalent (e.g. linkedom's DOMParser)
+ */
+export type HtmlParser = (html: string) => Document;
+
+export interface HtmlAnalysisOptions {
+  parser?: HtmlParser;
+  rules?: RuleRegistry;
+}
+
+// Elements whose text is not visible page content
+const NON_CONTENT_TAGS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'SVG']);
+
+/**
+ * Default parser backed by the browser's DOMParser
+ * @param html HTML source
+ * @returns Parsed document
+ */
+function defaultParser(html: string): Document {
+  if (typeof DOMParser === 'undefined') {
+    throw new Error('DOMParser is not available in this environment; pass a parser option');
+  }
+  return new DOMParser().parseFromString(html, 'text/html');
+}
+
+/**
+ * Collapse whitespace and trim text content
+ */
+function cleanText(text: string | null | undefined): string {
+  return (text || '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Compare hostnames ignoring the www. prefix
+ */
+function sameHost(a: string, b: string): boolean {
+  return a.replace(/^www\./, '') === b.replace(/^www\./, '');
+}
+
+/**
+ * Robots directives from meta robots and googlebot tags, comma-separated
+ */
+export function getMetaRobots(doc: Document): string {
+  return Array.from(doc.querySelectorAll('meta[name="robots" i], meta[name="googlebot" i]'))
+    .map(meta => meta.getAttribute('content') || '')
+    .join(',');
+}
+
+/**
+ * Read the visible body text, ignoring scripts, styles and templates
+ * Text nodes are joined with spaces so adjacent block elements don't merge words
+ */
+function extractBodyText(doc: Document): string {
+  const parts: string[] = [];
+
+  const walk = (node: Node) => {
+    node.childNodes.forEach(child => {
+      if (child.nodeType === 3) {
+        parts.push(child.textContent || '');
+      } else if (child.nodeType === 1 && !NON_CONTENT_TAGS.has((child as Element).tagName.toUpperCase())) {
+        walk(child);
+      }
+    });
+  };
+
+  if (doc.body) walk(doc.body);
+  return cleanText(parts.join(' '));
+}
+
+/**
+ * Extract hreflang alternates declared in the document head
+ */
+function extractHreflang(doc: Document, url: string): Array<{ hreflang: string; href: string }> {
+  return Array.from(doc.querySelectorAll('link[rel="alternate" i][hreflang]')).map(link => {
+    const href = link.getAttribute('href') || '';
+    let resolved = href;
+    try {
+      resolved = new URL(href, url).toString();
+    } catch (e) {
+      // Keep the raw value so validation can report it
+    }
+    return {
+      hreflang: link.getAttribute('hreflang') || '',
+      href: resolved
+    };
+  });
+}
+
+/**
+ * Extract the canonical pageData structure from a parsed document
+ * @param doc Parsed document
+ * @param url URL the document was loaded from (used to resolve links)
+ * @returns Page data describing the document
+ */
+export function extractPageData(doc: Document, url: string): AuditPageData {
+  const baseUrl = new URL(url);
+
+  // Metadata
+  const titleText = cleanText(doc.querySelector('title')?.textContent);
+  const descriptionText = cleanText(
+    doc.querySelector('meta[name="description" i]')?.getAttribute('content')
+  );
+
+  // Headings
+  const headingTexts = (selector: string) =>
+    Array.from(doc.querySelectorAll(selector)).map(el => cleanText(el.textContent));
+  const h1Texts = headingTexts('h1');
+  const h2Texts = headingTexts('h2');
+
+  // Content
+  const bodyText = extractBodyText(doc);
+  const wordCount = bodyText ? bodyText.split(' ').length : 0;
+
+  // Links
+  let internalCount = 0;
+  let externalCount = 0;
+  doc.querySelectorAll('a[href]').forEach(anchor => {
+    const href = (anchor.getAttribute('href') || '').trim();
+    if (!href || href.startsWith('#') || /^(javascript|mailto|tel|data):/i.test(href)) {
+      return;
+    }
+    try {
+      const target = new URL(href, baseUrl);
+      if (sameHost(target.hostname, baseUrl.hostname)) {
+        internalCount++;
+      } else {
+        externalCount++;
+      }
+    } catch (e) {
+      // Unparseable hrefs are not counted as links
+    }
+  });
+
+  // Images
+  const images = Array.from(doc.querySelectorAll('img'));
+  const withoutAlt = images.filter(img => !cleanText(img.getAttribute('alt'))).length;
+
+  // Technical
+  const canonicalHref = doc.querySelector('link[rel="canonical" i]')?.getAttribute('href') || '';
+  let canonicalUrl = '';
+  if (canonicalHref) {
+    try {
+      canonicalUrl = new URL(canonicalHref, baseUrl).toString();
+    } catch (e) {
+      canonicalUrl = canonicalHref;
+    }
+  }
+  const viewport = doc.querySelector('meta[name="viewport" i]')?.getAttribute('content') || '';
+  const structuredData = analyzeStructuredData(doc);
+
+  return {
+    title: {
+      text: titleText,
+      length: titleText.length
+    },
+    metaDescription: {
+      text: descriptionText,
+      length: descriptionText.length
+    },
+    headings: {
+      h1Count: h1Texts.length,
+      h1Texts,
+      h2Count: h2Texts.length,
+      h2Texts,
+      h3Count: doc.querySelectorAll('h3').length
+    },
+    content: {
+      wordCount,
+      contentLength: bodyText.length,
+      fingerprint: contentFingerprint(bodyText) || undefined
+    },
+    links: {
+      internalCount,
+      externalCount,
+      totalCount: internalCount + externalCount
+    },
+    images: {
+      total: images.length,
+      withoutAlt
+    },
+    technical: {
+      hasCanonical: Boolean(canonicalUrl),
+      canonicalUrl,
+      hasMobileViewport: /width\s*=\s*device-width/i.test(viewport),
+      hasStructuredData: structuredData.present,
+      structuredDataTypes: structuredData.types,
+      noindex: isNoindex(getMetaRobots(doc)),
+      structuredData
+    },
+    hreflang: extractHreflang(doc, url)
+  };
+}
+
+/**
+ * Run the rules over page data and produce a complete AuditResult
+ * @param pageData Page data, e.g. from extractPageData
+ * @param url URL of the page
+ * @param rules Rule registry to use; the shared registry by default
+ * @returns Scored audit result
+ */
+export function scorePageData(pageData: AuditPageData, url: string, rules: RuleRegistry = ruleRegistry): AuditResult {
+  const issues = rules.evaluate(pageData, url);
+
+  const categories: Record<AuditCategoryName, AuditCategoryResult> = {
+    metadata: { score: scoreIssues(issues.metadata), issues: issues.metadata },
+    content: { score: scoreIssues(issues.content), issues: issues.content },
+    technical: { score: scoreIssues(issues.technical), issues: issues.technical },
+    userExperience: { score: scoreIssues(issues.userExperience), issues: issues.userExperience }
+  };
+
+  const allIssues = Object.values(categories).flatMap(category => category.issues);
+  const score = Math.round(
+    Object.values(categories).reduce((sum, category) => sum + category.score, 0) / 4
+  );
+
+  return {
+    version: AUDIT_RESULT_VERSION,
+    url,
+    score,
+    status: scoreToStatus(score),
+    criticalIssuesCount: allIssues.filter(issue => issue.severity === 'critical').length,
+    totalIssuesCount: allIssues.length,
+    categories,
+    pageData,
+    recommendations: buildRecommendations(categories),
+    cached: false,
+    analyzedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Run the rules over a finished result again, e.g. with a project's rule
+ * settings. Everything else about the run (when, cache state, site and link
+ * reports) is kept
+ * @param result Result to re-score
+ * @param rules Rule registry to use; the shared registry by default
+ * @returns Result with new categories, score and recommendations
+ */
+export function rescoreResult(result: AuditResult, rules: RuleRegistry = ruleRegistry): AuditResult {
+  const { score, status, criticalIssuesCount, totalIssuesCount, categories, recommendations } =
+    scorePageData(result.pageData, result.url, rules);
+  return { ...result, score, status, criticalIssuesCount, totalIssuesCount, categories, recommendations };
+}
+
+/**
+ * Analyze an HTML document and produce a complete AuditResult
+ * @param html Raw HTML of the page
+ * @param url URL the HTML was loaded from
+ * @param options Analysis options (custom parser for non-browser environments, project rule registry)
+ * @returns Analysis result derived entirely from the document
+ */
+export function analyzeHtml(html: string, url: string, options: HtmlAnalysisOptions = {}): AuditResult {
+  const parse = options.parser || defaultParser;
+  const pageData = extractPageData(parse(html), url);
+
+  return scorePageData(pageData, url, options.rules);
+}
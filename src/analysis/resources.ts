@@ -0,0 +1,130 @@
+/**
+ * Resource inventory
+ * Summarizes what a page loads (by type, by third-party host) from the
+ * resources recorded during lab measurement, and finds the resources the
+ * page weight rules report: oversized images and text served uncompressed
+ */
+import { PageResource, ResourceInventory, ResourceType, ResourceWeight } from '../api/types';
+
+export const RESOURCE_TYPES: ResourceType[] = ['document', 'script', 'stylesheet', 'image', 'font', 'media', 'other'];
+
+// Second-level labels that are part of country suffixes, as in example.co.uk
+const GENERIC_SECOND_LEVEL = ['co', 'com', 'net', 'org', 'gov', 'edu', 'ac', 'ne', 'or'];
+
+// Text formats that compress well
+const COMPRESSIBLE_MIME = /^text\/|javascript|json|xml|svg|wasm|ttf|otf|sfnt/i;
+
+/**
+ * Site a host belongs to: its last two labels, or three under suffixes like co.uk.
+ * Good enough to tell a CDN subdomain from another company's host without a
+ * public suffix list
+ */
+export function siteOf(host: string): string {
+  const labels = host.toLowerCase().replace(/\.$/, '').split('.');
+  if (labels.length <= 2 || /^\d+$/.test(labels[labels.length - 1])) return labels.join('.');
+  const keep = labels[labels.length - 1].length === 2 && GENERIC_SECOND_LEVEL.includes(labels[labels.length - 2]) ? 3 : 2;
+  return labels.slice(-keep).join('.');
+}
+
+/**
+ * Whether a resource is served from another site than the page
+ */
+export function isThirdParty(resourceUrl: string, pageUrl: string): boolean {
+  try {
+    return siteOf(new URL(resourceUrl).hostname) !== siteOf(new URL(pageUrl).hostname);
+  } catch (e) {
+    return false;
+  }
+}
+
+/**
+ * Seconds a response may be cached for, from Cache-Control or Expires
+ * @returns 0 when the response may not be cached or has no lifetime
+ */
+export function parseCacheTtl(cacheControl?: string, expires?: string, date?: string): number {
+  const directives = (cacheControl || '').toLowerCase();
+  if (/\b(no-store|no-cache)\b/.test(directives)) return 0;
+  const maxAge = directives.match(/\bmax-age=(\d+)/);
+  if (maxAge) return Number(maxAge[1]);
+  if (expires) {
+    const ttl = (Date.parse(expires) - (date ? Date.parse(date) : Date.now())) / 1000;
+    return Number.isFinite(ttl) ? Math.max(0, Math.round(ttl)) : 0;
+  }
+  return 0;
+}
+
+/**
+ * Whether the resource is text that compression would shrink
+ */
+export function isCompressible(resource: PageResource): boolean {
+  if (resource.mimeType) return COMPRESSIBLE_MIME.test(resource.mimeType);
+  return resource.type === 'document' || resource.type === 'script' || resource.type === 'stylesheet';
+}
+
+/**
+ * Text resources served without Content-Encoding
+ * @param minBytes Smaller responses gain little from compression and are skipped
+ */
+export function findUncompressedResources(resources: PageResource[], minBytes: number): PageResource[] {
+  return resources.filter(resource =>
+    resource.type !== 'document' &&
+    !resource.contentEncoding &&
+    resource.resourceBytes >= minBytes &&
+    isCompressible(resource)
+  );
+}
+
+/**
+ * Images heavier than maxKb, or shown at less than 1/maxScale of their width
+ */
+export function findOversizedImages(resources: PageResource[], maxKb: number, maxScale: number): PageResource[] {
+  return resources.filter(resource => {
+    if (resource.type !== 'image') return false;
+    if (resource.transferBytes > maxKb * 1024) return true;
+    const { image } = resource;
+    return !!image && image.displayWidth > 0 && image.naturalWidth > image.displayWidth * maxScale;
+  });
+}
+
+/**
+ * Bytes as B, KB or MB for display
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(bytes < 10 * 1024 ? 1 : 0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function addWeight(weight: ResourceWeight, resource: PageResource) {
+  weight.requests++;
+  weight.bytes += resource.transferBytes;
+}
+
+/**
+ * Totals by type and third-party host for the resources a page loaded
+ */
+export function buildResourceInventory(resources: PageResource[]): ResourceInventory {
+  const byType = Object.fromEntries(
+    RESOURCE_TYPES.map(type => [type, { requests: 0, bytes: 0 }])
+  ) as Record<ResourceType, ResourceWeight>;
+  const total = { requests: 0, bytes: 0 };
+  const thirdParty = { requests: 0, bytes: 0 };
+  const hosts = new Map<string, ResourceWeight & { host: string }>();
+
+  resources.forEach(resource => {
+    addWeight(total, resource);
+    addWeight(byType[resource.type], resource);
+    if (!resource.thirdParty) return;
+    addWeight(thirdParty, resource);
+    if (!hosts.has(resource.host)) hosts.set(resource.host, { host: resource.host, requests: 0, bytes: 0 });
+    addWeight(hosts.get(resource.host), resource);
+  });
+
+  return {
+    total,
+    byType,
+    thirdParty,
+    thirdPartyHosts: Array.from(hosts.values()).sort((a, b) => b.bytes - a.bytes),
+    items: [...resources].sort((a, b) => b.transferBytes - a.transferBytes)
+  };
+}
@@ -0,0 +1,625 @@
+/**
+ * SEO rule engine
+ * Every threshold check lives here as an AuditRule; the registry evaluates
+ * enabled rules against page data and produces categories[*].issues arrays.
+ * Projects can enable, disable, re-threshold or re-grade rules via RuleConfig
+ */
+import type { AuditPageData, AuditCategoryName, AuditIssue } from '../api/types';
+import { findOversizedImages, findUncompressedResources } from './resources';
+import { WEB_VITAL_THRESHOLDS } from './webVitals';
+
+export type RuleCategory = AuditCategoryName;
+export type RuleSeverity = 'critical' | 'warning' | 'info';
+export type RuleImpact = 'high' | 'medium' | 'low';
+export type RuleThresholds = Record<string, number>;
+
+/**
+ * Result of a rule check: false/null when the page passes, true or
+ * details about the offending value when it fails
+ */
+export type RuleCheckResult = boolean | null | {
+  current?: string | number;
+  count?: number;
+};
+
+export interface AuditRule {
+  id: string;
+  title: string;
+  category: RuleCategory;
+  severity: RuleSeverity;
+  impact: RuleImpact;
+  thresholds?: RuleThresholds;
+  recommendation: string | ((thresholds: RuleThresholds) => string);
+  check: (pageData: AuditPageData, thresholds: RuleThresholds, url: string) => RuleCheckResult;
+}
+
+/**
+ * Per-project rule configuration, serializable so it can be stored
+ */
+export interface RuleConfig {
+  disabled?: string[];
+  overrides?: Record<string, {
+    severity?: RuleSeverity;
+    impact?: RuleImpact;
+    thresholds?: RuleThresholds;
+  }>;
+}
+
+/**
+ * Issue produced by a rule, with the rule metadata needed by the UI
+ */
+export interface RuleIssue extends AuditIssue {
+  ruleId: string;
+  title: string;
+  category: RuleCategory;
+}
+
+export const SEVERITY_ORDER: Record<string, number> = {
+  critical: 0,
+  warning: 1,
+  info: 2
+};
+
+// Penalty applied to a category score for each issue of a given severity
+const SEVERITY_PENALTY: Record<string, number> = {
+  critical: 25,
+  warning: 10,
+  info: 5
+};
+
+/**
+ * Score a list of issues on a 0-100 scale
+ */
+export function scoreIssues(issues: AuditIssue[]): number {
+  const penalty = issues.reduce((sum, issue) => sum + (SEVERITY_PENALTY[issue.severity] || 0), 0);
+  return Math.max(0, 100 - penalty);
+}
+
+/**
+ * Whether robots directives (meta robots content or an X-Robots-Tag header)
+ * keep a page out of the index
+ */
+export function isNoindex(directives: string | null | undefined): boolean {
+  return /\b(noindex|none)\b/i.test(directives || '');
+}
+
+/**
+ * Built-in rules
+ */
+export const defaultRules: AuditRule[] = [
+  // Metadata
+  {
+    id: 'missing_title',
+    title: 'Missing page title',
+    category: 'metadata',
+    severity: 'critical',
+    impact: 'high',
+    recommendation: 'Add a title tag to your page',
+    check: pageData => pageData.title && !pageData.title.text
+  },
+  {
+    id: 'title_too_short',
+    title: 'Page title is too short',
+    category: 'metadata',
+    severity: 'warning',
+    impact: 'medium',
+    thresholds: { minLength: 30 },
+    recommendation: t => `Make your title tag longer (at least ${t.minLength} characters recommended)`,
+    check: (pageData, t) => pageData.title?.text && pageData.title.length < t.minLength && { current: pageData.title.length }
+  },
+  {
+    id: 'title_too_long',
+    title: 'Page title is too long',
+    category: 'metadata',
+    severity: 'info',
+    impact: 'low',
+    thresholds: { maxLength: 60 },
+    recommendation: t => `Consider shortening your title tag (at most ${t.maxLength} characters recommended)`,
+    check: (pageData, t) => pageData.title?.text && pageData.title.length > t.maxLength && { current: pageData.title.length }
+  },
+  {
+    id: 'missing_meta_description',
+    title: 'Missing meta description',
+    category: 'metadata',
+    severity: 'critical',
+    impact: 'high',
+    recommendation: 'Add a meta description to your page',
+    check: pageData => pageData.metaDescription && !pageData.metaDescription.text
+  },
+  {
+    id: 'meta_description_too_short',
+    title: 'Meta description is too short',
+    category: 'metadata',
+    severity: 'warning',
+    impact: 'medium',
+    thresholds: { minLength: 50 },
+    recommendation: t => `Make your meta description longer (at least ${t.minLength} characters recommended)`,
+    check: (pageData, t) => pageData.metaDescription?.text && pageData.metaDescription.length < t.minLength &&
+      { current: pageData.metaDescription.length }
+  },
+  {
+    id: 'meta_description_too_long',
+    title: 'Meta description is too long',
+    category: 'metadata',
+    severity: 'info',
+    impact: 'low',
+    thresholds: { maxLength: 160 },
+    recommendation: t => `Consider shortening your meta description (at most ${t.maxLength} characters recommended)`,
+    check: (pageData, t) => pageData.metaDescription?.text && pageData.metaDescription.length > t.maxLength &&
+      { current: pageData.metaDescription.length }
+  },
+
+  // Content
+  {
+    id: 'missing_h1',
+    title: 'Missing H1 heading',
+    category: 'content',
+    severity: 'critical',
+    impact: 'high',
+    recommendation: 'Add an H1 heading to your page',
+    check: pageData => pageData.headings?.h1Count === 0
+  },
+  {
+    id: 'multiple_h1',
+    title: 'Multiple H1 headings',
+    category: 'content',
+    severity: 'warning',
+    impact: 'medium',
+    recommendation: 'Use only one H1 heading per page',
+    check: pageData => pageData.headings?.h1Count > 1 && { current: pageData.headings.h1Count }
+  },
+  {
+    id: 'missing_h2',
+    title: 'No H2 headings found',
+    category: 'content',
+    severity: 'info',
+    impact: 'low',
+    recommendation: 'Structure your content with H2 subheadings',
+    check: pageData => pageData.headings?.h2Count === 0
+  },
+  {
+    id: 'thin_content',
+    title: 'Page content is too short',
+    category: 'content',
+    severity: 'warning',
+    impact: 'medium',
+    thresholds: { minWords: 300 },
+    recommendation: t => `Add more content (at least ${t.minWords} words recommended)`,
+    check: (pageData, t) => pageData.content && pageData.content.wordCount < t.minWords &&
+      { current: pageData.content.wordCount }
+  },
+  {
+    id: 'images_missing_alt',
+    title: 'Images missing alt text',
+    category: 'content',
+    severity: 'warning',
+    impact: 'medium',
+    recommendation: 'Add alt text to all images for better accessibility and SEO',
+    check: pageData => pageData.images?.withoutAlt > 0 && { count: pageData.images.withoutAlt }
+  },
+
+  // Technical
+  {
+    id: 'no_https',
+    title: 'Page is not served over HTTPS',
+    category: 'technical',
+    severity: 'critical',
+    impact: 'high',
+    recommendation: 'Serve your page over HTTPS',
+    // Where the page ended up when redirects are known
+    check: (pageData, t, url) => (pageData.http?.finalUrl || url).startsWith('http://')
+  },
+  {
+    id: 'no_https_redirect',
+    title: 'HTTP version does not redirect to HTTPS',
+    category: 'technical',
+    severity: 'critical',
+    impact: 'high',
+    recommendation: 'Permanently redirect (301) every http:// URL to its https:// version',
+    check: pageData => pageData.http?.httpsRedirect === false
+  },
+  {
+    id: 'inconsistent_www',
+    title: 'www and non-www versions are both served',
+    category: 'technical',
+    severity: 'warning',
+    impact: 'medium',
+    recommendation: 'Pick www or non-www and redirect the other host to it',
+    check: pageData => pageData.http?.wwwConsistent === false
+  },
+  {
+    id: 'redirect_chain',
+    title: 'Page is reached through a redirect chain',
+    category: 'technical',
+    severity: 'warning',
+    impact: 'medium',
+    thresholds: { maxRedirects: 1 },
+    recommendation: t => `Redirect straight to the final URL (at most ${t.maxRedirects} redirect recommended)`,
+    check: (pageData, t) => pageData.http?.redirects.length > t.maxRedirects && { count: pageData.http.redirects.length }
+  },
+  {
+    id: 'missing_hsts',
+    title: 'Missing Strict-Transport-Security header',
+    category: 'technical',
+    severity: 'warning',
+    impact: 'medium',
+    recommendation: 'Send a Strict-Transport-Security header so browsers always use HTTPS',
+    check: pageData => pageData.http?.finalUrl.startsWith('https://') && !pageData.http.headers.strictTransportSecurity
+  },
+  {
+    id: 'x_robots_tag_noindex',
+    title: 'X-Robots-Tag header blocks indexing',
+    category: 'technical',
+    severity: 'critical',
+    impact: 'high',
+    recommendation: 'Remove noindex from the X-Robots-Tag header if this page should appear in search results',
+    check: pageData => isNoindex(pageData.http?.headers.xRobotsTag) && { current: pageData.http.headers.xRobotsTag }
+  },
+  {
+    id: 'missing_cache_control',
+    title: 'Missing Cache-Control header',
+    category: 'technical',
+    severity: 'info',
+    impact: 'low',
+    recommendation: 'Send a Cache-Control header so browsers and CDNs know how long to cache the page',
+    check: pageData => pageData.http && !pageData.http.headers.cacheControl
+  },
+  {
+    id: 'missing_charset',
+    title: 'Content-Type header has no charset',
+    category: 'technical',
+    severity: 'info',
+    impact: 'low',
+    recommendation: 'Declare the encoding in the Content-Type header, e.g. text/html; charset=utf-8',
+    check: pageData => pageData.http?.headers.contentType && !/charset=/i.test(pageData.http.headers.contentType) &&
+      { current: pageData.http.headers.contentType }
+  },
+  {
+    id: 'uncompressed_response',
+    title: 'Page is served uncompressed',
+    category: 'technical',
+    severity: 'warning',
+    impact: 'medium',
+    recommendation: 'Enable gzip or Brotli compression for HTML responses',
+    check: pageData => pageData.http && !/\b(gzip|br|deflate|zstd)\b/i.test(pageData.http.headers.contentEncoding || '')
+  },
+  {
+    id: 'uncompressed_assets',
+    title: 'Scripts or styles served uncompressed',
+    category: 'technical',
+    severity: 'warning',
+    impact: 'medium',
+    thresholds: { minBytes: 1400 },
+    recommendation: 'Enable gzip or Brotli compression for scripts, stylesheets and other text assets (see the Resources tab)',
+    check: (pageData, t) => {
+      const uncompressed = findUncompressedResources(pageData.performance?.resources.items || [], t.minBytes);
+      return uncompressed.length > 0 && { count: uncompressed.length };
+    }
+  },
+  {
+    id: 'missing_canonical',
+    title: 'Missing canonical link',
+    category: 'technical',
+    severity: 'warning',
+    impact: 'medium',
+    recommendation: 'Add a canonical link to prevent duplicate content issues',
+    check: pageData => pageData.technical?.hasCanonical === false
+  },
+  {
+    id: 'missing_structured_data',
+    title: 'No structured data',
+    category: 'technical',
+    severity: 'info',
+    impact: 'low',
+    recommendation: 'Add schema.org structured data to qualify for rich results',
+    check: pageData => pageData.technical?.hasStructuredData === false
+  },
+  {
+    id: 'invalid_structured_data',
+    title: 'Structured data is missing required properties',
+    category: 'technical',
+    severity: 'warning',
+    impact: 'medium',
+    recommendation: 'Add the required properties so the markup qualifies for rich results',
+    check: pageData => pageData.technical?.structuredData?.errors.length > 0 &&
+      { count: pageData.technical.structuredData.errors.length }
+  },
+  {
+    id: 'broken_links',
+    title: 'Broken links',
+    category: 'technical',
+    severity: 'warning',
+    impact: 'high',
+    recommendation: 'Fix or remove links that return errors (see the Links tab)',
+    check: pageData => pageData.links?.brokenCount > 0 && { count: pageData.links.brokenCount }
+  },
+  {
+    id: 'slow_ttfb',
+    title: 'Slow server response',
+    category: 'technical',
+    severity: 'warning',
+    impact: 'medium',
+    thresholds: { maxMs: WEB_VITAL_THRESHOLDS.ttfb.good },
+    recommendation: t => `Serve the first byte within ${t.maxMs}ms: cache pages, use a CDN or speed up the backend`,
+    check: (pageData, t) => pageData.performance?.metrics.ttfb?.value > t.maxMs && { current: pageData.performance.metrics.ttfb.value }
+  },
+
+  // User experience
+  {
+    id: 'missing_viewport',
+    title: 'Missing mobile viewport',
+    category: 'userExperience',
+    severity: 'critical',
+    impact: 'high',
+    recommendation: 'Add a responsive viewport meta tag (width=device-width)',
+    check: pageData => pageData.technical?.hasMobileViewport === false
+  },
+  {
+    id: 'no_internal_links',
+    title: 'No internal links',
+    category: 'userExperience',
+    severity: 'warning',
+    impact: 'medium',
+    recommendation: 'Link to other pages on your site to help users and crawlers navigate',
+    check: pageData => pageData.links?.internalCount === 0
+  },
+  {
+    id: 'slow_lcp',
+    title: 'Slow Largest Contentful Paint',
+    category: 'userExperience',
+    severity: 'warning',
+    impact: 'high',
+    thresholds: { maxMs: WEB_VITAL_THRESHOLDS.lcp.good },
+    recommendation: t => `Make the main content render within ${t.maxMs / 1000}s: optimize the largest image or text block and remove render-blocking resources`,
+    check: (pageData, t) => pageData.performance?.metrics.lcp?.value > t.maxMs && { current: pageData.performance.metrics.lcp.value }
+  },
+  {
+    id: 'layout_shift',
+    title: 'High Cumulative Layout Shift',
+    category: 'userExperience',
+    severity: 'warning',
+    impact: 'high',
+    thresholds: { max: WEB_VITAL_THRESHOLDS.cls.good },
+    recommendation: t => `Keep layout shift below ${t.max}: set dimensions on images, embeds and ads and avoid inserting content above existing content`,
+    check: (pageData, t) => pageData.performance?.metrics.cls?.value > t.max && { current: pageData.performance.metrics.cls.value }
+  },
+  {
+    id: 'slow_inp',
+    title: 'Slow Interaction to Next Paint',
+    category: 'userExperience',
+    severity: 'warning',
+    impact: 'high',
+    thresholds: { maxMs: WEB_VITAL_THRESHOLDS.inp.good },
+    recommendation: t => `Respond to interactions within ${t.maxMs}ms: break up long tasks and reduce work in event handlers`,
+    check: (pageData, t) => pageData.performance?.metrics.inp?.value > t.maxMs && { current: pageData.performance.metrics.inp.value }
+  },
+  {
+    id: 'high_blocking_time',
+    title: 'High Total Blocking Time',
+    category: 'userExperience',
+    severity: 'warning',
+    impact: 'medium',
+    thresholds: { maxMs: WEB_VITAL_THRESHOLDS.tbt.good },
+    recommendation: t => `Keep main-thread blocking under ${t.maxMs}ms: split, defer or remove heavy JavaScript`,
+    check: (pageData, t) => pageData.performance?.metrics.tbt?.value > t.maxMs && { current: pageData.performance.metrics.tbt.value }
+  },
+  {
+    id: 'oversized_images',
+    title: 'Oversized images',
+    category: 'userExperience',
+    severity: 'warning',
+    impact: 'medium',
+    thresholds: { maxKb: 200, maxScale: 2 },
+    recommendation: t => `Compress images to under ${t.maxKb}KB and serve them at no more than ${t.maxScale}x the size they're shown at, e.g. with srcset`,
+    check: (pageData, t) => {
+      const oversized = findOversizedImages(pageData.performance?.resources.items || [], t.maxKb, t.maxScale);
+      return oversized.length > 0 && { count: oversized.length };
+    }
+  },
+  {
+    id: 'excessive_third_party',
+    title: 'Too many third-party requests',
+    category: 'userExperience',
+    severity: 'warning',
+    impact: 'medium',
+    thresholds: { maxRequests: 20 },
+    recommendation: t => `Keep third-party requests under ${t.maxRequests}: remove unused tags and widgets, and self-host what you can`,
+    check: (pageData, t) => pageData.performance?.resources.thirdParty?.requests > t.maxRequests && {
+      current: pageData.performance.resources.thirdParty.requests,
+      count: pageData.performance.resources.thirdPartyHosts.length
+    }
+  }
+];
+
+/**
+ * Page sections as a backend reported them: V2 pageData, or V1 pageAnalysis,
+ * which counts images without alt text as withoutAltCount
+ */
+export type RulePageInput = Partial<Omit<AuditPageData, 'images' | 'technical'>> & {
+  technical?: Partial<AuditPageData['technical']>;
+  images?: { total?: number; withoutAlt?: number; withoutAltCount?: number };
+};
+
+/**
+ * Adapt V1 pageAnalysis or V2 pageData into the shape rules check.
+ * Sections the source doesn't have stay undefined so rules depending on
+ * them are skipped rather than reported as failures
+ * @param analysis pageData or pageAnalysis object
+ * @returns Page data for rule evaluation
+ */
+export function toRulePageData(analysis: RulePageInput): AuditPageData {
+  if (!analysis) return {} as AuditPageData;
+
+  return {
+    title: analysis.title,
+    metaDescription: analysis.metaDescription,
+    headings: analysis.headings,
+    content: analysis.content,
+    links: analysis.links,
+    images: analysis.images && {
+      total: analysis.images.total ?? 0,
+      withoutAlt: analysis.images.withoutAlt ?? analysis.images.withoutAltCount ?? 0
+    },
+    technical: analysis.technical,
+    hreflang: analysis.hreflang,
+    http: analysis.http,
+    performance: analysis.performance
+  } as AuditPageData;
+}
+
+/**
+ * Create a rule registry
+ * @param rules Rules to register initially
+ * @param config Project configuration to apply
+ * @returns Rule registry
+ */
+export function createRuleRegistry(rules: AuditRule[] = defaultRules, config: RuleConfig = {}) {
+  const registered = new Map<string, AuditRule>();
+  let currentConfig: RuleConfig = { disabled: [], overrides: {} };
+
+  const getOverride = (id: string) => currentConfig.overrides?.[id] || {};
+
+  const registry = {
+    /**
+     * Register a rule, replacing any existing rule with the same id
+     */
+    register: (rule: AuditRule): void => {
+      registered.set(rule.id, rule);
+    },
+
+    /**
+     * Get a rule with the project overrides applied
+     */
+    get: (id: string): AuditRule | undefined => {
+      const rule = registered.get(id);
+      if (!rule) return undefined;
+
+      const override = getOverride(id);
+      return {
+        ...rule,
+        severity: override.severity || rule.severity,
+        impact: override.impact || rule.impact,
+        thresholds: { ...rule.thresholds, ...override.thresholds }
+      };
+    },
+
+    /**
+     * List all registered rules with overrides applied
+     */
+    list: (): AuditRule[] => Array.from(registered.keys()).map(id => registry.get(id)),
+
+    isEnabled: (id: string): boolean => !currentConfig.disabled?.includes(id),
+
+    enable: (id: string): void => {
+      currentConfig.disabled = (currentConfig.disabled || []).filter(disabledId => disabledId !== id);
+    },
+
+    disable: (id: string): void => {
+      if (registry.isEnabled(id)) {
+        currentConfig.disabled = [...(currentConfig.disabled || []), id];
+      }
+    },
+
+    /**
+     * Override thresholds for a rule (merged with its defaults)
+     */
+    setThresholds: (id: string, thresholds: RuleThresholds): void => {
+      const override = getOverride(id);
+      currentConfig.overrides = {
+        ...currentConfig.overrides,
+        [id]: { ...override, thresholds: { ...override.thresholds, ...thresholds } }
+      };
+    },
+
+    /**
+     * Effective thresholds for a rule
+     */
+    getThresholds: (id: string): RuleThresholds => registry.get(id)?.thresholds || {},
+
+    /**
+     * Replace the project configuration
+     */
+    configure: (newConfig: RuleConfig): void => {
+      currentConfig = {
+        disabled: [...(newConfig.disabled || [])],
+        overrides: { ...newConfig.overrides }
+      };
+    },
+
+    getConfig: (): RuleConfig => ({
+      disabled: [...(currentConfig.disabled || [])],
+      overrides: { ...currentConfig.overrides }
+    }),
+
+    /**
+     * Run enabled rules and return a flat list of issues
+     * @param pageData Page data to check
+     * @param url URL of the page
+     * @param ids Optional subset of rule ids to run
+     */
+    run: (pageData: AuditPageData, url: string, ids?: string[]): RuleIssue[] => {
+      const issues: RuleIssue[] = [];
+
+      registry.list().forEach(rule => {
+        if (!registry.isEnabled(rule.id) || (ids && !ids.includes(rule.id))) {
+          return;
+        }
+
+        let result: RuleCheckResult;
+        try {
+          result = rule.check(pageData, rule.thresholds, url);
+        } catch (error) {
+          console.warn(`Rule ${rule.id} failed to run:`, error);
+          return;
+        }
+
+        if (!result) return;
+
+        issues.push({
+          ruleId: rule.id,
+          title: rule.title,
+          category: rule.category,
+          type: rule.id,
+          severity: rule.severity,
+          impact: rule.impact,
+          recommendation: typeof rule.recommendation === 'function'
+            ? rule.recommendation(rule.thresholds)
+            : rule.recommendation,
+          ...(typeof result === 'object' ? result : {})
+        });
+      });
+
+      return issues;
+    },
+
+    /**
+     * Run enabled rules and group issues by category
+     */
+    evaluate: (pageData: AuditPageData, url: string): Record<RuleCategory, AuditIssue[]> => {
+      const grouped: Record<RuleCategory, AuditIssue[]> = {
+        metadata: [],
+        content: [],
+        technical: [],
+        userExperience: []
+      };
+
+      registry.run(pageData, url).forEach(({ ruleId, title, category, ...issue }) => {
+        grouped[category].push(issue);
+      });
+
+      return grouped;
+    }
+  };
+
+  rules.forEach(rule => registry.register(rule));
+  registry.configure(config);
+
+  return registry;
+}
+
+export type RuleRegistry = ReturnType<typeof createRuleRegistry>;
+
+/**
+ * Shared registry used by the app
+ */
+export const ruleRegistry = createRuleRegistry();
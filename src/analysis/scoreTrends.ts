@@ -0,0 +1,136 @@
+/**
+ * Score trends
+ * Turns saved audits into time series of overall and per-category scores,
+ * per URL or aggregated per domain, and marks the points where the number
+ * of issues changed so charts can annotate them
+ */
+import { AuditCategoryName, AuditResult } from '../api/types';
+import { AuditHistoryEntry, getDomain } from '../storage/auditHistory';
+import { CATEGORY_NAMES } from './auditDiff';
+
+/**
+ * One audit of one URL at a point in time
+ */
+export interface TrendSample {
+  url: string;
+  recordedAt: string;
+  result: AuditResult;
+}
+
+export type TrendPoint = Record<AuditCategoryName, number> & {
+  // Epoch milliseconds, used as the chart's x value
+  time: number;
+  score: number;
+  totalIssues: number;
+  criticalIssues: number;
+  // URLs averaged into this point (1 for URL trends)
+  urlCount: number;
+};
+
+export interface TrendAnnotation {
+  time: number;
+  issueDelta: number;
+  label: string;
+}
+
+export type TrendBucket = 'run' | 'day' | 'week';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Collect the successful audits in history as samples, including every
+ * URL audited as part of a batch
+ */
+export function samplesFromHistory(entries: AuditHistoryEntry[]): TrendSample[] {
+  const samples: TrendSample[] = [];
+
+  entries.forEach(entry => {
+    const results = entry.kind === 'batch' ? entry.batch?.results || [] : entry.result ? [entry.result] : [];
+
+    results
+      .filter(result => result.status !== 'error')
+      .forEach(result => samples.push({ url: result.url, recordedAt: entry.createdAt, result }));
+  });
+
+  return samples.sort((a, b) => a.recordedAt.localeCompare(b.recordedAt));
+}
+
+function toPoint(time: number, results: AuditResult[]): TrendPoint {
+  const average = (values: number[]) => Math.round(values.reduce((sum, value) => sum + value, 0) / values.length);
+
+  const point = {
+    time,
+    score: average(results.map(result => result.score)),
+    totalIssues: average(results.map(result => result.totalIssuesCount)),
+    criticalIssues: average(results.map(result => result.criticalIssuesCount)),
+    urlCount: results.length
+  } as TrendPoint;
+
+  CATEGORY_NAMES.forEach(category => {
+    point[category] = average(results.map(result => result.categories[category].score));
+  });
+
+  return point;
+}
+
+function bucketStart(time: number, bucket: TrendBucket): number {
+  if (bucket === 'run') return time;
+
+  const day = new Date(time);
+  day.setHours(0, 0, 0, 0);
+  if (bucket === 'day') return day.getTime();
+
+  // Weeks start on Monday
+  const offset = (day.getDay() + 6) % 7;
+  return day.getTime() - offset * DAY_MS;
+}
+
+/**
+ * Score history of a single URL, one point per audit
+ */
+export function buildUrlTrend(samples: TrendSample[], url: string): TrendPoint[] {
+  return samples
+    .filter(sample => sample.url === url)
+    .map(sample => toPoint(Date.parse(sample.recordedAt), [sample.result]));
+}
+
+/**
+ * Score history of a domain. Within each bucket the latest audit of every
+ * URL on the domain is taken and the scores are averaged
+ * @param samples Samples from history
+ * @param domain Hostname without www.
+ * @param bucket Group audits per run, day or week
+ */
+export function buildDomainTrend(samples: TrendSample[], domain: string, bucket: TrendBucket = 'day'): TrendPoint[] {
+  const buckets = new Map<number, Map<string, TrendSample>>();
+
+  samples
+    .filter(sample => getDomain(sample.url) === domain)
+    .forEach(sample => {
+      const key = bucketStart(Date.parse(sample.recordedAt), bucket);
+      const latestPerUrl = buckets.get(key) || new Map<string, TrendSample>();
+      // Samples are sorted oldest first, so later ones replace earlier ones
+      latestPerUrl.set(sample.url, sample);
+      buckets.set(key, latestPerUrl);
+    });
+
+  return Array.from(buckets.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([time, latestPerUrl]) => toPoint(time, Array.from(latestPerUrl.values()).map(sample => sample.result)));
+}
+
+/**
+ * Points where the issue count went up or down compared to the previous point
+ */
+export function issueAnnotations(points: TrendPoint[]): TrendAnnotation[] {
+  return points.slice(1).flatMap((point, index) => {
+    const issueDelta = point.totalIssues - points[index].totalIssues;
+    if (issueDelta === 0) return [];
+
+    return [{
+      time: point.time,
+      issueDelta,
+      label: `${issueDelta > 0 ? '+' : ''}${issueDelta} issue${Math.abs(issueDelta) === 1 ? '' : 's'}`
+    }];
+  });
+}
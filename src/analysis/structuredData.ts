@@ -0,0 +1,410 @@
+/**
+ * Structured data
+ * Extracts JSON-LD, Microdata and RDFa items from a document into one tree
+ * shape, validates them against the properties search engines need for the
+ * common schema.org types, and works out which rich results they qualify for
+ */
+import type {
+  RichResultEligibility,
+  StructuredDataFormat,
+  StructuredDataItem,
+  StructuredDataNode,
+  StructuredDataReport
+} from '../api/types';
+
+/**
+ * Requirements for a schema.org type. A nested array lists alternatives,
+ * any one of which satisfies the requirement
+ */
+export interface SchemaTypeRules {
+  required: Array<string | string[]>;
+  recommended: string[];
+  // Rich result the type can produce, with any properties it needs on top of `required`
+  richResult?: {
+    feature: string;
+    required?: string[];
+  };
+}
+
+export const SCHEMA_TYPE_RULES: Record<string, SchemaTypeRules> = {
+  Article: {
+    required: ['headline'],
+    recommended: ['image', 'author', 'datePublished', 'dateModified', 'publisher'],
+    richResult: { feature: 'Article', required: ['image'] }
+  },
+  Product: {
+    required: ['name', ['offers', 'review', 'aggregateRating']],
+    recommended: ['image', 'description', 'brand', 'sku', 'offers', 'aggregateRating', 'review'],
+    richResult: { feature: 'Product snippet' }
+  },
+  Offer: {
+    required: [['price', 'priceSpecification'], 'priceCurrency'],
+    recommended: ['availability', 'url', 'priceValidUntil']
+  },
+  AggregateRating: {
+    required: ['ratingValue', ['ratingCount', 'reviewCount']],
+    recommended: ['bestRating', 'worstRating']
+  },
+  Review: {
+    required: ['author', 'reviewRating'],
+    recommended: ['datePublished', 'reviewBody']
+  },
+  Rating: {
+    required: ['ratingValue'],
+    recommended: ['bestRating', 'worstRating']
+  },
+  FAQPage: {
+    required: ['mainEntity'],
+    recommended: [],
+    richResult: { feature: 'FAQ' }
+  },
+  Question: {
+    required: ['name', 'acceptedAnswer'],
+    recommended: []
+  },
+  Answer: {
+    required: ['text'],
+    recommended: []
+  },
+  BreadcrumbList: {
+    required: ['itemListElement'],
+    recommended: [],
+    richResult: { feature: 'Breadcrumb' }
+  },
+  ListItem: {
+    required: ['position', ['name', 'item']],
+    recommended: []
+  },
+  Organization: {
+    required: [],
+    recommended: ['name', 'url', 'logo', 'sameAs', 'contactPoint'],
+    richResult: { feature: 'Logo', required: ['url', 'logo'] }
+  },
+  LocalBusiness: {
+    required: ['name', 'address'],
+    recommended: ['telephone', 'url', 'image', 'geo', 'openingHoursSpecification', 'priceRange'],
+    richResult: { feature: 'Local business' }
+  },
+  PostalAddress: {
+    required: [],
+    recommended: ['streetAddress', 'addressLocality', 'postalCode', 'addressCountry']
+  },
+  Event: {
+    required: ['name', 'startDate', 'location'],
+    recommended: ['description', 'endDate', 'image', 'offers', 'organizer', 'eventStatus'],
+    richResult: { feature: 'Event' }
+  },
+  Recipe: {
+    required: ['name', 'image'],
+    recommended: ['author', 'recipeIngredient', 'recipeInstructions', 'totalTime', 'nutrition', 'aggregateRating'],
+    richResult: { feature: 'Recipe' }
+  }
+};
+
+// Subtypes validated with their parent's rules
+const SCHEMA_PARENT_TYPES: Record<string, string> = {
+  NewsArticle: 'Article',
+  BlogPosting: 'Article',
+  TechArticle: 'Article',
+  ScholarlyArticle: 'Article',
+  Report: 'Article',
+  ProductGroup: 'Product',
+  Corporation: 'Organization',
+  NGO: 'Organization',
+  EducationalOrganization: 'Organization',
+  OnlineStore: 'Organization',
+  Restaurant: 'LocalBusiness',
+  Store: 'LocalBusiness',
+  Dentist: 'LocalBusiness',
+  LodgingBusiness: 'LocalBusiness',
+  Hotel: 'LocalBusiness',
+  MedicalBusiness: 'LocalBusiness',
+  ProfessionalService: 'LocalBusiness',
+  AutoDealer: 'LocalBusiness',
+  FoodEstablishment: 'LocalBusiness',
+  HomeAndConstructionBusiness: 'LocalBusiness',
+  LegalService: 'LocalBusiness',
+  FinancialService: 'LocalBusiness',
+  AggregateOffer: 'Offer',
+  EmployerAggregateRating: 'AggregateRating'
+};
+
+/**
+ * Strip the schema.org vocabulary from a type or property name
+ */
+function stripVocabulary(name: string): string {
+  return name.trim().replace(/^https?:\/\/schema\.org\//i, '').replace(/^schema:/i, '');
+}
+
+function addValue(node: StructuredDataNode, name: string, value: string | StructuredDataNode): void {
+  const key = stripVocabulary(name);
+  if (!key) return;
+  (node.properties[key] = node.properties[key] || []).push(value);
+}
+
+/**
+ * Convert a JSON-LD value into property values
+ */
+function fromJsonLd(value: unknown): Array<string | StructuredDataNode> {
+  if (value === null || value === undefined) return [];
+  if (Array.isArray(value)) return value.flatMap(fromJsonLd);
+  if (typeof value !== 'object') return [String(value)];
+
+  const object = value as Record<string, unknown>;
+  // Value objects and bare references
+  if ('@value' in object) return fromJsonLd(object['@value']);
+  if (!object['@type'] && Object.keys(object).every(key => key.startsWith('@'))) {
+    return object['@id'] ? [String(object['@id'])] : [];
+  }
+
+  const types = object['@type'];
+  const node: StructuredDataNode = {
+    types: (Array.isArray(types) ? types : types ? [types] : []).map(type => stripVocabulary(String(type))),
+    properties: {}
+  };
+  Object.entries(object).forEach(([key, propertyValue]) => {
+    if (key.startsWith('@')) return;
+    fromJsonLd(propertyValue).forEach(item => addValue(node, key, item));
+  });
+  return [node];
+}
+
+/**
+ * Top-level items of every JSON-LD block; @graph members count as items
+ */
+function extractJsonLd(doc: Document, errors: Array<{ message: string }>): StructuredDataNode[] {
+  const nodes: StructuredDataNode[] = [];
+
+  doc.querySelectorAll('script[type="application/ld+json" i]').forEach((script, index) => {
+    let data: unknown;
+    try {
+      data = JSON.parse(script.textContent || '');
+    } catch (e) {
+      errors.push({ message: `JSON-LD block ${index + 1} is not valid JSON: ${(e as Error).message}` });
+      return;
+    }
+
+    const roots = Array.isArray(data) ? data : [data];
+    roots.forEach(root => {
+      const graph = root && typeof root === 'object' ? (root as Record<string, unknown>)['@graph'] : undefined;
+      (Array.isArray(graph) ? graph : [root]).forEach(entry => {
+        fromJsonLd(entry).forEach(node => {
+          if (typeof node !== 'string') nodes.push(node);
+        });
+      });
+    });
+  });
+
+  return nodes;
+}
+
+/**
+ * Value of a Microdata or RDFa property element
+ */
+function elementValue(el: Element, contentAttributes: string[]): string {
+  for (const attribute of contentAttributes) {
+    const value = el.getAttribute(attribute);
+    if (value !== null) return value.trim();
+  }
+
+  const tag = el.tagName.toLowerCase();
+  const attributeByTag: Record<string, string> = {
+    a: 'href', link: 'href', area: 'href',
+    img: 'src', audio: 'src', video: 'src', source: 'src', embed: 'src', iframe: 'src',
+    object: 'data', time: 'datetime', data: 'value', meter: 'value'
+  };
+  const attribute = attributeByTag[tag];
+  if (attribute && el.getAttribute(attribute) !== null) {
+    return el.getAttribute(attribute).trim();
+  }
+  return (el.textContent || '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Collect the items of one syntax (Microdata or RDFa), which share the same
+ * shape: a scope attribute starts an item, a property attribute names a
+ * value, and nested scopes become nested items
+ */
+function extractAttributeItems(
+  doc: Document,
+  syntax: { scope: string; type: string; property: string; content: string[] }
+): StructuredDataNode[] {
+  const toNode = (el: Element): StructuredDataNode => {
+    const node: StructuredDataNode = {
+      types: (el.getAttribute(syntax.type) || '')
+        .split(/\s+/)
+        .filter(Boolean)
+        .map(type => stripVocabulary(type.split('/').pop() || type)),
+      properties: {}
+    };
+
+    const walk = (parent: Element) => {
+      Array.from(parent.children).forEach(child => {
+        const names = (child.getAttribute(syntax.property) || '').split(/\s+/).filter(Boolean);
+        const nested = child.hasAttribute(syntax.scope);
+        if (names.length > 0) {
+          const value = nested ? toNode(child) : elementValue(child, syntax.content);
+          names.forEach(name => addValue(node, name.split('/').pop() || name, value));
+        }
+        // Properties inside a nested item belong to that item
+        if (!nested) walk(child);
+      });
+    };
+    walk(el);
+
+    return node;
+  };
+
+  // Items that aren't a property of another item
+  return Array.from(doc.querySelectorAll(`[${syntax.scope}]`))
+    .filter(el => !el.hasAttribute(syntax.property))
+    .map(toNode);
+}
+
+/**
+ * Extract every structured data item on a page
+ * @param doc Parsed document
+ * @param errors Receives JSON-LD blocks that couldn't be parsed
+ * @returns Top-level items with their nested items
+ */
+export function extractStructuredData(doc: Document, errors: Array<{ message: string }> = []): StructuredDataItem[] {
+  const withFormat = (format: StructuredDataFormat) => (node: StructuredDataNode): StructuredDataItem => ({ ...node, format });
+
+  return [
+    ...extractJsonLd(doc, errors).map(withFormat('json-ld')),
+    ...extractAttributeItems(doc, {
+      scope: 'itemscope',
+      type: 'itemtype',
+      property: 'itemprop',
+      content: ['content']
+    }).map(withFormat('microdata')),
+    ...extractAttributeItems(doc, {
+      scope: 'typeof',
+      type: 'typeof',
+      property: 'property',
+      content: ['content', 'resource']
+    }).map(withFormat('rdfa'))
+  ];
+}
+
+/**
+ * Rules for the first of a node's types that has any
+ */
+export function getSchemaTypeRules(types: string[]): { type: string; rules: SchemaTypeRules } | undefined {
+  for (const type of types) {
+    const known = SCHEMA_TYPE_RULES[type] ? type : SCHEMA_PARENT_TYPES[type];
+    if (known) return { type, rules: SCHEMA_TYPE_RULES[known] };
+  }
+  return undefined;
+}
+
+const hasProperty = (node: StructuredDataNode, name: string) =>
+  (node.properties[name] || []).some(value => value !== '');
+
+const missingFrom = (node: StructuredDataNode, requirements: Array<string | string[]>) =>
+  requirements
+    .filter(requirement => !(Array.isArray(requirement) ? requirement : [requirement]).some(name => hasProperty(node, name)))
+    .map(requirement => (Array.isArray(requirement) ? requirement.join(' or ') : requirement));
+
+const nestedNodes = (node: StructuredDataNode) =>
+  Object.entries(node.properties).flatMap(([name, values]) =>
+    values.filter((value): value is StructuredDataNode => typeof value !== 'string').map(value => ({ name, value }))
+  );
+
+/**
+ * Set missingRequired and missingRecommended on a node and its nested nodes
+ * @param node Item to validate, updated in place
+ * @param path Where the node sits, for messages
+ * @param report Receives an error per missing required and a warning per missing recommended property
+ */
+function validateNode(node: StructuredDataNode, path: string, report: Pick<StructuredDataReport, 'errors' | 'warnings'>): void {
+  const known = getSchemaTypeRules(node.types);
+  if (known) {
+    node.missingRequired = missingFrom(node, known.rules.required);
+    node.missingRecommended = missingFrom(node, known.rules.recommended);
+    node.missingRequired.forEach(name => report.errors.push({ message: `${path}: missing required property ${name}` }));
+    node.missingRecommended.forEach(name => report.warnings.push({ message: `${path}: missing recommended property ${name}` }));
+  }
+
+  nestedNodes(node).forEach(({ name, value }) => {
+    validateNode(value, `${path} > ${name}${value.types.length > 0 ? ` (${value.types.join(', ')})` : ''}`, report);
+  });
+}
+
+/**
+ * Required properties missing anywhere in a validated node, with their paths
+ */
+function collectMissing(node: StructuredDataNode, prefix = ''): string[] {
+  return [
+    ...(node.missingRequired || []).map(name => `${prefix}${name}`),
+    ...nestedNodes(node).flatMap(({ name, value }) => collectMissing(value, `${prefix}${name}.`))
+  ];
+}
+
+/**
+ * Which rich results the top-level items qualify for
+ */
+function getRichResults(items: StructuredDataItem[]): RichResultEligibility[] {
+  return items.flatMap(item => {
+    const known = getSchemaTypeRules(item.types);
+    if (!known?.rules.richResult) return [];
+
+    const { feature, required = [] } = known.rules.richResult;
+    const missing = [...collectMissing(item), ...missingFrom(item, required)];
+    return [{ feature, type: known.type, eligible: missing.length === 0, missing }];
+  });
+}
+
+/**
+ * Extract and validate a page's structured data
+ * @param doc Parsed document
+ * @returns Validated items, issues and rich result eligibility
+ */
+export function analyzeStructuredData(doc: Document): StructuredDataReport {
+  const report: StructuredDataReport = {
+    present: false,
+    status: 'missing',
+    count: 0,
+    types: [],
+    formats: { jsonLd: 0, microdata: 0, rdfa: 0 },
+    items: [],
+    errors: [],
+    warnings: [],
+    richResults: [],
+    recommendations: []
+  };
+
+  const items = extractStructuredData(doc, report.errors);
+  items.forEach(item => validateNode(item, item.types.join(', ') || 'Untyped item', report));
+
+  report.items = items;
+  report.count = items.length;
+  report.present = items.length > 0;
+  report.types = Array.from(new Set(items.flatMap(item => item.types)));
+  report.formats = {
+    jsonLd: items.filter(item => item.format === 'json-ld').length,
+    microdata: items.filter(item => item.format === 'microdata').length,
+    rdfa: items.filter(item => item.format === 'rdfa').length
+  };
+  report.richResults = getRichResults(items);
+
+  if (report.errors.length > 0) {
+    report.status = 'error';
+  } else if (report.warnings.length > 0) {
+    report.status = 'warning';
+  } else if (report.present) {
+    report.status = 'good';
+  }
+
+  if (!report.present) {
+    report.recommendations.push('Add schema.org markup (JSON-LD recommended) describing the page\'s main content');
+  }
+  if (report.errors.length > 0) {
+    report.recommendations.push('Add the missing required properties so the markup qualifies for rich results');
+  }
+  if (report.present && !report.richResults.some(result => result.eligible)) {
+    report.recommendations.push('None of the markup qualifies for a rich result; consider Article, Product, FAQPage or BreadcrumbList markup');
+  }
+
+  return report;
+}
@@ -0,0 +1,78 @@
+/**
+ * Web Vitals
+ * Thresholds, ratings and scores for lab-measured page performance. The
+ * thresholds are the ones search engines publish for Core Web Vitals (LCP,
+ * CLS, INP), plus the usual lab thresholds for FCP, TTFB and total blocking time
+ */
+import { LabPerformanceData, WebVitalMetric, WebVitalName, WebVitalRating } from '../api/types';
+
+export interface WebVitalThreshold {
+  // At or below: good
+  good: number;
+  // Above: poor
+  poor: number;
+  unit?: string;
+  label: string;
+}
+
+export const WEB_VITAL_THRESHOLDS: Record<WebVitalName, WebVitalThreshold> = {
+  lcp: { good: 2500, poor: 4000, unit: 'ms', label: 'Largest Contentful Paint' },
+  fcp: { good: 1800, poor: 3000, unit: 'ms', label: 'First Contentful Paint' },
+  cls: { good: 0.1, poor: 0.25, label: 'Cumulative Layout Shift' },
+  inp: { good: 200, poor: 500, unit: 'ms', label: 'Interaction to Next Paint' },
+  ttfb: { good: 800, poor: 1800, unit: 'ms', label: 'Time to First Byte' },
+  tbt: { good: 200, poor: 600, unit: 'ms', label: 'Total Blocking Time' }
+};
+
+// Metrics that make up Core Web Vitals
+export const CORE_WEB_VITALS: WebVitalName[] = ['lcp', 'cls', 'inp'];
+
+/**
+ * Rate a measurement against its thresholds
+ */
+export function rateWebVital(name: WebVitalName, value: number): WebVitalRating {
+  const { good, poor } = WEB_VITAL_THRESHOLDS[name];
+  if (value <= good) return 'good';
+  return value <= poor ? 'needs_improvement' : 'poor';
+}
+
+/**
+ * Score a measurement 0-100: 90 and up is good, 50-89 needs improvement, below 50 is poor
+ */
+export function scoreWebVital(name: WebVitalName, value: number): number {
+  const { good, poor } = WEB_VITAL_THRESHOLDS[name];
+  let score: number;
+  if (value <= good) {
+    score = 100 - (10 * value) / good;
+  } else if (value <= poor) {
+    score = 90 - (40 * (value - good)) / (poor - good);
+  } else {
+    score = 50 - (50 * (value - poor)) / poor;
+  }
+  return Math.round(Math.max(0, Math.min(100, score)));
+}
+
+/**
+ * A measurement with its rating and score
+ * @param name Metric
+ * @param value Milliseconds, or the shift score for CLS
+ */
+export function toWebVitalMetric(name: WebVitalName, value: number): WebVitalMetric {
+  const { unit } = WEB_VITAL_THRESHOLDS[name];
+  const rating = rateWebVital(name, value);
+  return {
+    value: name === 'cls' ? Math.round(value * 1000) / 1000 : Math.round(value),
+    ...(unit ? { unit } : {}),
+    score: scoreWebVital(name, value),
+    rating,
+    passed: rating === 'good'
+  };
+}
+
+/**
+ * Whether every measured Core Web Vital is good
+ */
+export function passesCoreWebVitals(metrics: LabPerformanceData['metrics']): boolean {
+  const measured = CORE_WEB_VITALS.filter(name => metrics[name]);
+  return measured.length > 0 && measured.every(name => metrics[name].passed);
+}
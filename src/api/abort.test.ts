@@ -0,0 +1,36 @@
+import { getEventListeners } from 'events';
+import { describe, expect, it } from 'vitest';
+import { delay, withTimeout } from './abort';
+
+describe('withTimeout', () => {
+  it('aborts with a TimeoutError after the timeout', async () => {
+    const signal = withTimeout(10, new AbortController().signal);
+    await delay(50);
+    expect(signal.aborted).toBe(true);
+    expect(signal.reason.name).toBe('TimeoutError');
+  });
+
+  it("aborts with the caller's reason when the caller cancels", () => {
+    const controller = new AbortController();
+    const signal = withTimeout(10000, controller.signal);
+    controller.abort(new Error('Cancelled'));
+    expect(signal.aborted).toBe(true);
+    expect(signal.reason.message).toBe('Cancelled');
+  });
+
+  it("leaves no listeners on the caller's signal", () => {
+    const controller = new AbortController();
+    for (let i = 0; i < 50; i++) withTimeout(10000, controller.signal);
+    expect(getEventListeners(controller.signal, 'abort')).toHaveLength(0);
+  });
+});
+
+describe('delay', () => {
+  it('rejects early when the signal aborts', async () => {
+    const controller = new AbortController();
+    const waiting = delay(10000, controller.signal);
+    controller.abort(new Error('Cancelled'));
+    await expect(waiting).rejects.toThrow('Cancelled');
+    expect(getEventListeners(controller.signal, 'abort')).toHaveLength(0);
+  });
+});
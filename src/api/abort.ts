@@ -0,0 +1,45 @@
+/**
+ * AbortSignal helpers
+ * Client methods accept the caller's signal and combine it with their own
+ * per-request timeouts, so cancelling stops retries, fallback endpoints and
+ * polling as well as the request in flight
+ */
+
+/**
+ * Signal that aborts when the caller's signal does or after a timeout.
+ * AbortSignal.any doesn't keep listeners on the caller's signal once the
+ * combined signal is garbage collected, so long-lived signals can be passed
+ * to any number of requests
+ * @param timeoutMs Timeout for this request
+ * @param signal Caller's signal
+ * @returns Combined signal; its reason tells a timeout from a cancel
+ */
+export function withTimeout(timeoutMs: number, signal?: AbortSignal): AbortSignal {
+  const timeout = AbortSignal.timeout(timeoutMs);
+  return signal ? AbortSignal.any([signal, timeout]) : timeout;
+}
+
+/**
+ * Wait, rejecting early with the signal's reason if it is aborted
+ * @param ms Delay in milliseconds
+ * @param signal Caller's signal
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
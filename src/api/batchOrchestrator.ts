@@ -0,0 +1,314 @@
+/**
+ * Batch orchestrator
+ * Runs batches of any size by splitting the URLs into server-sized chunks.
+ * Chunks go to the batch endpoint a few at a time; when no batch endpoint
+ * answers, the chunk's URLs are analyzed individually. Either way, requests
+ * to the same host are limited and spaced out, the run can be paused and
+ * resumed, and results are reported as each chunk completes
+ */
+import { AuditResult, BatchSeoAnalysisResponse, JobStatusResponse } from './types';
+import { CancelledError } from './errors';
+import { createErrorResult } from './normalizer';
+import { applyProgressEvent, createJobStatus } from './jobProgress';
+import { delay } from './abort';
+
+export interface BatchOrchestratorOptions {
+  // Analyze a chunk with a batch endpoint; rejects when no endpoint is available
+  analyzeChunk: (urls: string[], signal?: AbortSignal) => Promise<AuditResult[]>;
+  // Analyze one URL; used when the batch endpoints fail. Should resolve with
+  // an error result rather than reject for a page that can't be analyzed
+  analyzeUrl: (url: string, signal?: AbortSignal) => Promise<AuditResult>;
+  // URLs per batch request, the most the server accepts
+  chunkSize?: number;
+  // Chunks (or individual URLs, when falling back) in flight at once
+  concurrency?: number;
+  // Requests in flight to one host at once
+  maxConcurrentPerHost?: number;
+  // Minimum time between requests to the same host
+  hostDelayMs?: number;
+  signal?: AbortSignal;
+  onProgress?: (status: JobStatusResponse) => void;
+  // Every result so far, in input order, after each chunk completes, with
+  // the chunk's results and the URLs they belong to
+  onResults?: (results: AuditResult[], chunk: AuditResult[], chunkUrls: string[]) => void;
+}
+
+export const DEFAULT_CHUNK_SIZE = 20;
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch (e) {
+    return url;
+  }
+}
+
+/**
+ * Split URLs into chunks, taking from each host in turn so one large site
+ * doesn't fill every chunk while other hosts wait
+ * @returns Chunks of indexes into urls
+ */
+export function buildChunks(urls: string[], chunkSize: number): number[][] {
+  const byHost = new Map<string, number[]>();
+  urls.forEach((url, index) => {
+    const host = hostOf(url);
+    byHost.set(host, [...(byHost.get(host) || []), index]);
+  });
+
+  const queues = Array.from(byHost.values());
+  const interleaved: number[] = [];
+  for (let round = 0; interleaved.length < urls.length; round++) {
+    queues.forEach(queue => {
+      if (round < queue.length) interleaved.push(queue[round]);
+    });
+  }
+
+  const chunks: number[][] = [];
+  for (let i = 0; i < interleaved.length; i += chunkSize) {
+    chunks.push(interleaved.slice(i, i + chunkSize));
+  }
+  return chunks;
+}
+
+/**
+ * Wait for something to change, rejecting when the signal aborts
+ */
+function waitFor(waiters: Array<() => void>, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => reject(signal.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    waiters.push(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    });
+  });
+}
+
+function wakeAll(waiters: Array<() => void>): void {
+  waiters.splice(0).forEach(wake => wake());
+}
+
+/**
+ * Create an orchestrator for one batch run. Call run() to start it
+ * @param urls Normalized URLs to analyze
+ * @param options Analysis functions, limits and callbacks
+ */
+export function createBatchOrchestrator(urls: string[], options: BatchOrchestratorOptions) {
+  const {
+    analyzeChunk,
+    analyzeUrl,
+    chunkSize = DEFAULT_CHUNK_SIZE,
+    concurrency = 2,
+    maxConcurrentPerHost = 2,
+    hostDelayMs = 1000,
+    signal,
+    onProgress,
+    onResults
+  } = options;
+
+  const results: Array<AuditResult | undefined> = new Array(urls.length);
+  let completed = 0;
+  let paused = false;
+  let started = false;
+  // Once a chunk fails on every batch endpoint, later chunks skip straight to
+  // individual analysis instead of trying them all again
+  let batchEndpointsAvailable = true;
+
+  // Woken when the run resumes, a slot frees up, or a host becomes available
+  const waiters: Array<() => void> = [];
+  let active = 0;
+  const hosts = new Map<string, { active: number; lastStartedAt: number }>();
+
+  let progress = createJobStatus('batch-analysis', '', 'batch_audit');
+  const reportProgress = (message?: string) => {
+    progress = applyProgressEvent(progress, {
+      stage: 'analyzing',
+      progress: 5 + Math.round((completed / urls.length) * 95),
+      current: completed,
+      total: urls.length,
+      message
+    });
+    onProgress?.(progress);
+  };
+
+  const throwIfCancelled = () => {
+    if (signal?.aborted) {
+      throw new CancelledError('The audit was cancelled');
+    }
+  };
+
+  /**
+   * Hold while paused; rejects when the run is cancelled
+   */
+  const waitWhilePaused = async () => {
+    while (paused) {
+      await waitFor(waiters, signal);
+    }
+    throwIfCancelled();
+  };
+
+  /**
+   * Take a run slot and a slot for each host, waiting out the host delay
+   * @returns Release function
+   */
+  const acquire = async (hostNames: string[]): Promise<() => void> => {
+    for (;;) {
+      await waitWhilePaused();
+
+      const busy = active >= concurrency ||
+        hostNames.some(host => (hosts.get(host)?.active || 0) >= maxConcurrentPerHost);
+      if (busy) {
+        await waitFor(waiters, signal);
+        continue;
+      }
+
+      const now = Date.now();
+      const wait = Math.max(0, ...hostNames.map(host => (hosts.get(host)?.lastStartedAt ?? -Infinity) + hostDelayMs - now));
+      if (wait > 0) {
+        await delay(wait, signal);
+        continue;
+      }
+      break;
+    }
+
+    active++;
+    hostNames.forEach(host => {
+      const state = hosts.get(host) || { active: 0, lastStartedAt: 0 };
+      hosts.set(host, { active: state.active + 1, lastStartedAt: Date.now() });
+    });
+
+    return () => {
+      active--;
+      hostNames.forEach(host => {
+        const state = hosts.get(host);
+        if (state) state.active--;
+      });
+      wakeAll(waiters);
+    };
+  };
+
+  const record = (indexes: number[], chunkResults: AuditResult[]) => {
+    indexes.forEach((index, i) => {
+      results[index] = chunkResults[i];
+    });
+    completed += indexes.length;
+    reportProgress();
+    onResults?.(results.filter(Boolean), chunkResults, indexes.map(index => urls[index]));
+  };
+
+  const analyzeIndividually = async (index: number): Promise<AuditResult> => {
+    const release = await acquire([hostOf(urls[index])]);
+    try {
+      return await analyzeUrl(urls[index], signal);
+    } finally {
+      release();
+    }
+  };
+
+  const runChunk = async (indexes: number[]): Promise<void> => {
+    const chunkUrls = indexes.map(index => urls[index]);
+
+    if (batchEndpointsAvailable) {
+      const release = await acquire(Array.from(new Set(chunkUrls.map(hostOf))));
+      try {
+        const chunkResults = await analyzeChunk(chunkUrls, signal);
+        // Endpoints return results in request order; match by URL if some are missing
+        const matched = chunkResults.length === chunkUrls.length
+          ? chunkResults
+          : chunkUrls.map(url =>
+              chunkResults.find(result => result.url === url) ||
+              createErrorResult(url, 'The batch endpoint returned no result for this URL', 'invalid_response'));
+        record(indexes, matched);
+        return;
+      } catch (error) {
+        throwIfCancelled();
+        console.warn('Batch endpoints failed, analyzing the chunk URL by URL:', error);
+        batchEndpointsAvailable = false;
+      } finally {
+        release();
+      }
+    }
+
+    const chunkResults = await Promise.all(indexes.map(analyzeIndividually));
+    record(indexes, chunkResults);
+  };
+
+  const orchestrator = {
+    /**
+     * Analyze every URL
+     * @returns Results in input order
+     * @throws CancelledError when the signal aborts
+     */
+    run: async (): Promise<BatchSeoAnalysisResponse> => {
+      if (started) {
+        throw new Error('The batch has already been started');
+      }
+      started = true;
+
+      const chunks = buildChunks(urls, chunkSize);
+      console.log(`Processing ${urls.length} URLs in ${chunks.length} chunks of up to ${chunkSize}`);
+      reportProgress('Submitting URLs for analysis');
+
+      // Chunks start in order as slots free up; acquire() does the limiting
+      let next = 0;
+      const worker = async () => {
+        while (next < chunks.length) {
+          await runChunk(chunks[next++]);
+        }
+      };
+      try {
+        await Promise.all(Array.from({ length: Math.min(concurrency, chunks.length) }, worker));
+      } catch (error) {
+        // Waits reject with the signal's reason; report cancels consistently
+        throwIfCancelled();
+        throw error;
+      }
+      throwIfCancelled();
+
+      progress = applyProgressEvent(progress, { stage: 'completed' });
+      onProgress?.(progress);
+
+      return {
+        status: 'success',
+        message: batchEndpointsAvailable
+          ? 'Batch analysis completed'
+          : 'Batch analysis completed (fallback to individual analyses)',
+        totalUrls: urls.length,
+        timestamp: new Date().toISOString(),
+        cached: false,
+        results: results as AuditResult[]
+      };
+    },
+
+    /**
+     * Stop starting new requests; those in flight finish
+     */
+    pause: (): void => {
+      if (paused) return;
+      paused = true;
+      reportProgress('Paused');
+    },
+
+    resume: (): void => {
+      if (!paused) return;
+      paused = false;
+      reportProgress('Resuming');
+      wakeAll(waiters);
+    },
+
+    isPaused: (): boolean => paused,
+
+    /**
+     * Results so far, in input order
+     */
+    getResults: (): AuditResult[] => results.filter(Boolean)
+  };
+
+  return orchestrator;
+}
+
+export type BatchOrchestrator = ReturnType<typeof createBatchOrchestrator>;
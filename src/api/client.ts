@@ -8,101 +8,205 @@ import {
   JobStatusResponse,
   JobResultsResponse,
   HealthCheckResponse,
-  SeoAnalysisResponse
+  SeoAnalysisResponse,
+  BatchSeoAnalysisResponse,
+  AuditResult,
+  JobProgressEvent
 } from './types';
+import { normalizeAuditResult, normalizeBatchResults, createErrorResult, readResponseEnvelope } from './normalizer';
+import {
+  AuditApiError,
+  ApiErrorContext,
+  BackendAnalysisError,
+  InvalidUrlError,
+  TimeoutError,
+  errorFromBackend,
+  errorFromResponse,
+  isApiError,
+  toApiError
+} from './errors';
+import { createEndpointRegistry } from './endpointRegistry';
+import { applyProgressEvent, createJobStatus, watchJobProgress } from './jobProgress';
+import { delay, withTimeout } from './abort';
+import { BatchOrchestrator, BatchOrchestratorOptions, createBatchOrchestrator } from './batchOrchestrator';
+import { isValidUrl, normalizeUrl } from './url';
+import { analyzeHtml } from '../analysis/htmlAnalyzer';
 import { performBatchAnalysis } from '../services/realBatchApiService';
 import { performEnhancedAnalysis } from '../services/realEnhancedApiService';
 
 // Backend API URL - will use environment variable in production
 const API_BASE_URL = import.meta.env.VITE_API_URL || '/api';
 
+/**
+ * Endpoints per capability, in fallback order. The registry reorders them
+ * so the one that last worked is tried first
+ */
+export const endpointRegistry = createEndpointRegistry([
+  { id: 'seo-analyze', capability: 'seoAnalyze', url: `${API_BASE_URL}/seo-analyze` },
+  { id: 'v2-seo-analyze', capability: 'seoAnalyze', url: `${API_BASE_URL}/v2/seo-analyze` },
+  { id: 'real-seo-audit', capability: 'seoAnalyze', url: `${API_BASE_URL}/api/real-seo-audit` },
+  { id: 'basic-audit', capability: 'seoAnalyze', url: `${API_BASE_URL}/basic-audit` },
+  { id: 'basic-audit-get', capability: 'seoAnalyze', url: `${API_BASE_URL}/basic-audit`, method: 'GET' },
+  { id: 'batch-audit', capability: 'batchAudit', url: `${API_BASE_URL}/batch-audit` },
+  { id: 'api-batch-audit', capability: 'batchAudit', url: `${API_BASE_URL}/api/batch-audit` },
+  { id: 'submit-page-audit', capability: 'pageAudit', url: `${API_BASE_URL}/submit-page-audit` },
+  { id: 'submit-site-audit', capability: 'siteAudit', url: `${API_BASE_URL}/submit-site-audit` },
+  { id: 'api-submit-site-audit', capability: 'siteAudit', url: `${API_BASE_URL}/api/submit-site-audit` },
+  { id: 'api-site-audit', capability: 'siteAudit', url: `${API_BASE_URL}/api/site-audit` }
+]);
+
+/**
+ * Options for a batch run; the analysis functions are supplied by the client
+ */
+export type BatchRunOptions = Omit<BatchOrchestratorOptions, 'analyzeChunk' | 'analyzeUrl'>;
+
+/**
+ * Options sent with a page or site audit; the backend validates them
+ */
+export interface AuditRequestOptions {
+  // Site audits: how many pages to crawl and how many links deep
+  maxPages?: number;
+  depth?: number;
+  maxDepth?: number;
+  // Site audits: globs of the URLs to crawl and to skip
+  include?: string | string[];
+  exclude?: string | string[];
+  allowSubdomains?: boolean;
+  checkLinks?: boolean;
+  // Measure the page in a browser; page audits do unless this is false
+  performance?: boolean;
+}
+
+/**
+ * Options for an enhanced analysis
+ */
+export interface EnhancedAnalysisOptions {
+  crawlSite?: boolean;
+  maxPages?: number;
+  maxDepth?: number;
+}
+
 /**
  * Generic function to handle API responses with standardized error processing
+ * @throws HttpStatusError or RateLimitedError for non-success statuses
  */
-async function handleResponse<T>(response: Response): Promise<T> {
+async function handleResponse<T>(response: Response, context: ApiErrorContext = {}): Promise<T> {
   if (!response.ok) {
     console.error('API Error Response:', response.status, response.statusText);
-    try {
-      const errorData = await response.json();
-      console.error('Error Data:', errorData);
-      throw new Error(errorData.message || `Error: ${response.status} ${response.statusText}`);
-    } catch (e) {
-      throw new Error(`Error: ${response.status} ${response.statusText}`);
-    }
+    throw await errorFromResponse(response, context);
   }
   
   try {
     return await response.json() as T;
   } catch (e) {
     console.error('Error parsing JSON response:', e);
-    throw new Error('Failed to parse API response');
+    throw new BackendAnalysisError('Failed to parse API response', { ...context, cause: e, retryable: true });
   }
 }
 
 /**
  * Retry function for API requests with exponential backoff
  * Implements resilience patterns for network failures
+ * options.signal cancels the request in flight and any retries still pending
+ * @throws AuditApiError from the last attempt, CancelledError when aborted
  */
 async function fetchWithRetry<T>(
   url: string, 
   options: RequestInit, 
   retries = 3, 
-  backoff = 300
+  backoff = 300,
+  attempt = 1
 ): Promise<T> {
   try {
     console.log(`Fetching: ${url}`);
     const response = await fetch(url, options);
-    return await handleResponse<T>(response);
+    return await handleResponse<T>(response, { endpoint: url, attempt });
   } catch (error) {
     console.error(`Fetch error (retries left: ${retries}):`, error);
-    if (retries <= 0) {
-      throw error;
+    const apiError = toApiError(error, { endpoint: url, attempt }, options.signal);
+    if (retries <= 0 || !apiError.retryable) {
+      throw apiError;
     }
     
-    await new Promise(resolve => setTimeout(resolve, backoff));
-    return fetchWithRetry<T>(url, options, retries - 1, backoff * 2);
+    // Honour Retry-After when the API rate limits us
+    const wait = apiError.kind === 'rate_limited' && apiError.retryAfter
+      ? apiError.retryAfter * 1000
+      : backoff;
+    try {
+      await delay(wait, options.signal);
+    } catch (abortReason) {
+      throw toApiError(abortReason, { endpoint: url, attempt }, options.signal);
+    }
+    return fetchWithRetry<T>(url, options, retries - 1, backoff * 2, attempt + 1);
   }
 }
 
 /**
- * Normalize URL to ensure proper format
- * @param url URL to normalize
- * @returns Normalized URL with proper protocol
+ * Build an analysis response whose data is the canonical AuditResult,
+ * whatever shape the endpoint returned
+ * @param body Parsed response body
+ * @param context Endpoint, attempt and URL that was analyzed
+ * @returns Normalized analysis response
+ * @throws AuditApiError when the backend reports that the analysis failed
  */
-function normalizeUrl(url: string): string {
-  // Handle common URL format issues
-  let normalizedUrl = url.trim();
+function toAnalysisResponse(body: unknown, context: ApiErrorContext): SeoAnalysisResponse {
+  const data = normalizeAuditResult(body, { url: context.url });
+  const envelope = readResponseEnvelope(body);
   
-  // Remove trailing slashes for consistency
-  while (normalizedUrl.endsWith('/')) {
-    normalizedUrl = normalizedUrl.slice(0, -1);
+  if (data.status === 'error') {
+    throw errorFromBackend(data.error, context);
   }
-  
-  // Handle www prefix consistently
-  if (normalizedUrl.startsWith('www.')) {
-    normalizedUrl = normalizedUrl.substring(4);
-  }
-  
-  // Ensure proper protocol
-  if (!normalizedUrl.startsWith('http://') && !normalizedUrl.startsWith('https://')) {
-    normalizedUrl = `https://${normalizedUrl}`;
-  }
-  
-  return normalizedUrl;
+
+  return {
+    status: 'ok',
+    message: envelope.message || 'Analysis completed',
+    url: data.url || context.url,
+    cached: data.cached,
+    cachedAt: data.cachedAt,
+    timestamp: envelope.timestamp,
+    data
+  };
 }
 
 /**
- * Validate URL structure
- * @param url URL to validate
- * @returns True if URL is valid
+ * Build a batch response with every result normalized
+ * @param body Parsed response body
+ * @returns Normalized batch response
  */
-function isValidUrl(url: string): boolean {
-  try {
-    new URL(url);
-    return true;
-  } catch (e) {
-    return false;
-  }
+function toBatchResponse(body: unknown): BatchSeoAnalysisResponse {
+  const envelope = readResponseEnvelope(body);
+  const results = normalizeBatchResults(envelope.results || []);
+
+  return {
+    status: envelope.status || 'ok',
+    message: envelope.message || 'Batch analysis completed',
+    totalUrls: envelope.totalUrls ?? results.length,
+    cached: envelope.cached,
+    cachedAt: envelope.cachedAt,
+    timestamp: envelope.timestamp,
+    results
+  };
+}
+
+/**
+ * Fetch a backend job's status
+ * @param jobId Job ID to check
+ * @param signal Optional signal to cancel the request
+ * @returns Job status response
+ * @throws AuditApiError when the status can't be fetched, CancelledError when aborted
+ */
+function fetchJobStatus(jobId: string, signal?: AbortSignal): Promise<JobStatusResponse> {
+  console.log(`Checking status for job ID: ${jobId}`);
+  return fetchWithRetry<JobStatusResponse>(
+    `${API_BASE_URL}/job-status/${jobId}`,
+    {
+      method: 'GET',
+      headers: {
+        'Cache-Control': 'no-cache'
+      },
+      signal
+    }
+  );
 }
 
 /**
@@ -112,9 +216,10 @@ function isValidUrl(url: string): boolean {
 const apiClient = {
   /**
    * Check API health with fallback to mocked healthy response
+   * @param signal Optional signal to cancel the check
    * @returns Promise with health status
    */
-  checkHealth: async (): Promise<HealthCheckResponse> => {
+  checkHealth: async (signal?: AbortSignal): Promise<HealthCheckResponse> => {
     try {
       return await fetchWithRetry<HealthCheckResponse>(
         `${API_BASE_URL}/health`,
@@ -122,12 +227,14 @@ const apiClient = {
           method: 'GET',
           headers: {
             'Cache-Control': 'no-cache'
-          }
+          },
+          signal
         },
         2, // Reduce retries for health check
         300
       );
     } catch (error) {
+      if (signal?.aborted) throw error;
       console.warn('Health check failed, returning fallback response:', error);
       
       // Return a fallback health response to prevent UI crashes
@@ -150,474 +257,381 @@ const apiClient = {
   },
   
   /**
-   * Create a basic fallback analysis without API
-   * @param url URL to analyze
-   * @returns Mock analysis result for when API is unavailable
+   * Analyze raw HTML locally without calling the API
+   * Useful for pages behind authentication where the user pastes the source
+   * @param html Raw HTML of the page
+   * @param url URL the HTML belongs to
+   * @returns Analysis response derived from the supplied HTML
    */
-  createFallbackAnalysis: (url: string): SeoAnalysisResponse => {
+  analyzeRawHtml: (html: string, url: string): SeoAnalysisResponse => {
     const normalizedUrl = normalizeUrl(url);
     
-    // Create a domain name from the URL
-    const domainMatch = normalizedUrl.match(/https?:\/\/(?:www\.)?([^\/]+)/i);
-    const domain = domainMatch ? domainMatch[1] : normalizedUrl;
+    if (!isValidUrl(normalizedUrl)) {
+      throw new InvalidUrlError('Invalid URL format', { url });
+    }
     
-    console.log('Creating fallback analysis for:', domain);
+    if (!html || html.trim() === '') {
+      throw new Error('HTML is required for analysis');
+    }
     
-    // Create a basic analysis result
     return {
       status: 'ok',
-      message: 'Local analysis completed (API unavailable)',
+      message: 'Local analysis completed',
       url: normalizedUrl,
       timestamp: new Date().toISOString(),
       cached: false,
-      data: {
-        url: normalizedUrl,
-        score: 70,
-        status: 'needs_improvement',
-        criticalIssuesCount: 1,
-        totalIssuesCount: 3,
-        categories: {
-          metadata: {
-            score: 75,
-            issues: [
-              {
-                type: 'basic_seo_check',
-                severity: 'info',
-                impact: 'medium',
-                recommendation: 'API connection unavailable. This is a simulated analysis.'
-              }
-            ]
-          },
-          content: {
-            score: 70,
-            issues: [
-              {
-                type: 'api_unavailable',
-                severity: 'warning',
-                impact: 'medium',
-                recommendation: 'Could not perform full analysis. Try again later.'
-              }
-            ]
-          },
-          technical: {
-            score: 65,
-            issues: [
-              {
-                type: 'connection_issue',
-                severity: 'critical',
-                impact: 'high',
-                recommendation: 'API connection failed. Check your internet connection.'
-              }
-            ]
-          },
-          userExperience: {
-            score: 75,
-            issues: []
-          }
-        },
-        pageData: {
-          title: {
-            text: `${domain} - Website`,
-            length: domain.length + 10
-          },
-          metaDescription: {
-            text: `This is a fallback analysis for ${domain}`,
-            length: 30 + domain.length
-          },
-          headings: {
-            h1Count: 1,
-            h1Texts: [`${domain} Main Heading`],
-            h2Count: 3,
-            h2Texts: ['Products', 'Services', 'Contact'],
-            h3Count: 5
-          },
-          content: {
-            wordCount: 500,
-            contentLength: 2500
-          },
-          links: {
-            internalCount: 15,
-            externalCount: 5,
-            totalCount: 20
-          },
-          images: {
-            total: 10,
-            withoutAlt: 3
-          },
-          technical: {
-            hasCanonical: true,
-            canonicalUrl: normalizedUrl,
-            hasMobileViewport: true,
-            hasStructuredData: false,
-            structuredDataTypes: []
-          }
-        },
-        pageAnalysis: {
-          title: {
-            text: `${domain} - Website`,
-            length: domain.length + 10
-          },
-          metaDescription: {
-            text: `This is a fallback analysis for ${domain}`,
-            length: 30 + domain.length
-          },
-          headings: {
-            h1Count: 1,
-            h1Texts: [`${domain} Main Heading`],
-            h2Count: 3,
-            h2Texts: ['Products', 'Services', 'Contact'],
-            h3Count: 5
-          },
-          links: {
-            internalCount: 15,
-            externalCount: 5,
-            totalCount: 20
-          },
-          images: {
-            withoutAltCount: 3,
-            total: 10
-          },
-          contentLength: 2500,
-          canonical: normalizedUrl
-        }
-      }
+      data: analyzeHtml(html, normalizedUrl)
     };
   },
-
+  
   /**
-   * Batch analyze multiple URLs
-   * @param urls Array of URLs to analyze
-   * @returns Promise with batch analysis results
+   * Create a fallback analysis without API by fetching and parsing the page locally
+   * @param url URL to analyze
+   * @param signal Optional signal to cancel the page fetch
+   * @returns Analysis result computed in the browser from the page's HTML
+   * @throws AuditApiError when the page cannot be fetched from the browser
    */
-  batchSeoAnalysis: async (urls: string[]): Promise<BatchSeoAnalysisResponse> => {
-    console.log(`Performing batch SEO analysis for ${urls.length} URLs`);
+  createFallbackAnalysis: async (url: string, signal?: AbortSignal): Promise<SeoAnalysisResponse> => {
+    const normalizedUrl = normalizeUrl(url);
     
-    if (!urls || urls.length === 0) {
-      throw new Error('At least one URL is required for batch analysis');
+    if (!isValidUrl(normalizedUrl)) {
+      throw new InvalidUrlError('Invalid URL format', { url });
     }
     
-    // Normalize URLs and validate them
-    const normalizedUrls = urls.map(url => {
-      const normalizedUrl = normalizeUrl(url);
-      if (!isValidUrl(normalizedUrl)) {
-        throw new Error(`Invalid URL format: ${url}`);
-      }
-      return normalizedUrl;
-    });
-    
-    // Limit to 20 URLs
-    const limitedUrls = normalizedUrls.slice(0, 20);
-    console.log(`Processing ${limitedUrls.length} URLs (limit: 20)`);
-    
-    // Use AbortController for timeout
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 60000); // 60 second timeout for batch
+    const context = { endpoint: normalizedUrl, url: normalizedUrl, attempt: 1 };
     
-    // Try the batch endpoint first
-    try {
-      console.log(`Trying batch SEO analyze endpoint: ${API_BASE_URL}/batch-audit`);
-      
-      const response = await fetch(`${API_BASE_URL}/batch-audit`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Cache-Control': 'no-cache, no-store'
-        },
-        body: JSON.stringify({ 
-          urls: limitedUrls,
-          timestamp: new Date().getTime() // Add timestamp to prevent caching
-        }),
-        credentials: 'omit', // Try without cookies
-        mode: 'cors',
-        signal: controller.signal
-      });
-      
-      clearTimeout(timeoutId);
-      
-      if (response.ok) {
-        return await handleResponse<BatchSeoAnalysisResponse>(response);
-      }
-      
-      console.log(`Batch endpoint failed with status ${response.status}, trying alternative approach...`);
-    } catch (error: any) {
-      console.warn(`Error with batch endpoint:`, error);
-      if (error.name === 'AbortError') {
-        console.log('Batch request timed out, trying alternative approach');
-      }
-      clearTimeout(timeoutId);
-    }
+    console.log('Creating local fallback analysis for:', normalizedUrl);
     
-    // Try alternative endpoints
+    let html: string;
     try {
-      console.log(`Trying alternative endpoint: ${API_BASE_URL}/api/batch-audit`);
-      
-      const altController = new AbortController();
-      const altTimeoutId = setTimeout(() => altController.abort(), 60000);
-      
-      const response = await fetch(`${API_BASE_URL}/api/batch-audit`, {
-        method: 'POST',
+      const response = await fetch(normalizedUrl, {
+        method: 'GET',
         headers: {
-          'Content-Type': 'application/json',
-          'Cache-Control': 'no-cache, no-store'
+          'Accept': 'text/html'
         },
-        body: JSON.stringify({ 
-          urls: limitedUrls,
-          timestamp: new Date().getTime()
-        }),
         credentials: 'omit',
         mode: 'cors',
-        signal: altController.signal
+        signal: withTimeout(15000, signal)
       });
       
-      clearTimeout(altTimeoutId);
-      
-      if (response.ok) {
-        return await handleResponse<BatchSeoAnalysisResponse>(response);
+      if (!response.ok) {
+        throw await errorFromResponse(response, context);
       }
       
-      console.log(`Alternative batch endpoint also failed, using fallback analysis`);
+      html = await response.text();
     } catch (error) {
-      console.warn(`Error with alternative batch endpoint:`, error);
+      console.warn('Local fetch of page HTML failed:', error);
+      const apiError = toApiError(error, context, signal);
+      if (apiError.kind === 'cancelled') throw apiError;
+      apiError.message = `Analysis API is unavailable and the page could not be fetched from the browser (${apiError.message}). Paste the page HTML to analyze it locally.`;
+      throw apiError;
     }
     
-    // Fallback to individual analysis if batch endpoint fails
-    console.log('All batch endpoints failed, using fallback of sequential individual analyses');
-    
-    // Process urls one by one
-    const results: SeoAnalysisResult[] = [];
+    return {
+      ...apiClient.analyzeRawHtml(html, normalizedUrl),
+      message: 'Local analysis completed (API unavailable)'
+    };
+  },
+
+  /**
+   * Analyze one chunk of URLs with the batch endpoints
+   * @param urls Normalized URLs, no more than the server accepts in one request
+   * @param signal Optional signal to cancel the request
+   * @returns Results in the order of urls
+   * @throws AuditApiError from the last endpoint when none of them answers
+   */
+  analyzeBatchChunk: async (urls: string[], signal?: AbortSignal): Promise<AuditResult[]> => {
+    let lastError: AuditApiError | null = null;
     
-    for (const url of limitedUrls) {
+    // Try the batch endpoints, last working one first
+    for (const endpoint of endpointRegistry.getCandidates('batchAudit')) {
+      const context = { endpoint: endpoint.url };
+      const startedAt = Date.now();
+      
       try {
-        console.log(`Processing individual URL: ${url}`);
-        const result = await apiClient.quickSeoAnalysis(url);
-        results.push(result.data);
-      } catch (error) {
-        console.error(`Error analyzing ${url}:`, error);
-        // Add error result
-        results.push({
-          url,
-          score: 0,
-          status: 'error',
-          error: {
-            type: 'analysis_error',
-            message: `Failed to analyze URL: ${(error as Error).message || 'Unknown error'}`
+        console.log(`Trying batch SEO analyze endpoint: ${endpoint.url}`);
+        
+        const response = await fetch(endpoint.url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Cache-Control': 'no-cache, no-store'
           },
-          analyzedAt: new Date().toISOString()
-        } as SeoAnalysisResult);
+          body: JSON.stringify({ 
+            urls,
+            timestamp: new Date().getTime() // Add timestamp to prevent caching
+          }),
+          credentials: 'omit', // Try without cookies
+          mode: 'cors',
+          signal: withTimeout(60000, signal) // 60 second timeout for batch
+        });
+        
+        const body = await handleResponse<unknown>(response, context);
+        endpointRegistry.reportSuccess(endpoint.id, Date.now() - startedAt);
+        return toBatchResponse(body).results;
+      } catch (error) {
+        console.warn(`Error with batch endpoint ${endpoint.url}:`, error);
+        lastError = toApiError(error, context, signal);
+        if (lastError.kind === 'cancelled') throw lastError;
+        endpointRegistry.reportFailure(endpoint.id, lastError);
       }
     }
     
-    // Return batch result with individual analyses
-    return {
-      status: 'success',
-      message: 'Batch analysis completed (fallback to individual analyses)',
-      totalUrls: results.length,
-      timestamp: new Date().toISOString(),
-      cached: false,
-      results
-    };
+    throw lastError || new BackendAnalysisError('No batch endpoint is configured');
+  },
+  
+  /**
+   * Set up a batch run of any size without starting it
+   * URLs are sent to the batch endpoints in chunks, falling back to
+   * individual analyses; the returned orchestrator can pause and resume
+   * @param urls Array of URLs to analyze
+   * @param options Limits, callbacks and signal; see BatchOrchestratorOptions
+   * @returns Orchestrator; call run() to start
+   * @throws InvalidUrlError when a URL is invalid
+   */
+  createBatchRun: (urls: string[], options: BatchRunOptions = {}): BatchOrchestrator => {
+    if (!urls || urls.length === 0) {
+      throw new InvalidUrlError('At least one URL is required for batch analysis');
+    }
+    
+    // Normalize URLs and validate them
+    const normalizedUrls = urls.map(url => {
+      const normalizedUrl = normalizeUrl(url);
+      if (!isValidUrl(normalizedUrl)) {
+        throw new InvalidUrlError(`Invalid URL format: ${url}`, { url });
+      }
+      return normalizedUrl;
+    });
+    
+    return createBatchOrchestrator(normalizedUrls, {
+      ...options,
+      analyzeChunk: apiClient.analyzeBatchChunk,
+      analyzeUrl: async (url, signal) => {
+        try {
+          console.log(`Processing individual URL: ${url}`);
+          return (await apiClient.quickSeoAnalysis(url, signal)).data;
+        } catch (error) {
+          if (isApiError(error) && error.kind === 'cancelled') throw error;
+          console.error(`Error analyzing ${url}:`, error);
+          return createErrorResult(
+            url,
+            `Failed to analyze URL: ${(error as Error).message || 'Unknown error'}`,
+            isApiError(error) ? error.kind : 'analysis_error'
+          );
+        }
+      }
+    });
+  },
+  
+  /**
+   * Batch analyze multiple URLs
+   * @param urls Array of URLs to analyze
+   * @param onProgress Optional callback for progress updates
+   * @param signal Optional signal to cancel the batch, including the fallback analyses
+   * @param options Chunking and politeness limits, and a callback for partial results
+   * @returns Promise with batch analysis results
+   */
+  batchSeoAnalysis: async (
+    urls: string[],
+    onProgress?: (status: JobStatusResponse) => void,
+    signal?: AbortSignal,
+    options: BatchRunOptions = {}
+  ): Promise<BatchSeoAnalysisResponse> => {
+    console.log(`Performing batch SEO analysis for ${urls.length} URLs`);
+    return apiClient.createBatchRun(urls, { ...options, onProgress, signal }).run();
   },
   
   /**
    * Perform SEO analysis with comprehensive fallback strategy
    * @param url URL to analyze
+   * @param signal Optional signal to cancel the analysis and its fallback chain
    * @returns Promise with analysis results
+   * @throws AuditApiError describing the last failure when no endpoint or local analysis succeeds
    */
-  quickSeoAnalysis: async (url: string): Promise<SeoAnalysisResponse> => {
+  quickSeoAnalysis: async (url: string, signal?: AbortSignal): Promise<SeoAnalysisResponse> => {
     console.log(`Performing SEO analysis for URL: ${url}`);
     
     if (!url || url.trim() === '') {
-      throw new Error('URL is required for analysis');
+      throw new InvalidUrlError('URL is required for analysis');
     }
     
     const normalizedUrl = normalizeUrl(url);
     
     if (!isValidUrl(normalizedUrl)) {
-      throw new Error('Invalid URL format');
+      throw new InvalidUrlError('Invalid URL format', { url });
     }
     
     // Add timestamp to prevent caching issues
     const timestamp = new Date().getTime();
     
-    // Use AbortController for timeout
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 20000); // 20 second timeout
+    // Every endpoint call counts as one attempt; the last failure is reported
+    // if nothing succeeds
+    let attempt = 0;
+    let lastError: AuditApiError | null = null;
     
-    // Try the consolidated endpoint for the API
-    try {
-      console.log(`Trying primary SEO analyze endpoint: ${API_BASE_URL}/seo-analyze`);
+    // Try the analysis endpoints, last working one first, until one succeeds
+    for (const endpoint of endpointRegistry.getCandidates('seoAnalyze')) {
+      attempt++;
+      const context = { endpoint: endpoint.url, attempt, url: normalizedUrl };
+      const startedAt = Date.now();
       
-      const response = await fetch(`${API_BASE_URL}/seo-analyze`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Cache-Control': 'no-cache, no-store'
-        },
-        body: JSON.stringify({ 
-          url: normalizedUrl,
-          timestamp: timestamp // Add timestamp to prevent caching
-        }),
-        credentials: 'omit', // Try without cookies
-        mode: 'cors', // Explicitly request CORS mode
-        signal: controller.signal
-      });
-      
-      if (response.ok) {
-        clearTimeout(timeoutId);
-        return await handleResponse<SeoAnalysisResponse>(response);
-      }
-      
-      console.log(`Primary endpoint failed with status ${response.status}, trying alternatives...`);
-    } catch (error: any) {
-      console.warn(`Error with primary endpoint:`, error);
-      if (error.name === 'AbortError') {
-        console.log('Request timed out, trying alternative endpoints');
-      }
-    }
-    
-    // Try alternative endpoints as fallback
-    const endpoints = [
-      `${API_BASE_URL}/v2/seo-analyze`,
-      `${API_BASE_URL}/api/real-seo-audit`,
-      `${API_BASE_URL}/basic-audit`
-    ];
-    
-    let lastError: Error | null = null;
-    
-    // Try each fallback endpoint until one succeeds
-    for (const endpoint of endpoints) {
       try {
-        console.log(`Trying fallback endpoint: ${endpoint}`);
+        console.log(`Trying SEO analyze endpoint: ${endpoint.method} ${endpoint.url}`);
         
-        // Create new controller for each request
-        const endpointController = new AbortController();
-        const endpointTimeoutId = setTimeout(() => endpointController.abort(), 20000);
+        const response = endpoint.method === 'GET'
+          ? await fetch(`${endpoint.url}?url=${encodeURIComponent(normalizedUrl)}&t=${timestamp}`, {
+              method: 'GET',
+              headers: {
+                'Cache-Control': 'no-cache, no-store'
+              },
+              credentials: 'omit',
+              mode: 'cors',
+              signal: withTimeout(20000, signal)
+            })
+          : await fetch(endpoint.url, {
+              method: 'POST',
+              headers: {
+                'Content-Type': 'application/json',
+                'Cache-Control': 'no-cache, no-store'
+              },
+              body: JSON.stringify({ 
+                url: normalizedUrl,
+                inputUrl: url.trim(), // As entered, so redirects from it can be audited
+                timestamp: timestamp // Add timestamp to prevent caching
+              }),
+              credentials: 'omit', // Try without cookies
+              mode: 'cors', // Explicitly request CORS mode
+              signal: withTimeout(20000, signal) // 20 second timeout
+            });
         
-        const response = await fetch(endpoint, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Cache-Control': 'no-cache, no-store'
-          },
-          body: JSON.stringify({ 
-            url: normalizedUrl,
-            timestamp: timestamp // Add timestamp to prevent caching
-          }),
-          credentials: 'omit',
-          mode: 'cors',
-          signal: endpointController.signal
-        });
-        
-        clearTimeout(endpointTimeoutId);
-        
-        if (response.status === 404) {
-          console.log(`Endpoint ${endpoint} not found, trying next endpoint`);
-          continue;
-        }
-        
-        if (response.ok) {
-          return await handleResponse<SeoAnalysisResponse>(response);
-        }
+        const body = await handleResponse<unknown>(response, context);
+        endpointRegistry.reportSuccess(endpoint.id, Date.now() - startedAt);
+        return toAnalysisResponse(body, context);
       } catch (error) {
-        console.warn(`Error with endpoint ${endpoint}:`, error);
-        lastError = error as Error;
+        console.warn(`Error with endpoint ${endpoint.url}:`, error);
+        lastError = toApiError(error, context, signal);
+        endpointRegistry.reportFailure(endpoint.id, lastError);
+        if (!lastError.retryable) {
+          throw lastError;
+        }
       }
     }
     
-    // Check health endpoint as last resort
+    // If all API endpoints fail, use the local fallback analysis
+    console.log('All API endpoints failed, using fallback analysis');
     try {
-      const healthController = new AbortController();
-      const healthTimeoutId = setTimeout(() => healthController.abort(), 5000);
-      
-      const response = await fetch(`${API_BASE_URL}/health`, {
-        method: 'GET',
-        headers: {
-          'Cache-Control': 'no-cache, no-store'
-        },
-        signal: healthController.signal
-      });
-      
-      clearTimeout(healthTimeoutId);
-      
-      if (response.ok) {
-        const healthData = await response.json();
-        console.log('Health endpoint response:', healthData);
-        console.log('API is healthy but SEO endpoints failed, using fallback analysis');
-      }
-    } catch (error) {
-      console.warn('Health check also failed:', error);
+      return await apiClient.createFallbackAnalysis(url, signal);
+    } catch (fallbackError) {
+      if (signal?.aborted) throw fallbackError;
+      // The API failure explains more than the browser fetch failing
+      console.warn('Local fallback analysis failed:', fallbackError);
+      throw lastError || fallbackError;
+    }
+  },
+  
+  /**
+   * Perform enhanced SEO analysis, optionally crawling the site
+   * Falls back to quick analysis when the backend has no enhanced endpoint
+   * @param url URL to analyze
+   * @param options Analysis options (crawlSite, maxPages, maxDepth)
+   * @param signal Optional signal to cancel the analysis
+   * @returns Promise with analysis results
+   * @throws AuditApiError describing why the analysis failed
+   */
+  enhancedSeoAnalysis: async (url: string, options: EnhancedAnalysisOptions = {}, signal?: AbortSignal): Promise<SeoAnalysisResponse> => {
+    if (!url || url.trim() === '') {
+      throw new InvalidUrlError('URL is required for analysis');
     }
     
-    // Try a GET request to basic-audit as a last resort
+    const normalizedUrl = normalizeUrl(url);
+    
+    if (!isValidUrl(normalizedUrl)) {
+      throw new InvalidUrlError('Invalid URL format', { url });
+    }
+    
+    const endpoint = `${API_BASE_URL}/enhanced-seo-analyze`;
+    const context = { endpoint, attempt: 1, url: normalizedUrl };
+    
+    let response: Response;
     try {
-      console.log('Trying basic-audit with GET request');
-      
-      const getController = new AbortController();
-      const getTimeoutId = setTimeout(() => getController.abort(), 20000);
-      
-      const response = await fetch(`${API_BASE_URL}/basic-audit?url=${encodeURIComponent(normalizedUrl)}&t=${timestamp}`, {
-        method: 'GET',
+      console.log(`Trying enhanced SEO analyze endpoint: ${endpoint}`);
+      response = await fetch(endpoint, {
+        method: 'POST',
         headers: {
-          'Cache-Control': 'no-cache, no-store'
+          'Content-Type': 'application/json',
+          'Accept': 'application/json'
         },
-        credentials: 'omit',
-        mode: 'cors',
-        signal: getController.signal
+        body: JSON.stringify({
+          url: normalizedUrl,
+          options: {
+            enhanced: true,
+            crawlSite: options.crawlSite || false,
+            maxPages: options.maxPages || 5,
+            maxDepth: options.maxDepth || 2,
+            ...options
+          }
+        }),
+        signal: withTimeout(120000, signal) // Crawls can take a while
       });
-      
-      clearTimeout(getTimeoutId);
-      
-      if (response.ok) {
-        return await handleResponse<SeoAnalysisResponse>(response);
-      }
     } catch (error) {
-      console.warn('GET basic-audit also failed:', error);
+      throw toApiError(error, context, signal);
     }
     
-    // If all API endpoints fail, use the local fallback analysis
-    console.log('All API endpoints failed, using fallback analysis');
-    return apiClient.createFallbackAnalysis(url);
+    if (response.status === 404) {
+      console.log('Enhanced endpoint not found, using quick analysis');
+      return apiClient.quickSeoAnalysis(normalizedUrl, signal);
+    }
+    
+    return toAnalysisResponse(await handleResponse<unknown>(response, context), context);
   },
   
   /**
    * Submit a page audit, with fallback to direct analysis
    * @param url URL to analyze
    * @param options Analysis options
+   * @param signal Optional signal to cancel the submission or direct analysis
    * @returns Job creation response or direct analysis result
    */
-  submitPageAudit: async (url: string, options: any = {}): Promise<JobCreationResponse> => {
+  submitPageAudit: async (url: string, options: AuditRequestOptions = {}, signal?: AbortSignal): Promise<JobCreationResponse> => {
+    const normalizedUrl = normalizeUrl(url);
+    
     // First try job-based API endpoint if available
-    try {
-      console.log('Trying job-based page audit endpoint');
-      const normalizedUrl = normalizeUrl(url);
+    for (const endpoint of endpointRegistry.getCandidates('pageAudit')) {
+      const context = { endpoint: endpoint.url, url: normalizedUrl };
+      const startedAt = Date.now();
       
-      const response = await fetch(`${API_BASE_URL}/submit-page-audit`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ 
-          url: normalizedUrl,
-          ...options 
-        }),
-        // Shorter timeout for job submission
-        signal: AbortSignal.timeout(5000)
-      });
-      
-      if (response.ok) {
-        return await handleResponse<JobCreationResponse>(response);
+      try {
+        console.log(`Trying job-based page audit endpoint: ${endpoint.url}`);
+        
+        const response = await fetch(endpoint.url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ 
+            url: normalizedUrl,
+            inputUrl: url.trim(), // As entered, so redirects from it can be audited
+            ...options 
+          }),
+          // Shorter timeout for job submission
+          signal: withTimeout(5000, signal)
+        });
+        
+        const job = await handleResponse<JobCreationResponse>(response, context);
+        endpointRegistry.reportSuccess(endpoint.id, Date.now() - startedAt);
+        return job;
+      } catch (error) {
+        console.warn('Error with job-based endpoint, falling back to direct analysis:', error);
+        const apiError = toApiError(error, context, signal);
+        if (apiError.kind === 'cancelled') throw apiError;
+        endpointRegistry.reportFailure(endpoint.id, apiError);
       }
-      
-      // If endpoint returned an error status, fall back to direct analysis
-      console.log('Job-based endpoint returned error, falling back to direct analysis');
-    } catch (error) {
-      console.warn('Error with job-based endpoint, falling back to direct analysis:', error);
     }
     
     // Fallback to direct analysis
     console.log('Using direct SEO analysis as fallback');
     try {
-      const analysisResult = await apiClient.quickSeoAnalysis(url);
+      const analysisResult = await apiClient.quickSeoAnalysis(url, signal);
       
       // Convert analysis to job creation response format
       return {
@@ -640,22 +654,21 @@ const apiClient = {
    * Submit a site audit, with fallback mechanisms
    * @param url URL to analyze
    * @param options Analysis options
+   * @param signal Optional signal to cancel the submission and its fallbacks
    * @returns Job creation response or direct analysis result
    */
-  submitSiteAudit: async (url: string, options: any = {}): Promise<JobCreationResponse> => {
-    // Try multiple site-wide audit endpoints first
-    const siteEndpoints = [
-      `${API_BASE_URL}/submit-site-audit`,
-      `${API_BASE_URL}/api/submit-site-audit`,
-      `${API_BASE_URL}/api/site-audit`
-    ];
-    
-    for (const endpoint of siteEndpoints) {
+  submitSiteAudit: async (url: string, options: AuditRequestOptions = {}, signal?: AbortSignal): Promise<JobCreationResponse> => {
+    const normalizedUrl = normalizeUrl(url);
+    
+    // Try the site-wide audit endpoints, last working one first
+    for (const endpoint of endpointRegistry.getCandidates('siteAudit')) {
+      const context = { endpoint: endpoint.url, url: normalizedUrl };
+      const startedAt = Date.now();
+      
       try {
-        console.log(`Trying site-wide audit endpoint: ${endpoint}`);
-        const normalizedUrl = normalizeUrl(url);
+        console.log(`Trying site-wide audit endpoint: ${endpoint.url}`);
         
-        const response = await fetch(endpoint, {
+        const response = await fetch(endpoint.url, {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
@@ -670,15 +683,18 @@ const apiClient = {
             }
           }),
           // Increased timeout for job submission
-          signal: AbortSignal.timeout(10000)
+          signal: withTimeout(10000, signal)
         });
         
-        if (response.ok) {
-          console.log(`Site-wide audit submission successful via ${endpoint}`);
-          return await handleResponse<JobCreationResponse>(response);
-        }
+        const job = await handleResponse<JobCreationResponse>(response, context);
+        endpointRegistry.reportSuccess(endpoint.id, Date.now() - startedAt);
+        console.log(`Site-wide audit submission successful via ${endpoint.url}`);
+        return job;
       } catch (error) {
-        console.warn(`Error with site-wide audit endpoint ${endpoint}:`, error);
+        console.warn(`Error with site-wide audit endpoint ${endpoint.url}:`, error);
+        const apiError = toApiError(error, context, signal);
+        if (apiError.kind === 'cancelled') throw apiError;
+        endpointRegistry.reportFailure(endpoint.id, apiError);
         // Continue to next endpoint
       }
     }
@@ -686,15 +702,17 @@ const apiClient = {
     console.log('All site-wide audit endpoints failed, falling back to page audit');
     
     // Fallback to page audit
-    return apiClient.submitPageAudit(url, options);
+    return apiClient.submitPageAudit(url, options, signal);
   },
   
   /**
    * Get job status with fallback for direct analysis
    * @param jobId Job ID to check
+   * @param signal Optional signal to cancel the request
    * @returns Job status response
+   * @throws CancelledError when the signal is aborted
    */
-  getJobStatus: async (jobId: string): Promise<JobStatusResponse> => {
+  getJobStatus: async (jobId: string, signal?: AbortSignal): Promise<JobStatusResponse> => {
     // If this is a direct analysis job, return completed status
     if (jobId === 'direct-analysis') {
       console.log('Direct analysis used - no job status to check');
@@ -721,17 +739,9 @@ const apiClient = {
     
     // For regular jobs, check status
     try {
-      console.log(`Checking status for job ID: ${jobId}`);
-      return await fetchWithRetry<JobStatusResponse>(
-        `${API_BASE_URL}/job-status/${jobId}`,
-        {
-          method: 'GET',
-          headers: {
-            'Cache-Control': 'no-cache'
-          }
-        }
-      );
+      return await fetchJobStatus(jobId, signal);
     } catch (error) {
+      if (signal?.aborted) throw error;
       console.error(`Error getting job status for ${jobId}:`, error);
       
       // Return a fallback status to prevent UI crashes
@@ -758,9 +768,11 @@ const apiClient = {
   /**
    * Get job results with fallback handlers
    * @param jobId Job ID to check
+   * @param signal Optional signal to cancel the request
    * @returns Job results response
+   * @throws CancelledError when the signal is aborted
    */
-  getJobResults: async (jobId: string): Promise<JobResultsResponse> => {
+  getJobResults: async (jobId: string, signal?: AbortSignal): Promise<JobResultsResponse> => {
     // Check for direct analysis mode
     if (jobId === 'direct-analysis') {
       console.log('Direct analysis used - no job results to fetch');
@@ -786,10 +798,12 @@ const apiClient = {
           method: 'GET',
           headers: {
             'Cache-Control': 'no-cache'
-          }
+          },
+          signal
         }
       );
     } catch (error) {
+      if (signal?.aborted) throw error;
       console.error(`Error getting job results for ${jobId}:`, error);
       
       // Return a fallback response to prevent UI crashes
@@ -806,56 +820,122 @@ const apiClient = {
   },
   
   /**
-   * Poll for job completion with progress updates
-   * @param jobId Job ID to poll
+   * Watch a job until it completes, streaming progress over Server-Sent
+   * Events when the backend supports it and polling job status otherwise
+   * @param jobId Job ID to watch
    * @param onProgress Optional callback for progress updates
+   * @param signal Optional signal to stop watching (the job keeps running; see cancelJob)
    * @returns Job results when complete
+   * @throws BackendAnalysisError when the job fails, TimeoutError when polling
+   * gives up, CancelledError when the signal is aborted
    */
   pollJobUntilCompletion: async (
     jobId: string, 
-    onProgress?: (status: JobStatusResponse) => void
+    onProgress?: (status: JobStatusResponse) => void,
+    signal?: AbortSignal
   ): Promise<JobResultsResponse> => {
     // For direct analysis, return immediately
     if (jobId === 'direct-analysis') {
-      return apiClient.getJobResults(jobId);
+      return apiClient.getJobResults(jobId, signal);
     }
     
-    // For regular jobs, poll until completion
-    const maxAttempts = 30; // Limit total attempts
-    const initialInterval = 2000; // Start with 2 second interval
-    let attempts = 0;
-    let interval = initialInterval;
+    await watchJobProgress(jobId, {
+      streamUrl: `${API_BASE_URL}/job-progress/${jobId}`,
+      statusUrl: `${API_BASE_URL}/job-status/${jobId}`,
+      // Unlike getJobStatus, throws when the status can't be fetched, so a
+      // dropped connection doesn't read as a failed job
+      getStatus: fetchJobStatus,
+      onProgress,
+      signal
+    });
     
-    while (attempts < maxAttempts) {
-      attempts++;
-      
-      try {
-        const status = await apiClient.getJobStatus(jobId);
-        
-        // Call progress callback if provided
-        if (onProgress) {
-          onProgress(status);
-        }
-        
-        // Check job status
-        if (status.job.status === 'completed') {
-          return await apiClient.getJobResults(jobId);
-        } else if (status.job.status === 'failed') {
-          throw new Error(`Job failed: ${status.job.error || 'Unknown error'}`);
-        }
-        
-        // Exponential backoff with ceiling
-        interval = Math.min(interval * 1.5, 10000); // Max 10 seconds
-        
-        // Wait before next attempt
-        await new Promise(resolve => setTimeout(resolve, interval));
-      } catch (error) {
-        console.error(`Error polling job ${jobId}:`, error);
-        throw error;
+    return apiClient.getJobResults(jobId, signal);
+  },
+  
+  /**
+   * Ask the backend to stop a job. Best effort: failures are logged, not thrown
+   * @param jobId Job ID to cancel
+   * @returns True if the backend accepted the cancellation
+   */
+  cancelJob: async (jobId: string): Promise<boolean> => {
+    if (jobId === 'direct-analysis') {
+      return false;
+    }
+    
+    try {
+      console.log(`Cancelling job ID: ${jobId}`);
+      const response = await fetch(`${API_BASE_URL}/cancel-job/${jobId}`, {
+        method: 'POST',
+        headers: {
+          'Cache-Control': 'no-cache'
+        },
+        signal: AbortSignal.timeout(5000)
+      });
+      return response.ok;
+    } catch (error) {
+      console.warn(`Error cancelling job ${jobId}:`, error);
+      return false;
+    }
+  },
+  
+  /**
+   * Run a page or site audit as a job and report its progress
+   * Falls back to direct analysis when the backend has no job endpoints
+   * @param url URL to analyze
+   * @param siteWide Crawl the site instead of auditing a single page
+   * @param options Audit options passed to the job
+   * @param onProgress Optional callback for progress updates
+   * @param signal Optional signal to cancel the audit; a submitted job is cancelled on the backend too
+   * @returns Analysis response with the audit result
+   * @throws AuditApiError describing why the audit failed, CancelledError when aborted
+   */
+  runAuditJob: async (
+    url: string,
+    siteWide = false,
+    options: AuditRequestOptions = {},
+    onProgress?: (status: JobStatusResponse) => void,
+    signal?: AbortSignal
+  ): Promise<SeoAnalysisResponse> => {
+    const normalizedUrl = normalizeUrl(url);
+    
+    if (!isValidUrl(normalizedUrl)) {
+      throw new InvalidUrlError('Invalid URL format', { url });
+    }
+    
+    let progress = createJobStatus('pending', normalizedUrl, siteWide ? 'site_audit' : 'page_audit');
+    const reportProgress = (event: JobProgressEvent) => {
+      progress = applyProgressEvent(progress, event);
+      onProgress?.(progress);
+    };
+    reportProgress({ stage: 'fetching', progress: 5, url: normalizedUrl, message: 'Submitting audit' });
+    
+    // Submit the URL as entered; the submit calls normalize it themselves and
+    // keep the original so redirects from it are part of the audit
+    const job = siteWide
+      ? await apiClient.submitSiteAudit(url, options, signal)
+      : await apiClient.submitPageAudit(url, options, signal);
+    
+    // Direct analyses and cached jobs come back with their result
+    if (job.jobId === 'direct-analysis' || job.data) {
+      reportProgress({ stage: 'completed' });
+      return toAnalysisResponse(job.data, { endpoint: 'direct-analysis', url: normalizedUrl });
+    }
+    
+    let results: JobResultsResponse;
+    try {
+      results = await apiClient.pollJobUntilCompletion(job.jobId, onProgress, signal);
+    } catch (error) {
+      // Don't leave the job running on the backend for nobody
+      if (signal?.aborted) {
+        apiClient.cancelJob(job.jobId);
       }
+      throw error;
     }
     
-    throw new Error(`Job ${jobId} did not complete after ${maxAttempts} attempts`);
+    return toAnalysisResponse(results.results, {
+      endpoint: `${API_BASE_URL}/job-results/${job.jobId}`,
+      url: normalizedUrl
+    });
   }
 };
 
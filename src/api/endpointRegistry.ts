@@ -0,0 +1,308 @@
+/**
+ * Endpoint registry
+ * The backend has been deployed with several route layouts over time, so each
+ * capability (single-page analysis, batch audit, site audit) may be served by
+ * more than one URL. The registry remembers which endpoint last worked for
+ * each capability, health-checks endpoints in the background and hands the
+ * client its candidates healthiest-first, so a request only fails over when
+ * the endpoint it would normally use is actually down
+ */
+import { AuditApiError } from './errors';
+
+export type EndpointCapability = 'seoAnalyze' | 'batchAudit' | 'pageAudit' | 'siteAudit';
+
+/**
+ * unknown: not called or probed yet
+ * healthy: answered the last call or probe
+ * unhealthy: network error, timeout, 5xx or rate limited
+ * missing: answered 404, the route isn't deployed
+ */
+export type EndpointStatus = 'unknown' | 'healthy' | 'unhealthy' | 'missing';
+
+export interface EndpointDefinition {
+  id: string;
+  capability: EndpointCapability;
+  url: string;
+  method?: 'GET' | 'POST';
+}
+
+export interface EndpointState extends EndpointDefinition {
+  status: EndpointStatus;
+  latencyMs?: number;
+  consecutiveFailures: number;
+  lastCheckedAt?: string;
+  lastSuccessAt?: string;
+  lastFailureAt?: string;
+  lastError?: string;
+}
+
+export interface EndpointRegistryOptions {
+  // Interval between background health checks
+  healthCheckIntervalMs?: number;
+  // Timeout for a single health probe
+  probeTimeoutMs?: number;
+  // localStorage key for the preferred endpoints, null to keep them in memory only
+  storageKey?: string | null;
+}
+
+export interface EndpointRegistryState {
+  endpoints: EndpointState[];
+  preferred: Partial<Record<EndpointCapability, string>>;
+  healthChecksRunning: boolean;
+  lastHealthCheckAt?: string;
+}
+
+// Candidates are tried in this order of status
+const STATUS_ORDER: Record<EndpointStatus, number> = {
+  healthy: 0,
+  unknown: 1,
+  unhealthy: 2,
+  missing: 3
+};
+
+/**
+ * Load the preferred endpoint per capability saved by a previous session
+ */
+function loadPreferred(storageKey: string | null): Partial<Record<EndpointCapability, string>> {
+  if (!storageKey || typeof localStorage === 'undefined') return {};
+
+  try {
+    return JSON.parse(localStorage.getItem(storageKey) || '{}') || {};
+  } catch (e) {
+    return {};
+  }
+}
+
+function savePreferred(storageKey: string | null, preferred: Partial<Record<EndpointCapability, string>>): void {
+  if (!storageKey || typeof localStorage === 'undefined') return;
+
+  try {
+    localStorage.setItem(storageKey, JSON.stringify(preferred));
+  } catch (e) {
+    // Storage full or disabled; the preference still applies for this session
+  }
+}
+
+/**
+ * Create an endpoint registry
+ * @param definitions Endpoints in fallback order per capability
+ * @param options Health check and persistence options
+ * @returns Endpoint registry
+ */
+export function createEndpointRegistry(definitions: EndpointDefinition[], options: EndpointRegistryOptions = {}) {
+  const {
+    healthCheckIntervalMs = 5 * 60 * 1000,
+    probeTimeoutMs = 5000,
+    storageKey = 'seo-audit:preferred-endpoints'
+  } = options;
+
+  const endpoints = new Map<string, EndpointState>();
+  const listeners = new Set<(state: EndpointRegistryState) => void>();
+  let preferred = loadPreferred(storageKey);
+  let healthCheckTimer: ReturnType<typeof setInterval> | null = null;
+  let lastHealthCheckAt: string | undefined;
+
+  const update = (id: string, changes: Partial<EndpointState>): void => {
+    const endpoint = endpoints.get(id);
+    if (!endpoint) return;
+
+    endpoints.set(id, { ...endpoint, ...changes });
+    const state = registry.getState();
+    listeners.forEach(listener => listener(state));
+  };
+
+  const markFailed = (id: string, status: EndpointStatus, message: string): void => {
+    const endpoint = endpoints.get(id);
+    if (!endpoint) return;
+
+    const now = new Date().toISOString();
+    update(id, {
+      status,
+      consecutiveFailures: endpoint.consecutiveFailures + 1,
+      lastCheckedAt: now,
+      lastFailureAt: now,
+      lastError: message
+    });
+  };
+
+  const registry = {
+    /**
+     * Endpoints for a capability in the order they should be tried: the one
+     * that last worked, then healthy, unchecked and unhealthy endpoints.
+     * Missing endpoints are left out until a health check finds them again
+     */
+    getCandidates: (capability: EndpointCapability): EndpointState[] => {
+      const all = Array.from(endpoints.values()).filter(endpoint => endpoint.capability === capability);
+      const preferredId = preferred[capability];
+
+      const rank = (endpoint: EndpointState) =>
+        endpoint.id === preferredId && endpoint.status !== 'unhealthy'
+          ? -1
+          : STATUS_ORDER[endpoint.status];
+
+      // Array.prototype.sort is stable, so ties keep the registration order
+      return all
+        .filter(endpoint => endpoint.status !== 'missing')
+        .sort((a, b) => rank(a) - rank(b));
+    },
+
+    /**
+     * Record a successful call; the endpoint becomes the preferred one for its capability
+     */
+    reportSuccess: (id: string, latencyMs?: number): void => {
+      const endpoint = endpoints.get(id);
+      if (!endpoint) return;
+
+      if (preferred[endpoint.capability] !== id) {
+        preferred = { ...preferred, [endpoint.capability]: id };
+        savePreferred(storageKey, preferred);
+      }
+
+      const now = new Date().toISOString();
+      update(id, {
+        status: 'healthy',
+        latencyMs,
+        consecutiveFailures: 0,
+        lastCheckedAt: now,
+        lastSuccessAt: now,
+        lastError: undefined
+      });
+    },
+
+    /**
+     * Record a failed call. Errors that aren't retryable (the audited site
+     * failed, or the request itself was rejected) mean the endpoint answered,
+     * so only 404s and retryable errors count against it. Cancelled calls
+     * say nothing about the endpoint and are ignored
+     */
+    reportFailure: (id: string, error: AuditApiError): void => {
+      if (error.kind === 'cancelled') {
+        return;
+      } else if (error.kind === 'http_status' && error.status === 404) {
+        markFailed(id, 'missing', error.message);
+      } else if (error.retryable) {
+        markFailed(id, 'unhealthy', error.message);
+      } else {
+        update(id, { status: 'healthy', lastCheckedAt: new Date().toISOString(), lastError: error.message });
+      }
+    },
+
+    /**
+     * Probe an endpoint without running an audit. Analysis routes answer an
+     * empty request with a validation error, which proves they are deployed
+     * and responding
+     */
+    checkEndpoint: async (id: string): Promise<EndpointState | undefined> => {
+      const endpoint = endpoints.get(id);
+      if (!endpoint) return undefined;
+
+      const startedAt = Date.now();
+      try {
+        const response = await fetch(endpoint.url, {
+          method: endpoint.method || 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Cache-Control': 'no-cache, no-store'
+          },
+          body: endpoint.method === 'GET' ? undefined : '{}',
+          credentials: 'omit',
+          mode: 'cors',
+          signal: AbortSignal.timeout(probeTimeoutMs)
+        });
+
+        if (response.status === 404) {
+          markFailed(id, 'missing', 'Endpoint not found (404)');
+        } else if (response.status >= 500 || response.status === 429) {
+          markFailed(id, 'unhealthy', `Health check returned ${response.status} ${response.statusText}`.trim());
+        } else {
+          update(id, {
+            status: 'healthy',
+            latencyMs: Date.now() - startedAt,
+            consecutiveFailures: 0,
+            lastCheckedAt: new Date().toISOString(),
+            lastError: undefined
+          });
+        }
+      } catch (error) {
+        const message = (error as Error)?.name === 'TimeoutError'
+          ? `Health check timed out after ${probeTimeoutMs}ms`
+          : (error as Error)?.message || 'Health check failed';
+        markFailed(id, 'unhealthy', message);
+      }
+
+      return endpoints.get(id);
+    },
+
+    /**
+     * Probe endpoints one at a time. Endpoints that served a real request
+     * since the last round are skipped unless force is set
+     */
+    checkAll: async (force = false): Promise<EndpointRegistryState> => {
+      const since = Date.now() - healthCheckIntervalMs;
+
+      for (const endpoint of Array.from(endpoints.values())) {
+        if (!force && endpoint.lastSuccessAt && Date.parse(endpoint.lastSuccessAt) > since) {
+          continue;
+        }
+        await registry.checkEndpoint(endpoint.id);
+      }
+
+      lastHealthCheckAt = new Date().toISOString();
+      const state = registry.getState();
+      listeners.forEach(listener => listener(state));
+      return state;
+    },
+
+    /**
+     * Start background health checks (no-op if already running).
+     * Rounds are skipped while the tab is hidden
+     */
+    startHealthChecks: (): void => {
+      if (healthCheckTimer) return;
+
+      const runRound = () => {
+        if (typeof document !== 'undefined' && document.hidden) return;
+        registry.checkAll().catch(error => console.warn('Endpoint health check failed:', error));
+      };
+
+      healthCheckTimer = setInterval(runRound, healthCheckIntervalMs);
+      runRound();
+    },
+
+    stopHealthChecks: (): void => {
+      if (healthCheckTimer) {
+        clearInterval(healthCheckTimer);
+        healthCheckTimer = null;
+      }
+    },
+
+    /**
+     * Snapshot of every endpoint and the preferred endpoint per capability
+     */
+    getState: (): EndpointRegistryState => ({
+      endpoints: Array.from(endpoints.values()).map(endpoint => ({ ...endpoint })),
+      preferred: { ...preferred },
+      healthChecksRunning: healthCheckTimer !== null,
+      lastHealthCheckAt
+    }),
+
+    /**
+     * Listen for state changes
+     * @returns Function that removes the listener
+     */
+    subscribe: (listener: (state: EndpointRegistryState) => void): (() => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+
+  definitions.forEach(definition => {
+    endpoints.set(definition.id, { method: 'POST', ...definition, status: 'unknown', consecutiveFailures: 0 });
+  });
+
+  return registry;
+}
+
+export type EndpointRegistry = ReturnType<typeof createEndpointRegistry>;
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { errorFromBackend } from './errors';
+
+describe('errorFromBackend', () => {
+  it('maps forwarded system error codes to error kinds', () => {
+    expect(errorFromBackend({ type: 'fetch_error', message: 'fetch failed', code: 'ENOTFOUND' }).kind).toBe('dns');
+    expect(errorFromBackend({ type: 'fetch_error', message: 'fetch failed', code: 'CERT_HAS_EXPIRED' }).kind).toBe('tls');
+    expect(errorFromBackend({ type: 'fetch_error', message: 'fetch failed', code: 'ETIMEDOUT' }).kind).toBe('timeout');
+
+    const refused = errorFromBackend({ type: 'fetch_error', message: 'fetch failed', code: 'ECONNREFUSED' });
+    expect(refused.kind).toBe('network');
+    expect(refused.retryable).toBe(false);
+  });
+
+  it('maps backend error types when there is no code', () => {
+    expect(errorFromBackend({ type: 'timeout', message: 'Timed out fetching the page' }).kind).toBe('timeout');
+  });
+
+  it('does not classify errors by their message text', () => {
+    const error = errorFromBackend({ type: 'fetch_error', message: 'getaddrinfo ENOTFOUND example.invalid' });
+    expect(error.kind).toBe('backend_analysis_failed');
+    expect(error.message).toBe('getaddrinfo ENOTFOUND example.invalid');
+  });
+
+  it('falls back to a backend analysis error for unknown codes', () => {
+    const error = errorFromBackend({ type: 'robots_disallowed', message: 'Not allowed', code: 'E_SOMETHING' });
+    expect(error.kind).toBe('backend_analysis_failed');
+    expect(error).toMatchObject({ backendType: 'robots_disallowed' });
+  });
+});
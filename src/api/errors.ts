@@ -0,0 +1,318 @@
+/**
+ * Typed errors thrown by the API client
+ * Every failure is one of the classes below, discriminated by `kind`, and
+ * carries the context needed to explain it (endpoint tried, attempt count,
+ * HTTP status) so the UI never has to inspect message text
+ */
+
+export type ApiErrorKind =
+  | 'network'
+  | 'timeout'
+  | 'dns'
+  | 'tls'
+  | 'http_status'
+  | 'invalid_url'
+  | 'rate_limited'
+  | 'backend_analysis_failed'
+  | 'cancelled';
+
+export interface ApiErrorContext {
+  // Endpoint (or page URL for local fetches) the request was sent to
+  endpoint?: string;
+  // 1-based attempt number across retries and fallback endpoints
+  attempt?: number;
+  // URL being audited
+  url?: string;
+  cause?: unknown;
+}
+
+/**
+ * Base class for all API client errors
+ */
+export abstract class ApiError extends Error {
+  abstract readonly kind: ApiErrorKind;
+  endpoint?: string;
+  attempt?: number;
+  url?: string;
+  cause?: unknown;
+  // Whether trying again (or another endpoint) can reasonably succeed
+  retryable = true;
+
+  constructor(message: string, context: ApiErrorContext = {}) {
+    super(message);
+    this.endpoint = context.endpoint;
+    this.attempt = context.attempt;
+    this.url = context.url;
+    this.cause = context.cause;
+  }
+}
+
+/**
+ * The request never got a response (offline, CORS, connection refused)
+ */
+export class NetworkError extends ApiError {
+  readonly kind = 'network' as const;
+  name = 'NetworkError';
+}
+
+/**
+ * The request or the audited site took too long
+ */
+export class TimeoutError extends ApiError {
+  readonly kind = 'timeout' as const;
+  name = 'TimeoutError';
+  timeoutMs?: number;
+
+  constructor(message: string, context: ApiErrorContext & { timeoutMs?: number } = {}) {
+    super(message, context);
+    this.timeoutMs = context.timeoutMs;
+  }
+}
+
+/**
+ * The audited site's hostname could not be resolved
+ */
+export class DnsError extends ApiError {
+  readonly kind = 'dns' as const;
+  name = 'DnsError';
+  retryable = false;
+}
+
+/**
+ * The audited site has an SSL/TLS certificate or handshake problem
+ */
+export class TlsError extends ApiError {
+  readonly kind = 'tls' as const;
+  name = 'TlsError';
+  retryable = false;
+}
+
+/**
+ * An endpoint answered with a non-success HTTP status
+ */
+export class HttpStatusError extends ApiError {
+  readonly kind = 'http_status' as const;
+  name = 'HttpStatusError';
+  status: number;
+  statusText: string;
+
+  constructor(message: string, context: ApiErrorContext & { status: number; statusText?: string }) {
+    super(message, context);
+    this.status = context.status;
+    this.statusText = context.statusText || '';
+    this.retryable = context.status >= 500 || context.status === 404;
+  }
+}
+
+/**
+ * The URL to audit is missing or malformed
+ */
+export class InvalidUrlError extends ApiError {
+  readonly kind = 'invalid_url' as const;
+  name = 'InvalidUrlError';
+  retryable = false;
+}
+
+/**
+ * The API rejected the request because of rate limiting (HTTP 429)
+ */
+export class RateLimitedError extends ApiError {
+  readonly kind = 'rate_limited' as const;
+  name = 'RateLimitedError';
+  status = 429;
+  // Seconds to wait before retrying, from the Retry-After header
+  retryAfter?: number;
+
+  constructor(message: string, context: ApiErrorContext & { retryAfter?: number } = {}) {
+    super(message, context);
+    this.retryAfter = context.retryAfter;
+  }
+}
+
+/**
+ * The backend was reached but could not analyze the page, or returned
+ * a response that isn't a usable analysis
+ */
+export class BackendAnalysisError extends ApiError {
+  readonly kind = 'backend_analysis_failed' as const;
+  name = 'BackendAnalysisError';
+  // Error type reported by the backend, if any
+  backendType?: string;
+
+  constructor(message: string, context: ApiErrorContext & { backendType?: string; retryable?: boolean } = {}) {
+    super(message, context);
+    this.backendType = context.backendType;
+    this.retryable = context.retryable ?? false;
+  }
+}
+
+/**
+ * The caller aborted the request through its AbortSignal
+ */
+export class CancelledError extends ApiError {
+  readonly kind = 'cancelled' as const;
+  name = 'CancelledError';
+  retryable = false;
+}
+
+export type AuditApiError =
+  | NetworkError
+  | TimeoutError
+  | DnsError
+  | TlsError
+  | HttpStatusError
+  | InvalidUrlError
+  | RateLimitedError
+  | BackendAnalysisError
+  | CancelledError;
+
+/**
+ * Check whether a value is one of the API client errors
+ */
+export function isApiError(error: unknown): error is AuditApiError {
+  return error instanceof ApiError;
+}
+
+/**
+ * Parse a Retry-After header given either as seconds or an HTTP date
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.round((date - Date.now()) / 1000));
+}
+
+/**
+ * Build the error for a non-success HTTP response
+ * @param response Fetch response with a non-2xx status
+ * @param context Request context
+ * @returns RateLimitedError for 429, HttpStatusError otherwise
+ */
+export async function errorFromResponse(response: Response, context: ApiErrorContext = {}): Promise<AuditApiError> {
+  let message = `Error: ${response.status} ${response.statusText}`.trim();
+  try {
+    const errorData = await response.json();
+    console.error('Error Data:', errorData);
+    message = errorData?.message || errorData?.error?.message || message;
+  } catch (e) {
+    // Body is not JSON; keep the status line
+  }
+
+  if (response.status === 429) {
+    return new RateLimitedError(message, {
+      ...context,
+      retryAfter: parseRetryAfter(response.headers.get('Retry-After'))
+    });
+  }
+
+  return new HttpStatusError(message, {
+    ...context,
+    status: response.status,
+    statusText: response.statusText
+  });
+}
+
+/**
+ * Convert anything thrown while calling an endpoint into a typed error
+ * @param error Thrown value
+ * @param context Request context
+ * @param signal Caller's signal; when it has been aborted the error is a CancelledError
+ * @returns Typed API error (existing API errors get missing context filled in)
+ */
+export function toApiError(error: unknown, context: ApiErrorContext = {}, signal?: AbortSignal): AuditApiError {
+  if (signal?.aborted && !(error instanceof CancelledError)) {
+    return new CancelledError('The audit was cancelled', { ...context, cause: error });
+  }
+
+  if (isApiError(error)) {
+    error.endpoint = error.endpoint ?? context.endpoint;
+    error.attempt = error.attempt ?? context.attempt;
+    error.url = error.url ?? context.url;
+    return error;
+  }
+
+  const name = (error as Error)?.name;
+  const message = (error as Error)?.message || String(error);
+
+  // fetch rejects with AbortError for AbortController timeouts and
+  // TimeoutError for AbortSignal.timeout()
+  if (name === 'AbortError' || name === 'TimeoutError') {
+    return new TimeoutError('The request timed out', { ...context, cause: error });
+  }
+
+  // fetch rejects with a TypeError whenever no response was received
+  if (error instanceof TypeError) {
+    return new NetworkError(message || 'Network request failed', { ...context, cause: error });
+  }
+
+  return new BackendAnalysisError(message || 'Analysis failed', { ...context, cause: error, retryable: true });
+}
+
+type SiteErrorKind = 'dns' | 'tls' | 'timeout' | 'refused';
+
+// System error codes the backend forwards (error.code) when it cannot fetch the audited site
+const BACKEND_ERROR_CODES: Record<string, SiteErrorKind> = {
+  ENOTFOUND: 'dns',
+  EAI_AGAIN: 'dns',
+  CERT_HAS_EXPIRED: 'tls',
+  CERT_NOT_YET_VALID: 'tls',
+  DEPTH_ZERO_SELF_SIGNED_CERT: 'tls',
+  SELF_SIGNED_CERT_IN_CHAIN: 'tls',
+  UNABLE_TO_GET_ISSUER_CERT_LOCALLY: 'tls',
+  UNABLE_TO_VERIFY_LEAF_SIGNATURE: 'tls',
+  ERR_TLS_CERT_ALTNAME_INVALID: 'tls',
+  ERR_SSL_WRONG_VERSION_NUMBER: 'tls',
+  EPROTO: 'tls',
+  ETIMEDOUT: 'timeout',
+  ESOCKETTIMEDOUT: 'timeout',
+  UND_ERR_CONNECT_TIMEOUT: 'timeout',
+  ECONNREFUSED: 'refused',
+  ECONNRESET: 'refused',
+  EHOSTUNREACH: 'refused'
+};
+
+// Error types the backend reports for its own failures to fetch the site
+const BACKEND_ERROR_TYPES: Record<string, SiteErrorKind> = {
+  timeout: 'timeout'
+};
+
+/**
+ * Build the error for an analysis the backend reported as failed.
+ * The backend's error code and type are mapped to the matching error class
+ * here, once, at the API boundary; anything else is a BackendAnalysisError
+ * @param backendError Error object from the analysis result
+ * @param context Request context
+ * @returns Typed error describing why the site could not be analyzed
+ */
+export function errorFromBackend(
+  backendError: { type?: string; message?: string; code?: string } | undefined,
+  context: ApiErrorContext = {}
+): AuditApiError {
+  const message = backendError?.message || 'Analysis failed';
+  const siteContext = { ...context, cause: backendError };
+  const kind = (backendError?.code && BACKEND_ERROR_CODES[backendError.code])
+    || (backendError?.type && BACKEND_ERROR_TYPES[backendError.type]);
+
+  switch (kind) {
+    case 'dns':
+      return new DnsError(`Unable to resolve the website's domain name (${message})`, siteContext);
+    case 'tls':
+      return new TlsError(`The website's SSL certificate could not be verified (${message})`, siteContext);
+    case 'timeout': {
+      const error = new TimeoutError(`The website took too long to respond (${message})`, siteContext);
+      error.retryable = false;
+      return error;
+    }
+    case 'refused': {
+      const error = new NetworkError(`The website refused the connection (${message})`, siteContext);
+      error.retryable = false;
+      return error;
+    }
+    default:
+      return new BackendAnalysisError(message, { ...siteContext, backendType: backendError?.type });
+  }
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { JobStatusResponse } from './types';
+import { HttpStatusError, NetworkError } from './errors';
+import { watchJobProgress } from './jobProgress';
+
+function jobStatus(status: JobStatusResponse['job']['status'], progress: number): JobStatusResponse {
+  return {
+    status: 'ok',
+    message: '',
+    jobId: 'job-1',
+    job: { id: 'job-1', type: 'site_audit', status, progress, createdAt: 0, updatedAt: 0, url: 'https://example.com' }
+  };
+}
+
+// Polls without a progress stream: EventSource doesn't exist in Node
+const watch = (statuses: JobStatusResponse[], maxPollAttempts: number) => {
+  let polls = 0;
+  const getStatus = async () => statuses[Math.min(polls++, statuses.length - 1)];
+  return {
+    result: watchJobProgress('job-1', { streamUrl: '', getStatus, maxPollAttempts, pollIntervalMs: 1 }),
+    polls: () => polls
+  };
+};
+
+describe('watchJobProgress', () => {
+  it('keeps polling a long job while it makes progress', async () => {
+    const statuses = [
+      ...Array.from({ length: 20 }, (_, index) => jobStatus('processing', index * 5)),
+      jobStatus('completed', 100)
+    ];
+    const { result, polls } = watch(statuses, 3);
+
+    await expect(result).resolves.toMatchObject({ job: { status: 'completed' } });
+    expect(polls()).toBe(21);
+  });
+
+  it('gives up when the job stops making progress', async () => {
+    const { result, polls } = watch([jobStatus('processing', 10), jobStatus('processing', 40)], 3);
+
+    await expect(result).rejects.toMatchObject({ kind: 'timeout' });
+    // One poll at 10%, then three at 40% without a change
+    expect(polls()).toBe(4);
+  });
+
+  it('reports failed jobs', async () => {
+    const failed = { ...jobStatus('failed', 50), job: { ...jobStatus('failed', 50).job, error: 'Crawl blocked' } };
+    const { result } = watch([jobStatus('processing', 10), failed], 3);
+
+    await expect(result).rejects.toThrow('Job failed: Crawl blocked');
+  });
+
+  it('keeps polling through status checks that cannot reach the backend', async () => {
+    const responses: Array<JobStatusResponse | Error> = [
+      jobStatus('processing', 10),
+      new NetworkError('Failed to fetch'),
+      jobStatus('processing', 60),
+      new NetworkError('Failed to fetch'),
+      jobStatus('completed', 100)
+    ];
+    let polls = 0;
+    const getStatus = async () => {
+      const response = responses[polls++];
+      if (response instanceof Error) throw response;
+      return response;
+    };
+
+    const result = watchJobProgress('job-1', { streamUrl: '', getStatus, maxPollAttempts: 3, pollIntervalMs: 1 });
+    await expect(result).resolves.toMatchObject({ job: { status: 'completed' } });
+  });
+
+  it('counts unreachable status checks against the no-progress limit', async () => {
+    const getStatus = async (): Promise<JobStatusResponse> => {
+      throw new NetworkError('Failed to fetch');
+    };
+
+    const result = watchJobProgress('job-1', { streamUrl: '', getStatus, maxPollAttempts: 3, pollIntervalMs: 1 });
+    await expect(result).rejects.toMatchObject({ kind: 'timeout', cause: { kind: 'network' } });
+  });
+
+  it('stops on status errors that retrying cannot fix', async () => {
+    const getStatus = async (): Promise<JobStatusResponse> => {
+      throw new HttpStatusError('Job not found', { status: 404 });
+    };
+
+    const result = watchJobProgress('job-1', { streamUrl: '', getStatus, maxPollAttempts: 3, pollIntervalMs: 1 });
+    await expect(result).rejects.toMatchObject({ kind: 'http_status', status: 404 });
+  });
+});
@@ -0,0 +1,298 @@
+/**
+ * Job progress channel
+ * Progress for a job is read from the backend's Server-Sent Events stream
+ * (/job-progress/:id), which pushes stage events as the job runs. When the
+ * stream can't be opened or goes quiet, progress falls back to polling
+ * /job-status/:id. Either way callers receive JobStatusResponse updates
+ */
+import { JobProgressEvent, JobStage, JobStatusResponse } from './types';
+import { AuditApiError, BackendAnalysisError, TimeoutError, toApiError } from './errors';
+import { delay } from './abort';
+
+export const JOB_STAGE_LABELS: Record<JobStage, string> = {
+  queued: 'Queued',
+  fetching: 'Fetching page',
+  parsing: 'Parsing HTML',
+  crawling: 'Crawling site',
+  checking_links: 'Checking links',
+  analyzing: 'Analyzing URLs',
+  scoring: 'Scoring',
+  completed: 'Complete',
+  failed: 'Failed'
+};
+
+export interface WatchJobOptions {
+  // URL of the job's Server-Sent Events stream
+  streamUrl: string;
+  // Status endpoint, reported in polling errors
+  statusUrl?: string;
+  // Fetch the job status when polling; throws when the status can't be fetched
+  getStatus: (jobId: string, signal?: AbortSignal) => Promise<JobStatusResponse>;
+  onProgress?: (status: JobStatusResponse) => void;
+  // Stops streaming and polling
+  signal?: AbortSignal;
+  // Fall back to polling when the stream sends nothing for this long
+  streamIdleTimeoutMs?: number;
+  // Give up polling after this many polls in a row without progress
+  maxPollAttempts?: number;
+  pollIntervalMs?: number;
+}
+
+/**
+ * Create the status of a job before any progress has been reported
+ * @param jobId Job ID
+ * @param url URL being audited
+ * @param type Job type
+ */
+export function createJobStatus(jobId: string, url = '', type = 'audit'): JobStatusResponse {
+  const now = Date.now();
+
+  return {
+    status: 'ok',
+    message: 'Job created',
+    jobId,
+    job: {
+      id: jobId,
+      type,
+      status: 'queued',
+      progress: 0,
+      createdAt: now,
+      updatedAt: now,
+      url
+    },
+    timestamp: new Date(now).toISOString()
+  };
+}
+
+/**
+ * Apply a progress event to a job status
+ * @param status Current job status
+ * @param event Event from the progress stream
+ * @returns Updated job status
+ */
+export function applyProgressEvent(status: JobStatusResponse, event: JobProgressEvent): JobStatusResponse {
+  const jobStatus: JobStatusResponse['job']['status'] =
+    event.stage === 'completed' ? 'completed' :
+    event.stage === 'failed' ? 'failed' :
+    event.stage === 'queued' ? 'queued' :
+    'processing';
+
+  const progress = event.stage === 'completed'
+    ? 100
+    : Math.max(0, Math.min(100, event.progress ?? status.job.progress));
+
+  return {
+    ...status,
+    status: event.stage === 'failed' ? 'error' : 'ok',
+    message: event.message || status.message,
+    job: {
+      ...status.job,
+      status: jobStatus,
+      stage: event.stage,
+      progress,
+      current: event.current,
+      total: event.total,
+      currentUrl: event.url ?? status.job.currentUrl,
+      message: event.message ?? status.job.message,
+      error: event.error ?? status.job.error,
+      updatedAt: Date.now()
+    },
+    timestamp: new Date().toISOString()
+  };
+}
+
+/**
+ * Human-readable label for where a job is, e.g. "Crawling page 3 of 10"
+ * @param job Job from a status response
+ */
+export function describeJobProgress(job: JobStatusResponse['job']): string {
+  const hasCount = job.current !== undefined && job.total !== undefined;
+
+  if (job.stage === 'crawling' && hasCount) {
+    return `Crawling page ${job.current} of ${job.total}`;
+  }
+  if (job.stage === 'checking_links' && hasCount) {
+    return `Checking link ${job.current} of ${job.total}`;
+  }
+  if (job.stage === 'analyzing' && hasCount) {
+    return `Analyzing URL ${job.current} of ${job.total}`;
+  }
+  if (job.stage) {
+    return JOB_STAGE_LABELS[job.stage];
+  }
+
+  // Polled backends that don't report stages
+  return job.status === 'processing' ? 'Processing' : JOB_STAGE_LABELS[job.status];
+}
+
+function jobFailedError(status: JobStatusResponse, endpoint: string): BackendAnalysisError {
+  return new BackendAnalysisError(`Job failed: ${status.job.error || 'Unknown error'}`, {
+    endpoint,
+    url: status.job.url
+  });
+}
+
+/**
+ * Follow the progress stream until the job finishes
+ * @returns Final status, or null when the stream is unavailable and the
+ * caller should poll instead
+ */
+function streamJobProgress(jobId: string, options: WatchJobOptions): Promise<JobStatusResponse | null> {
+  const { streamUrl, onProgress, signal, streamIdleTimeoutMs = 30000 } = options;
+
+  if (typeof EventSource === 'undefined') {
+    return Promise.resolve(null);
+  }
+
+  return new Promise((resolve, reject) => {
+    let status: JobStatusResponse | null = null;
+    let idleTimer: ReturnType<typeof setTimeout>;
+    const source = new EventSource(streamUrl);
+
+    const onAbort = () => finish(null, signal.reason);
+
+    const finish = (result: JobStatusResponse | null, error?: Error) => {
+      clearTimeout(idleTimer);
+      signal?.removeEventListener('abort', onAbort);
+      source.close();
+      if (error) {
+        reject(error);
+      } else {
+        resolve(result);
+      }
+    };
+
+    const resetIdleTimer = () => {
+      clearTimeout(idleTimer);
+      idleTimer = setTimeout(() => {
+        console.warn(`No progress events for job ${jobId} in ${streamIdleTimeoutMs}ms, switching to polling`);
+        finish(null);
+      }, streamIdleTimeoutMs);
+    };
+
+    source.onmessage = (message) => {
+      let event: JobProgressEvent;
+      try {
+        event = JSON.parse(message.data);
+      } catch (e) {
+        console.warn('Ignoring malformed progress event:', message.data);
+        return;
+      }
+
+      resetIdleTimer();
+      status = applyProgressEvent(status || createJobStatus(jobId), event);
+      onProgress?.(status);
+
+      if (status.job.status === 'completed') {
+        finish(status);
+      } else if (status.job.status === 'failed') {
+        finish(null, jobFailedError(status, streamUrl));
+      }
+    };
+
+    source.onerror = () => {
+      // EventSource reconnects by itself after a dropped connection; give up
+      // only if the stream never opened or the browser stopped retrying
+      if (!status || source.readyState === EventSource.CLOSED) {
+        console.warn(`Progress stream for job ${jobId} unavailable, switching to polling`);
+        finish(null);
+      }
+    };
+
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+    resetIdleTimer();
+  });
+}
+
+/**
+ * What changes while a job makes progress
+ */
+function progressKey({ job }: JobStatusResponse): string {
+  return [job.status, job.stage, job.progress, job.current, job.currentUrl].join('|');
+}
+
+/**
+ * Whether a failed status check can succeed later: the connection or the
+ * backend had trouble, which says nothing about the job itself
+ */
+function isTransientError(error: AuditApiError): boolean {
+  return error.kind === 'network'
+    || error.kind === 'timeout'
+    || error.kind === 'rate_limited'
+    || (error.kind === 'http_status' && error.status >= 500);
+}
+
+/**
+ * Poll the job status with backoff until the job finishes. Long jobs are
+ * fine as long as they keep making progress; polling only gives up after
+ * maxPollAttempts polls in a row without any. Status checks that fail to
+ * reach the backend count as polls without progress
+ */
+async function pollJobProgress(jobId: string, options: WatchJobOptions): Promise<JobStatusResponse> {
+  const { getStatus, onProgress, signal, maxPollAttempts = 30, pollIntervalMs = 2000 } = options;
+  let interval = pollIntervalMs;
+  let lastKey: string | null = null;
+  let lastError: AuditApiError | null = null;
+
+  for (let attempts = 1; attempts <= maxPollAttempts; attempts++) {
+    let status: JobStatusResponse | null = null;
+    try {
+      status = await getStatus(jobId, signal);
+      lastError = null;
+    } catch (error) {
+      lastError = toApiError(error, { endpoint: options.statusUrl }, signal);
+      if (!isTransientError(lastError)) throw lastError;
+      console.warn(`Could not check job ${jobId}, trying again:`, lastError);
+    }
+
+    if (status) {
+      onProgress?.(status);
+
+      if (status.job.status === 'completed') {
+        return status;
+      }
+      if (status.job.status === 'failed') {
+        throw jobFailedError(status, options.statusUrl);
+      }
+
+      const key = progressKey(status);
+      if (key !== lastKey) {
+        lastKey = key;
+        attempts = 1;
+        interval = pollIntervalMs;
+      }
+    }
+
+    // Exponential backoff with ceiling
+    interval = Math.min(interval * 1.5, 10000); // Max 10 seconds
+    await delay(interval, signal);
+  }
+
+  throw new TimeoutError(`Job ${jobId} made no progress in ${maxPollAttempts} status checks`, {
+    endpoint: options.statusUrl,
+    attempt: maxPollAttempts,
+    cause: lastError ?? undefined
+  });
+}
+
+/**
+ * Watch a job until it completes, streaming progress when the backend
+ * supports it and polling otherwise
+ * @param jobId Job ID
+ * @param options Stream URL, status fetcher and progress callback
+ * @returns Final job status
+ * @throws BackendAnalysisError when the job fails, TimeoutError when polling
+ * gives up, CancelledError when the signal is aborted
+ */
+export async function watchJobProgress(jobId: string, options: WatchJobOptions): Promise<JobStatusResponse> {
+  try {
+    const streamed = await streamJobProgress(jobId, options);
+    return streamed || await pollJobProgress(jobId, options);
+  } catch (error) {
+    throw toApiError(error, { endpoint: options.statusUrl }, options.signal);
+  }
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { createErrorResult, isAuditResult, normalizeAuditResult, readResponseEnvelope } from './normalizer';
+
+// A canonical result with the optional sections only real audits carry
+function canonicalResult() {
+  const base = normalizeAuditResult({
+    url: 'https://example.com/',
+    score: 82,
+    pageData: {
+      title: 'Example',
+      metaDescription: 'An example page',
+      technical: { hasCanonical: true, canonicalUrl: 'https://example.com/' }
+    }
+  });
+
+  return {
+    ...base,
+    pageData: {
+      ...base.pageData,
+      technical: {
+        ...base.pageData.technical,
+        noindex: true,
+        structuredData: { items: [], errors: [], warnings: [] }
+      },
+      http: { statusCode: 200, redirectChain: [] },
+      performance: { source: 'lab', metrics: {} }
+    }
+  };
+}
+
+describe('normalizeAuditResult', () => {
+  it('returns canonical results unchanged', () => {
+    const result = canonicalResult();
+    expect(isAuditResult(result)).toBe(true);
+    expect(normalizeAuditResult(result)).toBe(result);
+  });
+
+  it('keeps canonical results inside a response envelope intact', () => {
+    const result = canonicalResult();
+    const normalized = normalizeAuditResult({ status: 'ok', data: result });
+
+    expect(normalized).toEqual(result);
+    expect(normalized.pageData.technical.noindex).toBe(true);
+    expect(normalized.pageData.technical.structuredData).toEqual(result.pageData.technical.structuredData);
+    expect(normalized.pageData.http).toEqual(result.pageData.http);
+    expect(normalized.pageData.performance).toEqual(result.pageData.performance);
+  });
+
+  it('unwraps raw analyses from nested envelopes', () => {
+    const normalized = normalizeAuditResult({
+      status: 'ok',
+      cached: true,
+      data: { results: { url: 'https://example.com/', score: 55, pageData: { title: 'Example' } } }
+    });
+
+    expect(normalized.url).toBe('https://example.com/');
+    expect(normalized.score).toBe(55);
+    expect(normalized.cached).toBe(true);
+    expect(normalized.pageData.title).toEqual({ text: 'Example', length: 7 });
+  });
+
+  it('turns error payloads into error results', () => {
+    const normalized = normalizeAuditResult({ status: 'error', error: 'Timed out' }, { url: 'https://example.com/' });
+    expect(normalized).toMatchObject({
+      status: 'error',
+      url: 'https://example.com/',
+      error: { message: 'Timed out' }
+    });
+  });
+
+  it('keeps the canonical shape for error results', () => {
+    expect(isAuditResult(createErrorResult('https://example.com/', 'Failed'))).toBe(true);
+  });
+
+  it('reads the envelope fields of a response, dropping mistyped ones', () => {
+    expect(readResponseEnvelope({ message: 'Done', timestamp: 42, totalUrls: 2, results: [{}, {}] })).toEqual({
+      message: 'Done',
+      totalUrls: 2,
+      results: [{}, {}]
+    });
+    expect(readResponseEnvelope('not json')).toEqual({});
+  });
+});
@@ -0,0 +1,673 @@
+/**
+ * Audit result normalizer
+ * Converts every backend response shape (V1 pageAnalysis, V2 pageData and
+ * categories, /generate-audit, /seoaudit, local analysis) into the canonical
+ * AuditResult. Payloads are validated at runtime so malformed responses fail
+ * here with a descriptive error instead of deep inside a component
+ */
+import { z } from 'zod';
+import {
+  AuditResult,
+  AuditIssue,
+  AuditPageData,
+  AuditCategoryName,
+  AuditCategoryResult
+} from './types';
+import { ruleRegistry, toRulePageData, scoreIssues } from '../analysis/rules';
+
+export const AUDIT_RESULT_VERSION = 1;
+
+const CATEGORY_NAMES: AuditCategoryName[] = ['metadata', 'content', 'technical', 'userExperience'];
+
+/**
+ * Thrown when a payload cannot be interpreted as an audit result
+ */
+export class AuditPayloadError extends Error {
+  issues: z.ZodIssue[];
+  payload: unknown;
+
+  constructor(message: string, issues: z.ZodIssue[] = [], payload?: unknown) {
+    super(message);
+    this.name = 'AuditPayloadError';
+    this.issues = issues;
+    this.payload = payload;
+  }
+}
+
+// Raw payload schemas: lenient about which fields are present, strict about
+// the types of the ones that are
+
+const numberish = z.union([
+  z.number(),
+  z.string().regex(/^\s*-?\d+(\.\d+)?\s*$/).transform(Number)
+]);
+
+const textField = z.union([
+  z.string(),
+  z.object({ text: z.string().nullish(), length: numberish.nullish() }).passthrough()
+]);
+
+const rawIssueSchema = z.object({
+  type: z.string().nullish(),
+  issue: z.string().nullish(),
+  description: z.string().nullish(),
+  severity: z.string().nullish(),
+  impact: z.string().nullish(),
+  current: z.union([z.string(), z.number()]).nullish(),
+  count: numberish.nullish(),
+  recommendation: z.string().nullish()
+}).passthrough();
+
+const rawCategorySchema = z.object({
+  score: numberish.nullish(),
+  issues: z.array(rawIssueSchema).nullish()
+}).passthrough();
+
+const rawMetricSchema = z.object({
+  value: numberish,
+  unit: z.string().nullish(),
+  score: numberish
+}).passthrough();
+
+const rawPageSchema = z.object({
+  title: textField.nullish(),
+  metaDescription: textField.nullish(),
+  headings: z.object({
+    h1Count: numberish.nullish(),
+    h1Texts: z.array(z.string()).nullish(),
+    h2Count: numberish.nullish(),
+    h2Texts: z.array(z.string()).nullish(),
+    h3Count: numberish.nullish(),
+    // /generate-audit and /seoaudit report bare counts
+    h1: numberish.nullish(),
+    h2: numberish.nullish(),
+    h3: numberish.nullish()
+  }).passthrough().nullish(),
+  content: z.object({
+    wordCount: numberish.nullish(),
+    contentLength: numberish.nullish()
+  }).passthrough().nullish(),
+  wordCount: numberish.nullish(),
+  contentLength: numberish.nullish(),
+  links: z.object({
+    internalCount: numberish.nullish(),
+    externalCount: numberish.nullish(),
+    totalCount: numberish.nullish()
+  }).passthrough().nullish(),
+  images: z.object({
+    total: numberish.nullish(),
+    withoutAlt: numberish.nullish(),
+    withoutAltCount: numberish.nullish()
+  }).passthrough().nullish(),
+  technical: z.object({
+    hasCanonical: z.boolean().nullish(),
+    canonicalUrl: z.string().nullish(),
+    hasMobileViewport: z.boolean().nullish(),
+    hasStructuredData: z.boolean().nullish(),
+    structuredDataTypes: z.array(z.string()).nullish()
+  }).passthrough().nullish(),
+  canonical: z.string().nullish(),
+  hreflang: z.array(z.object({ hreflang: z.string(), href: z.string() }).passthrough()).nullish(),
+  seoIssues: z.array(rawIssueSchema).nullish(),
+  performanceIssues: z.array(rawIssueSchema).nullish()
+}).passthrough();
+
+const rawResultSchema = z.object({
+  url: z.string().nullish(),
+  score: numberish.nullish(),
+  status: z.string().nullish(),
+  criticalIssuesCount: numberish.nullish(),
+  totalIssuesCount: numberish.nullish(),
+  issuesFound: numberish.nullish(),
+  categories: z.object({
+    metadata: rawCategorySchema.nullish(),
+    content: rawCategorySchema.nullish(),
+    technical: rawCategorySchema.nullish(),
+    userExperience: rawCategorySchema.nullish()
+  }).passthrough().nullish(),
+  pageData: rawPageSchema.nullish(),
+  pageAnalysis: rawPageSchema.nullish(),
+  topIssues: z.array(rawIssueSchema).nullish(),
+  recommendations: z.array(z.object({
+    priority: z.string().nullish(),
+    type: z.string().nullish(),
+    description: z.string().nullish()
+  }).passthrough()).nullish(),
+  performanceMetrics: z.object({
+    lcp: rawMetricSchema,
+    cls: rawMetricSchema,
+    fid: rawMetricSchema
+  }).passthrough().nullish(),
+  siteAnalysis: z.any(),
+  linkReport: z.any(),
+  error: z.union([
+    z.string(),
+    z.object({ type: z.string().nullish(), message: z.string().nullish(), code: z.string().nullish() }).passthrough()
+  ]).nullish(),
+  cached: z.boolean().nullish(),
+  cachedAt: z.string().nullish(),
+  analyzedAt: z.string().nullish(),
+  timestamp: z.string().nullish()
+}).passthrough();
+
+// Fields API responses carry around their results. Each field is checked on
+// its own; one of the wrong type is dropped instead of failing the response
+const responseEnvelopeSchema = z.object({
+  status: z.enum(['ok', 'error', 'success']).optional().catch(undefined),
+  message: z.string().optional().catch(undefined),
+  totalUrls: z.number().optional().catch(undefined),
+  results: z.array(z.unknown()).optional().catch(undefined),
+  cached: z.boolean().optional().catch(undefined),
+  cachedAt: z.string().optional().catch(undefined),
+  timestamp: z.string().optional().catch(undefined)
+});
+
+export type ResponseEnvelope = z.infer<typeof responseEnvelopeSchema>;
+
+type RawResult = z.infer<typeof rawResultSchema>;
+type RawPage = z.infer<typeof rawPageSchema>;
+
+// Page data sections a backend reported, before the missing ones are filled in
+type PageSections = Partial<Omit<AuditPageData, 'technical'>> & {
+  technical?: Partial<AuditPageData['technical']>;
+  contentLength?: number;
+};
+type RawIssue = z.infer<typeof rawIssueSchema>;
+
+// Canonical schema, used to check the normalizer's own output
+
+const issueSchema = z.object({
+  type: z.string(),
+  severity: z.string(),
+  impact: z.string(),
+  current: z.union([z.string(), z.number()]).optional(),
+  count: z.number().optional(),
+  recommendation: z.string()
+});
+
+const categorySchema = z.object({
+  score: z.number().min(0).max(100),
+  issues: z.array(issueSchema)
+});
+
+const metricSchema = z.object({
+  value: z.number(),
+  unit: z.string().optional(),
+  score: z.number()
+});
+
+export const auditResultSchema = z.object({
+  version: z.literal(AUDIT_RESULT_VERSION),
+  url: z.string(),
+  score: z.number().min(0).max(100),
+  status: z.enum(['good', 'needs_improvement', 'poor', 'error']),
+  criticalIssuesCount: z.number().int().min(0),
+  totalIssuesCount: z.number().int().min(0),
+  categories: z.object({
+    metadata: categorySchema,
+    content: categorySchema,
+    technical: categorySchema,
+    userExperience: categorySchema
+  }),
+  pageData: z.object({
+    title: z.object({ text: z.string(), length: z.number() }),
+    metaDescription: z.object({ text: z.string(), length: z.number() }),
+    headings: z.object({
+      h1Count: z.number(),
+      h1Texts: z.array(z.string()),
+      h2Count: z.number(),
+      h2Texts: z.array(z.string()),
+      h3Count: z.number()
+    }),
+    content: z.object({ wordCount: z.number(), contentLength: z.number() }),
+    links: z.object({ internalCount: z.number(), externalCount: z.number(), totalCount: z.number() }),
+    images: z.object({ total: z.number(), withoutAlt: z.number() }),
+    technical: z.object({
+      hasCanonical: z.boolean(),
+      canonicalUrl: z.string(),
+      hasMobileViewport: z.boolean(),
+      hasStructuredData: z.boolean(),
+      structuredDataTypes: z.array(z.string())
+    }),
+    hreflang: z.array(z.object({ hreflang: z.string(), href: z.string() }))
+  }),
+  siteAnalysis: z.any().optional(),
+  linkReport: z.any().optional(),
+  recommendations: z.array(z.object({
+    priority: z.string(),
+    type: z.string(),
+    description: z.string()
+  })),
+  performanceMetrics: z.object({ lcp: metricSchema, cls: metricSchema, fid: metricSchema }).optional(),
+  error: z.object({ type: z.string(), message: z.string(), code: z.string().optional() }).optional(),
+  cached: z.boolean(),
+  cachedAt: z.string().optional(),
+  analyzedAt: z.string()
+});
+
+/**
+ * Check whether a value is already a canonical AuditResult
+ * (e.g. audits restored from storage or imported from an export)
+ */
+export function isAuditResult(value: unknown): value is AuditResult {
+  return auditResultSchema.safeParse(value).success;
+}
+
+/**
+ * Format zod issues as a short, readable list
+ */
+function describeIssues(issues: z.ZodIssue[]): string {
+  return issues
+    .slice(0, 3)
+    .map(issue => `${issue.path.join('.') || 'payload'}: ${issue.message}`)
+    .join('; ');
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Strip response envelopes ({ status, data }, { results }) down to the
+ * analysis object, carrying over envelope-level fields such as cached
+ */
+function unwrapPayload(payload: unknown): unknown {
+  if (!isRecord(payload)) return payload;
+
+  const inner = isRecord(payload.data)
+    ? payload.data
+    : isRecord(payload.results)
+      ? payload.results
+      : null;
+
+  if (!inner) return payload;
+
+  return unwrapPayload({
+    url: payload.url,
+    cached: payload.cached,
+    cachedAt: payload.cachedAt,
+    ...inner
+  });
+}
+
+const toNumber = (value: unknown, fallback = 0): number =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+const clampScore = (value: number): number => Math.max(0, Math.min(100, Math.round(value)));
+
+/**
+ * Normalize a title or meta description given either as a string or { text, length }
+ */
+function toTextField(value: RawPage['title']): { text: string; length: number } {
+  if (typeof value === 'string') {
+    return { text: value, length: value.length };
+  }
+  const text = value?.text || '';
+  return { text, length: toNumber(value?.length, text.length) };
+}
+
+/**
+ * Merge V2 pageData with V1 pageAnalysis into a rule-ready object that only
+ * contains the sections the backend actually reported
+ */
+function collectPageSections(pageData: RawPage, pageAnalysis: RawPage): PageSections {
+  const source: RawPage = { ...pageAnalysis, ...pageData };
+  const sections: PageSections = {};
+
+  if (source.title != null) sections.title = toTextField(source.title);
+  if (source.metaDescription != null) sections.metaDescription = toTextField(source.metaDescription);
+
+  if (source.headings) {
+    const h = source.headings;
+    sections.headings = {
+      h1Count: toNumber(h.h1Count ?? h.h1, h.h1Texts?.length || 0),
+      h1Texts: h.h1Texts || [],
+      h2Count: toNumber(h.h2Count ?? h.h2, h.h2Texts?.length || 0),
+      h2Texts: h.h2Texts || [],
+      h3Count: toNumber(h.h3Count ?? h.h3)
+    };
+  }
+
+  // V1 only reports character length; without a word count the content
+  // rules can't be checked, so the section stays out of rule evaluation
+  const wordCount = source.content?.wordCount ?? source.wordCount;
+  const contentLength = source.content?.contentLength ?? source.contentLength;
+  if (wordCount != null) {
+    sections.content = {
+      wordCount: toNumber(wordCount),
+      contentLength: toNumber(contentLength),
+      fingerprint: typeof source.content?.fingerprint === 'string' ? source.content.fingerprint : undefined
+    };
+  } else if (contentLength != null) {
+    sections.contentLength = toNumber(contentLength);
+  }
+
+  if (source.links) {
+    const internalCount = toNumber(source.links.internalCount);
+    const externalCount = toNumber(source.links.externalCount);
+    sections.links = {
+      internalCount,
+      externalCount,
+      totalCount: toNumber(source.links.totalCount, internalCount + externalCount)
+    };
+  }
+
+  if (source.images) {
+    sections.images = {
+      total: toNumber(source.images.total),
+      withoutAlt: toNumber(source.images.withoutAlt ?? source.images.withoutAltCount)
+    };
+  }
+
+  const canonicalUrl = source.technical?.canonicalUrl ?? source.canonical;
+  if (source.technical || canonicalUrl != null) {
+    const structuredDataTypes = source.technical?.structuredDataTypes || [];
+    sections.technical = {
+      ...source.technical,
+      hasCanonical: source.technical?.hasCanonical ?? Boolean(canonicalUrl),
+      canonicalUrl: canonicalUrl || '',
+      hasStructuredData: source.technical?.hasStructuredData ?? (structuredDataTypes.length > 0 || undefined),
+      structuredDataTypes
+    };
+  }
+
+  if (source.hreflang) {
+    sections.hreflang = source.hreflang.map(({ hreflang, href }) => ({ hreflang, href }));
+  }
+
+  return sections;
+}
+
+/**
+ * Fill sections the backend did not report with empty values
+ */
+function completePageData(sections: PageSections): AuditPageData {
+  return {
+    title: sections.title || { text: '', length: 0 },
+    metaDescription: sections.metaDescription || { text: '', length: 0 },
+    headings: sections.headings || { h1Count: 0, h1Texts: [], h2Count: 0, h2Texts: [], h3Count: 0 },
+    content: sections.content || { wordCount: 0, contentLength: sections.contentLength || 0 },
+    links: sections.links || { internalCount: 0, externalCount: 0, totalCount: 0 },
+    images: sections.images || { total: 0, withoutAlt: 0 },
+    technical: {
+      hasCanonical: Boolean(sections.technical?.hasCanonical),
+      canonicalUrl: sections.technical?.canonicalUrl || '',
+      hasMobileViewport: Boolean(sections.technical?.hasMobileViewport),
+      hasStructuredData: Boolean(sections.technical?.hasStructuredData),
+      structuredDataTypes: sections.technical?.structuredDataTypes || []
+    },
+    hreflang: sections.hreflang || []
+  };
+}
+
+/**
+ * Map the severity vocabulary used by the various backends onto critical/warning/info
+ */
+function toSeverity(value: string | null | undefined): string {
+  const severity = (value || '').toLowerCase();
+  if (['critical', 'error', 'high'].includes(severity)) return 'critical';
+  if (['warning', 'warn', 'medium'].includes(severity)) return 'warning';
+  return 'info';
+}
+
+const IMPACT_BY_SEVERITY: Record<string, string> = {
+  critical: 'high',
+  warning: 'medium',
+  info: 'low'
+};
+
+/**
+ * Convert a raw issue (V2 issue, V1 topIssue or legacy seoIssue) into an AuditIssue
+ */
+function toAuditIssue(raw: RawIssue): AuditIssue {
+  const label = raw.issue || raw.description || raw.type || 'issue';
+  // Legacy issues put the severity in `type` and the name in `issue`
+  const legacy = Boolean(raw.issue) && !raw.severity;
+  const severity = toSeverity(legacy ? raw.type : raw.severity);
+  const type = legacy || !raw.type
+    ? label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '')
+    : raw.type;
+
+  const issue: AuditIssue = {
+    type,
+    severity,
+    impact: (raw.impact || IMPACT_BY_SEVERITY[severity]).toLowerCase(),
+    recommendation: raw.recommendation || raw.description || label
+  };
+  if (raw.current != null) issue.current = raw.current;
+  if (raw.count != null) issue.count = raw.count;
+  return issue;
+}
+
+/**
+ * Guess the category of an issue that arrived without one
+ */
+function guessCategory(issue: AuditIssue): AuditCategoryName {
+  const text = `${issue.type} ${issue.recommendation}`.toLowerCase();
+  if (/title|meta|description/.test(text)) return 'metadata';
+  if (/h1|h2|heading|content|word|alt|image/.test(text)) return 'content';
+  if (/viewport|mobile|paint|layout|interactiv|speed|render|javascript|link/.test(text)) return 'userExperience';
+  return 'technical';
+}
+
+const emptyCategories = (): Record<AuditCategoryName, AuditIssue[]> => ({
+  metadata: [],
+  content: [],
+  technical: [],
+  userExperience: []
+});
+
+/**
+ * Build category issue lists for payloads that don't provide categories:
+ * issues listed by the backend are sorted into categories, otherwise the
+ * rule registry is run over whatever page sections were reported
+ */
+function deriveCategoryIssues(
+  raw: RawResult,
+  sections: PageSections,
+  url: string
+): Record<AuditCategoryName, AuditIssue[]> {
+  const listed = [
+    ...(raw.pageData?.seoIssues || raw.pageAnalysis?.seoIssues || []),
+    ...(raw.pageData?.performanceIssues || raw.pageAnalysis?.performanceIssues || [])
+  ];
+  const issues = listed.length > 0 ? listed : raw.topIssues || [];
+
+  if (issues.length > 0) {
+    const grouped = emptyCategories();
+    issues.map(toAuditIssue).forEach(issue => grouped[guessCategory(issue)].push(issue));
+    return grouped;
+  }
+
+  return ruleRegistry.evaluate(toRulePageData(sections), url);
+}
+
+/**
+ * Derive the score status band
+ */
+export function scoreToStatus(score: number): AuditResult['status'] {
+  return score >= 80 ? 'good' : score >= 50 ? 'needs_improvement' : 'poor';
+}
+
+/**
+ * Build prioritized recommendations from category issues (info issues are skipped)
+ */
+export function buildRecommendations(categories: Record<AuditCategoryName, AuditCategoryResult>): AuditResult['recommendations'] {
+  return CATEGORY_NAMES
+    .flatMap(name => categories[name].issues)
+    .filter(issue => issue.severity !== 'info')
+    .map(issue => ({
+      priority: issue.severity === 'critical' ? 'high' : 'medium',
+      type: issue.type,
+      description: issue.recommendation
+    }));
+}
+
+/**
+ * Validate a result against the canonical schema
+ */
+function assertCanonical(result: AuditResult, payload: unknown): AuditResult {
+  const parsed = auditResultSchema.safeParse(result);
+  if (!parsed.success) {
+    throw new AuditPayloadError(
+      `Audit result could not be normalized: ${describeIssues(parsed.error.issues)}`,
+      parsed.error.issues,
+      payload
+    );
+  }
+  return result;
+}
+
+/**
+ * Convert any supported audit payload into the canonical AuditResult
+ * @param payload Response body or analysis object from any backend
+ * @param context Fallback values for fields the payload may omit
+ * @returns Canonical audit result
+ * @throws AuditPayloadError when the payload is not a recognizable audit result
+ */
+export function normalizeAuditResult(payload: unknown, context: { url?: string } = {}): AuditResult {
+  if (isAuditResult(payload)) return payload;
+
+  const unwrapped = unwrapPayload(payload);
+  // Canonical results can arrive inside a { status, data } envelope too
+  if (isAuditResult(unwrapped)) return unwrapped;
+  if (!isRecord(unwrapped)) {
+    throw new AuditPayloadError('Audit response is empty or not an object', [], payload);
+  }
+
+  const parsed = rawResultSchema.safeParse(unwrapped);
+  if (!parsed.success) {
+    throw new AuditPayloadError(
+      `Audit response has an unexpected format: ${describeIssues(parsed.error.issues)}`,
+      parsed.error.issues,
+      payload
+    );
+  }
+
+  const raw = parsed.data;
+  const url = raw.url || context.url || '';
+
+  if (raw.status === 'error' || (raw.error && raw.score == null)) {
+    const error = typeof raw.error === 'string' ? { message: raw.error } : raw.error || {};
+    return createErrorResult(url, error.message || 'Analysis failed', error.type || 'analysis_error', error.code || undefined);
+  }
+
+  const sections = collectPageSections(raw.pageData || {}, raw.pageAnalysis || {});
+  const derived = raw.categories ? null : deriveCategoryIssues(raw, sections, url);
+
+  const categories = {} as Record<AuditCategoryName, AuditCategoryResult>;
+  CATEGORY_NAMES.forEach(name => {
+    const issues = derived ? derived[name] : (raw.categories[name]?.issues || []).map(toAuditIssue);
+    categories[name] = {
+      score: clampScore(toNumber(raw.categories?.[name]?.score, scoreIssues(issues))),
+      issues
+    };
+  });
+
+  const allIssues = CATEGORY_NAMES.flatMap(name => categories[name].issues);
+  const score = clampScore(toNumber(
+    raw.score,
+    CATEGORY_NAMES.reduce((sum, name) => sum + categories[name].score, 0) / CATEGORY_NAMES.length
+  ));
+  const status = ['good', 'needs_improvement', 'poor'].includes(raw.status)
+    ? raw.status as AuditResult['status']
+    : scoreToStatus(score);
+
+  const result: AuditResult = {
+    version: AUDIT_RESULT_VERSION,
+    url,
+    score,
+    status,
+    criticalIssuesCount: toNumber(
+      raw.criticalIssuesCount,
+      allIssues.filter(issue => issue.severity === 'critical').length
+    ),
+    totalIssuesCount: toNumber(raw.totalIssuesCount ?? raw.issuesFound, allIssues.length),
+    categories,
+    pageData: completePageData(sections),
+    recommendations: raw.recommendations
+      ? raw.recommendations.map(rec => ({
+        priority: rec.priority || 'medium',
+        type: rec.type || 'general',
+        description: rec.description || ''
+      }))
+      : buildRecommendations(categories),
+    cached: Boolean(raw.cached),
+    analyzedAt: raw.analyzedAt || raw.timestamp || new Date().toISOString()
+  };
+
+  if (raw.siteAnalysis) result.siteAnalysis = raw.siteAnalysis;
+  if (raw.linkReport) result.linkReport = raw.linkReport;
+  if (raw.cachedAt) result.cachedAt = raw.cachedAt;
+  if (raw.performanceMetrics) {
+    const metric = (m: z.infer<typeof rawMetricSchema>) => ({
+      value: m.value,
+      ...(m.unit ? { unit: m.unit } : {}),
+      score: m.score
+    });
+    result.performanceMetrics = {
+      lcp: metric(raw.performanceMetrics.lcp),
+      cls: metric(raw.performanceMetrics.cls),
+      fid: metric(raw.performanceMetrics.fid)
+    };
+  }
+
+  return assertCanonical(result, payload);
+}
+
+/**
+ * Read the envelope fields (message, timestamp, batch results...) of a
+ * response body; the result inside it is normalized by normalizeAuditResult
+ * @param body Parsed response body, of any shape
+ * @returns The fields the body has with the expected types
+ */
+export function readResponseEnvelope(body: unknown): ResponseEnvelope {
+  return responseEnvelopeSchema.parse(isRecord(body) ? body : {});
+}
+
+/**
+ * Create a canonical result describing a failed analysis
+ * @param url URL that failed
+ * @param message Error message
+ * @param type Error type
+ * @param code System error code the failure came with, if any
+ * @returns Audit result with status 'error'
+ */
+export function createErrorResult(url: string, message: string, type = 'analysis_error', code?: string): AuditResult {
+  const categories = {} as Record<AuditCategoryName, AuditCategoryResult>;
+  CATEGORY_NAMES.forEach(name => {
+    categories[name] = { score: 0, issues: [] };
+  });
+
+  return {
+    version: AUDIT_RESULT_VERSION,
+    url,
+    score: 0,
+    status: 'error',
+    criticalIssuesCount: 0,
+    totalIssuesCount: 0,
+    categories,
+    pageData: completePageData({}),
+    recommendations: [],
+    error: code ? { type, message, code } : { type, message },
+    cached: false,
+    analyzedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Normalize every result of a batch response. Entries that cannot be
+ * normalized become error results so one bad page doesn't sink the batch
+ * @param results Raw batch results
+ * @returns Canonical audit results, in the same order
+ */
+export function normalizeBatchResults(results: unknown[]): AuditResult[] {
+  return (results || []).map(item => {
+    const url = isRecord(item) && typeof item.url === 'string' ? item.url : '';
+    try {
+      return normalizeAuditResult(item, { url });
+    } catch (error) {
+      console.warn(`Could not normalize batch result for ${url}:`, error);
+      return createErrorResult(url, error.message, 'invalid_response');
+    }
+  });
+}
@@ -12,6 +12,20 @@ export interface JobCreationResponse {
   data?: any;
 }
 
+/**
+ * Stage a job is in, as reported by the progress stream
+ */
+export type JobStage =
+  | 'queued'
+  | 'fetching'
+  | 'parsing'
+  | 'crawling'
+  | 'checking_links'
+  | 'analyzing'
+  | 'scoring'
+  | 'completed'
+  | 'failed';
+
 /**
  * Response when getting job status
  */
@@ -30,10 +44,30 @@ export interface JobStatusResponse {
     options?: Record<string, any>;
     message?: string;
     error?: string;
+    // Set by streamed progress events (and by backends that report stages)
+    stage?: JobStage;
+    // Position within the stage, e.g. page 3 of 10 while crawling
+    current?: number;
+    total?: number;
+    currentUrl?: string;
   };
   timestamp?: string;
 }
 
+/**
+ * Event pushed on the job progress stream
+ */
+export interface JobProgressEvent {
+  stage: JobStage;
+  // Overall progress 0-100
+  progress?: number;
+  message?: string;
+  current?: number;
+  total?: number;
+  url?: string;
+  error?: string;
+}
+
 /**
  * Response when getting job results
  */
@@ -77,7 +111,7 @@ export interface SeoAnalysisResponse {
   cached?: boolean;
   cachedAt?: string;
   timestamp?: string;
-  data: SeoAnalysisResult;
+  data: AuditResult;
 }
 
 /**
@@ -90,19 +124,26 @@ export interface BatchSeoAnalysisResponse {
   cached?: boolean;
   cachedAt?: string;
   timestamp?: string;
-  results: SeoAnalysisResult[];
+  results: AuditResult[];
 }
 
 /**
- * Updated SEO analysis results data structure
+ * Raw SEO analysis result as returned by the various backends (V1 and V2
+ * shapes mixed). Normalize with normalizeAuditResult before consuming
  */
 export interface SeoAnalysisResult {
   url: string;
   score: number;
-  status?: 'good' | 'needs_improvement' | 'poor';
+  status?: 'good' | 'needs_improvement' | 'poor' | 'error';
   criticalIssuesCount?: number;
   totalIssuesCount?: number;
   
+  // Present when status is 'error'
+  error?: {
+    type: string;
+    message: string;
+  };
+  
   // For V2 API
   categories?: {
     metadata: {
@@ -238,6 +279,17 @@ export interface SeoAnalysisResult {
       issuesFound?: number;
       criticalIssuesCount?: number;
     }>;
+    // Set by the self-hosted crawler
+    crawl?: {
+      pagesCrawled: number;
+      maxDepthReached: number;
+      // Discovered URLs not crawled, by reason (robots, excluded, duplicate, ...)
+      skipped: Record<string, number>;
+      robotsTxt: {
+        found: boolean;
+        crawlDelay?: number;
+      };
+    };
   };
   
   // Recommendations for V2 API
@@ -251,4 +303,282 @@ export interface SeoAnalysisResult {
   cached?: boolean;
   cachedAt?: string;
   analyzedAt?: string;
-}
\ No newline at end of file
+}
+
+/**
+ * Canonical audit model
+ * Every backend shape (V1, V2, /generate-audit, /seoaudit, local analysis)
+ * is converted into this by the normalizer, so consumers read one structure
+ */
+export type AuditCategoryName = 'metadata' | 'content' | 'technical' | 'userExperience';
+
+export interface AuditIssue {
+  type: string;
+  severity: string;
+  impact: string;
+  current?: string | number;
+  count?: number;
+  recommendation: string;
+}
+
+export interface AuditCategoryResult {
+  score: number;
+  issues: AuditIssue[];
+}
+
+export interface AuditPageData {
+  title: {
+    text: string;
+    length: number;
+  };
+  metaDescription: {
+    text: string;
+    length: number;
+  };
+  headings: {
+    h1Count: number;
+    h1Texts: string[];
+    h2Count: number;
+    h2Texts: string[];
+    h3Count: number;
+  };
+  content: {
+    wordCount: number;
+    contentLength: number;
+    // Simhash of the page text, for spotting near-duplicate pages
+    fingerprint?: string;
+  };
+  links: {
+    internalCount: number;
+    externalCount: number;
+    totalCount: number;
+    // Links on the page that are broken; set when the link checker ran
+    brokenCount?: number;
+  };
+  images: {
+    total: number;
+    withoutAlt: number;
+  };
+  technical: {
+    hasCanonical: boolean;
+    canonicalUrl: string;
+    hasMobileViewport: boolean;
+    hasStructuredData: boolean;
+    structuredDataTypes: string[];
+    // Meta robots asks search engines not to index the page
+    noindex?: boolean;
+    // Every structured data item on the page, validated
+    structuredData?: StructuredDataReport;
+  };
+  hreflang: Array<{
+    hreflang: string;
+    href: string;
+  }>;
+  // How the page was served; only known to server-side audits
+  http?: HttpPageData;
+  // Lab measurements from loading the page in headless Chromium; only server-side audits with a browser
+  performance?: LabPerformanceData;
+}
+
+export type WebVitalName = 'lcp' | 'fcp' | 'cls' | 'inp' | 'ttfb' | 'tbt';
+
+export type WebVitalRating = 'good' | 'needs_improvement' | 'poor';
+
+export interface WebVitalMetric {
+  // Milliseconds, or unitless for CLS
+  value: number;
+  unit?: string;
+  score: number;
+  rating: WebVitalRating;
+  // Within the "good" threshold
+  passed: boolean;
+}
+
+export type ResourceType = 'document' | 'script' | 'stylesheet' | 'image' | 'font' | 'media' | 'other';
+
+export interface ResourceWeight {
+  requests: number;
+  // Bytes transferred, compressed
+  bytes: number;
+}
+
+export interface PageResource {
+  url: string;
+  type: ResourceType;
+  host: string;
+  // Served from another site than the page
+  thirdParty: boolean;
+  status?: number;
+  mimeType?: string;
+  // Bytes transferred, compressed and including headers
+  transferBytes: number;
+  // Bytes after decompression
+  resourceBytes: number;
+  // Content-Encoding; unset when served uncompressed
+  contentEncoding?: string;
+  cacheControl?: string;
+  // Seconds the response may be cached for; 0 when it may not be
+  cacheTtl: number;
+  // Held back the first render of the page
+  renderBlocking: boolean;
+  // Images shown on the page, in CSS pixels; display size is 0 when hidden
+  image?: {
+    naturalWidth: number;
+    naturalHeight: number;
+    displayWidth: number;
+    displayHeight: number;
+  };
+}
+
+export interface ResourceInventory {
+  total: ResourceWeight;
+  byType: Record<ResourceType, ResourceWeight>;
+  thirdParty: ResourceWeight;
+  // Third-party hosts, heaviest first
+  thirdPartyHosts: Array<ResourceWeight & { host: string }>;
+  // Every resource loaded, heaviest first
+  items: PageResource[];
+}
+
+export interface LabPerformanceData {
+  measuredAt: string;
+  // Missing metrics couldn't be measured, e.g. INP when no interaction registered
+  metrics: Partial<Record<WebVitalName, WebVitalMetric>>;
+  resources: ResourceInventory;
+  // LCP, CLS and INP (when measured) are all good
+  passed: boolean;
+}
+
+export type StructuredDataFormat = 'json-ld' | 'microdata' | 'rdfa';
+
+export interface StructuredDataNode {
+  // schema.org types without the vocabulary prefix, e.g. Product
+  types: string[];
+  // Property values are text or nested items
+  properties: Record<string, Array<string | StructuredDataNode>>;
+  // Set by validation for types with known requirements
+  missingRequired?: string[];
+  missingRecommended?: string[];
+}
+
+export interface StructuredDataItem extends StructuredDataNode {
+  format: StructuredDataFormat;
+}
+
+export interface RichResultEligibility {
+  // Search feature, e.g. FAQ or Breadcrumb
+  feature: string;
+  type: string;
+  eligible: boolean;
+  // Required properties missing from the item or its nested items
+  missing: string[];
+}
+
+export interface StructuredDataReport {
+  present: boolean;
+  status: 'good' | 'warning' | 'error' | 'missing';
+  // Top-level items
+  count: number;
+  types: string[];
+  formats: {
+    jsonLd: number;
+    microdata: number;
+    rdfa: number;
+  };
+  items: StructuredDataItem[];
+  errors: Array<{ message: string }>;
+  warnings: Array<{ message: string }>;
+  richResults: RichResultEligibility[];
+  recommendations: string[];
+}
+
+export interface RedirectHop {
+  url: string;
+  status: number;
+}
+
+export interface HttpPageData {
+  // URL as requested, before any redirect
+  requestedUrl: string;
+  finalUrl: string;
+  status: number;
+  // Each redirect response, in order
+  redirects: RedirectHop[];
+  // Response headers of the final page that the rules look at
+  headers: {
+    cacheControl?: string;
+    strictTransportSecurity?: string;
+    xRobotsTag?: string;
+    contentType?: string;
+    contentEncoding?: string;
+  };
+  // The http:// version of the page redirects to HTTPS; unset when not checked
+  httpsRedirect?: boolean;
+  // The www and non-www hosts end up on the same host; unset when not checked
+  wwwConsistent?: boolean;
+}
+
+export type LinkProblem = 'broken' | 'redirect' | 'redirect_chain' | 'redirect_loop' | 'mixed_content' | 'noindex';
+
+export interface CheckedLink {
+  url: string;
+  // Same host as the audited site
+  internal: boolean;
+  // Final HTTP status; missing when the request failed
+  status?: number;
+  error?: string;
+  // Each URL redirected to, in order
+  redirects: string[];
+  problems: LinkProblem[];
+  // Pages linking here
+  sources: string[];
+}
+
+export interface LinkReport {
+  // Unique link targets found
+  totalLinks: number;
+  checkedLinks: number;
+  // Links with each problem
+  summary: Record<LinkProblem, number>;
+  // Only links with at least one problem
+  links: CheckedLink[];
+}
+
+export interface AuditPerformanceMetric {
+  value: number;
+  unit?: string;
+  score: number;
+}
+
+export interface AuditResult {
+  version: 1;
+  url: string;
+  score: number;
+  status: 'good' | 'needs_improvement' | 'poor' | 'error';
+  criticalIssuesCount: number;
+  totalIssuesCount: number;
+  categories: Record<AuditCategoryName, AuditCategoryResult>;
+  pageData: AuditPageData;
+  siteAnalysis?: SeoAnalysisResult['siteAnalysis'];
+  // Links found across a crawled site and what's wrong with them
+  linkReport?: LinkReport;
+  recommendations: Array<{
+    priority: string;
+    type: string;
+    description: string;
+  }>;
+  performanceMetrics?: {
+    lcp: AuditPerformanceMetric;
+    cls: AuditPerformanceMetric;
+    fid: AuditPerformanceMetric;
+  };
+  error?: {
+    type: string;
+    message: string;
+    // System error code (ENOTFOUND, CERT_HAS_EXPIRED...) when the page could not be fetched
+    code?: string;
+  };
+  cached: boolean;
+  cachedAt?: string;
+  analyzedAt: string;
+}
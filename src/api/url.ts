@@ -0,0 +1,93 @@
+/**
+ * URL helpers shared by the API client and the server-side pipeline
+ */
+
+/**
+ * Normalize URL to ensure proper format
+ * @param url URL to normalize
+ * @returns Normalized URL with proper protocol
+ */
+export function normalizeUrl(url: string): string {
+  // Handle common URL format issues
+  let normalizedUrl = url.trim();
+  
+  // Remove trailing slashes for consistency
+  while (normalizedUrl.endsWith('/')) {
+    normalizedUrl = normalizedUrl.slice(0, -1);
+  }
+  
+  // Handle www prefix consistently
+  if (normalizedUrl.startsWith('www.')) {
+    normalizedUrl = normalizedUrl.substring(4);
+  }
+  
+  // Ensure proper protocol
+  if (!normalizedUrl.startsWith('http://') && !normalizedUrl.startsWith('https://')) {
+    normalizedUrl = `https://${normalizedUrl}`;
+  }
+  
+  return normalizedUrl;
+}
+
+/**
+ * The URL as entered, with a protocol added when missing
+ * Unlike normalizeUrl, www. and trailing slashes are kept so redirects from
+ * the exact address can be audited
+ * @param url URL as entered
+ * @returns URL to request
+ */
+export function toRequestUrl(url: string): string {
+  const trimmed = url.trim();
+  return /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+}
+
+/**
+ * Validate URL structure
+ * @param url URL to validate
+ * @returns True if URL is valid
+ */
+export function isValidUrl(url: string): boolean {
+  try {
+    new URL(url);
+    return true;
+  } catch (e) {
+    return false;
+  }
+}
+
+export interface DedupedUrls {
+  // Normalized URLs in first-seen order
+  urls: string[];
+  duplicates: number;
+  // Entries that aren't valid URLs even after normalizing
+  invalid: string[];
+}
+
+/**
+ * Normalize a list of URLs, dropping duplicates and invalid entries
+ * URLs that normalize to the same value count as duplicates
+ * @param urls Raw URLs, e.g. lines of user input
+ * @returns Unique valid URLs with counts of what was dropped
+ */
+export function dedupeUrls(urls: string[]): DedupedUrls {
+  const seen = new Set<string>();
+  const result: DedupedUrls = { urls: [], duplicates: 0, invalid: [] };
+
+  urls
+    .map(url => url.trim())
+    .filter(url => url.length > 0)
+    .forEach(url => {
+      const normalized = normalizeUrl(url);
+
+      if (!isValidUrl(normalized)) {
+        result.invalid.push(url);
+      } else if (seen.has(normalized)) {
+        result.duplicates++;
+      } else {
+        seen.add(normalized);
+        result.urls.push(normalized);
+      }
+    });
+
+  return result;
+}
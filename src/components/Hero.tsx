@@ -178,8 +178,6 @@ const Hero = () => {
                   
                   {showResults && (
                     <AuditResults 
-                      pageAnalysis={result?.pageAnalysis}
-                      siteAnalysis={null}
                       url={url}
                       result={result}
                     />
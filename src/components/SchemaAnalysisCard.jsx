@@ -4,6 +4,50 @@ import { Badge } from './ui/badge';
 import { AlertCircle, CheckCircle, Info } from 'lucide-react';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from './ui/accordion';
 
+const FORMAT_LABELS = {
+  'json-ld': 'JSON-LD',
+  microdata: 'Microdata',
+  rdfa: 'RDFa'
+};
+
+/**
+ * One structured data item with its properties; nested items render recursively
+ */
+const SchemaNode = ({ node, format }) => (
+  <div className="border border-white/10 rounded p-2 text-sm">
+    <div className="flex flex-wrap items-center gap-1 mb-1">
+      <span className="font-medium">{node.types.length > 0 ? node.types.join(', ') : 'Untyped item'}</span>
+      {format && (
+        <Badge variant="outline" className="text-xs">{FORMAT_LABELS[format] || format}</Badge>
+      )}
+      {node.missingRequired?.map(name => (
+        <Badge key={`required-${name}`} variant="destructive" className="text-xs">
+          Missing {name}
+        </Badge>
+      ))}
+      {node.missingRecommended?.map(name => (
+        <Badge key={`recommended-${name}`} variant="secondary" className="text-xs">
+          Recommended: {name}
+        </Badge>
+      ))}
+    </div>
+    <dl className="space-y-1 pl-2">
+      {Object.entries(node.properties).map(([name, values]) => (
+        <div key={name}>
+          <dt className="text-gray-500">{name}</dt>
+          <dd className="pl-2 space-y-1">
+            {values.map((value, index) => (typeof value === 'string' ? (
+              <div key={index} className="break-all">{value}</div>
+            ) : (
+              <SchemaNode key={index} node={value} />
+            )))}
+          </dd>
+        </div>
+      ))}
+    </dl>
+  </div>
+);
+
 /**
  * Component to display schema analysis results
  */
@@ -64,7 +108,7 @@ const SchemaAnalysisCard = ({ schemaData }) => {
             )}
             
             {schemaData.formats && (
-              <div className="grid grid-cols-2 gap-4 mb-4">
+              <div className="grid grid-cols-3 gap-4 mb-4">
                 <div>
                   <div className="text-sm text-gray-500">JSON-LD</div>
                   <div className="font-medium">{schemaData.formats.jsonLd || 0}</div>
@@ -73,8 +117,56 @@ const SchemaAnalysisCard = ({ schemaData }) => {
                   <div className="text-sm text-gray-500">Microdata</div>
                   <div className="font-medium">{schemaData.formats.microdata || 0}</div>
                 </div>
+                <div>
+                  <div className="text-sm text-gray-500">RDFa</div>
+                  <div className="font-medium">{schemaData.formats.rdfa || 0}</div>
+                </div>
+              </div>
+            )}
+
+            {schemaData.richResults?.length > 0 && (
+              <div className="mb-4">
+                <div className="font-medium mb-1">Rich Results:</div>
+                <div className="space-y-1">
+                  {schemaData.richResults.map((result, index) => (
+                    <div key={index} className="flex items-start text-sm">
+                      {result.eligible ? (
+                        <CheckCircle className="h-4 w-4 text-green-500 mt-0.5 mr-2 flex-shrink-0" />
+                      ) : (
+                        <AlertCircle className="h-4 w-4 text-red-500 mt-0.5 mr-2 flex-shrink-0" />
+                      )}
+                      <div>
+                        <span className="font-medium">{result.feature}</span>
+                        <span className="text-gray-500"> ({result.type})</span>
+                        {result.eligible ? (
+                          <span className="text-green-500"> eligible</span>
+                        ) : (
+                          <span className="text-gray-500"> not eligible, missing {result.missing.join(', ')}</span>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
               </div>
             )}
+
+            {/* Validated item tree */}
+            {schemaData.items?.length > 0 && (
+              <Accordion type="single" collapsible className="mt-4">
+                <AccordionItem value="items">
+                  <AccordionTrigger className="font-medium">
+                    Items ({schemaData.items.length})
+                  </AccordionTrigger>
+                  <AccordionContent>
+                    <div className="space-y-2">
+                      {schemaData.items.map((item, index) => (
+                        <SchemaNode key={index} node={item} format={item.format} />
+                      ))}
+                    </div>
+                  </AccordionContent>
+                </AccordionItem>
+              </Accordion>
+            )}
             
             {/* Issues */}
             {(schemaData.errors?.length > 0 || schemaData.warnings?.length > 0) && (
@@ -163,8 +163,6 @@ export default function SimpleHero() {
                   
                   {result && !isLoading && (
                     <AuditResults 
-                      pageAnalysis={result.pageAnalysis}
-                      siteAnalysis={result.siteAnalysis}
                       url={url}
                       result={result}
                     />
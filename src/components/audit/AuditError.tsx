@@ -1,64 +1,117 @@
-import React from 'react';
-import { AlertTriangle, RefreshCw, Home, ExternalLink } from 'lucide-react';
+import React, { useState } from 'react';
+import { AlertTriangle, RefreshCw, Home, ExternalLink, FileCode } from 'lucide-react';
+import { ApiErrorKind, AuditApiError, isApiError } from '../../api/errors';
 
 interface AuditErrorProps {
-  error: string | { title: string; message: string; type: string; suggestions?: string[] };
+  error: string | AuditApiError | Error | { title: string; message: string; type: string; suggestions?: string[] };
   url: string;
   onTryAgain: () => void;
   onBackToHome: () => void;
+  // Analyze pasted page source instead, for pages the audit could not fetch
+  onAnalyzeHtml?: (html: string) => void;
 }
 
-const AuditError: React.FC<AuditErrorProps> = ({ error, url, onTryAgain, onBackToHome }) => {
-  // Handle both string and object error formats
-  const errorInfo = typeof error === 'string' 
-    ? { title: 'Analysis Error', message: error, type: 'error', suggestions: [] }
-    : error;
-  
-  // Provide specific troubleshooting tips based on the error message
-  const getTroubleshootingTips = (errorMsg: string) => {
-    if (errorMsg.includes('Failed to fetch') || errorMsg.includes('Network error')) {
+// Headings shown for each kind of API client error
+const TITLES: Record<ApiErrorKind, string> = {
+  network: 'Connection Problem',
+  timeout: 'Request Timed Out',
+  dns: 'Website Not Found',
+  tls: 'SSL Certificate Problem',
+  http_status: 'Server Error',
+  invalid_url: 'Invalid URL',
+  rate_limited: 'Too Many Requests',
+  backend_analysis_failed: 'Analysis Failed',
+  cancelled: 'Audit Cancelled'
+};
+
+/**
+ * Troubleshooting tips for an API client error, chosen by its kind
+ */
+const getTroubleshootingTips = (error: AuditApiError): string[] => {
+  switch (error.kind) {
+    case 'network':
       return [
         'Check your internet connection',
-        'The API server might be down or experiencing issues',
-        'Try again in a few moments'
+        'The API server might be down or blocking cross-origin requests',
+        'Try again in a few moments, or paste the page HTML to analyze it locally'
       ];
-    }
-    
-    if (errorMsg.includes('CORS')) {
+    case 'timeout':
       return [
-        'This is a Cross-Origin Resource Sharing (CORS) issue',
-        'It may be a temporary issue with the API server',
-        'Try again in a few moments'
+        'The request took too long to complete',
+        'The website you\'re trying to analyze might be slow to respond',
+        'Try a different website or try again later'
       ];
-    }
-    
-    if (errorMsg.includes('Invalid URL') || errorMsg.includes('URL format')) {
+    case 'dns':
+      return [
+        'Double-check the website URL for typos',
+        'Make sure the domain is registered and online',
+        'Try the address with or without "www."'
+      ];
+    case 'tls':
+      return [
+        'The website\'s SSL certificate is invalid, expired or self-signed',
+        'Check that the site loads over https:// in your browser',
+        'Try the http:// version of the URL if the site doesn\'t support HTTPS'
+      ];
+    case 'http_status':
+      return error.status >= 500
+        ? [
+          'The audit service is having problems right now',
+          'Try again in a few moments'
+        ]
+        : [
+          'The audit service rejected the request',
+          'Check the URL and try again'
+        ];
+    case 'invalid_url':
       return [
         'Make sure the URL is correctly formatted (e.g., example.com)',
         'Try adding https:// to the beginning of your URL',
         'Check for any special characters in the URL'
       ];
-    }
-    
-    if (errorMsg.includes('timeout') || errorMsg.includes('timed out')) {
+    case 'rate_limited':
       return [
-        'The request took too long to complete',
-        'The website you\'re trying to analyze might be slow to respond',
-        'Try a different website or try again later'
+        error.retryAfter
+          ? `Wait ${error.retryAfter} seconds before trying again`
+          : 'Wait a minute before trying again',
+        'Audit fewer URLs at once'
+      ];
+    case 'backend_analysis_failed':
+      return [
+        'The website may be blocking automated requests',
+        'Try analyzing a different page on the same site',
+        'Refresh the page and try again'
+      ];
+    case 'cancelled':
+      return [
+        'The audit was stopped before it finished',
+        'Run the audit again to get results'
       ];
-    }
-    
-    // Default tips
-    return [
-      'Try analyzing a different website',
-      'Refresh the page and try again',
-      'Return to the home page and start over'
-    ];
-  };
+  }
+};
+
+// Tips for errors that don't come from the API client
+const DEFAULT_TIPS = [
+  'Try analyzing a different website',
+  'Refresh the page and try again',
+  'Return to the home page and start over'
+];
+
+const AuditError: React.FC<AuditErrorProps> = ({ error, url, onTryAgain, onBackToHome, onAnalyzeHtml }) => {
+  const [showHtmlInput, setShowHtmlInput] = useState(false);
+  const [html, setHtml] = useState('');
+  
+  // Handle typed API errors as well as string and object error formats
+  const apiError = isApiError(error) ? error : null;
+  const errorInfo = isApiError(error)
+    ? { title: TITLES[error.kind], message: error.message, type: error.kind, suggestions: getTroubleshootingTips(error) }
+    : typeof error === 'string' || error instanceof Error
+      ? { title: 'Analysis Error', message: typeof error === 'string' ? error : error.message, type: 'error', suggestions: [] }
+      : error;
   
   const tips = errorInfo.suggestions && errorInfo.suggestions.length > 0 
     ? errorInfo.suggestions 
-    : getTroubleshootingTips(errorInfo.message);
+    : DEFAULT_TIPS;
   
   return (
     <div className="container max-w-3xl mx-auto pt-12 px-4">
@@ -67,13 +120,20 @@ const AuditError: React.FC<AuditErrorProps> = ({ error, url, onTryAgain, onBackT
           <div className="w-16 h-16 rounded-full bg-red-500/20 flex items-center justify-center mb-4">
             <AlertTriangle size={32} className="text-red-400" />
           </div>
-          <h3 className="text-xl font-semibold mb-2">Audit Failed</h3>
+          <h3 className="text-xl font-semibold mb-2">{errorInfo.title || 'Audit Failed'}</h3>
           <p className="text-sm text-muted-foreground mb-4">
             We encountered an error while analyzing <span className="text-white font-medium">{url}</span>
           </p>
           
           <div className="bg-white/5 p-4 rounded-md text-sm text-red-300 mb-6 w-full overflow-auto">
-            <code>{error}</code>
+            <code>{errorInfo.message}</code>
+            {apiError && (apiError.endpoint || apiError.attempt) && (
+              <div className="mt-2 text-xs text-muted-foreground">
+                {apiError.endpoint && <span>Endpoint: {apiError.endpoint}</span>}
+                {apiError.attempt && <span className="ml-3">Attempts: {apiError.attempt}</span>}
+                {apiError.kind === 'http_status' && <span className="ml-3">Status: {apiError.status}</span>}
+              </div>
+            )}
           </div>
           
           <div className="bg-white/5 p-4 rounded-md text-sm mb-6 w-full text-left">
@@ -85,6 +145,29 @@ const AuditError: React.FC<AuditErrorProps> = ({ error, url, onTryAgain, onBackT
             </ul>
           </div>
           
+          {onAnalyzeHtml && showHtmlInput && (
+            <div className="bg-white/5 p-4 rounded-md text-sm mb-6 w-full text-left">
+              <h4 className="text-white font-medium mb-2">Page HTML</h4>
+              <p className="text-muted-foreground mb-3">
+                Open the page in your browser, view its source and paste it here to analyze it locally.
+              </p>
+              <textarea
+                className="w-full h-40 p-3 font-mono text-xs bg-black/20 border border-white/10 rounded-md focus:outline-none focus:ring-1 focus:ring-primary"
+                placeholder="<!DOCTYPE html>..."
+                value={html}
+                onChange={e => setHtml(e.target.value)}
+              />
+              <button
+                onClick={() => onAnalyzeHtml(html)}
+                disabled={html.trim() === ''}
+                className="mt-3 flex items-center justify-center gap-2 bg-primary hover:bg-primary/90 disabled:opacity-50 text-white rounded-md px-4 py-2 text-sm"
+              >
+                <FileCode size={16} />
+                Analyze HTML
+              </button>
+            </div>
+          )}
+          
           <div className="flex flex-col sm:flex-row gap-4 w-full sm:w-auto">
             <button 
               onClick={onTryAgain}
@@ -100,6 +183,15 @@ const AuditError: React.FC<AuditErrorProps> = ({ error, url, onTryAgain, onBackT
               <Home size={16} />
               Back to Home
             </button>
+            {onAnalyzeHtml && !showHtmlInput && (
+              <button 
+                onClick={() => setShowHtmlInput(true)}
+                className="flex items-center justify-center gap-2 bg-white/10 hover:bg-white/20 text-white rounded-md px-4 py-2 text-sm"
+              >
+                <FileCode size={16} />
+                Paste Page HTML
+              </button>
+            )}
           </div>
         </div>
       </div>
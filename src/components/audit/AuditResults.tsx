@@ -1,214 +1,133 @@
 import React from 'react';
+import { toast } from 'sonner';
+import { AuditResult, WebVitalName, WebVitalRating } from '../../api/types';
+import { ruleRegistry, RuleRegistry, SEVERITY_ORDER } from '../../analysis/rules';
+import { formatBytes } from '../../analysis/resources';
+import { WEB_VITAL_THRESHOLDS } from '../../analysis/webVitals';
+import { downloadAuditReportHtml, printAuditReportPdf } from '../../reports/auditReport';
+import LinkReportPanel from './LinkReportPanel';
+import ResourceInventoryPanel from './ResourceInventoryPanel';
+import SchemaAnalysisCard from '../SchemaAnalysisCard';
 
 interface AuditResultsProps {
-  pageAnalysis?: any;
-  siteAnalysis?: any;
-  url: string;
-  score?: number;
-  issuesFound?: number;
-  opportunities?: number;
-  cached?: boolean;
-  cachedAt?: string;
-  categories?: {
-    metadata?: { score: number; issues: Array<any> };
-    content?: { score: number; issues: Array<any> };
-    technical?: { score: number; issues: Array<any> };
-    userExperience?: { score: number; issues: Array<any> };
-  };
-  data?: any; // Add data prop to handle direct API response data
+  result: AuditResult;
+  url?: string;
+  // Rules the result was scored with; the default rules when not given
+  rules?: RuleRegistry;
 }
 
-const AuditResults: React.FC<AuditResultsProps> = ({ 
-  pageAnalysis, 
-  siteAnalysis, 
-  url, 
-  score,
-  issuesFound,
-  opportunities,
-  cached = false,
-  cachedAt,
-  categories,
-  data // Added data prop
-}) => {
-  // Debug the props we receive to help diagnose issues
-  console.log("AuditResults props:", { score, issuesFound, categories });
-  
-  // Force debug to see what data we have
-  console.log("Raw score value:", score);
-  console.log("Raw data:", data);
-  console.log("Raw categories:", categories);
-  
-  // Calculate derived metrics from real data with fallbacks - prioritize direct values
-  const actualScore = 
-    (score !== undefined && score !== null) ? score : 
-    (data?.score !== undefined && data?.score !== null) ? data?.score : 
-    (categories?.content?.score !== undefined && categories?.content?.score !== null) ? categories?.content?.score : 
-    (pageAnalysis?.score !== undefined && pageAnalysis?.score !== null) ? pageAnalysis?.score : 
-    (categories ? 
-      Math.round((
-        (categories.metadata?.score || 0) + 
-        (categories.content?.score || 0) + 
-        (categories.technical?.score || 0) + 
-        (categories.userExperience?.score || 0)
-      ) / 4) : 0);
+// Lab metrics in the order they're shown
+const LAB_METRICS: WebVitalName[] = ['lcp', 'cls', 'inp', 'tbt', 'fcp', 'ttfb'];
+
+const RATING_TEXT_COLORS: Record<WebVitalRating, string> = {
+  good: 'text-green-400',
+  needs_improvement: 'text-yellow-400',
+  poor: 'text-red-400'
+};
+
+const RATING_BAR_COLORS: Record<WebVitalRating, string> = {
+  good: 'bg-green-400',
+  needs_improvement: 'bg-yellow-400',
+  poor: 'bg-red-400'
+};
+
+interface PerformanceRow {
+  label: string;
+  value: number;
+  unit?: string;
+  score: number;
+  rating: WebVitalRating;
+}
+
+const AuditResults: React.FC<AuditResultsProps> = ({ result, url: urlProp, rules = ruleRegistry }) => {
+  const url = result.url || urlProp;
+  const { categories, pageData, cached, cachedAt, linkReport } = result;
+  const [activeTab, setActiveTab] = React.useState<'overview' | 'links' | 'structuredData' | 'resources'>('overview');
+  const structuredData = pageData.technical?.structuredData;
+  const resources = pageData.performance?.resources;
+  // Fall back to the overview when the result has no data for the selected tab
+  const currentTab = (activeTab === 'links' && !linkReport) ||
+    (activeTab === 'structuredData' && !structuredData) ||
+    (activeTab === 'resources' && !resources?.items)
+    ? 'overview'
+    : activeTab;
   
-  // Extract issues from pageAnalysis or categories if available
+  // Collect the most severe issues across all categories
   const topIssues = React.useMemo(() => {
-    const issues = [];
-    
-    // First check if we have categorized issues from V2 API
-    if (categories) {
-      // Collect issues from all categories, prioritizing critical and warning issues
-      const allCategoryIssues = [
-        ...(categories.metadata?.issues || []),
-        ...(categories.content?.issues || []),
-        ...(categories.technical?.issues || []),
-        ...(categories.userExperience?.issues || [])
-      ];
-      
-      // Map API severity to UI severity
-      const mapSeverity = (apiSeverity: string) => {
-        if (apiSeverity === 'critical') return 'critical';
-        if (apiSeverity === 'warning') return 'warning';
-        if (apiSeverity === 'info') return 'info';
-        return 'info';
-      };
-      
-      // Sort by severity (critical first, then warning, then info)
-      const sortedIssues = allCategoryIssues.sort((a, b) => {
-        const severityOrder = { critical: 0, warning: 1, info: 2 };
-        return (severityOrder[a.severity as keyof typeof severityOrder] || 3) - 
-               (severityOrder[b.severity as keyof typeof severityOrder] || 3);
-      });
-      
-      // Take top 5 issues
-      const topCategoryIssues = sortedIssues.slice(0, 5);
-      
-      // Map to our display format
-      if (topCategoryIssues.length > 0) {
-        return topCategoryIssues.map(issue => ({
-          severity: mapSeverity(issue.severity),
-          description: issue.type.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())
-        }));
-      }
-    }
-    
-    // Fallback to extracting issues from pageAnalysis if no V2 API data
-    
-    // Add missing title issue if applicable
-    if (!pageAnalysis?.title?.text) {
-      issues.push({
-        severity: 'critical',
-        description: 'Missing page title'
-      });
-    } else if (pageAnalysis?.title?.length < 30) {
-      issues.push({
-        severity: 'warning',
-        description: 'Page title is too short'
-      });
-    } else if (pageAnalysis?.title?.length > 60) {
-      issues.push({
-        severity: 'info',
-        description: 'Page title is too long'
-      });
-    }
-    
-    // Add missing meta description issue if applicable
-    if (!pageAnalysis?.metaDescription?.text) {
-      issues.push({
-        severity: 'critical',
-        description: 'Missing meta description'
-      });
-    } else if (pageAnalysis?.metaDescription?.length < 50) {
-      issues.push({
-        severity: 'warning',
-        description: 'Meta description is too short'
-      });
-    } else if (pageAnalysis?.metaDescription?.length > 160) {
-      issues.push({
-        severity: 'info',
-        description: 'Meta description is too long'
-      });
-    }
-    
-    // Add heading issues
-    if (pageAnalysis?.headings?.h1Count === 0) {
-      issues.push({
-        severity: 'critical',
-        description: 'Missing H1 heading'
-      });
-    } else if (pageAnalysis?.headings?.h1Count > 1) {
-      issues.push({
-        severity: 'warning',
-        description: `Multiple H1 headings (${pageAnalysis?.headings?.h1Count})`
-      });
-    }
-    
-    if (pageAnalysis?.headings?.h2Count === 0) {
-      issues.push({
-        severity: 'info',
-        description: 'No H2 headings found'
-      });
-    }
+    const allCategoryIssues = [
+      ...categories.metadata.issues,
+      ...categories.content.issues,
+      ...categories.technical.issues,
+      ...categories.userExperience.issues
+    ];
     
-    // Add image alt text issues
-    if (pageAnalysis?.images?.withoutAltCount > 0) {
-      issues.push({
-        severity: 'warning',
-        description: `${pageAnalysis.images.withoutAltCount} images missing alt text`
-      });
-    }
+    // Sort by severity (critical first, then warning, then info)
+    const sortedIssues = allCategoryIssues.sort((a, b) => 
+      (SEVERITY_ORDER[a.severity] ?? 3) - (SEVERITY_ORDER[b.severity] ?? 3)
+    );
     
-    // Add content length issue
-    if (pageAnalysis?.contentLength < 300) {
-      issues.push({
-        severity: 'warning',
-        description: 'Page content is too short'
-      });
-    }
+    // Take top 5 issues and map to our display format
+    const issues = sortedIssues.slice(0, 5).map(issue => ({
+      severity: issue.severity,
+      description: issue.type.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())
+    }));
     
-    // Return at least some items or defaults if we couldn't extract issues
     return issues.length > 0 ? issues : [
       {
         severity: 'info',
         description: 'Analysis complete - see detailed results below'
       }
     ];
-  }, [pageAnalysis, categories]);
+  }, [categories]);
   
-  // Calculate actual issues count with better fallbacks
-  const actualIssuesFound = 
-    (issuesFound !== undefined && issuesFound !== null) ? issuesFound : 
-    (data?.totalIssuesCount !== undefined && data?.totalIssuesCount !== null) ? data.totalIssuesCount :
-    (data?.criticalIssuesCount !== undefined && data?.criticalIssuesCount !== null) ? data.criticalIssuesCount :
-    // If we have categories, count all issues across categories
-    categories ? 
-      (categories.metadata?.issues?.length || 0) +
-      (categories.content?.issues?.length || 0) +
-      (categories.technical?.issues?.length || 0) +
-      (categories.userExperience?.issues?.length || 0) 
-      : (topIssues?.length || 0);
-      
-  // Debug the actual issues count that will be displayed
-  console.log("Calculated Issues Found:", actualIssuesFound);
-  const actualOpportunities = opportunities ?? Math.min(actualIssuesFound, 5);
+  const actualOpportunities = result.recommendations.length;
   
-  // Performance metrics - use defaults or data from analysis
-  const performanceMetrics = {
-    lcp: {
-      value: 2.5,
-      unit: 's',
-      score: 85,
-    },
-    cls: {
-      value: 0.15,
-      score: 75,
-    },
-    fid: {
-      value: 180,
-      unit: 'ms',
-      score: 70,
-    },
+  // Length thresholds come from the rule registry so labels match reported issues
+  const titleThresholds = {
+    ...rules.getThresholds('title_too_short'),
+    ...rules.getThresholds('title_too_long')
+  };
+  const descriptionThresholds = {
+    ...rules.getThresholds('meta_description_too_short'),
+    ...rules.getThresholds('meta_description_too_long')
+  };
+  
+  const { minWords } = rules.getThresholds('thin_content');
+  
+  // Lab measurements when the page was loaded in a browser, else whatever the backend reported
+  const labPerformance = pageData.performance;
+  const performanceRows: PerformanceRow[] = labPerformance
+    ? LAB_METRICS.filter(name => labPerformance.metrics[name]).map(name => ({
+      label: `${name.toUpperCase()} (${WEB_VITAL_THRESHOLDS[name].label})`,
+      ...labPerformance.metrics[name]
+    }))
+    : result.performanceMetrics
+      ? ([
+        ['LCP (Largest Contentful Paint)', result.performanceMetrics.lcp],
+        ['CLS (Cumulative Layout Shift)', result.performanceMetrics.cls],
+        ['FID (First Input Delay)', result.performanceMetrics.fid]
+      ] as const).map(([label, metric]) => ({
+        label,
+        ...metric,
+        rating: metric.score >= 90 ? 'good' : metric.score >= 70 ? 'needs_improvement' : 'poor'
+      }))
+      : [];
+
+  const handleExportPdf = () => {
+    printAuditReportPdf(result)
+      .then(() => {
+        toast('Report ready to print', {
+          description: 'Choose "Save as PDF" in the print dialog',
+          position: 'bottom-right',
+        });
+      })
+      .catch(error => {
+        console.error('Failed to export PDF report:', error);
+        toast('Could not export PDF', {
+          description: (error as Error).message,
+          position: 'bottom-right',
+        });
+      });
   };
 
   return (
@@ -219,6 +138,22 @@ const AuditResults: React.FC<AuditResultsProps> = ({
           <p className="text-sm text-muted-foreground">SEO Audit Results</p>
         </div>
         <div className="flex items-center space-x-1">
+          {result.status !== 'error' && (
+            <div className="flex gap-2 mr-4">
+              <button
+                onClick={() => downloadAuditReportHtml(result)}
+                className="px-3 py-1.5 text-sm bg-white/10 hover:bg-white/20 rounded-md"
+              >
+                Export HTML
+              </button>
+              <button
+                onClick={handleExportPdf}
+                className="px-3 py-1.5 text-sm bg-white/10 hover:bg-white/20 rounded-md"
+              >
+                Export PDF
+              </button>
+            </div>
+          )}
           <div className="w-3 h-3 rounded-full bg-neon-purple"></div>
           <div className="text-sm font-semibold text-white/90">
             {cached ? 'Cached Report' : 'Live Report'}
@@ -235,13 +170,13 @@ const AuditResults: React.FC<AuditResultsProps> = ({
         <div className="bg-white/5 rounded-lg p-4 border border-white/10">
           <div className="text-sm text-muted-foreground mb-1">Overall Score</div>
           <div className="flex items-center">
-            <div className="text-2xl font-bold gradient-text">{actualScore}</div>
+            <div className="text-2xl font-bold gradient-text">{result.score}</div>
             <div className="text-xs ml-1 text-white/60">/100</div>
           </div>
         </div>
         <div className="bg-white/5 rounded-lg p-4 border border-white/10">
           <div className="text-sm text-muted-foreground mb-1">Issues Found</div>
-          <div className="text-2xl font-bold text-red-400">{actualIssuesFound}</div>
+          <div className="text-2xl font-bold text-red-400">{result.totalIssuesCount}</div>
         </div>
         <div className="bg-white/5 rounded-lg p-4 border border-white/10">
           <div className="text-sm text-muted-foreground mb-1">Opportunities</div>
@@ -249,223 +184,319 @@ const AuditResults: React.FC<AuditResultsProps> = ({
         </div>
       </div>
       
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-        <div className="bg-white/5 rounded-lg p-4 border border-white/10">
-          <div className="flex justify-between mb-3">
-            <div className="text-sm font-medium">Performance Metrics</div>
-            <div className="text-xs text-muted-foreground">Core Web Vitals</div>
+      {(linkReport || structuredData || resources?.items) && (
+        <div className="border-b border-white/10 mb-6">
+          <div className="flex">
+            <button
+              className={`px-4 py-2 ${
+                currentTab === 'overview'
+                  ? 'border-b-2 border-primary text-primary'
+                  : 'text-white/60 hover:text-white'
+              }`}
+              onClick={() => setActiveTab('overview')}
+            >
+              Overview
+            </button>
+
+            {linkReport && (
+              <button
+                className={`px-4 py-2 ${
+                  currentTab === 'links'
+                    ? 'border-b-2 border-primary text-primary'
+                    : 'text-white/60 hover:text-white'
+                }`}
+                onClick={() => setActiveTab('links')}
+              >
+                Links
+                {linkReport.links.length > 0 && (
+                  <span className="ml-2 text-xs text-red-400">{linkReport.links.length}</span>
+                )}
+              </button>
+            )}
+
+            {structuredData && (
+              <button
+                className={`px-4 py-2 ${
+                  currentTab === 'structuredData'
+                    ? 'border-b-2 border-primary text-primary'
+                    : 'text-white/60 hover:text-white'
+                }`}
+                onClick={() => setActiveTab('structuredData')}
+              >
+                Structured Data
+                {structuredData.errors.length > 0 && (
+                  <span className="ml-2 text-xs text-red-400">{structuredData.errors.length}</span>
+                )}
+              </button>
+            )}
+
+            {resources?.items && (
+              <button
+                className={`px-4 py-2 ${
+                  currentTab === 'resources'
+                    ? 'border-b-2 border-primary text-primary'
+                    : 'text-white/60 hover:text-white'
+                }`}
+                onClick={() => setActiveTab('resources')}
+              >
+                Resources
+                <span className="ml-2 text-xs text-white/60">{formatBytes(resources.total.bytes)}</span>
+              </button>
+            )}
           </div>
-          <div className="space-y-3">
-            <div>
-              <div className="flex justify-between text-xs mb-1">
-                <span>LCP (Largest Contentful Paint)</span>
-                <span className={performanceMetrics.lcp.score >= 90 ? "text-green-400" : 
-                              performanceMetrics.lcp.score >= 70 ? "text-yellow-400" : "text-red-400"}>
-                  {performanceMetrics.lcp.value}{performanceMetrics.lcp.unit}
-                </span>
-              </div>
-              <div className="w-full bg-white/10 h-1.5 rounded-full overflow-hidden">
-                <div className={`h-full rounded-full ${
-                  performanceMetrics.lcp.score >= 90 ? "bg-green-400" : 
-                  performanceMetrics.lcp.score >= 70 ? "bg-yellow-400" : "bg-red-400"
-                }`} style={{ width: `${performanceMetrics.lcp.score}%` }}></div>
+        </div>
+      )}
+
+      {currentTab === 'links' && <LinkReportPanel report={linkReport} />}
+
+      {currentTab === 'structuredData' && <SchemaAnalysisCard schemaData={structuredData} />}
+
+      {currentTab === 'resources' && <ResourceInventoryPanel inventory={resources} rules={rules} />}
+
+      {currentTab === 'overview' && (
+        <>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="bg-white/5 rounded-lg p-4 border border-white/10">
+            <div className="flex justify-between mb-3">
+              <div className="text-sm font-medium">Performance Metrics</div>
+              <div className="text-xs text-muted-foreground">
+                {labPerformance
+                  ? `Lab · Core Web Vitals ${labPerformance.passed ? 'passed' : 'failed'}`
+                  : 'Core Web Vitals'}
               </div>
             </div>
-            <div>
-              <div className="flex justify-between text-xs mb-1">
-                <span>CLS (Cumulative Layout Shift)</span>
-                <span className={performanceMetrics.cls.score >= 90 ? "text-green-400" : 
-                              performanceMetrics.cls.score >= 70 ? "text-yellow-400" : "text-red-400"}>
-                  {performanceMetrics.cls.value}
-                </span>
+            {performanceRows.length > 0 ? (
+              <div className="space-y-3">
+                {performanceRows.map(row => (
+                  <div key={row.label}>
+                    <div className="flex justify-between text-xs mb-1">
+                      <span>{row.label}</span>
+                      <span className={RATING_TEXT_COLORS[row.rating]}>
+                        {row.value}{row.unit}
+                      </span>
+                    </div>
+                    <div className="w-full bg-white/10 h-1.5 rounded-full overflow-hidden">
+                      <div
+                        className={`h-full rounded-full ${RATING_BAR_COLORS[row.rating]}`}
+                        style={{ width: `${row.score}%` }}
+                      ></div>
+                    </div>
+                  </div>
+                ))}
+                {labPerformance && (
+                  <div className="text-xs text-white/60 pt-1">
+                    Page weight {formatBytes(labPerformance.resources.total.bytes)} in{' '}
+                    {labPerformance.resources.total.requests} requests
+                  </div>
+                )}
               </div>
-              <div className="w-full bg-white/10 h-1.5 rounded-full overflow-hidden">
-                <div className={`h-full rounded-full ${
-                  performanceMetrics.cls.score >= 90 ? "bg-green-400" : 
-                  performanceMetrics.cls.score >= 70 ? "bg-yellow-400" : "bg-red-400"
-                }`} style={{ width: `${performanceMetrics.cls.score}%` }}></div>
+            ) : (
+              <div className="text-xs text-white/60">
+                Not measured. Performance is measured when the audit server has Chrome or Chromium installed.
               </div>
+            )}
+          </div>
+        
+          <div className="bg-white/5 rounded-lg p-4 border border-white/10">
+            <div className="flex justify-between mb-3">
+              <div className="text-sm font-medium">Top Issues</div>
+              <div className="text-xs text-primary">View All</div>
             </div>
-            <div>
-              <div className="flex justify-between text-xs mb-1">
-                <span>FID (First Input Delay)</span>
-                <span className={performanceMetrics.fid.score >= 90 ? "text-green-400" : 
-                              performanceMetrics.fid.score >= 70 ? "text-yellow-400" : "text-red-400"}>
-                  {performanceMetrics.fid.value}{performanceMetrics.fid.unit}
-                </span>
-              </div>
-              <div className="w-full bg-white/10 h-1.5 rounded-full overflow-hidden">
-                <div className={`h-full rounded-full ${
-                  performanceMetrics.fid.score >= 90 ? "bg-green-400" : 
-                  performanceMetrics.fid.score >= 70 ? "bg-yellow-400" : "bg-red-400"
-                }`} style={{ width: `${performanceMetrics.fid.score}%` }}></div>
-              </div>
+            <div className="space-y-2">
+              {topIssues.map((issue, index) => (
+                <div key={index} className="flex items-center text-xs p-2 bg-white/5 rounded">
+                  <div className={`w-2 h-2 rounded-full mr-2 ${
+                    issue.severity === 'critical' ? 'bg-red-400' : 
+                    issue.severity === 'warning' ? 'bg-yellow-400' : 'bg-blue-400'
+                  }`}></div>
+                  <div>{issue.description}</div>
+                </div>
+              ))}
             </div>
           </div>
         </div>
-        
-        <div className="bg-white/5 rounded-lg p-4 border border-white/10">
-          <div className="flex justify-between mb-3">
-            <div className="text-sm font-medium">Top Issues</div>
-            <div className="text-xs text-primary">View All</div>
-          </div>
-          <div className="space-y-2">
-            {topIssues.map((issue, index) => (
-              <div key={index} className="flex items-center text-xs p-2 bg-white/5 rounded">
-                <div className={`w-2 h-2 rounded-full mr-2 ${
-                  issue.severity === 'critical' ? 'bg-red-400' : 
-                  issue.severity === 'warning' ? 'bg-yellow-400' : 'bg-blue-400'
-                }`}></div>
-                <div>{issue.description}</div>
-              </div>
-            ))}
+      
+        {result.status === 'error' && result.error && (
+          <div className="mt-6 bg-red-500/10 rounded-lg p-4 border border-red-500/30 text-sm text-red-400">
+            {result.error.message}
           </div>
-        </div>
-      </div>
+        )}
       
-      {pageAnalysis && (
-        <div className="mt-6 bg-white/5 rounded-lg p-4 border border-white/10">
-          <div className="text-sm font-medium mb-3">Page Content Analysis</div>
+        {result.status !== 'error' && (
+          <div className="mt-6 bg-white/5 rounded-lg p-4 border border-white/10">
+            <div className="text-sm font-medium mb-3">Page Content Analysis</div>
           
-          <div className="space-y-4">
-            <div>
-              <h4 className="text-xs text-muted-foreground mb-1">Title</h4>
-              <p className="text-sm bg-white/5 p-2 rounded">
-                {pageAnalysis.title?.text || 'None detected'}
-              </p>
-              {pageAnalysis.title?.text && (
-                <div className="flex justify-between text-xs mt-1">
-                  <span>Length: {pageAnalysis.title.length} characters</span>
-                  <span className={
-                    pageAnalysis.title.length >= 30 && pageAnalysis.title.length <= 60 
-                      ? "text-green-400" 
-                      : "text-yellow-400"
-                  }>
-                    {pageAnalysis.title.length < 30 ? 'Too short' : 
-                     pageAnalysis.title.length > 60 ? 'Too long' : 'Good'}
-                  </span>
-                </div>
-              )}
-            </div>
-            
-            <div>
-              <h4 className="text-xs text-muted-foreground mb-1">Meta Description</h4>
-              <p className="text-sm bg-white/5 p-2 rounded">
-                {pageAnalysis.metaDescription?.text || 'None detected'}
-              </p>
-              {pageAnalysis.metaDescription?.text && (
-                <div className="flex justify-between text-xs mt-1">
-                  <span>Length: {pageAnalysis.metaDescription.length} characters</span>
-                  <span className={
-                    pageAnalysis.metaDescription.length >= 50 && pageAnalysis.metaDescription.length <= 160 
-                      ? "text-green-400" 
-                      : "text-yellow-400"
-                  }>
-                    {pageAnalysis.metaDescription.length < 50 ? 'Too short' : 
-                     pageAnalysis.metaDescription.length > 160 ? 'Too long' : 'Good'}
-                  </span>
-                </div>
-              )}
-            </div>
-            
-            <div>
-              <h4 className="text-xs text-muted-foreground mb-1">Headings</h4>
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <div className="flex justify-between text-xs mb-1">
-                    <span>H1 Headings</span>
+            <div className="space-y-4">
+              <div>
+                <h4 className="text-xs text-muted-foreground mb-1">Title</h4>
+                <p className="text-sm bg-white/5 p-2 rounded">
+                  {pageData.title?.text || 'None detected'}
+                </p>
+                {pageData.title?.text && (
+                  <div className="flex justify-between text-xs mt-1">
+                    <span>Length: {pageData.title.length} characters</span>
                     <span className={
-                      pageAnalysis.headings?.h1Count === 1 
+                      pageData.title.length >= titleThresholds.minLength && pageData.title.length <= titleThresholds.maxLength 
                         ? "text-green-400" 
-                        : pageAnalysis.headings?.h1Count === 0 
-                          ? "text-red-400" 
-                          : "text-yellow-400"
+                        : "text-yellow-400"
                     }>
-                      {pageAnalysis.headings?.h1Count || 0}
+                      {pageData.title.length < titleThresholds.minLength ? 'Too short' : 
+                       pageData.title.length > titleThresholds.maxLength ? 'Too long' : 'Good'}
                     </span>
                   </div>
-                  {pageAnalysis.headings?.h1Texts?.map((text, i) => (
-                    <p key={i} className="text-xs bg-white/5 p-1 mb-1 rounded">
-                      {text}
-                    </p>
-                  ))}
-                  {(!pageAnalysis.headings?.h1Texts || pageAnalysis.headings.h1Texts.length === 0) && (
-                    <p className="text-xs text-white/60 italic">No H1 headings found</p>
-                  )}
-                </div>
-                
-                <div>
-                  <div className="flex justify-between text-xs mb-1">
-                    <span>H2 Headings</span>
+                )}
+              </div>
+            
+              <div>
+                <h4 className="text-xs text-muted-foreground mb-1">Meta Description</h4>
+                <p className="text-sm bg-white/5 p-2 rounded">
+                  {pageData.metaDescription?.text || 'None detected'}
+                </p>
+                {pageData.metaDescription?.text && (
+                  <div className="flex justify-between text-xs mt-1">
+                    <span>Length: {pageData.metaDescription.length} characters</span>
                     <span className={
-                      pageAnalysis.headings?.h2Count > 0 
+                      pageData.metaDescription.length >= descriptionThresholds.minLength && pageData.metaDescription.length <= descriptionThresholds.maxLength 
                         ? "text-green-400" 
                         : "text-yellow-400"
                     }>
-                      {pageAnalysis.headings?.h2Count || 0}
+                      {pageData.metaDescription.length < descriptionThresholds.minLength ? 'Too short' : 
+                       pageData.metaDescription.length > descriptionThresholds.maxLength ? 'Too long' : 'Good'}
                     </span>
                   </div>
-                  {pageAnalysis.headings?.h2Texts?.map((text, i) => (
-                    <p key={i} className="text-xs bg-white/5 p-1 mb-1 rounded">
-                      {text}
-                    </p>
-                  ))}
-                  {(!pageAnalysis.headings?.h2Texts || pageAnalysis.headings.h2Texts.length === 0) && (
-                    <p className="text-xs text-white/60 italic">No H2 headings found</p>
-                  )}
+                )}
+              </div>
+            
+              <div>
+                <h4 className="text-xs text-muted-foreground mb-1">Headings</h4>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <div className="flex justify-between text-xs mb-1">
+                      <span>H1 Headings</span>
+                      <span className={
+                        pageData.headings?.h1Count === 1 
+                          ? "text-green-400" 
+                          : pageData.headings?.h1Count === 0 
+                            ? "text-red-400" 
+                            : "text-yellow-400"
+                      }>
+                        {pageData.headings?.h1Count || 0}
+                      </span>
+                    </div>
+                    {pageData.headings?.h1Texts?.map((text, i) => (
+                      <p key={i} className="text-xs bg-white/5 p-1 mb-1 rounded">
+                        {text}
+                      </p>
+                    ))}
+                    {(!pageData.headings?.h1Texts || pageData.headings.h1Texts.length === 0) && (
+                      <p className="text-xs text-white/60 italic">No H1 headings found</p>
+                    )}
+                  </div>
+                
+                  <div>
+                    <div className="flex justify-between text-xs mb-1">
+                      <span>H2 Headings</span>
+                      <span className={
+                        pageData.headings?.h2Count > 0 
+                          ? "text-green-400" 
+                          : "text-yellow-400"
+                      }>
+                        {pageData.headings?.h2Count || 0}
+                      </span>
+                    </div>
+                    {pageData.headings?.h2Texts?.map((text, i) => (
+                      <p key={i} className="text-xs bg-white/5 p-1 mb-1 rounded">
+                        {text}
+                      </p>
+                    ))}
+                    {(!pageData.headings?.h2Texts || pageData.headings.h2Texts.length === 0) && (
+                      <p className="text-xs text-white/60 italic">No H2 headings found</p>
+                    )}
+                  </div>
                 </div>
               </div>
-            </div>
             
-            {pageAnalysis.links && (
               <div>
                 <h4 className="text-xs text-muted-foreground mb-1">Links</h4>
                 <div className="grid grid-cols-3 gap-2">
                   <div className="bg-white/5 p-2 rounded">
                     <div className="text-xs mb-1">Internal</div>
-                    <div className="text-sm font-medium">{pageAnalysis.links.internalCount || 0}</div>
+                    <div className="text-sm font-medium">{pageData.links.internalCount || 0}</div>
                   </div>
                   <div className="bg-white/5 p-2 rounded">
                     <div className="text-xs mb-1">External</div>
-                    <div className="text-sm font-medium">{pageAnalysis.links.externalCount || 0}</div>
+                    <div className="text-sm font-medium">{pageData.links.externalCount || 0}</div>
                   </div>
                   <div className="bg-white/5 p-2 rounded">
                     <div className="text-xs mb-1">Total</div>
-                    <div className="text-sm font-medium">{pageAnalysis.links.totalCount || 0}</div>
+                    <div className="text-sm font-medium">{pageData.links.totalCount || 0}</div>
                   </div>
                 </div>
               </div>
-            )}
             
-            {pageAnalysis.images && (
               <div>
                 <h4 className="text-xs text-muted-foreground mb-1">Images</h4>
                 <div className="bg-white/5 p-2 rounded">
                   <div className="flex justify-between">
                     <span>Images missing alt text</span>
-                    <span className={pageAnalysis.images.withoutAltCount === 0 ? "text-green-400" : "text-red-400"}>
-                      {pageAnalysis.images.withoutAltCount || 0}
+                    <span className={pageData.images.withoutAlt === 0 ? "text-green-400" : "text-red-400"}>
+                      {pageData.images.withoutAlt}
                     </span>
                   </div>
                 </div>
               </div>
-            )}
             
-            {pageAnalysis.contentLength !== undefined && (
               <div>
                 <h4 className="text-xs text-muted-foreground mb-1">Content</h4>
                 <div className="bg-white/5 p-2 rounded">
                   <div className="flex justify-between">
-                    <span>Content Length</span>
-                    <span className={pageAnalysis.contentLength >= 300 ? "text-green-400" : "text-yellow-400"}>
-                      {pageAnalysis.contentLength.toLocaleString()} characters
+                    <span>Word Count</span>
+                    <span className={pageData.content.wordCount >= minWords ? "text-green-400" : "text-yellow-400"}>
+                      {pageData.content.wordCount.toLocaleString()} words
                     </span>
                   </div>
                 </div>
               </div>
-            )}
+
+              {pageData.http && (
+                <div>
+                  <h4 className="text-xs text-muted-foreground mb-1">Redirects &amp; Headers</h4>
+                  <div className="bg-white/5 p-2 rounded text-xs space-y-1">
+                    {pageData.http.redirects.length === 0 ? (
+                      <div className="text-green-400">Served without redirects</div>
+                    ) : (
+                      pageData.http.redirects.map((hop, i) => (
+                        <div key={i} className="flex justify-between gap-3">
+                          <span className="break-all">{hop.url}</span>
+                          <span className="text-yellow-400 shrink-0">{hop.status}</span>
+                        </div>
+                      ))
+                    )}
+                    {pageData.http.redirects.length > 0 && (
+                      <div className="flex justify-between gap-3">
+                        <span className="break-all">{pageData.http.finalUrl}</span>
+                        <span className="text-green-400 shrink-0">{pageData.http.status}</span>
+                      </div>
+                    )}
+                    <div className="pt-1 grid grid-cols-2 gap-x-4 gap-y-1 text-white/60">
+                      <span>Cache-Control</span>
+                      <span className="break-all">{pageData.http.headers.cacheControl || 'Not set'}</span>
+                      <span>Strict-Transport-Security</span>
+                      <span className="break-all">{pageData.http.headers.strictTransportSecurity || 'Not set'}</span>
+                      <span>X-Robots-Tag</span>
+                      <span className="break-all">{pageData.http.headers.xRobotsTag || 'Not set'}</span>
+                      <span>Content-Type</span>
+                      <span className="break-all">{pageData.http.headers.contentType || 'Not set'}</span>
+                      <span>Content-Encoding</span>
+                      <span className="break-all">{pageData.http.headers.contentEncoding || 'None'}</span>
+                    </div>
+                  </div>
+                </div>
+              )}
+            </div>
           </div>
-        </div>
+        )}
+        </>
       )}
     </div>
   );
@@ -1,6 +1,24 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { Link } from 'react-router-dom';
-import { SeoAnalysisResult } from '../../api/types';
+import { toast } from 'sonner';
+import { AuditResult } from '../../api/types';
+import { ruleRegistry } from '../../analysis/rules';
+import { analyzeDuplicates } from '../../analysis/duplicates';
+import { analyzeHreflang } from '../../analysis/hreflang';
+import { DEFAULT_EXPORT_COLUMN_IDS, EXPORT_COLUMNS, exportRegistry } from '../../export';
+import DuplicatesPanel from './DuplicatesPanel';
+import HreflangClusterPanel from './HreflangClusterPanel';
+
+// Rule groups behind the summary cards and table status indicators
+const TITLE_RULES = ['missing_title', 'title_too_short', 'title_too_long'];
+const DESCRIPTION_RULES = ['missing_meta_description', 'meta_description_too_short', 'meta_description_too_long'];
+const H1_RULES = ['missing_h1', 'multiple_h1'];
+
+/**
+ * Check whether any of the given rules fail for a result (failed analyses have no page data to check)
+ */
+const failsRules = (result: AuditResult, ruleIds: string[]): boolean =>
+  result.status !== 'error' && ruleRegistry.run(result.pageData, result.url, ruleIds).length > 0;
 
 // Chart components if available
 let LineChart: any;
@@ -38,11 +56,13 @@ try {
 }
 
 interface BatchAuditResultsProps {
-  results: SeoAnalysisResult[];
+  results: AuditResult[];
   totalUrls: number;
   timestamp: string;
   cached?: boolean;
   cachedAt?: string;
+  // Set while the batch is still running and results are partial
+  inProgress?: boolean;
 }
 
 const BatchAuditResults: React.FC<BatchAuditResultsProps> = ({ 
@@ -50,14 +70,18 @@ const BatchAuditResults: React.FC<BatchAuditResultsProps> = ({
   totalUrls, 
   timestamp, 
   cached = false, 
-  cachedAt 
+  cachedAt,
+  inProgress = false
 }) => {
   // State for selected view and filtering/sorting
-  const [activeView, setActiveView] = useState<'table' | 'charts' | 'issues'>('table');
+  const [activeView, setActiveView] = useState<'table' | 'charts' | 'issues' | 'duplicates' | 'hreflang'>('table');
   const [searchTerm, setSearchTerm] = useState<string>('');
   const [sortBy, setSortBy] = useState<string>('score');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
   const [selectedUrl, setSelectedUrl] = useState<string | null>(null);
+  const [exportFormatId, setExportFormatId] = useState<string>('csv');
+  const [exportColumnIds, setExportColumnIds] = useState<string[]>(DEFAULT_EXPORT_COLUMN_IDS);
+  const [showColumnPicker, setShowColumnPicker] = useState<boolean>(false);
   
   // Processed results with filtering and sorting
   const processedResults = useMemo(() => {
@@ -93,14 +117,14 @@ const BatchAuditResults: React.FC<BatchAuditResultsProps> = ({
       }
       
       if (sortBy === 'title') {
-        const titleLengthA = a.pageData?.title?.length || a.pageAnalysis?.title?.length || 0;
-        const titleLengthB = b.pageData?.title?.length || b.pageAnalysis?.title?.length || 0;
+        const titleLengthA = a.pageData?.title?.length || 0;
+        const titleLengthB = b.pageData?.title?.length || 0;
         return sortDirection === 'asc' ? titleLengthA - titleLengthB : titleLengthB - titleLengthA;
       }
       
       if (sortBy === 'description') {
-        const descLengthA = a.pageData?.metaDescription?.length || a.pageAnalysis?.metaDescription?.length || 0;
-        const descLengthB = b.pageData?.metaDescription?.length || b.pageAnalysis?.metaDescription?.length || 0;
+        const descLengthA = a.pageData?.metaDescription?.length || 0;
+        const descLengthB = b.pageData?.metaDescription?.length || 0;
         return sortDirection === 'asc' ? descLengthA - descLengthB : descLengthB - descLengthA;
       }
       
@@ -108,6 +132,14 @@ const BatchAuditResults: React.FC<BatchAuditResultsProps> = ({
     });
   }, [results, searchTerm, sortBy, sortDirection]);
   
+  // Duplicate groups and canonical problems across every analyzed page
+  const duplicatesReport = useMemo(() => analyzeDuplicates(results), [results]);
+  const duplicateIssueCount = Object.values(duplicatesReport.summary).reduce((sum, count) => sum + count, 0);
+
+  // Hreflang clusters across every analyzed page, not only the filtered ones
+  const hreflangReport = useMemo(() => analyzeHreflang(results), [results]);
+  const hreflangIssueCount = hreflangReport.clusters.reduce((sum, cluster) => sum + cluster.issues.length, 0);
+
   // Get the selected result
   const selectedResult = useMemo(() => {
     if (!selectedUrl) return null;
@@ -131,21 +163,17 @@ const BatchAuditResults: React.FC<BatchAuditResultsProps> = ({
         : domain;
       
       // Extract values with fallbacks
-      const titleLength = result.pageData?.title?.length || 
-                          result.pageAnalysis?.title?.length || 0;
+      const titleLength = result.pageData?.title?.length || 0;
                          
-      const descLength = result.pageData?.metaDescription?.length || 
-                         result.pageAnalysis?.metaDescription?.length || 0;
+      const descLength = result.pageData?.metaDescription?.length || 0;
                         
-      const h1Count = result.pageData?.headings?.h1Count || 
-                      result.pageAnalysis?.headings?.h1Count || 0;
+      const h1Count = result.pageData?.headings?.h1Count || 0;
                      
       const imagesWithAlt = 
-        (result.pageData?.images?.total || result.pageAnalysis?.images?.total || 0) - 
-        (result.pageData?.images?.withoutAlt || result.pageAnalysis?.images?.withoutAltCount || 0);
+        (result.pageData?.images?.total || 0) - 
+        (result.pageData?.images?.withoutAlt || 0);
       
-      const imagesWithoutAlt = result.pageData?.images?.withoutAlt || 
-                              result.pageAnalysis?.images?.withoutAltCount || 0;
+      const imagesWithoutAlt = result.pageData?.images?.withoutAlt || 0;
       
       return {
         url: result.url,
@@ -168,23 +196,9 @@ const BatchAuditResults: React.FC<BatchAuditResultsProps> = ({
       results.reduce((sum, result) => sum + (result.score || 0), 0) / (totalUrls || 1)
     );
     
-    const titleIssues = results.filter(result => {
-      const titleLength = result.pageData?.title?.length || 
-                          result.pageAnalysis?.title?.length || 0;
-      return titleLength < 30 || titleLength > 60 || titleLength === 0;
-    }).length;
-    
-    const descIssues = results.filter(result => {
-      const descLength = result.pageData?.metaDescription?.length || 
-                         result.pageAnalysis?.metaDescription?.length || 0;
-      return descLength < 50 || descLength > 160 || descLength === 0;
-    }).length;
-    
-    const h1Issues = results.filter(result => {
-      const h1Count = result.pageData?.headings?.h1Count || 
-                     result.pageAnalysis?.headings?.h1Count || 0;
-      return h1Count !== 1;
-    }).length;
+    const titleIssues = results.filter(result => failsRules(result, TITLE_RULES)).length;
+    const descIssues = results.filter(result => failsRules(result, DESCRIPTION_RULES)).length;
+    const h1Issues = results.filter(result => failsRules(result, H1_RULES)).length;
     
     return {
       totalUrls,
@@ -254,62 +268,8 @@ const BatchAuditResults: React.FC<BatchAuditResultsProps> = ({
           });
         });
       }
-      
-      // Fallback to extracting issues from other properties if no categories
-      if (!result.categories && result.pageAnalysis) {
-        // Title issues
-        if (!result.pageAnalysis.title?.text) {
-          addIssue('missing_title', result.url, 'critical', 'Add a title tag to your page', 'high');
-        } else if (result.pageAnalysis.title.length < 30) {
-          addIssue('title_too_short', result.url, 'warning', 'Make your title tag longer (30-60 characters recommended)', 'medium');
-        } else if (result.pageAnalysis.title.length > 60) {
-          addIssue('title_too_long', result.url, 'info', 'Consider shortening your title tag (30-60 characters recommended)', 'low');
-        }
-        
-        // Meta description issues
-        if (!result.pageAnalysis.metaDescription?.text) {
-          addIssue('missing_meta_description', result.url, 'critical', 'Add a meta description to your page', 'high');
-        } else if (result.pageAnalysis.metaDescription.length < 50) {
-          addIssue('meta_description_too_short', result.url, 'warning', 'Make your meta description longer (50-160 characters recommended)', 'medium');
-        } else if (result.pageAnalysis.metaDescription.length > 160) {
-          addIssue('meta_description_too_long', result.url, 'info', 'Consider shortening your meta description (50-160 characters recommended)', 'low');
-        }
-        
-        // H1 issues
-        if (result.pageAnalysis.headings?.h1Count === 0) {
-          addIssue('missing_h1', result.url, 'critical', 'Add an H1 heading to your page', 'high');
-        } else if (result.pageAnalysis.headings?.h1Count > 1) {
-          addIssue('multiple_h1', result.url, 'warning', 'Use only one H1 heading per page', 'medium');
-        }
-        
-        // Image alt text issues
-        if (result.pageAnalysis.images?.withoutAltCount > 0) {
-          addIssue('images_missing_alt', result.url, 'warning', 'Add alt text to all images for better accessibility and SEO', 'medium');
-        }
-      }
     });
     
-    // Helper function to add an issue to the map
-    function addIssue(type, url, severity, recommendation, impact) {
-      if (!issueMap.has(type)) {
-        issueMap.set(type, {
-          type,
-          count: 0,
-          urls: [],
-          severity,
-          recommendation,
-          impact
-        });
-      }
-      
-      const issueData = issueMap.get(type);
-      issueData.count++;
-      
-      if (!issueData.urls.includes(url)) {
-        issueData.urls.push(url);
-      }
-    }
-    
     // Convert map to array and sort by count (descending)
     return Array.from(issueMap.values())
       .sort((a, b) => b.count - a.count);
@@ -327,78 +287,32 @@ const BatchAuditResults: React.FC<BatchAuditResultsProps> = ({
     }
   };
   
-  // Handle CSV export
-  const handleExportCsv = () => {
-    // Define CSV headers
-    const headers = [
-      'URL',
-      'Score',
-      'Title Length',
-      'Meta Description Length',
-      'H1 Count',
-      'Issues',
-      'Internal Links',
-      'External Links',
-      'Images With Alt',
-      'Images Without Alt'
-    ];
-    
-    // Map results to CSV rows
-    const rows = processedResults.map(result => {
-      const titleLength = result.pageData?.title?.length || 
-                         result.pageAnalysis?.title?.length || 0;
-                        
-      const descLength = result.pageData?.metaDescription?.length || 
-                        result.pageAnalysis?.metaDescription?.length || 0;
-                         
-      const h1Count = result.pageData?.headings?.h1Count || 
-                     result.pageAnalysis?.headings?.h1Count || 0;
-                      
-      const issues = result.totalIssuesCount || 0;
-      
-      const internalLinks = result.pageData?.links?.internalCount || 
-                           result.pageAnalysis?.links?.internalCount || 0;
-                            
-      const externalLinks = result.pageData?.links?.externalCount || 
-                           result.pageAnalysis?.links?.externalCount || 0;
-                            
-      const imagesWithAlt = 
-        (result.pageData?.images?.total || result.pageAnalysis?.images?.total || 0) - 
-        (result.pageData?.images?.withoutAlt || result.pageAnalysis?.images?.withoutAltCount || 0);
-      
-      const imagesWithoutAlt = result.pageData?.images?.withoutAlt || 
-                              result.pageAnalysis?.images?.withoutAltCount || 0;
-      
-      return [
-        result.url,
-        result.score || 0,
-        titleLength,
-        descLength,
-        h1Count,
-        issues,
-        internalLinks,
-        externalLinks,
-        imagesWithAlt,
-        imagesWithoutAlt
-      ];
-    });
-    
-    // Create CSV content
-    const csvContent = [
-      headers.join(','),
-      ...rows.map(row => row.join(','))
-    ].join('\n');
-    
-    // Create and download CSV file
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.setAttribute('href', url);
-    link.setAttribute('download', `seo-batch-audit-${new Date().toISOString().slice(0, 10)}.csv`);
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  // Export the filtered and sorted results in the chosen format
+  const handleExport = () => {
+    try {
+      exportRegistry.download(exportFormatId, processedResults, {
+        columns: exportColumnIds,
+        timestamp
+      });
+    } catch (error) {
+      console.error('Export failed:', error);
+      toast('Export failed', {
+        description: (error as Error).message,
+        position: 'bottom-right',
+      });
+    }
+  };
+
+  const toggleExportColumn = (id: string) => {
+    setExportColumnIds(prev =>
+      prev.includes(id)
+        ? prev.filter(columnId => columnId !== id)
+        // Keep the order the columns are listed in
+        : EXPORT_COLUMNS.map(column => column.id).filter(columnId => columnId === id || prev.includes(columnId))
+    );
   };
+
+  const exportFormat = exportRegistry.get(exportFormatId);
   
   // Format a URL for display
   const formatUrl = (url: string) => {
@@ -427,7 +341,9 @@ const BatchAuditResults: React.FC<BatchAuditResultsProps> = ({
         <div>
           <h1 className="text-2xl font-bold">Batch SEO Audit Results</h1>
           <p className="text-muted-foreground">
-            {totalUrls} URLs analyzed on {new Date(timestamp).toLocaleString()}
+            {inProgress
+              ? `${results.length} of ${totalUrls} URLs analyzed so far`
+              : `${totalUrls} URLs analyzed on ${new Date(timestamp).toLocaleString()}`}
             {cached && cachedAt && (
               <span className="text-xs ml-2 bg-white/10 px-2 py-1 rounded-full">
                 Cached from {new Date(cachedAt).toLocaleString()}
@@ -436,13 +352,55 @@ const BatchAuditResults: React.FC<BatchAuditResultsProps> = ({
           </p>
         </div>
         
-        <div className="flex gap-2">
+        <div className="relative flex gap-2">
+          <select
+            value={exportFormatId}
+            onChange={(e) => setExportFormatId(e.target.value)}
+            className="px-3 py-2 text-sm bg-black/20 border border-white/10 rounded-md"
+            aria-label="Export format"
+          >
+            {exportRegistry.list().map(format => (
+              <option key={format.id} value={format.id}>{format.label}</option>
+            ))}
+          </select>
+          {exportFormat?.supportsColumns && (
+            <button
+              onClick={() => setShowColumnPicker(!showColumnPicker)}
+              className="px-4 py-2 text-sm bg-white/10 hover:bg-white/20 rounded-md"
+            >
+              Columns ({exportColumnIds.length})
+            </button>
+          )}
           <button
-            onClick={handleExportCsv}
-            className="px-4 py-2 text-sm bg-white/10 hover:bg-white/20 rounded-md"
+            onClick={handleExport}
+            disabled={exportFormat?.supportsColumns && exportColumnIds.length === 0}
+            className="px-4 py-2 text-sm bg-white/10 hover:bg-white/20 rounded-md disabled:opacity-50"
           >
-            Export CSV
+            Export
           </button>
+          
+          {showColumnPicker && exportFormat?.supportsColumns && (
+            <div className="absolute right-0 top-full mt-2 z-10 w-64 max-h-80 overflow-y-auto bg-card border border-white/10 rounded-md shadow-lg p-3">
+              <div className="flex justify-between text-xs mb-2">
+                <button className="text-primary hover:underline" onClick={() => setExportColumnIds(EXPORT_COLUMNS.map(column => column.id))}>
+                  Select all
+                </button>
+                <button className="text-primary hover:underline" onClick={() => setExportColumnIds(DEFAULT_EXPORT_COLUMN_IDS)}>
+                  Reset
+                </button>
+              </div>
+              {EXPORT_COLUMNS.map(column => (
+                <label key={column.id} className="flex items-center gap-2 text-sm py-1 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={exportColumnIds.includes(column.id)}
+                    onChange={() => toggleExportColumn(column.id)}
+                  />
+                  {column.label}
+                </label>
+              ))}
+            </div>
+          )}
         </div>
       </div>
       
@@ -514,6 +472,34 @@ const BatchAuditResults: React.FC<BatchAuditResultsProps> = ({
           >
             Common Issues
           </button>
+
+          <button
+            className={`px-4 py-2 ${
+              activeView === 'duplicates' 
+                ? 'border-b-2 border-primary text-primary' 
+                : 'text-white/60 hover:text-white'
+            }`}
+            onClick={() => setActiveView('duplicates')}
+          >
+            Duplicates
+            {duplicateIssueCount > 0 && (
+              <span className="ml-2 text-xs text-red-400">{duplicateIssueCount}</span>
+            )}
+          </button>
+
+          <button
+            className={`px-4 py-2 ${
+              activeView === 'hreflang' 
+                ? 'border-b-2 border-primary text-primary' 
+                : 'text-white/60 hover:text-white'
+            }`}
+            onClick={() => setActiveView('hreflang')}
+          >
+            Hreflang
+            {hreflangIssueCount > 0 && (
+              <span className="ml-2 text-xs text-red-400">{hreflangIssueCount}</span>
+            )}
+          </button>
         </div>
       </div>
       
@@ -589,20 +575,15 @@ const BatchAuditResults: React.FC<BatchAuditResultsProps> = ({
               <tbody>
                 {processedResults.map((result, index) => {
                   // Extract values with fallbacks
-                  const titleLength = result.pageData?.title?.length || 
-                                    result.pageAnalysis?.title?.length || 0;
+                  const titleLength = result.pageData?.title?.length || 0;
                                    
-                  const descLength = result.pageData?.metaDescription?.length || 
-                                   result.pageAnalysis?.metaDescription?.length || 0;
+                  const descLength = result.pageData?.metaDescription?.length || 0;
                                   
                   const issues = result.totalIssuesCount || 0;
                   
                   // Determine status indicators
-                  const titleStatus = titleLength < 30 || titleLength > 60 || titleLength === 0 
-                    ? 'bg-red-500' : 'bg-green-500';
-                    
-                  const descStatus = descLength < 50 || descLength > 160 || descLength === 0 
-                    ? 'bg-red-500' : 'bg-green-500';
+                  const titleStatus = failsRules(result, TITLE_RULES) ? 'bg-red-500' : 'bg-green-500';
+                  const descStatus = failsRules(result, DESCRIPTION_RULES) ? 'bg-red-500' : 'bg-green-500';
                   
                   return (
                     <tr 
@@ -712,27 +693,21 @@ const BatchAuditResults: React.FC<BatchAuditResultsProps> = ({
                   <div className="space-y-1">
                     <div className="text-xs text-white/60">Page Title</div>
                     <div className="text-sm bg-white/10 p-2 rounded">
-                      {selectedResult.pageData?.title?.text || 
-                       selectedResult.pageAnalysis?.title?.text || 
-                       'No title found'}
+                      {selectedResult.pageData?.title?.text || 'No title found'}
                     </div>
                   </div>
                   
                   <div className="space-y-1">
                     <div className="text-xs text-white/60">Meta Description</div>
                     <div className="text-sm bg-white/10 p-2 rounded">
-                      {selectedResult.pageData?.metaDescription?.text || 
-                       selectedResult.pageAnalysis?.metaDescription?.text || 
-                       'No meta description found'}
+                      {selectedResult.pageData?.metaDescription?.text || 'No meta description found'}
                     </div>
                   </div>
                   
                   <div className="space-y-1">
                     <div className="text-xs text-white/60">H1 Heading</div>
                     <div className="text-sm bg-white/10 p-2 rounded">
-                      {selectedResult.pageData?.headings?.h1Texts?.[0] || 
-                       selectedResult.pageAnalysis?.headings?.h1Texts?.[0] || 
-                       'No H1 heading found'}
+                      {selectedResult.pageData?.headings?.h1Texts?.[0] || 'No H1 heading found'}
                     </div>
                   </div>
                 </div>
@@ -1058,6 +1033,12 @@ const BatchAuditResults: React.FC<BatchAuditResultsProps> = ({
           </div>
         </div>
       )}
+
+      {/* Duplicates View */}
+      {activeView === 'duplicates' && <DuplicatesPanel report={duplicatesReport} />}
+
+      {/* Hreflang View */}
+      {activeView === 'hreflang' && <HreflangClusterPanel report={hreflangReport} />}
     </div>
   );
 };
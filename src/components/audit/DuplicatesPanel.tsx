@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { DuplicateIssueType, DuplicatesReport, DuplicateKind, DUPLICATE_ISSUE_TYPES } from '../../analysis/duplicates';
+
+interface DuplicatesPanelProps {
+  report: DuplicatesReport;
+}
+
+const ISSUE_LABELS: Record<DuplicateIssueType, string> = {
+  near_duplicate_content: 'Duplicate content',
+  duplicate_title: 'Duplicate titles',
+  duplicate_description: 'Duplicate descriptions',
+  canonical_chain: 'Canonical chains',
+  canonical_non_200: 'Canonical to non-200',
+  canonical_noindex: 'Canonical to noindex'
+};
+
+const ISSUE_COLORS: Record<DuplicateIssueType, string> = {
+  near_duplicate_content: 'text-red-400',
+  duplicate_title: 'text-yellow-400',
+  duplicate_description: 'text-yellow-400',
+  canonical_chain: 'text-yellow-400',
+  canonical_non_200: 'text-red-400',
+  canonical_noindex: 'text-red-400'
+};
+
+const KIND_ISSUES: Record<DuplicateKind, DuplicateIssueType> = {
+  content: 'near_duplicate_content',
+  title: 'duplicate_title',
+  description: 'duplicate_description'
+};
+
+const DuplicatesPanel: React.FC<DuplicatesPanelProps> = ({ report }) => {
+  const [filter, setFilter] = useState<DuplicateIssueType | null>(null);
+
+  const groups = report.groups.filter(group => !filter || KIND_ISSUES[group.kind] === filter);
+  const canonicalIssues = report.canonicalIssues.filter(issue => !filter || issue.type === filter);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-2">
+        {DUPLICATE_ISSUE_TYPES.map(type => (
+          <button
+            key={type}
+            onClick={() => setFilter(filter === type ? null : type)}
+            className={`text-left bg-white/5 p-3 rounded border ${
+              filter === type ? 'border-primary' : 'border-white/10 hover:border-white/30'
+            }`}
+          >
+            <div className="text-xs text-muted-foreground mb-1">{ISSUE_LABELS[type]}</div>
+            <div className={`text-xl font-bold ${report.summary[type] > 0 ? ISSUE_COLORS[type] : 'text-green-400'}`}>
+              {report.summary[type]}
+            </div>
+          </button>
+        ))}
+      </div>
+
+      <p className="text-xs text-white/60">
+        Compared {report.pagesCompared} {report.pagesCompared === 1 ? 'page' : 'pages'}; groups whose pages all
+        share one canonical URL are already handled and listed last
+        {filter && (
+          <>
+            {' '}&middot; showing {ISSUE_LABELS[filter].toLowerCase()}{' '}
+            <button className="text-primary hover:underline" onClick={() => setFilter(null)}>
+              Show all
+            </button>
+          </>
+        )}
+      </p>
+
+      {groups.length === 0 && canonicalIssues.length === 0 && (
+        <div className="bg-white/5 rounded p-4 text-sm text-green-400">
+          {filter ? 'No pages with this problem' : 'No duplicate content or canonical problems found'}
+        </div>
+      )}
+
+      {canonicalIssues.length > 0 && (
+        <div className="bg-white/5 rounded-lg border border-white/10 p-4">
+          <h3 className="text-sm font-medium mb-3">Canonical Problems</h3>
+          <div className="space-y-2">
+            {canonicalIssues.map((issue, index) => (
+              <div key={index} className="text-xs">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className={ISSUE_COLORS[issue.type]}>{ISSUE_LABELS[issue.type]}</span>
+                  <a href={issue.url} target="_blank" rel="noopener noreferrer" className="break-all hover:underline">
+                    {issue.url}
+                  </a>
+                </div>
+                <div className="text-white/60 break-all">
+                  Canonical {issue.canonicalUrl}: {issue.message}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {groups.map((group, index) => {
+        const issueType = KIND_ISSUES[group.kind];
+
+        return (
+          <div key={index} className="bg-white/5 rounded p-3 text-xs">
+            <div className="flex flex-wrap items-center gap-2 mb-2">
+              <span className={group.canonicalized ? 'text-white/60' : ISSUE_COLORS[issueType]}>
+                {ISSUE_LABELS[issueType]}
+              </span>
+              <span className="px-2 py-0.5 rounded bg-white/10 text-white/60">{group.urls.length} pages</span>
+              {group.kind === 'content' && (
+                <span className="px-2 py-0.5 rounded bg-white/10 text-white/60">
+                  {group.exact ? 'Identical' : 'Near-identical'}
+                </span>
+              )}
+              {group.canonicalized && (
+                <span className="px-2 py-0.5 rounded bg-white/10 text-green-400">Canonicalized</span>
+              )}
+            </div>
+
+            {group.value && <div className="text-sm mb-2 break-words">&ldquo;{group.value}&rdquo;</div>}
+
+            <ul className="space-y-1">
+              {group.urls.map(url => (
+                <li key={url} className="break-all">
+                  <a href={url} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">
+                    {url}
+                  </a>
+                </li>
+              ))}
+            </ul>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default DuplicatesPanel;
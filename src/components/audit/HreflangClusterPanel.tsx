@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { HreflangIssueType, HreflangReport, HREFLANG_ISSUE_TYPES } from '../../analysis/hreflang';
+
+interface HreflangClusterPanelProps {
+  report: HreflangReport;
+}
+
+const ISSUE_LABELS: Record<HreflangIssueType, string> = {
+  missing_return_link: 'Missing return links',
+  invalid_code: 'Invalid codes',
+  missing_x_default: 'Missing x-default',
+  missing_self_reference: 'Missing self reference',
+  conflicting_canonical: 'Conflicting canonicals'
+};
+
+const ISSUE_COLORS: Record<HreflangIssueType, string> = {
+  missing_return_link: 'text-red-400',
+  invalid_code: 'text-red-400',
+  missing_x_default: 'text-yellow-400',
+  missing_self_reference: 'text-yellow-400',
+  conflicting_canonical: 'text-red-400'
+};
+
+const HreflangClusterPanel: React.FC<HreflangClusterPanelProps> = ({ report }) => {
+  const [filter, setFilter] = useState<HreflangIssueType | null>(null);
+
+  const clusters = filter
+    ? report.clusters.filter(cluster => cluster.issues.some(issue => issue.type === filter))
+    : report.clusters;
+
+  if (report.clusters.length === 0) {
+    return (
+      <div className="bg-white/5 rounded-lg border border-white/10 p-8 text-center text-white/60">
+        None of the analyzed pages declare hreflang alternates.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+        {HREFLANG_ISSUE_TYPES.map(type => (
+          <button
+            key={type}
+            onClick={() => setFilter(filter === type ? null : type)}
+            className={`text-left bg-white/5 p-3 rounded border ${
+              filter === type ? 'border-primary' : 'border-white/10 hover:border-white/30'
+            }`}
+          >
+            <div className="text-xs text-muted-foreground mb-1">{ISSUE_LABELS[type]}</div>
+            <div className={`text-xl font-bold ${report.summary[type] > 0 ? ISSUE_COLORS[type] : 'text-green-400'}`}>
+              {report.summary[type]}
+            </div>
+          </button>
+        ))}
+      </div>
+
+      <p className="text-xs text-white/60">
+        {report.pagesWithHreflang} {report.pagesWithHreflang === 1 ? 'page declares' : 'pages declare'} hreflang
+        alternates, in {report.clusters.length} {report.clusters.length === 1 ? 'cluster' : 'clusters'}
+        {filter && (
+          <>
+            {' '}&middot; showing clusters with {ISSUE_LABELS[filter].toLowerCase()}{' '}
+            <button className="text-primary hover:underline" onClick={() => setFilter(null)}>
+              Show all
+            </button>
+          </>
+        )}
+      </p>
+
+      {clusters.map((cluster, index) => {
+        const issues = filter ? cluster.issues.filter(issue => issue.type === filter) : cluster.issues;
+
+        return (
+          <div key={index} className="bg-white/5 rounded-lg border border-white/10 p-4 text-sm">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+              <div className="font-medium">
+                Cluster {index + 1} &middot; {cluster.pages.length} {cluster.pages.length === 1 ? 'page' : 'pages'}
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {cluster.codes.map(code => (
+                  <span key={code} className="px-2 py-0.5 rounded bg-white/10 text-xs font-mono">{code}</span>
+                ))}
+              </div>
+            </div>
+
+            <table className="w-full text-xs mb-3">
+              <thead>
+                <tr className="text-left text-white/60">
+                  <th className="py-1 pr-3 font-normal">Page</th>
+                  <th className="py-1 pr-3 font-normal">Hreflang</th>
+                  <th className="py-1 font-normal">Canonical</th>
+                </tr>
+              </thead>
+              <tbody>
+                {cluster.pages.map(page => (
+                  <tr key={page.url} className="border-t border-white/5 align-top">
+                    <td className="py-1 pr-3 break-all">
+                      <a href={page.url} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                        {page.url}
+                      </a>
+                      {!page.audited && <span className="ml-2 text-white/40">(not audited)</span>}
+                    </td>
+                    <td className="py-1 pr-3 font-mono">{page.hreflang.join(', ') || '-'}</td>
+                    <td className="py-1 break-all text-white/60">{page.canonicalUrl || '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {issues.length === 0 ? (
+              <div className="text-green-400 text-xs">No hreflang problems in this cluster</div>
+            ) : (
+              <ul className="space-y-1 text-xs">
+                {issues.map((issue, issueIndex) => (
+                  <li key={issueIndex} className="flex gap-2">
+                    <span className={`shrink-0 ${ISSUE_COLORS[issue.type]}`}>{ISSUE_LABELS[issue.type]}</span>
+                    <span className="text-white/80 break-all">
+                      {issue.url && <span className="text-white/60">{issue.url}: </span>}
+                      {issue.message}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default HreflangClusterPanel;
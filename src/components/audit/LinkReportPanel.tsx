@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { LinkProblem, LinkReport } from '../../api/types';
+
+interface LinkReportPanelProps {
+  report: LinkReport;
+}
+
+const PROBLEM_LABELS: Record<LinkProblem, string> = {
+  broken: 'Broken',
+  redirect: 'Redirected',
+  redirect_chain: 'Redirect chains',
+  redirect_loop: 'Redirect loops',
+  mixed_content: 'Mixed content',
+  noindex: 'Noindex pages'
+};
+
+const PROBLEM_COLORS: Record<LinkProblem, string> = {
+  broken: 'text-red-400',
+  redirect: 'text-blue-400',
+  redirect_chain: 'text-yellow-400',
+  redirect_loop: 'text-red-400',
+  mixed_content: 'text-yellow-400',
+  noindex: 'text-yellow-400'
+};
+
+const PROBLEMS = Object.keys(PROBLEM_LABELS) as LinkProblem[];
+
+const LinkReportPanel: React.FC<LinkReportPanelProps> = ({ report }) => {
+  const [filter, setFilter] = useState<LinkProblem | null>(null);
+
+  const links = filter ? report.links.filter(link => link.problems.includes(filter)) : report.links;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-2">
+        {PROBLEMS.map(problem => (
+          <button
+            key={problem}
+            onClick={() => setFilter(filter === problem ? null : problem)}
+            className={`text-left bg-white/5 p-3 rounded border ${
+              filter === problem ? 'border-primary' : 'border-white/10 hover:border-white/30'
+            }`}
+          >
+            <div className="text-xs text-muted-foreground mb-1">{PROBLEM_LABELS[problem]}</div>
+            <div className={`text-xl font-bold ${report.summary[problem] > 0 ? PROBLEM_COLORS[problem] : 'text-green-400'}`}>
+              {report.summary[problem]}
+            </div>
+          </button>
+        ))}
+      </div>
+
+      <p className="text-xs text-white/60">
+        Checked {report.checkedLinks.toLocaleString()} of {report.totalLinks.toLocaleString()} unique links found on the crawled pages
+        {filter && (
+          <>
+            {' '}&middot; showing {PROBLEM_LABELS[filter].toLowerCase()}{' '}
+            <button className="text-primary hover:underline" onClick={() => setFilter(null)}>
+              Show all
+            </button>
+          </>
+        )}
+      </p>
+
+      {links.length === 0 ? (
+        <div className="bg-white/5 rounded p-4 text-sm text-green-400">
+          {filter ? 'No links with this problem' : 'No link problems found'}
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {links.map(link => (
+            <div key={link.url} className="bg-white/5 rounded p-3 text-xs">
+              <div className="flex items-start justify-between gap-3">
+                <a
+                  href={link.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="break-all text-sm hover:underline"
+                >
+                  {link.url}
+                </a>
+                <span className={`shrink-0 font-mono ${link.problems.includes('broken') ? 'text-red-400' : 'text-white/60'}`}>
+                  {link.error || link.status}
+                </span>
+              </div>
+
+              <div className="flex flex-wrap gap-1 mt-2">
+                <span className="px-2 py-0.5 rounded bg-white/10 text-white/60">
+                  {link.internal ? 'Internal' : 'External'}
+                </span>
+                {link.problems.map(problem => (
+                  <span key={problem} className={`px-2 py-0.5 rounded bg-white/10 ${PROBLEM_COLORS[problem]}`}>
+                    {PROBLEM_LABELS[problem]}
+                  </span>
+                ))}
+              </div>
+
+              {link.redirects.length > 0 && (
+                <div className="mt-2 text-white/60 break-all">
+                  Redirects: {[link.url, ...link.redirects].join(' → ')}
+                </div>
+              )}
+
+              <details className="mt-2">
+                <summary className="cursor-pointer text-white/60">
+                  Linked from {link.sources.length} {link.sources.length === 1 ? 'page' : 'pages'}
+                </summary>
+                <ul className="mt-1 space-y-1">
+                  {link.sources.map(source => (
+                    <li key={source} className="break-all">{source}</li>
+                  ))}
+                </ul>
+              </details>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LinkReportPanel;
@@ -0,0 +1,240 @@
+import React, { useMemo, useState } from 'react';
+import { ResponsiveContainer, Tooltip, Treemap } from 'recharts';
+import { ResourceInventory, ResourceType } from '../../api/types';
+import { ruleRegistry, RuleRegistry } from '../../analysis/rules';
+import { findOversizedImages, findUncompressedResources, formatBytes, RESOURCE_TYPES } from '../../analysis/resources';
+
+interface ResourceInventoryPanelProps {
+  inventory: ResourceInventory;
+  // Rules of the audited project, for the thresholds of flagged resources
+  rules?: RuleRegistry;
+}
+
+type ResourceFilter = ResourceType | 'thirdParty';
+
+const TYPE_LABELS: Record<ResourceType, string> = {
+  document: 'Documents',
+  script: 'Scripts',
+  stylesheet: 'Stylesheets',
+  image: 'Images',
+  font: 'Fonts',
+  media: 'Media',
+  other: 'Other'
+};
+
+// Treemap fills
+const TYPE_COLORS: Record<ResourceType, string> = {
+  document: '#60a5fa',
+  script: '#facc15',
+  stylesheet: '#c084fc',
+  image: '#4ade80',
+  font: '#f472b6',
+  media: '#fb923c',
+  other: '#94a3b8'
+};
+
+function formatCacheTtl(seconds: number): string {
+  if (seconds <= 0) return 'Not cached';
+  if (seconds < 3600) return `Cached ${Math.round(seconds / 60)} min`;
+  if (seconds < 86400) return `Cached ${Math.round(seconds / 3600)} h`;
+  return `Cached ${Math.round(seconds / 86400)} d`;
+}
+
+// Last path segment, so treemap cells and rows stay readable
+function shortName(url: string): string {
+  try {
+    const { hostname, pathname } = new URL(url);
+    return pathname.split('/').filter(Boolean).pop() || hostname;
+  } catch (e) {
+    return url;
+  }
+}
+
+// A resource in the treemap
+interface TreemapLeaf {
+  name: string;
+  size: number;
+  type: ResourceType;
+}
+
+// Recharts clones the cell for every node, adding its layout to the node's fields
+interface TreemapCellProps extends Partial<TreemapLeaf> {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  depth?: number;
+}
+
+/**
+ * Treemap cell: type groups are outlined, resources are filled with their type's color
+ */
+const TreemapCell: React.FC<TreemapCellProps> = ({ x, y, width, height, depth, name, type }) => {
+  if (depth === 1) {
+    return <rect x={x} y={y} width={width} height={height} fill="none" stroke="#000" strokeWidth={2} />;
+  }
+  if (depth !== 2) return null;
+
+  return (
+    <g>
+      <rect x={x} y={y} width={width} height={height} fill={TYPE_COLORS[type]} fillOpacity={0.75} stroke="#111" />
+      {width > 60 && height > 18 && (
+        <text x={x + 4} y={y + 13} fontSize={11} fill="#111">
+          {name.length > width / 6.5 ? `${name.slice(0, Math.floor(width / 6.5) - 1)}…` : name}
+        </text>
+      )}
+    </g>
+  );
+};
+
+const ResourceInventoryPanel: React.FC<ResourceInventoryPanelProps> = ({ inventory, rules = ruleRegistry }) => {
+  const [filter, setFilter] = useState<ResourceFilter | null>(null);
+
+  const items = inventory.items.filter(resource =>
+    !filter || (filter === 'thirdParty' ? resource.thirdParty : resource.type === filter)
+  );
+
+  // Resources the page weight rules report, to flag them in the list
+  const flagged = useMemo(() => {
+    const { minBytes } = rules.getThresholds('uncompressed_assets');
+    const { maxKb, maxScale } = rules.getThresholds('oversized_images');
+    return {
+      uncompressed: new Set(findUncompressedResources(inventory.items, minBytes)),
+      oversized: new Set(findOversizedImages(inventory.items, maxKb, maxScale))
+    };
+  }, [inventory, rules]);
+
+  const treemapData = RESOURCE_TYPES
+    .map(type => ({
+      name: TYPE_LABELS[type],
+      children: items
+        .filter(resource => resource.type === type && resource.transferBytes > 0)
+        .map((resource): TreemapLeaf => ({ name: shortName(resource.url), size: resource.transferBytes, type }))
+    }))
+    .filter(group => group.children.length > 0);
+
+  const cards: Array<{ filter: ResourceFilter; label: string; requests: number; bytes: number }> = [
+    ...RESOURCE_TYPES.map(type => ({ filter: type, label: TYPE_LABELS[type], ...inventory.byType[type] })),
+    { filter: 'thirdParty', label: 'Third party', ...inventory.thirdParty }
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        {cards.map(card => (
+          <button
+            key={card.filter}
+            onClick={() => setFilter(filter === card.filter ? null : card.filter)}
+            className={`text-left bg-white/5 p-3 rounded border ${
+              filter === card.filter ? 'border-primary' : 'border-white/10 hover:border-white/30'
+            }`}
+          >
+            <div className="text-xs text-muted-foreground mb-1">{card.label}</div>
+            <div className="text-xl font-bold">{formatBytes(card.bytes)}</div>
+            <div className="text-xs text-white/60">{card.requests} {card.requests === 1 ? 'request' : 'requests'}</div>
+          </button>
+        ))}
+      </div>
+
+      <p className="text-xs text-white/60">
+        {formatBytes(inventory.total.bytes)} transferred in {inventory.total.requests} requests while loading the page
+        {filter && (
+          <>
+            {' '}&middot; showing {filter === 'thirdParty' ? 'third-party resources' : TYPE_LABELS[filter].toLowerCase()}{' '}
+            <button className="text-primary hover:underline" onClick={() => setFilter(null)}>
+              Show all
+            </button>
+          </>
+        )}
+      </p>
+
+      {treemapData.length > 0 && (
+        <div className="h-72 bg-white/5 rounded-lg border border-white/10 p-2">
+          <ResponsiveContainer width="100%" height="100%">
+            <Treemap data={treemapData} dataKey="size" content={<TreemapCell />} isAnimationActive={false}>
+              <Tooltip
+                formatter={(bytes: number) => formatBytes(bytes)}
+                contentStyle={{ backgroundColor: '#111', borderColor: '#333', color: '#fff' }}
+              />
+            </Treemap>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      {inventory.thirdPartyHosts.length > 0 && !filter && (
+        <div className="bg-white/5 rounded-lg border border-white/10 p-4">
+          <h3 className="text-sm font-medium mb-3">Third-Party Hosts</h3>
+          <div className="space-y-1">
+            {inventory.thirdPartyHosts.map(host => (
+              <div key={host.host} className="flex justify-between gap-3 text-xs">
+                <span className="break-all">{host.host}</span>
+                <span className="shrink-0 text-white/60">
+                  {formatBytes(host.bytes)} &middot; {host.requests} {host.requests === 1 ? 'request' : 'requests'}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {items.length === 0 ? (
+        <div className="bg-white/5 rounded p-4 text-sm text-white/60">No resources of this type</div>
+      ) : (
+        <div className="space-y-2">
+          {items.map((resource, index) => (
+            <div key={`${resource.url}-${index}`} className="bg-white/5 rounded p-3 text-xs">
+              <div className="flex items-start justify-between gap-3">
+                <a
+                  href={resource.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="break-all text-sm hover:underline"
+                >
+                  {resource.url}
+                </a>
+                <span className="shrink-0 font-mono text-white/60">
+                  {formatBytes(resource.transferBytes)}
+                  {resource.resourceBytes !== resource.transferBytes && ` / ${formatBytes(resource.resourceBytes)}`}
+                </span>
+              </div>
+
+              <div className="flex flex-wrap gap-1 mt-2">
+                <span className="px-2 py-0.5 rounded bg-white/10" style={{ color: TYPE_COLORS[resource.type] }}>
+                  {TYPE_LABELS[resource.type]}
+                </span>
+                {resource.thirdParty && (
+                  <span className="px-2 py-0.5 rounded bg-white/10 text-white/60">Third party</span>
+                )}
+                <span className="px-2 py-0.5 rounded bg-white/10 text-white/60">
+                  {resource.contentEncoding ? `Compressed (${resource.contentEncoding})` : 'Uncompressed'}
+                </span>
+                <span className="px-2 py-0.5 rounded bg-white/10 text-white/60" title={resource.cacheControl}>
+                  {formatCacheTtl(resource.cacheTtl)}
+                </span>
+                {resource.renderBlocking && (
+                  <span className="px-2 py-0.5 rounded bg-white/10 text-yellow-400">Render-blocking</span>
+                )}
+                {flagged.uncompressed.has(resource) && (
+                  <span className="px-2 py-0.5 rounded bg-white/10 text-yellow-400">Should be compressed</span>
+                )}
+                {flagged.oversized.has(resource) && (
+                  <span className="px-2 py-0.5 rounded bg-white/10 text-red-400">Oversized</span>
+                )}
+                {resource.image && (
+                  <span className="px-2 py-0.5 rounded bg-white/10 text-white/60">
+                    {resource.image.naturalWidth}×{resource.image.naturalHeight}
+                    {resource.image.displayWidth > 0
+                      ? ` shown at ${resource.image.displayWidth}×${resource.image.displayHeight}`
+                      : ' (hidden)'}
+                  </span>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ResourceInventoryPanel;
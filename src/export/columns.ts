@@ -0,0 +1,61 @@
+/**
+ * Export columns
+ * Every column a tabular export can include. The defaults match the
+ * columns the batch CSV export has always had
+ */
+import { ExportColumn } from './types';
+
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { id: 'url', label: 'URL', value: result => result.url },
+  { id: 'score', label: 'Score', value: result => result.score || 0 },
+  { id: 'status', label: 'Status', value: result => result.status },
+  { id: 'title', label: 'Title', value: result => result.pageData?.title?.text || '' },
+  { id: 'titleLength', label: 'Title Length', value: result => result.pageData?.title?.length || 0 },
+  { id: 'metaDescription', label: 'Meta Description', value: result => result.pageData?.metaDescription?.text || '' },
+  { id: 'metaDescriptionLength', label: 'Meta Description Length', value: result => result.pageData?.metaDescription?.length || 0 },
+  { id: 'h1Count', label: 'H1 Count', value: result => result.pageData?.headings?.h1Count || 0 },
+  { id: 'h2Count', label: 'H2 Count', value: result => result.pageData?.headings?.h2Count || 0 },
+  { id: 'issues', label: 'Issues', value: result => result.totalIssuesCount || 0 },
+  { id: 'criticalIssues', label: 'Critical Issues', value: result => result.criticalIssuesCount || 0 },
+  { id: 'metadataScore', label: 'Metadata Score', value: result => result.categories.metadata.score },
+  { id: 'contentScore', label: 'Content Score', value: result => result.categories.content.score },
+  { id: 'technicalScore', label: 'Technical Score', value: result => result.categories.technical.score },
+  { id: 'userExperienceScore', label: 'User Experience Score', value: result => result.categories.userExperience.score },
+  { id: 'wordCount', label: 'Word Count', value: result => result.pageData?.content?.wordCount || 0 },
+  { id: 'internalLinks', label: 'Internal Links', value: result => result.pageData?.links?.internalCount || 0 },
+  { id: 'externalLinks', label: 'External Links', value: result => result.pageData?.links?.externalCount || 0 },
+  {
+    id: 'imagesWithAlt',
+    label: 'Images With Alt',
+    value: result => (result.pageData?.images?.total || 0) - (result.pageData?.images?.withoutAlt || 0)
+  },
+  { id: 'imagesWithoutAlt', label: 'Images Without Alt', value: result => result.pageData?.images?.withoutAlt || 0 },
+  { id: 'canonicalUrl', label: 'Canonical URL', value: result => result.pageData?.technical?.canonicalUrl || '' },
+  { id: 'hasMobileViewport', label: 'Mobile Viewport', value: result => !!result.pageData?.technical?.hasMobileViewport },
+  { id: 'analyzedAt', label: 'Analyzed At', value: result => result.analyzedAt || '' },
+  { id: 'error', label: 'Error', value: result => result.error?.message || '' }
+];
+
+export const DEFAULT_EXPORT_COLUMN_IDS = [
+  'url',
+  'score',
+  'titleLength',
+  'metaDescriptionLength',
+  'h1Count',
+  'issues',
+  'internalLinks',
+  'externalLinks',
+  'imagesWithAlt',
+  'imagesWithoutAlt'
+];
+
+/**
+ * Look up columns by id, keeping the requested order and skipping unknown ids
+ * @param ids Column ids; the defaults when omitted or empty
+ */
+export function resolveColumns(ids?: string[]): ExportColumn[] {
+  const selected = ids && ids.length > 0 ? ids : DEFAULT_EXPORT_COLUMN_IDS;
+  return selected
+    .map(id => EXPORT_COLUMNS.find(column => column.id === id))
+    .filter(Boolean);
+}
@@ -0,0 +1,20 @@
+/**
+ * Browser file download
+ */
+
+/**
+ * Save content as a file through a temporary link
+ * @param content File contents
+ * @param fileName Suggested file name
+ * @param mimeType Content type of the file
+ */
+export function downloadFile(content: string | Uint8Array, fileName: string, mimeType: string): void {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', fileName);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { toCsvField } from './csv';
+
+describe('toCsvField', () => {
+  it('quotes fields with commas, quotes and line breaks', () => {
+    expect(toCsvField('plain')).toBe('plain');
+    expect(toCsvField('a, b')).toBe('"a, b"');
+    expect(toCsvField('say "hi"')).toBe('"say ""hi"""');
+    expect(toCsvField('two\nlines')).toBe('"two\nlines"');
+    expect(toCsvField(null)).toBe('');
+  });
+
+  it('keeps text from being read as a formula', () => {
+    expect(toCsvField('=HYPERLINK("http://evil.example")')).toBe('"\'=HYPERLINK(""http://evil.example"")"');
+    expect(toCsvField('+1 day')).toBe("'+1 day");
+    expect(toCsvField('-sale-')).toBe("'-sale-");
+    expect(toCsvField('@mention')).toBe("'@mention");
+  });
+
+  it('leaves numbers alone', () => {
+    expect(toCsvField(-5)).toBe('-5');
+    expect(toCsvField(0.25)).toBe('0.25');
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * CSV export (RFC 4180)
+ * Fields containing commas, quotes or line breaks are quoted, quotes are
+ * doubled and records end with CRLF. Text that a spreadsheet would run as a
+ * formula (a page title starting with =, say) is prefixed with a quote
+ */
+import { ExportCellValue, ExportFormat } from '../types';
+
+// Leading characters that make spreadsheets read a cell as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Quote a field if it needs it
+ */
+export function toCsvField(value: ExportCellValue): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  const safe = typeof value === 'string' && FORMULA_PREFIX.test(text) ? `'${text}` : text;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export const csvFormat: ExportFormat = {
+  id: 'csv',
+  label: 'CSV',
+  extension: 'csv',
+  mimeType: 'text/csv;charset=utf-8;',
+  supportsColumns: true,
+  render: ({ results, columns }) => {
+    const rows = [
+      columns.map(column => toCsvField(column.label)),
+      ...results.map(result => columns.map(column => toCsvField(column.value(result))))
+    ];
+    return rows.map(row => row.join(',')).join('\r\n') + '\r\n';
+  }
+};
@@ -0,0 +1,21 @@
+/**
+ * JSON export
+ * The full canonical results, so the file can be re-imported or diffed later
+ */
+import { AUDIT_RESULT_VERSION } from '../../api/normalizer';
+import { ExportFormat } from '../types';
+
+export const jsonFormat: ExportFormat = {
+  id: 'json',
+  label: 'JSON',
+  extension: 'json',
+  mimeType: 'application/json;charset=utf-8;',
+  supportsColumns: false,
+  render: ({ results, generatedAt, timestamp }) => JSON.stringify({
+    version: AUDIT_RESULT_VERSION,
+    exportedAt: generatedAt.toISOString(),
+    timestamp,
+    totalUrls: results.length,
+    results
+  }, null, 2)
+};
@@ -0,0 +1,100 @@
+/**
+ * JUnit XML export
+ * One test suite per URL and one test case per issue, so CI can fail a
+ * build on SEO regressions. Critical and warning issues are failures; info
+ * issues are reported as skipped. A category without failures gets a
+ * passing case, and a page that couldn't be audited is an error
+ */
+import { AuditCategoryName } from '../../api/types';
+import { ExportFormat } from '../types';
+import { stripInvalidXmlChars } from '../xml';
+
+const FAILING_SEVERITIES = ['critical', 'warning'];
+
+function escapeXml(value: unknown): string {
+  return stripInvalidXmlChars(String(value ?? ''))
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+export const junitFormat: ExportFormat = {
+  id: 'junit',
+  label: 'JUnit XML',
+  extension: 'xml',
+  mimeType: 'application/xml;charset=utf-8;',
+  supportsColumns: false,
+  render: ({ results, generatedAt }) => {
+    let totalTests = 0;
+    let totalFailures = 0;
+    let totalErrors = 0;
+
+    const suites = results.map(result => {
+      const cases: string[] = [];
+      let failures = 0;
+      let errors = 0;
+      let skipped = 0;
+
+      if (result.status === 'error') {
+        errors++;
+        cases.push(
+          `    <testcase name="audit" classname="${escapeXml(result.url)}">\n` +
+          `      <error type="${escapeXml(result.error?.type || 'analysis_error')}" message="${escapeXml(result.error?.message || 'Audit failed')}"/>\n` +
+          '    </testcase>'
+        );
+      } else {
+        (Object.keys(result.categories) as AuditCategoryName[]).forEach(name => {
+          const category = result.categories[name];
+          const classname = escapeXml(`${result.url}.${name}`);
+          let categoryFailed = false;
+
+          category.issues.forEach(issue => {
+            const detail = issue.current !== undefined ? ` (current: ${issue.current})` : '';
+
+            if (FAILING_SEVERITIES.includes(issue.severity)) {
+              failures++;
+              categoryFailed = true;
+              cases.push(
+                `    <testcase name="${escapeXml(issue.type)}" classname="${classname}">\n` +
+                `      <failure type="${escapeXml(issue.severity)}" message="${escapeXml(issue.recommendation + detail)}"/>\n` +
+                '    </testcase>'
+              );
+            } else {
+              skipped++;
+              cases.push(
+                `    <testcase name="${escapeXml(issue.type)}" classname="${classname}">\n` +
+                `      <skipped message="${escapeXml(issue.recommendation + detail)}"/>\n` +
+                '    </testcase>'
+              );
+            }
+          });
+
+          if (!categoryFailed) {
+            cases.push(`    <testcase name="${escapeXml(name)}" classname="${classname}"/>`);
+          }
+        });
+      }
+
+      totalTests += cases.length;
+      totalFailures += failures;
+      totalErrors += errors;
+
+      return (
+        `  <testsuite name="${escapeXml(result.url)}" tests="${cases.length}" failures="${failures}" errors="${errors}" skipped="${skipped}" timestamp="${escapeXml(result.analyzedAt || generatedAt.toISOString())}">\n` +
+        `    <properties>\n      <property name="score" value="${result.score}"/>\n    </properties>\n` +
+        `${cases.join('\n')}\n` +
+        '  </testsuite>'
+      );
+    });
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<testsuites name="SEO Audit" tests="${totalTests}" failures="${totalFailures}" errors="${totalErrors}">`,
+      ...suites,
+      '</testsuites>',
+      ''
+    ].join('\n');
+  }
+};
@@ -0,0 +1,76 @@
+/**
+ * Markdown export
+ * A summary table of the selected columns followed by the most common
+ * issues, ready to paste into a ticket or README
+ */
+import { SEVERITY_ORDER } from '../../analysis/rules';
+import { ExportCellValue, ExportFormat } from '../types';
+
+// Issues listed in the summary
+const MAX_ISSUES = 20;
+
+function toMarkdownCell(value: ExportCellValue): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+export const markdownFormat: ExportFormat = {
+  id: 'markdown',
+  label: 'Markdown',
+  extension: 'md',
+  mimeType: 'text/markdown;charset=utf-8;',
+  supportsColumns: true,
+  render: ({ results, columns, generatedAt, timestamp }) => {
+    const scored = results.filter(result => result.status !== 'error');
+    const averageScore = scored.length > 0
+      ? Math.round(scored.reduce((sum, result) => sum + result.score, 0) / scored.length)
+      : null;
+
+    // Issue types with the number of pages they affect
+    const issues = new Map<string, { severity: string; recommendation: string; pages: number }>();
+    results.forEach(result => {
+      Object.values(result.categories).forEach(category => {
+        category.issues.forEach(issue => {
+          const entry = issues.get(issue.type) || { severity: issue.severity, recommendation: issue.recommendation, pages: 0 };
+          entry.pages++;
+          issues.set(issue.type, entry);
+        });
+      });
+    });
+
+    const topIssues = Array.from(issues.entries())
+      .sort(([, a], [, b]) => (SEVERITY_ORDER[a.severity] ?? 3) - (SEVERITY_ORDER[b.severity] ?? 3) || b.pages - a.pages)
+      .slice(0, MAX_ISSUES);
+
+    const lines = [
+      '# SEO Batch Audit',
+      '',
+      `- **URLs analyzed:** ${results.length}`,
+      `- **Average score:** ${averageScore ?? 'n/a'}`,
+      `- **Failed:** ${results.length - scored.length}`,
+      `- **Audited:** ${new Date(timestamp || generatedAt).toLocaleString()}`,
+      '',
+      '## Results',
+      '',
+      `| ${columns.map(column => toMarkdownCell(column.label)).join(' | ')} |`,
+      `| ${columns.map(() => '---').join(' | ')} |`,
+      ...results.map(result => `| ${columns.map(column => toMarkdownCell(column.value(result))).join(' | ')} |`),
+      ''
+    ];
+
+    if (topIssues.length > 0) {
+      lines.push(
+        '## Top Issues',
+        '',
+        '| Issue | Severity | Pages | Recommendation |',
+        '| --- | --- | --- | --- |',
+        ...topIssues.map(([type, issue]) =>
+          `| ${toMarkdownCell(type.replace(/_/g, ' '))} | ${issue.severity} | ${issue.pages} | ${toMarkdownCell(issue.recommendation)} |`
+        ),
+        ''
+      );
+    }
+
+    return lines.join('\n');
+  }
+};
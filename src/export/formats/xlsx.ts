@@ -0,0 +1,169 @@
+/**
+ * XLSX export
+ * A workbook with a summary sheet of the selected columns and one sheet per
+ * audit category listing every issue found on every page. Written as plain
+ * SpreadsheetML with inline strings, zipped with the built-in ZIP writer
+ */
+import { AuditCategoryName } from '../../api/types';
+import { ExportCellValue, ExportFormat } from '../types';
+import { createZip } from '../zip';
+import { stripInvalidXmlChars } from '../xml';
+
+interface Sheet {
+  name: string;
+  rows: ExportCellValue[][];
+}
+
+const CATEGORY_SHEETS: Record<AuditCategoryName, string> = {
+  metadata: 'Metadata',
+  content: 'Content',
+  technical: 'Technical',
+  userExperience: 'User Experience'
+};
+
+const ISSUE_HEADERS = ['URL', 'Category Score', 'Issue', 'Severity', 'Impact', 'Current', 'Recommendation'];
+
+function escapeXml(value: string): string {
+  return stripInvalidXmlChars(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Spreadsheet column name for a zero-based index (0 → A, 26 → AA)
+ */
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function renderCell(value: ExportCellValue, ref: string, header: boolean): string {
+  // Style 1 is the bold header style from styles.xml
+  const style = header ? ' s="1"' : '';
+
+  if (value === null || value === undefined || value === '') {
+    return '';
+  }
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return `<c r="${ref}"${style}><v>${value}</v></c>`;
+  }
+  if (typeof value === 'boolean') {
+    return `<c r="${ref}"${style} t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+  return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+}
+
+function renderSheet(sheet: Sheet): string {
+  const rows = sheet.rows.map((row, rowIndex) => {
+    const cells = row.map((value, columnIndex) => renderCell(value, `${columnName(columnIndex)}${rowIndex + 1}`, rowIndex === 0));
+    return `<row r="${rowIndex + 1}">${cells.join('')}</row>`;
+  });
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    // Keep the header row visible while scrolling
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+    `<sheetData>${rows.join('')}</sheetData>` +
+    '</worksheet>';
+}
+
+/**
+ * Package sheets as an XLSX file
+ */
+export function createWorkbook(sheets: Sheet[]): Uint8Array {
+  const sheetEntries = sheets.map((sheet, index) => ({
+    name: `xl/worksheets/sheet${index + 1}.xml`,
+    data: renderSheet(sheet)
+  }));
+
+  const contentTypes = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+    sheets.map((_, index) =>
+      `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+    ).join('') +
+    '</Types>';
+
+  const rootRels = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+    '</Relationships>';
+
+  const workbook = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    '<sheets>' +
+    // Sheet names are limited to 31 characters
+    sheets.map((sheet, index) => `<sheet name="${escapeXml(sheet.name.slice(0, 31))}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`).join('') +
+    '</sheets></workbook>';
+
+  const workbookRels = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    sheets.map((_, index) =>
+      `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`
+    ).join('') +
+    `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+    '</Relationships>';
+
+  const styles = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+    '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+    '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+    '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+    '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+    '</styleSheet>';
+
+  return createZip([
+    { name: '[Content_Types].xml', data: contentTypes },
+    { name: '_rels/.rels', data: rootRels },
+    { name: 'xl/workbook.xml', data: workbook },
+    { name: 'xl/_rels/workbook.xml.rels', data: workbookRels },
+    { name: 'xl/styles.xml', data: styles },
+    ...sheetEntries
+  ]);
+}
+
+export const xlsxFormat: ExportFormat = {
+  id: 'xlsx',
+  label: 'Excel (XLSX)',
+  extension: 'xlsx',
+  mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  supportsColumns: true,
+  render: ({ results, columns }) => {
+    const summary: Sheet = {
+      name: 'Summary',
+      rows: [
+        columns.map(column => column.label),
+        ...results.map(result => columns.map(column => column.value(result)))
+      ]
+    };
+
+    const categorySheets = (Object.keys(CATEGORY_SHEETS) as AuditCategoryName[]).map(name => ({
+      name: CATEGORY_SHEETS[name],
+      rows: [
+        ISSUE_HEADERS,
+        ...results
+          .filter(result => result.status !== 'error')
+          .flatMap(result => result.categories[name].issues.map(issue => [
+            result.url,
+            result.categories[name].score,
+            issue.type,
+            issue.severity,
+            issue.impact,
+            issue.current ?? null,
+            issue.recommendation
+          ]))
+      ]
+    }));
+
+    return createWorkbook([summary, ...categorySheets]);
+  }
+};
@@ -0,0 +1,97 @@
+/**
+ * Batch export
+ * Formats are registered in a registry so new ones can be added without
+ * touching the UI; each renders the selected results into one file
+ */
+import { AuditResult } from '../api/types';
+import { resolveColumns } from './columns';
+import { downloadFile } from './download';
+import { csvFormat } from './formats/csv';
+import { jsonFormat } from './formats/json';
+import { junitFormat } from './formats/junit';
+import { markdownFormat } from './formats/markdown';
+import { xlsxFormat } from './formats/xlsx';
+import { ExportFormat } from './types';
+
+export { DEFAULT_EXPORT_COLUMN_IDS, EXPORT_COLUMNS, resolveColumns } from './columns';
+export { downloadFile } from './download';
+export type { ExportCellValue, ExportColumn, ExportContext, ExportFormat } from './types';
+
+export const defaultExportFormats: ExportFormat[] = [csvFormat, jsonFormat, xlsxFormat, markdownFormat, junitFormat];
+
+export interface ExportOptions {
+  // Column ids for tabular formats; the defaults when omitted
+  columns?: string[];
+  // When the batch ran
+  timestamp?: string;
+  // File name without extension
+  baseName?: string;
+}
+
+export interface ExportFile {
+  fileName: string;
+  mimeType: string;
+  content: string | Uint8Array;
+}
+
+/**
+ * Create an export format registry
+ * @param formats Formats to register initially
+ */
+export function createExportRegistry(formats: ExportFormat[] = defaultExportFormats) {
+  const registered = new Map<string, ExportFormat>();
+
+  const registry = {
+    /**
+     * Register a format, replacing any existing format with the same id
+     */
+    register: (format: ExportFormat): void => {
+      registered.set(format.id, format);
+    },
+
+    get: (id: string): ExportFormat | undefined => registered.get(id),
+
+    list: (): ExportFormat[] => Array.from(registered.values()),
+
+    /**
+     * Render results in a format
+     * @throws Error when the format isn't registered
+     */
+    render: (formatId: string, results: AuditResult[], options: ExportOptions = {}): ExportFile => {
+      const format = registered.get(formatId);
+      if (!format) {
+        throw new Error(`Unknown export format: ${formatId}`);
+      }
+
+      const generatedAt = new Date();
+      const content = format.render({
+        results,
+        columns: resolveColumns(options.columns),
+        generatedAt,
+        timestamp: options.timestamp
+      });
+      const baseName = options.baseName || `seo-batch-audit-${generatedAt.toISOString().slice(0, 10)}`;
+
+      return { fileName: `${baseName}.${format.extension}`, mimeType: format.mimeType, content };
+    },
+
+    /**
+     * Render results and download the file
+     */
+    download: (formatId: string, results: AuditResult[], options: ExportOptions = {}): void => {
+      const file = registry.render(formatId, results, options);
+      downloadFile(file.content, file.fileName, file.mimeType);
+    }
+  };
+
+  formats.forEach(format => registry.register(format));
+
+  return registry;
+}
+
+export type ExportRegistry = ReturnType<typeof createExportRegistry>;
+
+/**
+ * Shared registry used by the app
+ */
+export const exportRegistry = createExportRegistry();
@@ -0,0 +1,35 @@
+/**
+ * Export types
+ * A format turns a set of audit results into one downloadable file
+ */
+import { AuditResult } from '../api/types';
+
+export type ExportCellValue = string | number | boolean | null;
+
+/**
+ * One selectable column for tabular formats
+ */
+export interface ExportColumn {
+  id: string;
+  label: string;
+  value: (result: AuditResult) => ExportCellValue;
+}
+
+export interface ExportContext {
+  results: AuditResult[];
+  // Selected columns, in order
+  columns: ExportColumn[];
+  generatedAt: Date;
+  // When the batch ran, if known
+  timestamp?: string;
+}
+
+export interface ExportFormat {
+  id: string;
+  label: string;
+  extension: string;
+  mimeType: string;
+  // Whether the format honours column selection
+  supportsColumns: boolean;
+  render: (context: ExportContext) => string | Uint8Array;
+}
@@ -0,0 +1,16 @@
+/**
+ * XML helpers shared by the XML-based export formats
+ */
+
+// XML 1.0 allows no control characters other than tab, line feed and carriage return
+function isXmlChar(char: string): boolean {
+  const code = char.codePointAt(0);
+  return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+}
+
+/**
+ * Drop characters that would make the document invalid XML
+ */
+export function stripInvalidXmlChars(value: string): string {
+  return [...value].filter(isXmlChar).join('');
+}
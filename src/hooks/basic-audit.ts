@@ -1,30 +1,8 @@
 // Extremely simple hook for SEO audit
 import { useState } from 'react';
-
-export interface AuditResult {
-  url: string;
-  score: number;
-  issuesFound: number;
-  opportunities: number;
-  performanceMetrics: {
-    lcp: {
-      value: number;
-      unit: string;
-      score: number;
-    };
-    cls: {
-      value: number;
-      score: number;
-    };
-    fid: {
-      value: number;
-      unit: string;
-      score: number;
-    };
-  };
-  topIssues: any[];
-  pageAnalysis?: any;
-}
+import { normalizeAuditResult } from '../api/normalizer';
+import { AuditResult } from '../api/types';
+import { recordAudit } from '../storage/auditHistory';
 
 export function useBasicAudit() {
   const [isLoading, setIsLoading] = useState(false);
@@ -68,16 +46,7 @@ export function useBasicAudit() {
       const data = await response.json();
       console.log('API response:', data);
       
-      // Fill in page analysis
-      const enhancedData = {
-        ...data,
-        pageAnalysis: {
-          title: `${url.replace('https://', '').replace('http://', '').split('/')[0]} Website`,
-          metaDescription: 'Sample meta description for SEO analysis.',
-          headings: { h1: 1, h2: 3, h3: 5 },
-          wordCount: 500,
-        }
-      };
+      const auditResult = normalizeAuditResult(data, { url: cleanUrl });
       
       // Complete progress
       clearInterval(interval);
@@ -85,7 +54,8 @@ export function useBasicAudit() {
       
       // Update state
       setTimeout(() => {
-        setResult(enhancedData);
+        setResult(auditResult);
+        recordAudit(auditResult);
         setIsLoading(false);
       }, 500);
       
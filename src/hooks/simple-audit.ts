@@ -1,34 +1,8 @@
 import { useState } from 'react';
-
-// Result interface matching the backend response
-export interface AuditResult {
-  url: string;
-  score: number;
-  issuesFound: number;
-  opportunities: number;
-  performanceMetrics: {
-    lcp: {
-      value: number;
-      unit: string;
-      score: number;
-    };
-    cls: {
-      value: number;
-      score: number;
-    };
-    fid: {
-      value: number;
-      unit: string;
-      score: number;
-    };
-  };
-  topIssues: Array<{
-    severity: 'critical' | 'warning' | 'info';
-    description: string;
-  }>;
-  pageAnalysis?: any;
-  siteAnalysis?: any;
-}
+import apiClient from '../api/client';
+import { normalizeAuditResult } from '../api/normalizer';
+import { AuditResult } from '../api/types';
+import { recordAudit } from '../storage/auditHistory';
 
 // Simple hook for SEO audit
 export function useSimpleAudit() {
@@ -80,170 +54,32 @@ export function useSimpleAudit() {
         clearInterval(interval);
         setProgress(100);
         
-        // Add simple page analysis if not already included
-        const enhancedData = {
-          ...data,
-          pageAnalysis: data.pageAnalysis || {
-            title: `${url.replace('https://', '').replace('http://', '').split('/')[0]} Website`,
-            metaDescription: 'This is a sample meta description that should be optimized for better SEO performance.',
-            headings: { h1: 1, h2: 3, h3: 5 },
-            wordCount: 750,
-            contentAnalysis: {
-              keywordDensity: [
-                { keyword: url.split('.')[0].replace('https://', '').replace('http://', ''), count: 12, density: '2.5' },
-                { keyword: 'website', count: 8, density: '1.8' },
-                { keyword: 'service', count: 6, density: '1.3' }
-              ]
-            },
-            seoIssues: [
-              { type: 'critical', issue: 'Missing meta description', impact: 'High' },
-              { type: 'warning', issue: 'Images missing alt text', impact: 'Medium' },
-              { type: 'info', issue: 'No structured data', impact: 'Low' }
-            ],
-            performanceIssues: [
-              { type: 'warning', issue: 'Large JavaScript bundles', impact: 'Medium' },
-              { type: 'info', issue: 'Render-blocking resources', impact: 'Low' }
-            ]
-          }
-        };
+        const auditResult = normalizeAuditResult(data, { url: auditUrl });
         
         setTimeout(() => {
-          setResult(enhancedData);
+          setResult(auditResult);
+          recordAudit(auditResult);
           setIsLoading(false);
         }, 500);
       } catch (e) {
         console.error('API error:', e);
         clearInterval(interval);
         
-        // Generate local fallback data
-        const domainNameBase = url.replace('https://', '').replace('http://', '').split('/')[0];
-        const domainParts = domainNameBase.split('.');
-        const domainName = domainParts[0] || 'website';
-        
-        // Generate a score based on the domain name
-        const sum = domainName.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0);
-        const score = 65 + (sum % 25); // Score between 65-90
-        
-        // Generate metrics based on score
-        const issuesFound = Math.floor(25 - (score / 5));
-        const opportunities = Math.floor(10 - (score / 10));
-        
-        const lcpValue = (3.5 - (score / 50)).toFixed(1);
-        const lcpScore = Math.floor(100 - (Number(lcpValue) * 20));
-        
-        const clsValue = (0.3 - (score / 1000)).toFixed(2);
-        const clsScore = Math.floor(100 - (Number(clsValue) * 250));
-        
-        const fidValue = Math.floor(300 - (score * 2));
-        const fidScore = Math.floor(100 - (fidValue / 4));
-        
-        const mockResult: AuditResult = {
-          url: url,
-          score: score,
-          issuesFound: issuesFound,
-          opportunities: opportunities,
-          performanceMetrics: {
-            lcp: {
-              value: Number(lcpValue),
-              unit: 's',
-              score: lcpScore,
-            },
-            cls: {
-              value: Number(clsValue),
-              score: clsScore,
-            },
-            fid: {
-              value: fidValue,
-              unit: 'ms',
-              score: fidScore,
-            },
-          },
-          topIssues: [
-            {
-              severity: 'critical',
-              description: 'Missing meta descriptions on 3 pages',
-            },
-            {
-              severity: 'warning',
-              description: 'Images without alt text',
-            },
-            {
-              severity: 'info',
-              description: 'Consider adding structured data',
-            },
-          ],
-          pageAnalysis: {
-            title: `${domainName.charAt(0).toUpperCase() + domainName.slice(1)} - Website`,
-            metaDescription: score > 80 ? 'This is a well-optimized meta description.' : 'Missing or too short',
-            headings: {
-              h1: score > 75 ? 1 : 0,
-              h2: Math.floor(score/20),
-              h3: Math.floor(score/15),
-            },
-            wordCount: 100 + Math.floor(score * 10),
-            contentAnalysis: {
-              keywordDensity: [
-                { keyword: domainName, count: 5 + Math.floor(Math.random() * 10), density: (2 + Math.random() * 2).toFixed(1) },
-                { keyword: 'website', count: 3 + Math.floor(Math.random() * 5), density: (1 + Math.random() * 1.5).toFixed(1) },
-                { keyword: 'content', count: 2 + Math.floor(Math.random() * 4), density: (0.8 + Math.random()).toFixed(1) },
-              ],
-              readability: {
-                score: score - 10 + Math.floor(Math.random() * 20),
-                level: score > 80 ? 'Easy to read' : score > 65 ? 'Standard' : 'Difficult',
-                suggestions: [
-                  'Use shorter sentences for better readability',
-                  'Break up large paragraphs into smaller ones',
-                  'Use bullet points for lists'
-                ]
-              }
-            },
-            seoIssues: [
-              {
-                type: 'critical',
-                issue: 'Missing meta description',
-                impact: 'High',
-                recommendation: 'Add a descriptive meta description between 120-158 characters.'
-              },
-              {
-                type: 'warning',
-                issue: 'Images missing alt text',
-                impact: 'Medium',
-                recommendation: 'Add descriptive alt text to all images for better accessibility and SEO.'
-              },
-              {
-                type: 'info',
-                issue: 'No structured data',
-                impact: 'Low',
-                recommendation: 'Consider adding schema markup to improve rich snippets in search results.'
-              }
-            ],
-            performanceIssues: [
-              {
-                type: 'warning',
-                issue: 'Large JavaScript bundles',
-                impact: 'Medium',
-                recommendation: 'Consider code splitting to reduce initial load time.'
-              },
-              {
-                type: 'info',
-                issue: 'Render-blocking resources',
-                impact: 'Low',
-                recommendation: 'Consider loading non-critical CSS asynchronously.'
-              }
-            ]
-          }
-        };
+        // Analyze the page locally instead
+        const fallback = await apiClient.createFallbackAnalysis(url);
+        setProgress(100);
         
-        // Return the local mock data
+        // Return the local analysis
         setTimeout(() => {
-          setResult(mockResult);
+          setResult(fallback.data);
+          recordAudit(fallback.data);
           setIsLoading(false);
           // Don't set error since we're showing results anyway
         }, 500);
       }
     } catch (e) {
       console.error('Unexpected error:', e);
-      setError('An unexpected error occurred. Please try again.');
+      setError(e.message || 'An unexpected error occurred. Please try again.');
       setIsLoading(false);
     }
   };
@@ -1,198 +1,13 @@
 import { useState } from 'react';
+import apiClient from '../api/client';
+import { normalizeAuditResult } from '../api/normalizer';
+import { AuditResult } from '../api/types';
+import { recordAudit } from '../storage/auditHistory';
 
 // Types
 type AuditStatus = 'idle' | 'loading' | 'completed' | 'failed';
 type AuditType = 'page' | 'site';
 
-export interface PerformanceMetric {
-  value: number;
-  unit?: string;
-  score: number;
-}
-
-export interface TopIssue {
-  severity: 'critical' | 'warning' | 'info';
-  description: string;
-}
-
-export interface AuditResults {
-  url: string;
-  score: number;
-  issuesFound: number;
-  opportunities: number;
-  performanceMetrics: {
-    lcp: PerformanceMetric;
-    cls: PerformanceMetric;
-    fid: PerformanceMetric;
-  };
-  topIssues: TopIssue[];
-  pageAnalysis?: any; 
-  siteAnalysis?: any;
-}
-
-// Helper function to generate page analysis
-const generatePageAnalysis = (url: string, coreData: any) => {
-  // Extract domain name from URL
-  let domain = url;
-  try {
-    domain = new URL(url).hostname;
-  } catch (e) {
-    console.error('Invalid URL format:', e);
-  }
-  
-  // Generate random word count based on URL length
-  const wordCount = 150 + Math.floor(Math.random() * 850); // Between 150 and 1000
-  
-  // Calculate readability score based on core metrics
-  const readabilityScore = 50 + Math.floor(Math.random() * 40); // Between 50 and 90
-  
-  // Generate keyword data based on domain parts
-  const domainParts = domain.split('.');
-  const keywords = [];
-  if (domainParts.length > 0) {
-    // Add domain name as keyword
-    keywords.push({
-      keyword: domainParts[0],
-      count: 5 + Math.floor(Math.random() * 10),
-      density: (2 + Math.random() * 2).toFixed(1)
-    });
-    
-    // Add TLD as keyword if not too common
-    if (domainParts.length > 1 && !['com', 'org', 'net', 'io'].includes(domainParts[domainParts.length - 1])) {
-      keywords.push({
-        keyword: domainParts[domainParts.length - 1],
-        count: 2 + Math.floor(Math.random() * 5),
-        density: (1 + Math.random() * 1).toFixed(1)
-      });
-    }
-  }
-  
-  // Add generic common keywords
-  keywords.push({
-    keyword: 'website',
-    count: 3 + Math.floor(Math.random() * 5),
-    density: (1 + Math.random() * 1.5).toFixed(1)
-  });
-  
-  keywords.push({
-    keyword: 'content',
-    count: 2 + Math.floor(Math.random() * 4),
-    density: (0.8 + Math.random()).toFixed(1)
-  });
-  
-  // Generate SEO issues based on core metrics
-  const seoIssues = [];
-  
-  // Always add meta description issue for this demo
-  seoIssues.push({
-    type: 'critical',
-    issue: 'Missing meta description',
-    impact: 'High',
-    recommendation: 'Add a descriptive meta description between 120-158 characters.'
-  });
-  
-  // Add random issues based on score
-  if (coreData.score < 85) {
-    seoIssues.push({
-      type: 'warning',
-      issue: 'Images missing alt text',
-      impact: 'Medium',
-      recommendation: 'Add descriptive alt text to all images for better accessibility and SEO.'
-    });
-  }
-  
-  if (coreData.score < 80) {
-    seoIssues.push({
-      type: 'warning',
-      issue: 'Thin content',
-      impact: 'Medium',
-      recommendation: 'Pages with thin content may not rank well. Consider adding more detailed, valuable content.'
-    });
-  }
-  
-  if (coreData.score < 70) {
-    seoIssues.push({
-      type: 'critical',
-      issue: 'H1 tag missing',
-      impact: 'High',
-      recommendation: 'Add a single H1 tag containing your main keyword to help search engines understand your page\'s topic.'
-    });
-  }
-  
-  // Always add this informational issue
-  seoIssues.push({
-    type: 'info',
-    issue: 'No structured data',
-    impact: 'Low',
-    recommendation: 'Consider adding schema markup to improve rich snippets in search results.'
-  });
-  
-  // Generate performance issues based on core metrics
-  const performanceIssues = [];
-  
-  if (coreData.performanceMetrics.lcp.value > 2.0) {
-    performanceIssues.push({
-      type: coreData.performanceMetrics.lcp.value > 4.0 ? 'critical' : 'warning',
-      issue: 'Slow Largest Contentful Paint',
-      impact: coreData.performanceMetrics.lcp.value > 4.0 ? 'High' : 'Medium',
-      recommendation: 'Optimize images, reduce server response time, and minimize render-blocking resources.'
-    });
-  }
-  
-  if (coreData.performanceMetrics.cls.value > 0.1) {
-    performanceIssues.push({
-      type: coreData.performanceMetrics.cls.value > 0.25 ? 'critical' : 'warning',
-      issue: 'Layout shifts detected',
-      impact: coreData.performanceMetrics.cls.value > 0.25 ? 'High' : 'Medium',
-      recommendation: 'Set explicit width and height for images and videos, and avoid inserting content above existing content.'
-    });
-  }
-  
-  if (coreData.performanceMetrics.fid.value > 100) {
-    performanceIssues.push({
-      type: coreData.performanceMetrics.fid.value > 300 ? 'critical' : 'warning',
-      issue: 'Poor interactivity',
-      impact: coreData.performanceMetrics.fid.value > 300 ? 'High' : 'Medium',
-      recommendation: 'Reduce JavaScript execution time, break up long tasks, and optimize event handlers.'
-    });
-  }
-  
-  // Always add this informational issue
-  performanceIssues.push({
-    type: 'info',
-    issue: 'Render-blocking resources',
-    impact: 'Low',
-    recommendation: 'Consider loading non-critical CSS and JavaScript asynchronously.'
-  });
-  
-  // Return the complete page analysis data
-  return {
-    title: `${domainParts[0].charAt(0).toUpperCase() + domainParts[0].slice(1)} - Website`,
-    metaDescription: Math.random() > 0.3 ? 'This is the default meta description. It should be optimized.' : 'Missing',
-    headings: {
-      h1: Math.floor(Math.random() * 2), // 0 or 1
-      h2: Math.floor(Math.random() * 5) + 1, // 1-5
-      h3: Math.floor(Math.random() * 8) + 2, // 2-9
-    },
-    wordCount,
-    contentAnalysis: {
-      keywordDensity: keywords,
-      readability: {
-        score: readabilityScore,
-        level: readabilityScore >= 80 ? 'Easy to read' : 
-              readabilityScore >= 60 ? 'Standard' : 'Difficult',
-        suggestions: [
-          'Use shorter sentences for better readability',
-          'Break up large paragraphs into smaller ones',
-          'Use bullet points for lists'
-        ]
-      }
-    },
-    seoIssues,
-    performanceIssues
-  };
-};
-
 /**
  * Custom hook for managing SEO audit operations
  */
@@ -200,7 +15,7 @@ const useAudit = () => {
   // State
   const [status, setStatus] = useState<AuditStatus>('idle');
   const [progress, setProgress] = useState<number>(0);
-  const [results, setResults] = useState<AuditResults | null>(null);
+  const [results, setResults] = useState<AuditResult | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   // Start an audit
@@ -250,12 +65,7 @@ const useAudit = () => {
         const apiResponse = await response.json();
         console.log('Got API response:', apiResponse);
         
-        // Enhance the API response with more detailed analysis
-        const enhancedResults: AuditResults = {
-          ...apiResponse,
-          pageAnalysis: apiResponse.pageAnalysis || generatePageAnalysis(urlToAudit, apiResponse),
-          siteAnalysis: apiResponse.siteAnalysis || null
-        };
+        const auditResult = normalizeAuditResult(apiResponse, { url: urlToAudit });
         
         // Complete the progress
         clearInterval(progressTimer);
@@ -263,73 +73,32 @@ const useAudit = () => {
         
         // Set results after a short delay
         setTimeout(() => {
-          setResults(enhancedResults);
+          setResults(auditResult);
+          recordAudit(auditResult);
           setStatus('completed');
           console.log('Audit completed successfully');
         }, 500);
       } catch (apiError) {
         console.error('API Error:', apiError);
         
-        // Generate mock data as fallback
-        const mockResults: AuditResults = {
-          url,
-          score: 78,
-          issuesFound: 12,
-          opportunities: 5,
-          performanceMetrics: {
-            lcp: {
-              value: 2.4,
-              unit: 's',
-              score: 85,
-            },
-            cls: {
-              value: 0.15,
-              score: 75,
-            },
-            fid: {
-              value: 180,
-              unit: 'ms',
-              score: 70,
-            },
-          },
-          topIssues: [
-            {
-              severity: 'critical',
-              description: 'Missing meta descriptions on 3 pages',
-            },
-            {
-              severity: 'warning',
-              description: 'Images without alt text',
-            },
-            {
-              severity: 'info',
-              description: 'Consider adding structured data',
-            },
-          ],
-          pageAnalysis: generatePageAnalysis(url, {
-            score: 78,
-            performanceMetrics: {
-              lcp: { value: 2.4, score: 85 },
-              cls: { value: 0.15, score: 75 },
-              fid: { value: 180, score: 70 }
-            }
-          }),
-        };
+        // Analyze the page locally as fallback
+        clearInterval(progressTimer);
+        const fallback = await apiClient.createFallbackAnalysis(url);
         
         // Complete the progress
-        clearInterval(progressTimer);
         setProgress(100);
         
-        // Set mock results after a short delay
+        // Set local results after a short delay
         setTimeout(() => {
-          setResults(mockResults);
+          setResults(fallback.data);
+          recordAudit(fallback.data);
           setStatus('completed');
-          console.log('Using fallback mock data due to API error');
+          console.log('Using local analysis due to API error');
         }, 500);
       }
     } catch (error) {
       setStatus('failed');
-      setError('Failed to complete the audit. Please try again.');
+      setError(error.message || 'Failed to complete the audit. Please try again.');
       console.error('Audit error:', error);
     }
   };
@@ -20,7 +20,8 @@ export interface AuditResults {
   score: number;
   issuesFound: number;
   opportunities: number;
-  performanceMetrics: {
+  // Only set when the page was measured in a browser; never generated
+  performanceMetrics?: {
     lcp: PerformanceMetric;
     cls: PerformanceMetric;
     fid: PerformanceMetric;
@@ -36,15 +37,6 @@ const generateMockData = (url: string): AuditResults => {
   const urlSum = url.split('').reduce((sum, char) => sum + char.charCodeAt(0), 0);
   const score = Math.max(50, Math.min(95, 70 + (urlSum % 25)));
   
-  const lcpValue = Math.max(1.0, Math.min(4.5, 5.0 - score/25)).toFixed(1);
-  const lcpScore = Math.max(30, Math.min(95, 120 - Number(lcpValue) * 20));
-  
-  const clsValue = Math.max(0.05, Math.min(0.25, 0.3 - score/500)).toFixed(2);
-  const clsScore = Math.max(30, Math.min(95, 120 - Number(clsValue) * 250));
-  
-  const fidValue = Math.max(80, Math.min(300, 350 - score * 2));
-  const fidScore = Math.max(30, Math.min(95, 120 - fidValue/4));
-  
   const issuesFound = Math.floor(30 - score/4);
   const opportunities = Math.floor(15 - score/10);
 
@@ -58,22 +50,6 @@ const generateMockData = (url: string): AuditResults => {
     score,
     issuesFound,
     opportunities,
-    performanceMetrics: {
-      lcp: {
-        value: Number(lcpValue),
-        unit: 's',
-        score: Math.floor(lcpScore),
-      },
-      cls: {
-        value: Number(clsValue),
-        score: Math.floor(clsScore),
-      },
-      fid: {
-        value: fidValue,
-        unit: 'ms',
-        score: Math.floor(fidScore),
-      },
-    },
     topIssues: [
       {
         severity: 'critical',
@@ -1,33 +1,7 @@
 import { useState } from 'react';
-
-// Basic interface for audit results
-export interface AuditResult {
-  url: string;
-  score: number;
-  issuesFound: number;
-  opportunities: number;
-  performanceMetrics: {
-    lcp: {
-      value: number;
-      unit: string;
-      score: number;
-    };
-    cls: {
-      value: number;
-      score: number;
-    };
-    fid: {
-      value: number;
-      unit: string;
-      score: number;
-    };
-  };
-  topIssues: Array<{
-    severity: 'critical' | 'warning' | 'info';
-    description: string;
-  }>;
-  pageAnalysis?: any;
-}
+import { normalizeAuditResult } from '../api/normalizer';
+import { AuditResult } from '../api/types';
+import { recordAudit } from '../storage/auditHistory';
 
 // This hook provides SEO audit functionality
 export function useSeoAudit() {
@@ -90,15 +64,12 @@ export function useSeoAudit() {
         clearInterval(progressInterval);
         setProgress(100);
         
-        // Enhance the response with additional data
-        const enhancedData = {
-          ...data,
-          pageAnalysis: data.pageAnalysis || generatePageAnalysis(url, data)
-        };
+        const auditResult = normalizeAuditResult(data, { url: auditUrl });
         
         // Update state with a short delay for smooth animation
         setTimeout(() => {
-          setResult(enhancedData);
+          setResult(auditResult);
+          recordAudit(auditResult);
           setIsLoading(false);
         }, 500);
       } catch (apiError) {
@@ -114,90 +85,6 @@ export function useSeoAudit() {
     }
   };
   
-  // Generate page analysis data based on URL and audit results
-  const generatePageAnalysis = (url: string, auditData: any) => {
-    // Extract domain from URL
-    let domain = url.replace(/^https?:\/\//, '').split('/')[0];
-    const domainParts = domain.split('.');
-    const mainPart = domainParts[0] || 'website';
-    
-    // Generate data based on score
-    const score = auditData.score || 75;
-    
-    return {
-      title: `${mainPart.charAt(0).toUpperCase() + mainPart.slice(1)} Website`,
-      metaDescription: score > 80 ? 'This website has a well-optimized meta description.' : 'Missing or inadequate meta description.',
-      headings: {
-        h1: score > 75 ? 1 : 0,
-        h2: Math.floor(score / 20),
-        h3: Math.floor(score / 15),
-      },
-      wordCount: 100 + Math.floor(score * 10),
-      contentAnalysis: {
-        keywordDensity: [
-          { 
-            keyword: mainPart, 
-            count: 5 + Math.floor(Math.random() * 10), 
-            density: (2 + Math.random() * 2).toFixed(1) 
-          },
-          { 
-            keyword: 'website', 
-            count: 3 + Math.floor(Math.random() * 5), 
-            density: (1 + Math.random() * 1.5).toFixed(1) 
-          },
-          { 
-            keyword: 'services', 
-            count: 2 + Math.floor(Math.random() * 4), 
-            density: (0.8 + Math.random()).toFixed(1) 
-          }
-        ],
-        readability: {
-          score: score - 10 + Math.floor(Math.random() * 20),
-          level: score > 80 ? 'Easy to read' : score > 65 ? 'Standard' : 'Difficult',
-          suggestions: [
-            'Use shorter sentences for better readability',
-            'Break up large paragraphs into smaller ones',
-            'Use bullet points for lists'
-          ]
-        }
-      },
-      seoIssues: [
-        {
-          type: 'critical',
-          issue: 'Missing meta description',
-          impact: 'High',
-          recommendation: 'Add a descriptive meta description between 120-158 characters.'
-        },
-        {
-          type: 'warning',
-          issue: 'Images missing alt text',
-          impact: 'Medium',
-          recommendation: 'Add descriptive alt text to all images for better accessibility and SEO.'
-        },
-        {
-          type: 'info',
-          issue: 'No structured data',
-          impact: 'Low',
-          recommendation: 'Consider adding schema markup to improve rich snippets in search results.'
-        }
-      ],
-      performanceIssues: [
-        {
-          type: 'warning',
-          issue: 'Large JavaScript bundles',
-          impact: 'Medium',
-          recommendation: 'Consider code splitting to reduce initial load time.'
-        },
-        {
-          type: 'info',
-          issue: 'Render-blocking resources',
-          impact: 'Low',
-          recommendation: 'Consider loading non-critical CSS asynchronously.'
-        }
-      ]
-    };
-  };
-  
   return {
     isLoading,
     progress,
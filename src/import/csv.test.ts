@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { guessUrlColumn, parseCsv } from './csv';
+import { importFile } from './index';
+
+describe('parseCsv', () => {
+  it('reads the first row as the header', () => {
+    const csv = parseCsv('Page,Title\nhttps://example.com/,Home\nhttps://example.com/about,About\n');
+
+    expect(csv.hasHeader).toBe(true);
+    expect(csv.headers).toEqual(['Page', 'Title']);
+    expect(csv.rows).toHaveLength(2);
+    expect(guessUrlColumn(csv)).toBe(0);
+  });
+
+  it('keeps the first row of a CSV without a header', () => {
+    const csv = parseCsv('Home;https://example.com/\nAbout;https://example.com/about\n');
+
+    expect(csv.hasHeader).toBe(false);
+    expect(csv.headers).toEqual(['Column 1', 'Column 2']);
+    expect(csv.rows).toEqual([['Home', 'https://example.com/'], ['About', 'https://example.com/about']]);
+    expect(guessUrlColumn(csv)).toBe(1);
+  });
+
+  it('handles quoted fields with delimiters, quotes and line breaks', () => {
+    const csv = parseCsv('url,note\r\n"https://example.com/?a=1,2","said ""hi""\nthen left"\r\n');
+    expect(csv.rows).toEqual([['https://example.com/?a=1,2', 'said "hi"\nthen left']]);
+  });
+});
+
+describe('importFile', () => {
+  it('imports every URL of a headerless single-column CSV', () => {
+    const imported = importFile('urls.csv', 'https://example.com/\nhttps://example.com/about\n');
+    expect(imported).toMatchObject({ kind: 'urls', urls: ['https://example.com', 'https://example.com/about'] });
+  });
+
+  it('skips the header of a single-column CSV', () => {
+    const imported = importFile('urls.csv', 'URL\nhttps://example.com/\n');
+    expect(imported).toMatchObject({ kind: 'urls', urls: ['https://example.com'] });
+  });
+
+  it('imports URL lists from JSON', () => {
+    const imported = importFile('urls.json', JSON.stringify({ urls: ['https://example.com', { url: 'https://example.com/about' }] }));
+    expect(imported).toMatchObject({ kind: 'urls', source: 'json', urls: ['https://example.com', 'https://example.com/about'] });
+  });
+});
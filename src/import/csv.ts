@@ -0,0 +1,112 @@
+/**
+ * CSV parsing (RFC 4180)
+ * Handles quoted fields with embedded delimiters, quotes and line breaks.
+ * Spreadsheet exports often use semicolons or tabs, so the delimiter is
+ * detected from the first line. The first row is the header unless it
+ * already holds a URL
+ */
+
+export interface ParsedCsv {
+  headers: string[];
+  rows: string[][];
+  delimiter: string;
+  // False when the first row was data; headers are then Column 1, Column 2...
+  hasHeader: boolean;
+}
+
+const DELIMITERS = [',', ';', '\t'];
+
+// Header names that usually hold the URL
+const URL_HEADER_PATTERN = /^(url|urls|link|address|page|loc|location|website|site|domain)$/i;
+
+const looksLikeUrl = (value: string) => /^(https?:\/\/|www\.)|^[\w-]+(\.[\w-]+)+(\/|$)/i.test(value.trim());
+
+/**
+ * Guess the delimiter by counting candidates outside quotes on the first line
+ */
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, '');
+  return DELIMITERS
+    .map(delimiter => ({ delimiter, count: firstLine.split(delimiter).length - 1 }))
+    .sort((a, b) => b.count - a.count)[0].delimiter;
+}
+
+/**
+ * Parse CSV text into a header row and data rows
+ * @param text CSV content
+ * @param delimiter Field delimiter; detected when omitted
+ */
+export function parseCsv(text: string, delimiter = detectDelimiter(text)): ParsedCsv {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Strip a UTF-8 byte order mark left by spreadsheet exports
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // Skip blank lines
+  const nonEmpty = records.filter(row => row.some(value => value.trim() !== ''));
+  const [first = [], ...rest] = nonEmpty;
+
+  if (first.some(looksLikeUrl)) {
+    return { headers: first.map((_, index) => `Column ${index + 1}`), rows: nonEmpty, delimiter, hasHeader: false };
+  }
+  return { headers: first.map(header => header.trim()), rows: rest, delimiter, hasHeader: true };
+}
+
+/**
+ * Index of the column most likely to hold URLs: a header named like one,
+ * otherwise the column with the most URL-looking values
+ */
+export function guessUrlColumn(csv: ParsedCsv): number {
+  const byHeader = csv.hasHeader ? csv.headers.findIndex(header => URL_HEADER_PATTERN.test(header)) : -1;
+  if (byHeader !== -1) return byHeader;
+
+  const scores = csv.headers.map((_, index) => csv.rows.filter(row => looksLikeUrl(row[index] || '')).length);
+  const best = scores.indexOf(Math.max(...scores, 0));
+
+  return best === -1 ? 0 : best;
+}
+
+/**
+ * Values of one column, skipping empty cells
+ */
+export function getCsvColumn(csv: ParsedCsv, index: number): string[] {
+  return csv.rows
+    .map(row => (row[index] || '').trim())
+    .filter(value => value.length > 0);
+}
@@ -0,0 +1,175 @@
+/**
+ * Batch import
+ * Turns an uploaded file into either a list of URLs to audit or a set of
+ * finished results to reopen. Supports plain text, CSV, JSON (URL lists and
+ * exported audits) and sitemap / sitemap index XML
+ */
+import { AuditResult, BatchSeoAnalysisResponse } from '../api/types';
+import { isAuditResult, normalizeBatchResults } from '../api/normalizer';
+import { dedupeUrls, DedupedUrls } from '../api/url';
+import { getCsvColumn, guessUrlColumn, parseCsv, ParsedCsv } from './csv';
+import { isSitemapXml, parseSitemap, XmlParser } from './sitemap';
+
+export { getCsvColumn, guessUrlColumn, parseCsv } from './csv';
+export type { ParsedCsv } from './csv';
+export { isSitemapXml, loadSitemapIndex, parseSitemap } from './sitemap';
+export type { ParsedSitemap, SitemapIndexResult, XmlParser } from './sitemap';
+
+export type ImportSource = 'text' | 'csv' | 'json' | 'sitemap' | 'sitemap-index' | 'audit-json';
+
+export type ImportResult =
+  // URLs ready to audit
+  | ({ kind: 'urls'; source: ImportSource } & DedupedUrls)
+  // A CSV whose URL column the user should confirm
+  | { kind: 'csv'; source: 'csv'; csv: ParsedCsv; suggestedColumn: number }
+  // A sitemap index; its child sitemaps still need to be loaded
+  | { kind: 'sitemap-index'; source: 'sitemap-index'; sitemaps: string[] }
+  // Finished audits that can be shown without re-running them
+  | { kind: 'audit'; source: 'audit-json'; batch: BatchSeoAnalysisResponse };
+
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
+
+// Top-level fields of the JSON files that can be imported: URL lists, the
+// JSON export and saved batch responses
+interface ImportedJsonFile {
+  urls?: unknown;
+  results?: unknown;
+  timestamp?: string;
+  exportedAt?: string;
+}
+
+// An entry of an imported URL list given as an object
+interface ImportedUrlRow {
+  url?: unknown;
+}
+
+/**
+ * The array in a JSON value: the value itself, or the array under key
+ */
+function jsonList(value: unknown, key: 'urls' | 'results'): unknown[] | null {
+  if (Array.isArray(value)) return value;
+  const list = (value as ImportedJsonFile)?.[key];
+  return Array.isArray(list) ? list : null;
+}
+
+function urlFromRow(item: unknown): string | null {
+  if (typeof item === 'string') return item;
+  const { url } = (item || {}) as ImportedUrlRow;
+  return typeof url === 'string' ? url : null;
+}
+
+/**
+ * Pull URLs out of a JSON value: an array of strings, an array of objects
+ * with a url field, or an object with a urls array
+ */
+function urlsFromJson(value: unknown): string[] | null {
+  const list = jsonList(value, 'urls');
+  if (!list) return null;
+
+  const urls = list.map(urlFromRow);
+  return urls.every(url => url !== null) ? urls : null;
+}
+
+/**
+ * Results from an exported audit JSON file (the JSON export format, a saved
+ * batch response, or a bare array of results)
+ */
+function auditResultsFromJson(value: unknown): AuditResult[] | null {
+  const list = jsonList(value, 'results');
+  if (!list || list.length === 0) return null;
+
+  // Results have scores and categories; URL lists don't
+  const looksLikeResults = list.every(item => item && typeof item === 'object' && ('score' in item || isAuditResult(item)));
+  return looksLikeResults ? normalizeBatchResults(list) : null;
+}
+
+function importJson(text: string): ImportResult {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    throw new ImportError(`The file is not valid JSON: ${(error as Error).message}`);
+  }
+
+  const results = auditResultsFromJson(value);
+  if (results) {
+    const exported = (Array.isArray(value) ? {} : value) as ImportedJsonFile;
+    return {
+      kind: 'audit',
+      source: 'audit-json',
+      batch: {
+        status: 'ok',
+        message: 'Imported from file',
+        totalUrls: results.length,
+        timestamp: exported.timestamp || exported.exportedAt || new Date().toISOString(),
+        cached: true,
+        cachedAt: exported.exportedAt || exported.timestamp,
+        results
+      }
+    };
+  }
+
+  const urls = urlsFromJson(value);
+  if (urls) {
+    return { kind: 'urls', source: 'json', ...dedupeUrls(urls) };
+  }
+
+  throw new ImportError('The JSON file has no URLs or audit results. Expected an array of URLs, objects with a "url" field, or an exported audit');
+}
+
+/**
+ * Detect a file's format and import it
+ * @param fileName Used as a hint for the format
+ * @param text File content
+ * @param options XML parser for non-browser environments
+ * @throws ImportError when the content can't be used
+ */
+export function importFile(fileName: string, text: string, options: { xmlParser?: XmlParser } = {}): ImportResult {
+  const trimmed = text.trim();
+  const extension = fileName.split('.').pop()?.toLowerCase();
+
+  if (!trimmed) {
+    throw new ImportError('The file is empty');
+  }
+
+  if (extension === 'json' || /^[[{]/.test(trimmed)) {
+    return importJson(trimmed);
+  }
+
+  if (extension === 'xml' || isSitemapXml(trimmed)) {
+    let sitemap;
+    try {
+      sitemap = parseSitemap(trimmed, options.xmlParser);
+    } catch (error) {
+      throw new ImportError((error as Error).message);
+    }
+    return sitemap.kind === 'index'
+      ? { kind: 'sitemap-index', source: 'sitemap-index', sitemaps: sitemap.sitemaps }
+      : { kind: 'urls', source: 'sitemap', ...dedupeUrls(sitemap.urls) };
+  }
+
+  if (extension === 'csv' || extension === 'tsv') {
+    const csv = parseCsv(trimmed);
+
+    // A single column is just a list
+    if (csv.headers.length <= 1) {
+      return { kind: 'urls', source: 'csv', ...dedupeUrls(getCsvColumn(csv, 0)) };
+    }
+
+    return { kind: 'csv', source: 'csv', csv, suggestedColumn: guessUrlColumn(csv) };
+  }
+
+  return { kind: 'urls', source: 'text', ...dedupeUrls(trimmed.split(/\r?\n/)) };
+}
+
+/**
+ * URLs from the chosen column of an imported CSV
+ */
+export function importCsvColumn(csv: ParsedCsv, column: number): DedupedUrls {
+  return dedupeUrls(getCsvColumn(csv, column));
+}
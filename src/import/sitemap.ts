@@ -0,0 +1,111 @@
+/**
+ * Sitemap parsing
+ * Reads <urlset> sitemaps and <sitemapindex> files. For an index, the child
+ * sitemaps can be fetched and merged with loadSitemapIndex
+ */
+
+export type XmlParser = (xml: string) => Document;
+
+export interface ParsedSitemap {
+  kind: 'urlset' | 'index';
+  // Page URLs (urlset)
+  urls: string[];
+  // Child sitemap URLs (index)
+  sitemaps: string[];
+}
+
+export interface SitemapIndexResult {
+  urls: string[];
+  // Child sitemaps that could not be loaded, with the reason
+  failed: Array<{ url: string; error: string }>;
+}
+
+// Child sitemaps fetched from one index
+const MAX_CHILD_SITEMAPS = 50;
+
+function defaultXmlParser(xml: string): Document {
+  if (typeof DOMParser === 'undefined') {
+    throw new Error('DOMParser is not available in this environment; pass a parser');
+  }
+  return new DOMParser().parseFromString(xml, 'application/xml');
+}
+
+/**
+ * Quick check whether text looks like a sitemap or sitemap index
+ */
+export function isSitemapXml(text: string): boolean {
+  return /<(urlset|sitemapindex)[\s>]/i.test(text);
+}
+
+/**
+ * Parse sitemap XML
+ * @param xml Sitemap or sitemap index content
+ * @param parser XML parser; the browser's DOMParser by default
+ * @throws Error when the XML is malformed or not a sitemap
+ */
+export function parseSitemap(xml: string, parser: XmlParser = defaultXmlParser): ParsedSitemap {
+  const doc = parser(xml);
+
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The sitemap is not valid XML');
+  }
+
+  // Namespaced sitemaps use the default namespace, so match on local names
+  const locs = (parent: string) =>
+    Array.from(doc.getElementsByTagName(parent))
+      .map(element => element.getElementsByTagName('loc')[0]?.textContent?.trim() || '')
+      .filter(loc => loc.length > 0);
+
+  const root = doc.documentElement?.localName || doc.documentElement?.nodeName;
+
+  if (root === 'sitemapindex') {
+    return { kind: 'index', urls: [], sitemaps: locs('sitemap') };
+  }
+  if (root === 'urlset') {
+    return { kind: 'urlset', urls: locs('url'), sitemaps: [] };
+  }
+
+  throw new Error('The file is XML but not a sitemap (expected <urlset> or <sitemapindex>)');
+}
+
+/**
+ * Fetch the child sitemaps of an index and collect their URLs
+ * Nested indexes are followed once more; failures are reported, not thrown,
+ * since sitemaps on other hosts are often blocked by CORS in the browser
+ * @param sitemaps Child sitemap URLs
+ * @param options Parser and cancellation
+ */
+export async function loadSitemapIndex(
+  sitemaps: string[],
+  options: { parser?: XmlParser; signal?: AbortSignal; depth?: number } = {}
+): Promise<SitemapIndexResult> {
+  const { parser, signal, depth = 1 } = options;
+  const result: SitemapIndexResult = { urls: [], failed: [] };
+
+  for (const url of sitemaps.slice(0, MAX_CHILD_SITEMAPS)) {
+    try {
+      const response = await fetch(url, { headers: { 'Accept': 'application/xml, text/xml' }, signal });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      const sitemap = parseSitemap(await response.text(), parser);
+      if (sitemap.kind === 'index' && depth > 0) {
+        const nested = await loadSitemapIndex(sitemap.sitemaps, { parser, signal, depth: depth - 1 });
+        result.urls.push(...nested.urls);
+        result.failed.push(...nested.failed);
+      } else {
+        result.urls.push(...sitemap.urls);
+      }
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      result.failed.push({ url, error: (error as Error).message });
+    }
+  }
+
+  sitemaps.slice(MAX_CHILD_SITEMAPS).forEach(url => {
+    result.failed.push({ url, error: `Skipped: only the first ${MAX_CHILD_SITEMAPS} sitemaps are loaded` });
+  });
+
+  return result;
+}
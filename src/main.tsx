@@ -1,5 +1,10 @@
 import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
+import { endpointRegistry } from './api/client'
 import './index.css'
 
+// Keep the endpoint registry's view of the backend fresh so audits go
+// straight to a working endpoint
+endpointRegistry.startHealthChecks();
+
 createRoot(document.getElementById("root")!).render(<App />);
@@ -1,9 +1,15 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useNavigate, useParams, useLocation } from 'react-router-dom';
 import { toast } from 'sonner';
-import { performEnhancedAnalysis } from '../services/realEnhancedApiService';
-import * as enhancedApiService from '../services/enhancedApiService';
-import { AnalysisError, getErrorDisplayInfo } from '../utils/errorHandler';
+import apiClient from '../api/client';
+import { AuditApiError, isApiError } from '../api/errors';
+import { AuditResult, JobStatusResponse } from '../api/types';
+import { describeJobProgress } from '../api/jobProgress';
+import { normalizeUrl } from '../api/url';
+import { createRuleRegistry, defaultRules, ruleRegistry, RuleRegistry } from '../analysis/rules';
+import { rescoreResult } from '../analysis/htmlAnalyzer';
+import { getDomain, recordAudit } from '../storage/auditHistory';
+import { loadProjectRuleConfig } from '../storage/ruleConfigs';
 import AuditResults from '../components/audit/AuditResults';
 import AuditError from '../components/audit/AuditError';
 import CircularProgress from '../components/CircularProgress';
@@ -18,10 +24,13 @@ const AuditPage: React.FC = () => {
   const auditType = queryParams.get('type') === 'site' ? 'site' : 'quick';
   
   const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [results, setResults] = useState<any | null>(null);
+  const [error, setError] = useState<AuditApiError | Error | string | null>(null);
+  const [results, setResults] = useState<AuditResult | null>(null);
   const [progress, setProgress] = useState<number>(0);
-  const [analysisType, setAnalysisType] = useState<string>('basic');
+  const [stageLabel, setStageLabel] = useState<string>('Connecting to API...');
+  const [currentUrl, setCurrentUrl] = useState<string | null>(null);
+  const [rules, setRules] = useState<RuleRegistry>(ruleRegistry);
+  const abortControllerRef = useRef<AbortController | null>(null);
   
   // Perform the analysis
   useEffect(() => {
@@ -32,115 +41,93 @@ const AuditPage: React.FC = () => {
     }
     
     performAnalysis();
+    
+    // Stop the audit when leaving the page or switching URL
+    return () => abortControllerRef.current?.abort();
   }, [url, auditType]);
   
+  // Show the job's real progress and stage
+  const handleProgress = (status: JobStatusResponse) => {
+    setProgress(status.job.progress);
+    setStageLabel(describeJobProgress(status.job));
+    setCurrentUrl(status.job.currentUrl || null);
+  };
+  
   const performAnalysis = async () => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    
     setIsLoading(true);
     setError(null);
-    setProgress(10);
+    setProgress(0);
+    setStageLabel('Connecting to API...');
+    setCurrentUrl(null);
     
     try {
-      console.log(`🚀 Starting ${auditType} analysis for:`, url);
+      // The project's rule settings apply to the audit and to the thresholds the report shows
+      const ruleConfig = await loadProjectRuleConfig(normalizeUrl(url));
+      const projectRules = ruleConfig ? createRuleRegistry(defaultRules, ruleConfig) : ruleRegistry;
+      setRules(projectRules);
       
-      // First, check if API is healthy
-      setProgress(20);
-      try {
-        await enhancedApiService.checkHealth();
-        console.log('✅ API health check passed');
-      } catch (healthError) {
-        console.error('❌ API health check failed:', healthError);
-        throw new Error(`API is not accessible: ${healthError.message}`);
-      }
-      
-      setProgress(30);
-      
-      let analysisResult;
-      
-      if (auditType === 'site') {
-        // Enhanced analysis with site crawling
-        setAnalysisType('enhanced');
-        setProgress(40);
-        
-        // Use real API service for enhanced analysis
-        analysisResult = await performEnhancedAnalysis(url, {
-          maxPages: 10,
-          maxDepth: 2,
-          crawlSite: true,
-          enhanced: true
-        });
-      } else {
-        // Basic SEO analysis
-        setAnalysisType('basic');
-        setProgress(40);
-        
-        // Use real API service for basic analysis
-        analysisResult = await performEnhancedAnalysis(url, {
-          enhanced: true
-        });
-      }
-      
-      setProgress(80);
-      
-      if (!analysisResult || !analysisResult.data) {
-        throw new Error('No analysis data received from API');
-      }
+      console.log(`🚀 Starting ${auditType} analysis for:`, url);
       
-      // Check if the backend returned an error in the analysis data
-      if (analysisResult.data.status === 'error' && analysisResult.data.error) {
-        const errorMessage = analysisResult.data.error.message || 'Analysis failed';
-        console.error('❌ Backend analysis error:', errorMessage);
-        
-        // Make error messages more user-friendly
-        let userFriendlyError = errorMessage;
-        if (errorMessage.includes('ENOTFOUND') || errorMessage.includes('getaddrinfo')) {
-          userFriendlyError = `Unable to reach the website "${url}". Please check if the URL is correct and the website is accessible.`;
-        } else if (errorMessage.includes('timeout')) {
-          userFriendlyError = `The website "${url}" took too long to respond. Please try again or check if the site is working properly.`;
-        } else if (errorMessage.includes('SSL') || errorMessage.includes('certificate')) {
-          userFriendlyError = `There's an SSL certificate issue with "${url}". The website may have security configuration problems.`;
-        }
-        
-        throw new Error(userFriendlyError);
-      }
+      // Site audits crawl the site; quick audits analyze the single page
+      const analysisResult = auditType === 'site'
+        ? await apiClient.runAuditJob(url, true, { maxPages: 10, depth: 2 }, handleProgress, controller.signal)
+        : await apiClient.runAuditJob(url, false, {}, handleProgress, controller.signal);
       
       console.log('✅ Analysis completed successfully:', analysisResult);
       
-      // Validate the data one more time
-      if (analysisResult.data.pageData && analysisResult.data.pageData.title) {
-        const title = analysisResult.data.pageData.title.text;
-        if (title.includes('Fallback') || title.includes('Website') || 
-            analysisResult.message.includes('fallback')) {
-          console.warn('⚠️ Received suspicious data that might be mock');
-          throw new Error('Received mock data instead of real analysis. Please try again.');
-        }
-      }
+      // Backends score with the default rules
+      const result = ruleConfig && analysisResult.data.status !== 'error'
+        ? rescoreResult(analysisResult.data, projectRules)
+        : analysisResult.data;
       
-      setResults(analysisResult);
+      setResults(result);
+      recordAudit(result);
       setProgress(100);
       
       // Show success message
       toast.success('Analysis completed successfully!');
       
     } catch (error) {
-      console.error('❌ Analysis failed:', error);
-      
-      // Use enhanced error handling
-      let errorInfo;
-      if (error instanceof AnalysisError) {
-        errorInfo = getErrorDisplayInfo(error);
-      } else {
-        errorInfo = {
-          title: 'Analysis Failed',
-          message: error.message || 'An unexpected error occurred during analysis',
-          type: 'error',
-          suggestions: ['Please try again', 'Check if the website URL is correct']
-        };
+      // Cancelled audits were stopped on purpose, nothing to report
+      if (isApiError(error) && error.kind === 'cancelled') {
+        console.log('Analysis cancelled');
+        return;
       }
       
-      setError(errorInfo);
-      toast.error(`${errorInfo.title}: ${errorInfo.message}`);
+      console.error('❌ Analysis failed:', error);
+      
+      // API client errors are typed; AuditError picks tips from their kind
+      setError(error);
+      toast.error(error.message || 'An unexpected error occurred during analysis');
     } finally {
-      setIsLoading(false);
+      if (abortControllerRef.current === controller) {
+        setIsLoading(false);
+      }
+    }
+  };
+  
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+    toast('Audit cancelled');
+    navigate('/');
+  };
+  
+  // Analyze page source the user pasted, for pages neither the API nor the browser could fetch
+  const handleAnalyzeHtml = (html: string) => {
+    try {
+      const analysisResult = apiClient.analyzeRawHtml(html, url || '');
+      const result = rules !== ruleRegistry ? rescoreResult(analysisResult.data, rules) : analysisResult.data;
+      setResults(result);
+      recordAudit(result);
+      setError(null);
+      toast.success('Analyzed the pasted HTML');
+    } catch (error) {
+      console.error('❌ HTML analysis failed:', error);
+      toast.error(error.message || 'Could not analyze the pasted HTML');
     }
   };
   
@@ -156,22 +143,27 @@ const AuditPage: React.FC = () => {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="bg-white rounded-lg shadow-md p-8 max-w-md w-full text-center">
-          <CircularProgress progress={progress} />
+          <div className="flex justify-center">
+            <CircularProgress value={progress} label={stageLabel} />
+          </div>
           <h2 className="text-xl font-semibold mt-4 mb-2">
             Analyzing Website
           </h2>
           <p className="text-gray-600 mb-4">
-            {progress < 30 ? 'Connecting to API...' :
-             progress < 50 ? 'Starting analysis...' :
-             progress < 80 ? `Performing ${analysisType} analysis...` :
-             'Finalizing results...'}
+            {stageLabel}
           </p>
           <p className="text-sm text-gray-500">
-            URL: {url}
+            URL: {currentUrl || url}
           </p>
           <div className="mt-4 text-xs text-gray-400">
             Analysis Type: {auditType === 'site' ? 'Site-wide Crawl' : 'Quick Analysis'}
           </div>
+          <button
+            onClick={handleCancel}
+            className="mt-6 bg-gray-200 text-gray-700 px-4 py-2 rounded-md hover:bg-gray-300"
+          >
+            Cancel audit
+          </button>
         </div>
       </div>
     );
@@ -182,8 +174,10 @@ const AuditPage: React.FC = () => {
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <AuditError 
           error={error}
-          onRetry={handleRetry}
-          onNewAnalysis={handleNewAnalysis}
+          url={url || ''}
+          onTryAgain={handleRetry}
+          onBackToHome={handleNewAnalysis}
+          onAnalyzeHtml={handleAnalyzeHtml}
         />
       </div>
     );
@@ -239,16 +233,9 @@ const AuditPage: React.FC = () => {
         
         {/* Results */}
         <AuditResults 
-          results={results}
+          result={results}
           url={url || ''}
-          score={results?.data?.score}
-          categories={results?.data?.categories}
-          pageAnalysis={results?.data?.pageData}
-          issuesFound={results?.data?.totalIssuesCount}
-          opportunities={results?.data?.criticalIssuesCount}
-          cached={results?.cached}
-          cachedAt={results?.cachedAt}
-          data={results?.data}
+          rules={rules}
         />
         
         {/* Action buttons */}
@@ -261,10 +248,16 @@ const AuditPage: React.FC = () => {
           </button>
           <button
             onClick={handleRetry}
-            className="bg-gray-600 text-white px-6 py-3 rounded-md hover:bg-gray-700"
+            className="bg-gray-600 text-white px-6 py-3 rounded-md hover:bg-gray-700 mr-4"
           >
             Re-analyze This Website
           </button>
+          <button
+            onClick={() => navigate(`/rules?domain=${encodeURIComponent(getDomain(results.url))}`)}
+            className="bg-gray-200 text-gray-700 px-6 py-3 rounded-md hover:bg-gray-300"
+          >
+            Rule Settings
+          </button>
         </div>
       </div>
     </div>
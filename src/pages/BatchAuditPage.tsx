@@ -1,9 +1,27 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useMutation } from '@tanstack/react-query';
 import { toast } from 'sonner';
 
 import apiClient from '../api/client';
+import { AuditResult, JobStatusResponse } from '../api/types';
+import { BatchOrchestrator } from '../api/batchOrchestrator';
+import { describeJobProgress } from '../api/jobProgress';
+import { isApiError } from '../api/errors';
+import { dedupeUrls } from '../api/url';
+import { importCsvColumn, importFile, ImportResult, loadSitemapIndex, ParsedCsv } from '../import';
+import { recordBatch } from '../storage/auditHistory';
+import { applyProjectRules } from '../storage/ruleConfigs';
+import {
+  addBatchJobResults,
+  BATCH_JOB_HEARTBEAT_MS,
+  BatchJob,
+  batchJobs,
+  getBatchJobProgress,
+  getBatchJobResults,
+  isBatchJobInterrupted,
+  toBatchResponse
+} from '../storage/batchJobs';
 import BatchAuditResults from '../components/audit/BatchAuditResults';
 import AuditError from '../components/audit/AuditError';
 import CircularProgress from '../components/CircularProgress';
@@ -13,18 +31,126 @@ const BatchAuditPage: React.FC = () => {
   
   const [urlsInput, setUrlsInput] = useState<string>('');
   const [urlFile, setUrlFile] = useState<File | null>(null);
+  const [isImporting, setIsImporting] = useState<boolean>(false);
+  // CSV waiting for the user to confirm its URL column
+  const [importedCsv, setImportedCsv] = useState<ParsedCsv | null>(null);
+  const [csvColumn, setCsvColumn] = useState<number>(0);
   const [progress, setProgress] = useState<number>(0);
+  const [stageLabel, setStageLabel] = useState<string>('Submitting URLs for analysis...');
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const batchRunRef = useRef<BatchOrchestrator | null>(null);
+  // Results of finished chunks while the batch runs
+  const [partialResults, setPartialResults] = useState<AuditResult[]>([]);
+  const [totalToProcess, setTotalToProcess] = useState<number>(0);
+  const [isPaused, setIsPaused] = useState<boolean>(false);
+  // Batch limits: chunks in flight, requests per host and delay between them
+  const [concurrency, setConcurrency] = useState<number>(2);
+  const [maxPerHost, setMaxPerHost] = useState<number>(2);
+  const [hostDelayMs, setHostDelayMs] = useState<number>(1000);
+  // The job being run in this tab, saved as each chunk finishes
+  const jobRef = useRef<BatchJob | null>(null);
+  // URLs a resumed job had already finished, for overall progress
+  const finishedBeforeRunRef = useRef<number>(0);
+  // Saved jobs that haven't finished, from this tab or others
+  const [unfinishedJobs, setUnfinishedJobs] = useState<BatchJob[]>([]);
+  
+  // Stop a running batch when leaving the page
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
   const [results, setResults] = useState<any | null>(null);
   
-  // Mutation for batch URL analysis
+  const refreshJobs = () => {
+    batchJobs.list()
+      .then(jobs => setUnfinishedJobs(jobs.filter(job => job.status !== 'completed')))
+      .catch(error => console.warn('Could not load batch jobs:', error));
+  };
+  
+  useEffect(refreshJobs, []);
+  
+  // Jobs are saved best effort; a batch keeps running without storage
+  const warnNotSaved = (error: unknown) => console.warn('Could not save batch job:', error);
+  
+  const saveJob = (job: BatchJob) => {
+    jobRef.current = job;
+    batchJobs.save(job).catch(warnNotSaved);
+  };
+  
+  // Show the batch's real progress and stage, counting URLs a resumed job had already finished
+  const handleProgress = (status: JobStatusResponse) => {
+    const total = jobRef.current?.urls.length || status.job.total || 0;
+    const current = finishedBeforeRunRef.current + (status.job.current || 0);
+    const job = { ...status.job, current, total };
+    
+    setProgress(status.job.stage === 'completed' || total === 0 ? status.job.progress : 5 + Math.round((current / total) * 95));
+    setStageLabel(describeJobProgress(job));
+  };
+  
+  /**
+   * Run the pending URLs of a job, saving results as chunks finish
+   * @returns Results of the whole job once every URL is done
+   */
+  const runJob = async (job: BatchJob) => {
+    const pending = getBatchJobProgress(job).pending;
+    finishedBeforeRunRef.current = job.urls.length - pending.length;
+    saveJob(batchJobs.claim(job));
+    
+    // Check in while running so other tabs and later visits can tell the job is alive
+    const heartbeat = setInterval(() => {
+      if (!jobRef.current) return;
+      jobRef.current = { ...jobRef.current, heartbeatAt: Date.now() };
+      batchJobs.heartbeat(jobRef.current.id).catch(warnNotSaved);
+    }, BATCH_JOB_HEARTBEAT_MS);
+    
+    try {
+      if (pending.length > 0) {
+        batchRunRef.current = apiClient.createBatchRun(pending, {
+          ...job.options,
+          signal: abortControllerRef.current?.signal,
+          onProgress: handleProgress,
+          onResults: (_resultsSoFar, chunk, chunkUrls) => {
+            // Only the chunk's results are written; the job keeps the rest in memory
+            jobRef.current = addBatchJobResults(jobRef.current, chunkUrls, chunk);
+            batchJobs.saveResults(jobRef.current.id, chunkUrls, chunk).catch(warnNotSaved);
+            setPartialResults(getBatchJobResults(jobRef.current));
+          }
+        });
+        await batchRunRef.current.run();
+      }
+    } catch (error) {
+      const stopped = isApiError(error) && error.kind === 'cancelled';
+      saveJob({
+        ...jobRef.current,
+        status: 'failed',
+        error: stopped ? 'Stopped before finishing' : (error as Error).message,
+        updatedAt: Date.now()
+      });
+      throw error;
+    } finally {
+      clearInterval(heartbeat);
+      batchJobs.release(job.id);
+    }
+    
+    // Finished jobs live on in the audit history
+    const completed: BatchJob = { ...jobRef.current, status: 'completed', updatedAt: Date.now() };
+    jobRef.current = completed;
+    batchJobs.remove(completed.id).catch(error => console.warn('Could not remove finished batch job:', error));
+    return toBatchResponse(completed);
+  };
+  
+  // Mutation for batch URL analysis; takes a new or resumed job
   const batchAnalysisMutation = useMutation({
-    mutationFn: (urls: string[]) => {
-      return apiClient.batchSeoAnalysis(urls);
+    mutationFn: (job: BatchJob) => {
+      abortControllerRef.current?.abort();
+      abortControllerRef.current = new AbortController();
+      return runJob(job);
     },
-    onSuccess: (data) => {
+    onSuccess: async (batch) => {
+      // Backends score with the default rules; apply each project's settings
+      const data = { ...batch, results: await applyProjectRules(batch.results) };
       console.log('Batch analysis complete:', data);
       setResults(data);
+      recordBatch(data);
       setProgress(100);
+      refreshJobs();
       
       toast('Batch analysis complete', {
         description: `Analyzed ${data.totalUrls} URLs successfully`,
@@ -32,6 +158,14 @@ const BatchAuditPage: React.FC = () => {
       });
     },
     onError: (error) => {
+      refreshJobs();
+      
+      // Cancelled batches were stopped on purpose, nothing to report
+      if (isApiError(error) && error.kind === 'cancelled') {
+        console.log('Batch analysis cancelled');
+        return;
+      }
+      
       console.error('Batch analysis failed:', error);
       
       toast('Analysis failed', {
@@ -46,68 +180,90 @@ const BatchAuditPage: React.FC = () => {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    let urlsToProcess: string[] = [];
-    
-    // Process URLs from text input
-    if (urlsInput.trim()) {
-      urlsToProcess = urlsInput
-        .trim()
-        .split('\n')
-        .map(line => line.trim())
-        .filter(line => line.length > 0);
-    }
-    // Process URLs from file
-    else if (urlFile) {
-      try {
-        const fileContent = await readFileContent(urlFile);
-        urlsToProcess = fileContent
-          .split('\n')
-          .map(line => line.trim())
-          .filter(line => line.length > 0);
-      } catch (error) {
-        console.error('Error reading file:', error);
-        toast('File error', {
-          description: `Could not read the file: ${(error as Error).message}`,
-          position: 'bottom-right',
-          variant: 'destructive'
-        });
-        return;
-      }
-    }
+    // Imported files are already loaded into the text input
+    const { urls: urlsToProcess, duplicates, invalid } = dedupeUrls(urlsInput.split('\n'));
     
     // Validate we have URLs to process
     if (urlsToProcess.length === 0) {
       toast('No URLs provided', {
-        description: 'Please enter at least one URL to analyze',
+        description: invalid.length > 0
+          ? `None of the ${invalid.length} entries is a valid URL`
+          : 'Please enter at least one URL to analyze',
         position: 'bottom-right',
         variant: 'destructive'
       });
       return;
     }
     
-    // Limit to 20 URLs
-    const limitedUrls = urlsToProcess.slice(0, 20);
-    if (urlsToProcess.length > 20) {
-      toast('URL limit', {
-        description: `Limited to analyzing the first 20 URLs out of ${urlsToProcess.length} provided`,
+    if (duplicates > 0 || invalid.length > 0) {
+      toast('Some entries were skipped', {
+        description: describeSkipped(duplicates, invalid.length),
         position: 'bottom-right',
       });
     }
     
-    // Start progress animation
-    setProgress(10);
-    const progressInterval = setInterval(() => {
-      setProgress(prev => {
-        if (prev < 90) return prev + 5;
-        return prev;
-      });
-    }, 1000);
-    
-    // Start the batch analysis
-    batchAnalysisMutation.mutate(limitedUrls);
+    const options = { concurrency, maxConcurrentPerHost: maxPerHost, hostDelayMs };
+    let job: BatchJob;
+    try {
+      job = await batchJobs.create(urlsToProcess, options);
+    } catch (error) {
+      // Without storage the batch still runs, it just can't be resumed
+      console.warn('Could not save batch job, it will not be resumable:', error);
+      const now = Date.now();
+      job = {
+        id: `batch-${now.toString(36)}`,
+        status: 'queued',
+        createdAt: now,
+        updatedAt: now,
+        heartbeatAt: now,
+        urls: urlsToProcess,
+        options,
+        results: {}
+      };
+    }
     
-    // Clean up progress interval when mutation completes
-    return () => clearInterval(progressInterval);
+    startJob(job);
+  };
+  
+  // Start or resume a job
+  const startJob = (job: BatchJob) => {
+    setProgress(0);
+    setStageLabel('Submitting URLs for analysis...');
+    setPartialResults(getBatchJobResults(job));
+    setTotalToProcess(job.urls.length);
+    setIsPaused(false);
+    setResults(null);
+    batchAnalysisMutation.mutate(job);
+  };
+  
+  // Resume a saved job where it stopped
+  const handleResumeJob = async (job: BatchJob) => {
+    // Reload in case another tab moved it on
+    const latest = await batchJobs.get(job.id).catch(() => undefined) || job;
+    if (!isBatchJobInterrupted(latest)) {
+      toast('Batch is still running', {
+        description: 'It is running in another tab. Resume it there or wait until it stops',
+        position: 'bottom-right',
+      });
+      refreshJobs();
+      return;
+    }
+    startJob(latest);
+  };
+  
+  // Show what an unfinished job has so far
+  const handleViewJob = (job: BatchJob) => {
+    setResults(toBatchResponse(job));
+    setProgress(100);
+  };
+  
+  const handleDiscardJob = async (job: BatchJob) => {
+    try {
+      await batchJobs.remove(job.id);
+    } catch (error) {
+      console.warn('Could not discard batch job:', error);
+    }
+    refreshJobs();
   };
   
   // File reader helper
@@ -131,24 +287,141 @@ const BatchAuditPage: React.FC = () => {
     });
   };
   
+  // Summary of entries dropped by dedupeUrls
+  const describeSkipped = (duplicates: number, invalid: number): string => {
+    const parts: string[] = [];
+    if (duplicates > 0) parts.push(`${duplicates} duplicate${duplicates === 1 ? '' : 's'}`);
+    if (invalid > 0) parts.push(`${invalid} invalid`);
+    return parts.length > 0 ? `Skipped ${parts.join(' and ')}` : '';
+  };
+  
+  // Put imported URLs in the text input so they can be reviewed before running
+  const applyImportedUrls = (urls: string[], duplicates: number, invalid: number, source: string) => {
+    setUrlsInput(urls.join('\n'));
+    
+    const skipped = describeSkipped(duplicates, invalid);
+    const notify = urls.length === 0 ? toast.error : toast;
+    notify(`Imported ${urls.length} URLs`, {
+      description: skipped ? `From ${source}. ${skipped}` : `From ${source}`,
+      position: 'bottom-right',
+    });
+  };
+  
+  // Act on an imported file: fill in URLs, ask for a CSV column, or reopen saved results
+  const handleImport = async (imported: ImportResult, fileName: string) => {
+    switch (imported.kind) {
+      case 'urls':
+        applyImportedUrls(imported.urls, imported.duplicates, imported.invalid.length, fileName);
+        break;
+      
+      case 'csv': {
+        setImportedCsv(imported.csv);
+        setCsvColumn(imported.suggestedColumn);
+        const { urls, duplicates, invalid } = importCsvColumn(imported.csv, imported.suggestedColumn);
+        applyImportedUrls(urls, duplicates, invalid.length, `column "${imported.csv.headers[imported.suggestedColumn]}"`);
+        break;
+      }
+      
+      case 'sitemap-index': {
+        const loaded = await loadSitemapIndex(imported.sitemaps);
+        const { urls, duplicates, invalid } = dedupeUrls(loaded.urls);
+        applyImportedUrls(urls, duplicates, invalid.length, `${imported.sitemaps.length} sitemaps in ${fileName}`);
+        
+        if (loaded.failed.length > 0) {
+          console.warn('Sitemaps that could not be loaded:', loaded.failed);
+          toast.error(`${loaded.failed.length} sitemaps could not be loaded`, {
+            description: 'The sitemap host may block requests from the browser. Upload those sitemaps directly instead',
+            position: 'bottom-right',
+          });
+        }
+        break;
+      }
+      
+      case 'audit':
+        // Saved results open as-is, without running the audits again
+        setResults(imported.batch);
+        setProgress(100);
+        toast('Audit results imported', {
+          description: `Loaded ${imported.batch.totalUrls} results from ${fileName}`,
+          position: 'bottom-right',
+        });
+        break;
+    }
+  };
+  
   // Handle file input change
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files.length > 0) {
-      setUrlFile(e.target.files[0]);
-      // Clear text input when file is selected
-      setUrlsInput('');
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow picking the same file again
+    e.target.value = '';
+    if (!file) return;
+    
+    setUrlFile(file);
+    setImportedCsv(null);
+    setIsImporting(true);
+    
+    try {
+      const content = await readFileContent(file);
+      await handleImport(importFile(file.name, content), file.name);
+    } catch (error) {
+      console.error('Error importing file:', error);
+      setUrlFile(null);
+      toast('File error', {
+        description: `Could not import the file: ${(error as Error).message}`,
+        position: 'bottom-right',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsImporting(false);
     }
   };
   
+  // Use another column of the imported CSV
+  const handleCsvColumnChange = (column: number) => {
+    if (!importedCsv) return;
+    setCsvColumn(column);
+    const { urls, duplicates, invalid } = importCsvColumn(importedCsv, column);
+    applyImportedUrls(urls, duplicates, invalid.length, `column "${importedCsv.headers[column]}"`);
+  };
+  
   // Handle clear file button
   const handleClearFile = () => {
     setUrlFile(null);
+    setImportedCsv(null);
+    setUrlsInput('');
+  };
+  
+  // Pause or resume the running batch; requests in flight still finish
+  const handleTogglePause = () => {
+    const batchRun = batchRunRef.current;
+    if (!batchRun) return;
+    
+    if (batchRun.isPaused()) {
+      batchRun.resume();
+    } else {
+      batchRun.pause();
+    }
+    setIsPaused(batchRun.isPaused());
+  };
+  
+  // Handle cancel button
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+    batchAnalysisMutation.reset();
+    setProgress(0);
+    setPartialResults([]);
+    setIsPaused(false);
+    toast('Batch analysis cancelled', {
+      description: 'Finished results are kept; resume the batch from the list of unfinished batches',
+      position: 'bottom-right',
+    });
   };
   
   // Handle try again button
   const handleTryAgain = () => {
     setResults(null);
     setProgress(0);
+    refreshJobs();
   };
   
   // Handle back to home button
@@ -162,22 +435,46 @@ const BatchAuditPage: React.FC = () => {
   // Show loading state
   if (isSubmitting || (progress > 0 && progress < 100 && !results)) {
     return (
-      <div className="container max-w-3xl mx-auto pt-12 px-4">
+      <div className={`container ${partialResults.length > 0 ? 'max-w-6xl' : 'max-w-3xl'} mx-auto pt-12 px-4 pb-20`}>
         <div className="bg-card p-8 rounded-lg shadow-lg border border-white/5">
           <div className="flex flex-col items-center justify-center py-6">
-            <CircularProgress value={progress} size={120} strokeWidth={6} />
+            <CircularProgress value={progress} size={120} strokeWidth={6} label={stageLabel} />
             <h3 className="text-xl font-semibold mt-6 mb-2">
-              Analyzing URLs
+              {isPaused ? 'Paused' : 'Analyzing URLs'}
             </h3>
             <div className="bg-primary/20 text-primary-foreground text-xs px-3 py-1 rounded-full mb-3">
               Batch SEO Audit
             </div>
             <p className="text-sm text-muted-foreground mb-4">
-              {progress < 50 ? 'Submitting URLs for analysis...' : 
-               progress < 80 ? 'Processing URLs...' : 
-               'Finalizing results...'}
+              {isPaused ? 'Requests already sent will finish; no new ones are started' : stageLabel}
             </p>
+            <div className="flex gap-2">
+              <button
+                className="text-sm text-white/70 hover:text-white border border-white/10 rounded-md px-4 py-2"
+                onClick={handleTogglePause}
+              >
+                {isPaused ? 'Resume' : 'Pause'}
+              </button>
+              <button
+                className="text-sm text-white/70 hover:text-white border border-white/10 rounded-md px-4 py-2"
+                onClick={handleCancel}
+              >
+                Cancel audit
+              </button>
+            </div>
           </div>
+          
+          {/* Results stream in as chunks finish */}
+          {partialResults.length > 0 && (
+            <div className="mt-6 border-t border-white/10 pt-6">
+              <BatchAuditResults
+                results={partialResults}
+                totalUrls={totalToProcess}
+                timestamp={new Date().toISOString()}
+                inProgress
+              />
+            </div>
+          )}
         </div>
       </div>
     );
@@ -233,7 +530,7 @@ const BatchAuditPage: React.FC = () => {
       <div className="bg-card p-8 rounded-lg shadow-lg border border-white/5">
         <h2 className="text-2xl font-bold mb-2">Batch SEO Audit</h2>
         <p className="text-muted-foreground mb-6">
-          Analyze multiple URLs at once (up to 20 URLs)
+          Analyze multiple URLs at once, from a handful to thousands
         </p>
         
         <form onSubmit={handleSubmit} className="space-y-6">
@@ -248,33 +545,30 @@ const BatchAuditPage: React.FC = () => {
 https://another-example.com
 https://third-site.com"
               value={urlsInput}
-              onChange={(e) => {
-                setUrlsInput(e.target.value);
-                setUrlFile(null); // Clear file input when text is entered
-              }}
-              disabled={isSubmitting}
+              onChange={(e) => setUrlsInput(e.target.value)}
+              disabled={isSubmitting || isImporting}
             ></textarea>
           </div>
           
           {/* File Upload */}
           <div className="space-y-2">
             <label className="text-sm font-medium">
-              Or upload a text file with URLs (one per line)
+              Or import a file: URL list (.txt), CSV, sitemap.xml, or JSON (URL list or exported audit)
             </label>
             <div className="flex items-center gap-2">
               <input
                 type="file"
-                accept=".txt,.csv"
+                accept=".txt,.csv,.tsv,.json,.xml"
                 onChange={handleFileChange}
                 className="hidden"
                 id="url-file-input"
-                disabled={isSubmitting}
+                disabled={isSubmitting || isImporting}
               />
               <label
                 htmlFor="url-file-input"
                 className="flex-1 cursor-pointer p-3 bg-black/20 border border-white/10 border-dashed rounded-md text-center hover:bg-black/30 transition-colors"
               >
-                {urlFile ? urlFile.name : 'Click to select a file'}
+                {isImporting ? 'Importing...' : urlFile ? urlFile.name : 'Click to select a file'}
               </label>
               
               {urlFile && (
@@ -288,23 +582,148 @@ https://third-site.com"
                 </button>
               )}
             </div>
+            
+            {importedCsv && importedCsv.headers.length > 1 && (
+              <div className="flex items-center gap-2 text-sm">
+                <label htmlFor="csv-column-select" className="text-muted-foreground">
+                  URL column
+                </label>
+                <select
+                  id="csv-column-select"
+                  className="flex-1 p-2 bg-black/20 border border-white/10 rounded-md focus:outline-none focus:ring-1 focus:ring-primary"
+                  value={csvColumn}
+                  onChange={(e) => handleCsvColumnChange(Number(e.target.value))}
+                  disabled={isSubmitting}
+                >
+                  {importedCsv.headers.map((header, index) => (
+                    <option key={index} value={index}>
+                      {header || `Column ${index + 1}`}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
           </div>
           
+          {/* Batch limits */}
+          <details className="text-sm">
+            <summary className="cursor-pointer text-muted-foreground hover:text-white">
+              Batch settings
+            </summary>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mt-3">
+              <label className="space-y-1">
+                <span className="block text-xs text-muted-foreground">Parallel requests</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={10}
+                  value={concurrency}
+                  onChange={(e) => setConcurrency(Math.min(10, Math.max(1, Number(e.target.value) || 1)))}
+                  className="w-full p-2 bg-black/20 border border-white/10 rounded-md focus:outline-none focus:ring-1 focus:ring-primary"
+                  disabled={isSubmitting}
+                />
+              </label>
+              <label className="space-y-1">
+                <span className="block text-xs text-muted-foreground">Requests per host at once</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={10}
+                  value={maxPerHost}
+                  onChange={(e) => setMaxPerHost(Math.min(10, Math.max(1, Number(e.target.value) || 1)))}
+                  className="w-full p-2 bg-black/20 border border-white/10 rounded-md focus:outline-none focus:ring-1 focus:ring-primary"
+                  disabled={isSubmitting}
+                />
+              </label>
+              <label className="space-y-1">
+                <span className="block text-xs text-muted-foreground">Delay per host (ms)</span>
+                <input
+                  type="number"
+                  min={0}
+                  step={250}
+                  value={hostDelayMs}
+                  onChange={(e) => setHostDelayMs(Math.max(0, Number(e.target.value) || 0))}
+                  className="w-full p-2 bg-black/20 border border-white/10 rounded-md focus:outline-none focus:ring-1 focus:ring-primary"
+                  disabled={isSubmitting}
+                />
+              </label>
+            </div>
+          </details>
+          
           {/* Submit Button */}
           <button
             type="submit"
             className="w-full p-3 bg-primary hover:bg-primary/90 text-white rounded-md font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-            disabled={isSubmitting || (!urlsInput && !urlFile)}
+            disabled={isSubmitting || isImporting || !urlsInput.trim()}
           >
             {isSubmitting ? 'Analyzing...' : 'Analyze URLs'}
           </button>
         </form>
         
+        {/* Batches that were interrupted or are running in another tab */}
+        {unfinishedJobs.length > 0 && (
+          <div className="mt-6 pt-4 border-t border-white/10">
+            <h3 className="text-sm font-medium mb-2">Unfinished batches</h3>
+            <ul className="space-y-2">
+              {unfinishedJobs.map(job => {
+                const jobProgress = getBatchJobProgress(job);
+                const interrupted = isBatchJobInterrupted(job);
+                
+                return (
+                  <li key={job.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-3 bg-black/20 border border-white/10 rounded-md">
+                    <div className="text-sm">
+                      <div className="font-medium">
+                        {job.urls.length} URLs · started {new Date(job.createdAt).toLocaleString()}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        <span className={interrupted ? 'text-yellow-400' : 'text-primary'}>
+                          {interrupted ? job.error || 'Interrupted' : 'Running in another tab'}
+                        </span>
+                        {' · '}{jobProgress.done.length} done, {jobProgress.failed.length} failed, {jobProgress.pending.length} pending
+                      </div>
+                    </div>
+                    <div className="flex gap-2">
+                      {Object.keys(job.results).length > 0 && (
+                        <button
+                          type="button"
+                          className="px-3 py-1 text-xs bg-white/10 hover:bg-white/20 rounded-md"
+                          onClick={() => handleViewJob(job)}
+                        >
+                          View results
+                        </button>
+                      )}
+                      <button
+                        type="button"
+                        className="px-3 py-1 text-xs bg-primary hover:bg-primary/90 text-white rounded-md disabled:opacity-50"
+                        onClick={() => handleResumeJob(job)}
+                        disabled={!interrupted || isSubmitting}
+                      >
+                        Resume
+                      </button>
+                      <button
+                        type="button"
+                        className="px-3 py-1 text-xs bg-red-900/30 hover:bg-red-900/50 rounded-md"
+                        onClick={() => handleDiscardJob(job)}
+                      >
+                        Discard
+                      </button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+        
         <div className="mt-6 pt-4 border-t border-white/10">
           <h3 className="text-sm font-medium mb-2">Tips</h3>
           <ul className="text-xs text-muted-foreground space-y-1 list-disc pl-4">
-            <li>Enter each URL on a new line or upload a text file</li>
-            <li>Maximum of 20 URLs can be processed in a single batch</li>
+            <li>Enter each URL on a new line or import a URL list, CSV, sitemap or JSON file</li>
+            <li>Duplicate URLs are removed; trailing slashes and a missing https:// don't make a URL unique</li>
+            <li>Import a JSON export to reopen previous results without re-running them</li>
+            <li>Large lists are sent in chunks of 20; results appear as each chunk finishes</li>
+            <li>A batch can be paused and resumed; lower the per-host settings for smaller sites</li>
+            <li>Progress is saved as it goes, so a batch interrupted by a reload can be resumed</li>
             <li>Results can be exported to CSV for further analysis</li>
             <li>Missing protocols (http/https) will default to https</li>
           </ul>
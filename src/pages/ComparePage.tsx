@@ -0,0 +1,251 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+
+import { auditHistory, AuditHistoryEntry } from '../storage/auditHistory';
+import { CATEGORY_NAMES, diffAuditResults, IssueChange } from '../analysis/auditDiff';
+
+const CATEGORY_LABELS: Record<string, string> = {
+  metadata: 'Metadata',
+  content: 'Content',
+  technical: 'Technical',
+  userExperience: 'User Experience'
+};
+
+const ISSUE_CHANGE_LABELS: Record<IssueChange['kind'], string> = {
+  added: 'New issue',
+  resolved: 'Resolved',
+  severity_changed: 'Severity changed'
+};
+
+const formatType = (type: string) => type.replace(/_/g, ' ');
+
+const Delta: React.FC<{ value: number }> = ({ value }) => (
+  <span className={value < 0 ? 'text-red-400 font-semibold' : value > 0 ? 'text-green-400 font-semibold' : 'text-white/50'}>
+    {value > 0 ? `+${value}` : value}
+  </span>
+);
+
+const ComparePage: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const [entries, setEntries] = useState<AuditHistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedUrl = searchParams.get('url') || '';
+  const beforeId = searchParams.get('before') || '';
+  const afterId = searchParams.get('after') || '';
+
+  useEffect(() => {
+    auditHistory.list({ kind: 'single' })
+      .then(list => setEntries(list.filter(entry => entry.result)))
+      .catch(loadError => setError((loadError as Error).message))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  // URLs with their runs, newest first
+  const runsByUrl = useMemo(() => {
+    const grouped = new Map<string, AuditHistoryEntry[]>();
+    entries.forEach(entry => {
+      grouped.set(entry.url, [...(grouped.get(entry.url) || []), entry]);
+    });
+    return grouped;
+  }, [entries]);
+
+  const runs = useMemo(() => runsByUrl.get(selectedUrl) || [], [runsByUrl, selectedUrl]);
+  const before = runs.find(run => run.id === beforeId);
+  const after = runs.find(run => run.id === afterId);
+
+  // Default to the two most recent runs of the chosen URL
+  useEffect(() => {
+    if (selectedUrl && runs.length >= 2 && (!before || !after)) {
+      setSearchParams({ url: selectedUrl, before: runs[1].id, after: runs[0].id }, { replace: true });
+    }
+  }, [selectedUrl, runs, before, after, setSearchParams]);
+
+  const diff = before?.result && after?.result ? diffAuditResults(before.result, after.result) : null;
+
+  const selectRun = (key: 'before' | 'after', id: string) => {
+    setSearchParams({ url: selectedUrl, before: beforeId, after: afterId, [key]: id });
+  };
+
+  const runLabel = (run: AuditHistoryEntry) => `${new Date(run.createdAt).toLocaleString()} — score ${run.score}`;
+
+  return (
+    <div className="container max-w-6xl mx-auto pt-12 px-4 pb-20">
+      <div className="bg-card p-8 rounded-lg shadow-lg border border-white/5">
+        <h2 className="text-2xl font-bold mb-2">Compare Audits</h2>
+        <p className="text-muted-foreground mb-6">
+          Compare two saved runs of the same URL to see what improved and what regressed.
+        </p>
+
+        {error && <p className="text-red-400 mb-4">Could not load history: {error}</p>}
+
+        {isLoading ? (
+          <p className="text-muted-foreground">Loading history...</p>
+        ) : (
+          <div className="grid md:grid-cols-3 gap-3 mb-8">
+            <select
+              className="p-3 bg-black/20 border border-white/10 rounded-md focus:outline-none focus:ring-1 focus:ring-primary"
+              value={selectedUrl}
+              onChange={(e) => setSearchParams({ url: e.target.value })}
+            >
+              <option value="">Choose a URL</option>
+              {Array.from(runsByUrl.entries()).map(([url, urlRuns]) => (
+                <option key={url} value={url}>{url} ({urlRuns.length} runs)</option>
+              ))}
+            </select>
+            <select
+              className="p-3 bg-black/20 border border-white/10 rounded-md focus:outline-none focus:ring-1 focus:ring-primary"
+              value={beforeId}
+              onChange={(e) => selectRun('before', e.target.value)}
+              disabled={runs.length < 2}
+            >
+              <option value="">Before</option>
+              {runs.map(run => <option key={run.id} value={run.id}>{runLabel(run)}</option>)}
+            </select>
+            <select
+              className="p-3 bg-black/20 border border-white/10 rounded-md focus:outline-none focus:ring-1 focus:ring-primary"
+              value={afterId}
+              onChange={(e) => selectRun('after', e.target.value)}
+              disabled={runs.length < 2}
+            >
+              <option value="">After</option>
+              {runs.map(run => <option key={run.id} value={run.id}>{runLabel(run)}</option>)}
+            </select>
+          </div>
+        )}
+
+        {!isLoading && selectedUrl && runs.length < 2 && (
+          <p className="text-muted-foreground">
+            Only one saved run for this URL. Re-audit it to have something to compare against.
+          </p>
+        )}
+
+        {diff && (
+          <div className="space-y-8">
+            {/* Summary */}
+            <div className="grid md:grid-cols-3 gap-4">
+              <div className="p-4 rounded-lg bg-black/20 border border-white/10">
+                <div className="text-sm text-muted-foreground">Overall score</div>
+                <div className="text-2xl font-bold">
+                  {diff.score.before} → {diff.score.after} <Delta value={diff.score.delta} />
+                </div>
+              </div>
+              <div className={`p-4 rounded-lg border ${diff.regressionCount > 0 ? 'bg-red-900/20 border-red-500/40' : 'bg-black/20 border-white/10'}`}>
+                <div className="text-sm text-muted-foreground">Regressions</div>
+                <div className={`text-2xl font-bold ${diff.regressionCount > 0 ? 'text-red-400' : ''}`}>{diff.regressionCount}</div>
+              </div>
+              <div className="p-4 rounded-lg bg-black/20 border border-white/10">
+                <div className="text-sm text-muted-foreground">Improvements</div>
+                <div className={`text-2xl font-bold ${diff.improvementCount > 0 ? 'text-green-400' : ''}`}>{diff.improvementCount}</div>
+              </div>
+            </div>
+
+            {/* Category scores */}
+            <div>
+              <h3 className="text-lg font-semibold mb-3">Category Scores</h3>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-muted-foreground border-b border-white/10">
+                    <th className="py-2">Category</th>
+                    <th className="py-2">Before</th>
+                    <th className="py-2">After</th>
+                    <th className="py-2">Change</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {CATEGORY_NAMES.map(category => {
+                    const change = diff.categories[category];
+                    return (
+                      <tr key={category} className={`border-b border-white/5 ${change.delta < 0 ? 'bg-red-900/20' : ''}`}>
+                        <td className="py-2">{CATEGORY_LABELS[category]}</td>
+                        <td className="py-2">{change.before}</td>
+                        <td className="py-2">{change.after}</td>
+                        <td className="py-2"><Delta value={change.delta} /></td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Issues */}
+            <div>
+              <h3 className="text-lg font-semibold mb-3">Issue Changes</h3>
+              {diff.issues.length === 0 ? (
+                <p className="text-muted-foreground text-sm">No issues were added, resolved or re-graded.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {/* Regressions first */}
+                  {[...diff.issues]
+                    .sort((a, b) => Number(b.regression) - Number(a.regression))
+                    .map((change, index) => (
+                      <li
+                        key={`${change.category}-${change.type}-${index}`}
+                        className={`p-3 rounded-md border ${
+                          change.regression
+                            ? 'bg-red-900/20 border-red-500/40'
+                            : 'bg-green-900/10 border-green-500/20'
+                        }`}
+                      >
+                        <div className="flex items-center justify-between">
+                          <span className="font-medium capitalize">{formatType(change.type)}</span>
+                          <span className={`text-xs ${change.regression ? 'text-red-400' : 'text-green-400'}`}>
+                            {ISSUE_CHANGE_LABELS[change.kind]}
+                            {change.kind === 'severity_changed' && `: ${change.before.severity} → ${change.after.severity}`}
+                          </span>
+                        </div>
+                        <div className="text-xs text-muted-foreground mt-1">
+                          {CATEGORY_LABELS[change.category]} · {(change.after || change.before).recommendation}
+                        </div>
+                      </li>
+                    ))}
+                </ul>
+              )}
+            </div>
+
+            {/* Page data */}
+            <div>
+              <h3 className="text-lg font-semibold mb-3">Page Changes</h3>
+              {diff.pageData.length === 0 ? (
+                <p className="text-muted-foreground text-sm">Title, meta description, headings and links are unchanged.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-muted-foreground border-b border-white/10">
+                      <th className="py-2">Field</th>
+                      <th className="py-2">Before</th>
+                      <th className="py-2">After</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {diff.pageData.map(change => (
+                      <tr key={change.field} className={`border-b border-white/5 align-top ${change.regression ? 'bg-red-900/20' : ''}`}>
+                        <td className={`py-2 pr-4 ${change.regression ? 'text-red-400 font-medium' : ''}`}>{change.label}</td>
+                        <td className="py-2 pr-4 break-words">{change.before === '' ? <em className="text-white/40">empty</em> : change.before}</td>
+                        <td className="py-2 break-words">{change.after === '' ? <em className="text-white/40">empty</em> : change.after}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="mt-8 border-t border-white/10 pt-4">
+          <button
+            className="text-sm text-primary hover:underline"
+            onClick={() => navigate('/history')}
+          >
+            Back to history
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ComparePage;
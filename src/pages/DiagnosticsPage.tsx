@@ -1,5 +1,14 @@
 // Simple diagnostics page to help identify issues
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import { endpointRegistry } from '../api/client';
+import { EndpointRegistryState, EndpointStatus } from '../api/endpointRegistry';
+
+const STATUS_STYLES: Record<EndpointStatus, string> = {
+  healthy: 'text-green-700',
+  unknown: 'text-gray-500',
+  unhealthy: 'text-red-600',
+  missing: 'text-yellow-700'
+};
 
 const DiagnosticsInfo = () => {
   const envVars = {
@@ -15,6 +24,20 @@ const DiagnosticsInfo = () => {
     cookiesEnabled: navigator.cookieEnabled
   };
   
+  const [endpointState, setEndpointState] = useState<EndpointRegistryState>(endpointRegistry.getState());
+  const [isChecking, setIsChecking] = useState(false);
+  
+  useEffect(() => endpointRegistry.subscribe(setEndpointState), []);
+  
+  const recheckEndpoints = async () => {
+    setIsChecking(true);
+    try {
+      await endpointRegistry.checkAll(true);
+    } finally {
+      setIsChecking(false);
+    }
+  };
+  
   return (
     <div className="container mx-auto p-6 bg-white rounded-lg shadow my-8">
       <h1 className="text-3xl font-bold mb-6 text-blue-700">Frontend Diagnostics</h1>
@@ -63,6 +86,56 @@ const DiagnosticsInfo = () => {
         </div>
       </div>
       
+      <div className="mb-8">
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-xl font-bold text-blue-600">API Endpoints</h2>
+          <button
+            onClick={recheckEndpoints}
+            disabled={isChecking}
+            className="bg-blue-600 text-white px-3 py-1 rounded-md text-sm hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isChecking ? 'Checking...' : 'Re-check endpoints'}
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mb-3">
+          Background health checks: {endpointState.healthChecksRunning ? 'running' : 'stopped'}
+          {endpointState.lastHealthCheckAt && ` (last round ${new Date(endpointState.lastHealthCheckAt).toLocaleTimeString()})`}
+        </p>
+        <div className="overflow-x-auto">
+          <table className="w-full border-collapse border border-gray-300">
+            <thead>
+              <tr className="bg-blue-100">
+                <th className="border border-gray-300 p-2 text-left">Capability</th>
+                <th className="border border-gray-300 p-2 text-left">Endpoint</th>
+                <th className="border border-gray-300 p-2 text-left">Status</th>
+                <th className="border border-gray-300 p-2 text-left">Latency</th>
+                <th className="border border-gray-300 p-2 text-left">Last checked</th>
+                <th className="border border-gray-300 p-2 text-left">Last error</th>
+              </tr>
+            </thead>
+            <tbody>
+              {endpointState.endpoints.map(endpoint => (
+                <tr key={endpoint.id} className="hover:bg-gray-50">
+                  <td className="border border-gray-300 p-2 font-medium">{endpoint.capability}</td>
+                  <td className="border border-gray-300 p-2">
+                    {endpoint.method} {endpoint.url}
+                    {endpointState.preferred[endpoint.capability] === endpoint.id && (
+                      <span className="ml-2 text-xs bg-green-100 text-green-800 px-2 py-0.5 rounded">preferred</span>
+                    )}
+                  </td>
+                  <td className={`border border-gray-300 p-2 ${STATUS_STYLES[endpoint.status]}`}>{endpoint.status}</td>
+                  <td className="border border-gray-300 p-2">{endpoint.latencyMs !== undefined ? `${endpoint.latencyMs} ms` : '-'}</td>
+                  <td className="border border-gray-300 p-2">
+                    {endpoint.lastCheckedAt ? new Date(endpoint.lastCheckedAt).toLocaleTimeString() : 'Never'}
+                  </td>
+                  <td className="border border-gray-300 p-2 text-sm text-gray-600">{endpoint.lastError || '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+      
       <div className="mb-8">
         <h2 className="text-xl font-bold mb-3 text-blue-600">Route Testing</h2>
         <div className="space-y-4">
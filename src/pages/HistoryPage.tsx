@@ -0,0 +1,242 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { toast } from 'sonner';
+
+import { auditHistory, AuditHistoryEntry, AuditHistoryKind } from '../storage/auditHistory';
+import AuditResults from '../components/audit/AuditResults';
+import BatchAuditResults from '../components/audit/BatchAuditResults';
+
+const scoreColor = (score: number | null) =>
+  score === null ? 'text-white/50' :
+  score >= 80 ? 'text-green-400' :
+  score >= 50 ? 'text-yellow-400' :
+  'text-red-400';
+
+const HistoryPage: React.FC = () => {
+  const { id } = useParams<{ id?: string }>();
+  const navigate = useNavigate();
+
+  const [entries, setEntries] = useState<AuditHistoryEntry[]>([]);
+  const [domains, setDomains] = useState<string[]>([]);
+  const [search, setSearch] = useState<string>('');
+  const [domain, setDomain] = useState<string>('');
+  const [kind, setKind] = useState<AuditHistoryKind | ''>('');
+  const [selected, setSelected] = useState<AuditHistoryEntry | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the list whenever the filters change
+  useEffect(() => {
+    if (id) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+
+    Promise.all([
+      auditHistory.list({ search, domain: domain || undefined, kind: kind || undefined }),
+      auditHistory.listDomains()
+    ])
+      .then(([list, allDomains]) => {
+        if (cancelled) return;
+        setEntries(list);
+        setDomains(allDomains);
+        setError(null);
+      })
+      .catch(loadError => {
+        console.error('Failed to load audit history:', loadError);
+        if (!cancelled) setError((loadError as Error).message);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id, search, domain, kind]);
+
+  // Load a single report when opened by id
+  useEffect(() => {
+    if (!id) {
+      setSelected(null);
+      return;
+    }
+
+    setIsLoading(true);
+    auditHistory.get(id)
+      .then(entry => {
+        setSelected(entry || null);
+        setError(entry ? null : 'This report is no longer in your history');
+      })
+      .catch(loadError => setError((loadError as Error).message))
+      .finally(() => setIsLoading(false));
+  }, [id]);
+
+  const handleDelete = async (entry: AuditHistoryEntry) => {
+    try {
+      await auditHistory.remove(entry.id);
+      setEntries(prev => prev.filter(item => item.id !== entry.id));
+      toast('Removed from history', {
+        position: 'bottom-right',
+      });
+    } catch (deleteError) {
+      console.error('Failed to delete history entry:', deleteError);
+      toast('Could not remove report', {
+        description: (deleteError as Error).message,
+        position: 'bottom-right',
+      });
+    }
+  };
+
+  // Show a saved report
+  if (id) {
+    return (
+      <div className="container max-w-6xl mx-auto pt-12 px-4 pb-20">
+        <button
+          className="text-sm text-primary hover:underline mb-4"
+          onClick={() => navigate('/history')}
+        >
+          ← Back to history
+        </button>
+
+        {isLoading && <p className="text-muted-foreground">Loading report...</p>}
+        {!isLoading && error && <p className="text-red-400">{error}</p>}
+
+        {!isLoading && selected && (
+          <div className="bg-card p-8 rounded-lg shadow-lg border border-white/5">
+            <p className="text-xs text-muted-foreground mb-4">
+              Saved {new Date(selected.createdAt).toLocaleString()}
+            </p>
+            {selected.kind === 'single' && selected.result && (
+              <AuditResults result={selected.result} url={selected.url} />
+            )}
+            {selected.kind === 'batch' && selected.batch && (
+              <BatchAuditResults
+                results={selected.batch.results}
+                totalUrls={selected.batch.totalUrls}
+                timestamp={selected.batch.timestamp}
+                cached={selected.batch.cached}
+                cachedAt={selected.batch.cachedAt}
+              />
+            )}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="container max-w-6xl mx-auto pt-12 px-4 pb-20">
+      <div className="bg-card p-8 rounded-lg shadow-lg border border-white/5">
+        <h2 className="text-2xl font-bold mb-2">Audit History</h2>
+        <p className="text-muted-foreground mb-6">
+          Reports you've run in this browser. Open one to view it again without re-running the audit.{' '}
+          <button
+            className="text-primary hover:underline"
+            onClick={() => navigate(domain ? `/rules?domain=${encodeURIComponent(domain)}` : '/rules')}
+          >
+            Rule settings
+          </button>
+        </p>
+
+        {/* Filters */}
+        <div className="flex flex-col md:flex-row gap-3 mb-6">
+          <input
+            type="search"
+            className="flex-1 p-3 bg-black/20 border border-white/10 rounded-md focus:outline-none focus:ring-1 focus:ring-primary"
+            placeholder="Search by URL or page title"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+          <select
+            className="p-3 bg-black/20 border border-white/10 rounded-md focus:outline-none focus:ring-1 focus:ring-primary"
+            value={domain}
+            onChange={(e) => setDomain(e.target.value)}
+          >
+            <option value="">All domains</option>
+            {domains.map(item => (
+              <option key={item} value={item}>{item}</option>
+            ))}
+          </select>
+          <select
+            className="p-3 bg-black/20 border border-white/10 rounded-md focus:outline-none focus:ring-1 focus:ring-primary"
+            value={kind}
+            onChange={(e) => setKind(e.target.value as AuditHistoryKind | '')}
+          >
+            <option value="">All audits</option>
+            <option value="single">Single page</option>
+            <option value="batch">Batch</option>
+          </select>
+        </div>
+
+        {error && (
+          <p className="text-red-400 mb-4">Could not load history: {error}</p>
+        )}
+
+        {isLoading ? (
+          <p className="text-muted-foreground">Loading history...</p>
+        ) : entries.length === 0 ? (
+          <p className="text-muted-foreground">
+            {search || domain || kind ? 'No saved audits match these filters.' : 'No saved audits yet. Completed audits appear here automatically.'}
+          </p>
+        ) : (
+          <ul className="divide-y divide-white/10">
+            {entries.map(entry => (
+              <li key={entry.id} className="py-4 flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs px-2 py-0.5 rounded-full bg-primary/20">
+                      {entry.kind === 'batch' ? `Batch · ${entry.batch?.results.length || 0} URLs` : 'Single page'}
+                    </span>
+                    <span className="text-xs text-muted-foreground">
+                      {new Date(entry.createdAt).toLocaleString()}
+                    </span>
+                  </div>
+                  <div className="font-medium truncate mt-1">{entry.title || entry.url}</div>
+                  {entry.title && <div className="text-sm text-muted-foreground truncate">{entry.url}</div>}
+                </div>
+                <div className="flex items-center gap-4 shrink-0">
+                  <span className={`text-2xl font-bold ${scoreColor(entry.score)}`}>
+                    {entry.score ?? '–'}
+                  </span>
+                  <button
+                    className="text-sm bg-primary hover:bg-primary/90 text-white px-3 py-1.5 rounded-md"
+                    onClick={() => navigate(`/history/${entry.id}`)}
+                  >
+                    Open
+                  </button>
+                  {entry.kind === 'single' && (
+                    <button
+                      className="text-sm text-white/70 hover:text-white"
+                      onClick={() => navigate(`/compare?url=${encodeURIComponent(entry.url)}`)}
+                    >
+                      Compare
+                    </button>
+                  )}
+                  <button
+                    className="text-sm text-white/70 hover:text-white"
+                    onClick={() => navigate(
+                      entry.kind === 'single'
+                        ? `/trends?url=${encodeURIComponent(entry.url)}`
+                        : `/trends?domain=${encodeURIComponent(entry.domains[0] || '')}`
+                    )}
+                  >
+                    Trends
+                  </button>
+                  <button
+                    className="text-sm text-white/70 hover:text-white"
+                    onClick={() => handleDelete(entry)}
+                  >
+                    Delete
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPage;
@@ -0,0 +1,293 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { toast } from 'sonner';
+
+import { AuditCategoryName } from '../api/types';
+import { AuditRule, defaultRules, RuleConfig } from '../analysis/rules';
+import { auditHistory } from '../storage/auditHistory';
+import { ruleConfigs } from '../storage/ruleConfigs';
+
+const CATEGORY_LABELS: Record<AuditCategoryName, string> = {
+  metadata: 'Metadata',
+  content: 'Content',
+  technical: 'Technical',
+  userExperience: 'User Experience'
+};
+
+const SEVERITY_COLORS: Record<string, string> = {
+  critical: 'text-red-400',
+  warning: 'text-yellow-400',
+  info: 'text-blue-400'
+};
+
+/**
+ * Set one threshold of a rule; values equal to the default drop the override
+ */
+function withThreshold(config: RuleConfig, rule: AuditRule, key: string, value: number): RuleConfig {
+  const override = config.overrides?.[rule.id] || {};
+  const thresholds = { ...override.thresholds, [key]: value };
+  if (value === rule.thresholds?.[key]) delete thresholds[key];
+
+  const overrides = { ...config.overrides, [rule.id]: { ...override, thresholds } };
+  if (Object.keys(thresholds).length === 0 && !override.severity && !override.impact) delete overrides[rule.id];
+  return { ...config, overrides };
+}
+
+const RulesPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const domain = searchParams.get('domain') || '';
+
+  const [domains, setDomains] = useState<string[]>([]);
+  const [configuredDomains, setConfiguredDomains] = useState<string[]>([]);
+  const [newDomain, setNewDomain] = useState<string>('');
+  const [config, setConfig] = useState<RuleConfig>({});
+  const [isDirty, setIsDirty] = useState<boolean>(false);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Domains with saved settings or saved audits
+  useEffect(() => {
+    Promise.all([ruleConfigs.list(), auditHistory.listDomains()])
+      .then(([saved, audited]) => {
+        const configured = saved.map(entry => entry.domain);
+        setConfiguredDomains(configured);
+        setDomains(Array.from(new Set([...configured, ...audited])).sort());
+      })
+      .catch(loadError => setError((loadError as Error).message));
+  }, []);
+
+  // Load the chosen project's settings
+  useEffect(() => {
+    setIsDirty(false);
+    if (!domain) {
+      setConfig({});
+      setIsLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    ruleConfigs.get(domain)
+      .then(saved => {
+        if (!cancelled) setConfig(saved?.config || {});
+      })
+      .catch(loadError => {
+        if (!cancelled) setError((loadError as Error).message);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [domain]);
+
+  const rulesByCategory = useMemo(() => {
+    const grouped = {} as Record<AuditCategoryName, AuditRule[]>;
+    defaultRules.forEach(rule => {
+      grouped[rule.category] = [...(grouped[rule.category] || []), rule];
+    });
+    return grouped;
+  }, []);
+
+  const update = (next: RuleConfig) => {
+    setConfig(next);
+    setIsDirty(true);
+  };
+
+  const toggleRule = (rule: AuditRule) => {
+    const disabled = config.disabled || [];
+    update({
+      ...config,
+      disabled: disabled.includes(rule.id) ? disabled.filter(id => id !== rule.id) : [...disabled, rule.id]
+    });
+  };
+
+  const chooseDomain = (value: string) => {
+    const next = value.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '').replace(/\/.*$/, '');
+    if (next) setSearchParams({ domain: next });
+  };
+
+  const handleSave = async () => {
+    try {
+      await ruleConfigs.save(domain, config);
+      setIsDirty(false);
+      setConfiguredDomains(prev => (prev.includes(domain) ? prev : [...prev, domain]));
+      setDomains(prev => (prev.includes(domain) ? prev : [...prev, domain].sort()));
+      toast('Rule settings saved', {
+        description: `New audits of ${domain} use them`,
+        position: 'bottom-right',
+      });
+    } catch (saveError) {
+      console.error('Failed to save rule settings:', saveError);
+      toast('Could not save rule settings', {
+        description: (saveError as Error).message,
+        position: 'bottom-right',
+      });
+    }
+  };
+
+  const handleReset = async () => {
+    try {
+      await ruleConfigs.remove(domain);
+      setConfig({});
+      setIsDirty(false);
+      setConfiguredDomains(prev => prev.filter(item => item !== domain));
+      toast('Back to the default rules', {
+        description: domain,
+        position: 'bottom-right',
+      });
+    } catch (resetError) {
+      console.error('Failed to reset rule settings:', resetError);
+      toast('Could not reset rule settings', {
+        description: (resetError as Error).message,
+        position: 'bottom-right',
+      });
+    }
+  };
+
+  const disabledCount = config.disabled?.length || 0;
+  const overrideCount = Object.keys(config.overrides || {}).length;
+
+  return (
+    <div className="container max-w-6xl mx-auto pt-12 px-4 pb-20">
+      <div className="bg-card p-8 rounded-lg shadow-lg border border-white/5">
+        <h2 className="text-2xl font-bold mb-2">Rule Settings</h2>
+        <p className="text-muted-foreground mb-6">
+          Turn rules off or change their thresholds for one domain. Audits of that domain's pages in this browser use these settings.
+        </p>
+
+        {error && <p className="text-red-400 mb-4">Could not load rule settings: {error}</p>}
+
+        <div className="flex flex-col md:flex-row gap-3 mb-8">
+          <select
+            className="flex-1 p-3 bg-black/20 border border-white/10 rounded-md focus:outline-none focus:ring-1 focus:ring-primary"
+            value={domain}
+            onChange={(e) => chooseDomain(e.target.value)}
+          >
+            <option value="">Choose a domain</option>
+            {domains.map(item => (
+              <option key={item} value={item}>
+                {item}{configuredDomains.includes(item) ? ' (custom rules)' : ''}
+              </option>
+            ))}
+          </select>
+          <form
+            className="flex gap-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              chooseDomain(newDomain);
+              setNewDomain('');
+            }}
+          >
+            <input
+              className="p-3 bg-black/20 border border-white/10 rounded-md focus:outline-none focus:ring-1 focus:ring-primary"
+              placeholder="Another domain, e.g. example.com"
+              value={newDomain}
+              onChange={(e) => setNewDomain(e.target.value)}
+            />
+            <button
+              type="submit"
+              className="text-sm bg-white/10 hover:bg-white/20 text-white px-4 rounded-md"
+            >
+              Open
+            </button>
+          </form>
+        </div>
+
+        {!domain && (
+          <p className="text-muted-foreground">Choose a domain to see its rules.</p>
+        )}
+
+        {domain && isLoading && <p className="text-muted-foreground">Loading rule settings...</p>}
+
+        {domain && !isLoading && (
+          <div className="space-y-8">
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+              <p className="text-sm text-muted-foreground">
+                {disabledCount === 0 && overrideCount === 0
+                  ? `${domain} uses the default rules`
+                  : `${domain}: ${disabledCount} rules off, ${overrideCount} with custom thresholds`}
+              </p>
+              <div className="flex gap-3">
+                <button
+                  className="text-sm bg-white/10 hover:bg-white/20 text-white px-4 py-2 rounded-md disabled:opacity-50"
+                  onClick={handleReset}
+                  disabled={!configuredDomains.includes(domain) && !isDirty}
+                >
+                  Reset to defaults
+                </button>
+                <button
+                  className="text-sm bg-primary hover:bg-primary/90 text-white px-4 py-2 rounded-md disabled:opacity-50"
+                  onClick={handleSave}
+                  disabled={!isDirty}
+                >
+                  Save
+                </button>
+              </div>
+            </div>
+
+            {(Object.keys(CATEGORY_LABELS) as AuditCategoryName[]).map(category => (
+              <div key={category}>
+                <h3 className="text-lg font-semibold mb-3">{CATEGORY_LABELS[category]}</h3>
+                <div className="space-y-2">
+                  {(rulesByCategory[category] || []).map(rule => {
+                    const enabled = !config.disabled?.includes(rule.id);
+                    const thresholds = config.overrides?.[rule.id]?.thresholds || {};
+
+                    return (
+                      <div
+                        key={rule.id}
+                        className={`p-3 rounded-md bg-black/20 border border-white/10 flex flex-col md:flex-row md:items-center gap-3 ${
+                          enabled ? '' : 'opacity-60'
+                        }`}
+                      >
+                        <label className="flex items-center gap-3 flex-1 cursor-pointer">
+                          <input type="checkbox" checked={enabled} onChange={() => toggleRule(rule)} />
+                          <span>
+                            <span className="text-sm">{rule.title}</span>
+                            <span className={`ml-2 text-xs ${SEVERITY_COLORS[rule.severity]}`}>{rule.severity}</span>
+                            <span className="block text-xs text-white/40 font-mono">{rule.id}</span>
+                          </span>
+                        </label>
+                        {Object.entries(rule.thresholds || {}).map(([key, defaultValue]) => (
+                          <label key={key} className="flex items-center gap-2 text-xs text-white/60">
+                            <span className="font-mono">{key}</span>
+                            <input
+                              type="number"
+                              min={0}
+                              step="any"
+                              className="w-24 p-1.5 bg-black/20 border border-white/10 rounded-md text-white focus:outline-none focus:ring-1 focus:ring-primary"
+                              value={thresholds[key] ?? defaultValue}
+                              disabled={!enabled}
+                              onChange={(e) => {
+                                if (e.target.value !== '') update(withThreshold(config, rule, key, Number(e.target.value)));
+                              }}
+                            />
+                          </label>
+                        ))}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="mt-8 border-t border-white/10 pt-4 flex gap-6">
+          <button
+            className="text-sm text-primary hover:underline"
+            onClick={() => navigate('/history')}
+          >
+            Back to history
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RulesPage;
@@ -0,0 +1,254 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+
+import { auditHistory, getDomain } from '../storage/auditHistory';
+import {
+  buildDomainTrend,
+  buildUrlTrend,
+  issueAnnotations,
+  samplesFromHistory,
+  TrendBucket,
+  TrendSample
+} from '../analysis/scoreTrends';
+
+type TrendScope = 'url' | 'domain';
+
+// Overall score first, drawn thicker than the categories
+const SERIES = [
+  { key: 'score', label: 'Overall', color: '#ffffff', width: 3 },
+  { key: 'metadata', label: 'Metadata', color: '#8884d8', width: 2 },
+  { key: 'content', label: 'Content', color: '#82ca9d', width: 2 },
+  { key: 'technical', label: 'Technical', color: '#ffc658', width: 2 },
+  { key: 'userExperience', label: 'User Experience', color: '#ff8042', width: 2 }
+];
+
+const BUCKET_LABELS: Record<TrendBucket, string> = {
+  run: 'Every run',
+  day: 'Per day',
+  week: 'Per week'
+};
+
+const formatDate = (time: number) => new Date(time).toLocaleDateString();
+
+const TrendsPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const [samples, setSamples] = useState<TrendSample[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const scope: TrendScope = searchParams.has('domain') ? 'domain' : 'url';
+  const target = searchParams.get(scope) || '';
+  const bucket = (searchParams.get('bucket') as TrendBucket) || 'day';
+
+  useEffect(() => {
+    auditHistory.list()
+      .then(entries => setSamples(samplesFromHistory(entries)))
+      .catch(loadError => setError((loadError as Error).message))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  // Targets with at least one sample, with how many audits each has
+  const targets = useMemo(() => {
+    const counts = new Map<string, number>();
+    samples.forEach(sample => {
+      const key = scope === 'domain' ? getDomain(sample.url) : sample.url;
+      counts.set(key, (counts.get(key) || 0) + 1);
+    });
+    return Array.from(counts.entries()).sort(([a], [b]) => a.localeCompare(b));
+  }, [samples, scope]);
+
+  const points = useMemo(() => {
+    if (!target) return [];
+    return scope === 'domain' ? buildDomainTrend(samples, target, bucket) : buildUrlTrend(samples, target);
+  }, [samples, scope, target, bucket]);
+
+  const annotations = useMemo(() => issueAnnotations(points), [points]);
+
+  const latest = points[points.length - 1];
+  const first = points[0];
+
+  const setScope = (next: TrendScope) => setSearchParams(next === 'domain' ? { domain: '' } : { url: '' });
+  const setTarget = (value: string) => setSearchParams(scope === 'domain' ? { domain: value, bucket } : { url: value });
+
+  return (
+    <div className="container max-w-6xl mx-auto pt-12 px-4 pb-20">
+      <div className="bg-card p-8 rounded-lg shadow-lg border border-white/5">
+        <h2 className="text-2xl font-bold mb-2">Score Trends</h2>
+        <p className="text-muted-foreground mb-6">
+          How scores developed across saved audits, per page or for a whole domain. Marked dates are where the number of issues changed.
+        </p>
+
+        {error && <p className="text-red-400 mb-4">Could not load history: {error}</p>}
+
+        {isLoading ? (
+          <p className="text-muted-foreground">Loading history...</p>
+        ) : (
+          <div className="flex flex-col md:flex-row gap-3 mb-8">
+            <select
+              className="p-3 bg-black/20 border border-white/10 rounded-md focus:outline-none focus:ring-1 focus:ring-primary"
+              value={scope}
+              onChange={(e) => setScope(e.target.value as TrendScope)}
+            >
+              <option value="url">Per URL</option>
+              <option value="domain">Per domain</option>
+            </select>
+            <select
+              className="flex-1 p-3 bg-black/20 border border-white/10 rounded-md focus:outline-none focus:ring-1 focus:ring-primary"
+              value={target}
+              onChange={(e) => setTarget(e.target.value)}
+            >
+              <option value="">{scope === 'domain' ? 'Choose a domain' : 'Choose a URL'}</option>
+              {targets.map(([value, count]) => (
+                <option key={value} value={value}>{value} ({count} audits)</option>
+              ))}
+            </select>
+            {scope === 'domain' && (
+              <select
+                className="p-3 bg-black/20 border border-white/10 rounded-md focus:outline-none focus:ring-1 focus:ring-primary"
+                value={bucket}
+                onChange={(e) => setSearchParams({ domain: target, bucket: e.target.value })}
+              >
+                {(Object.keys(BUCKET_LABELS) as TrendBucket[]).map(value => (
+                  <option key={value} value={value}>{BUCKET_LABELS[value]}</option>
+                ))}
+              </select>
+            )}
+          </div>
+        )}
+
+        {!isLoading && target && points.length < 2 && (
+          <p className="text-muted-foreground">
+            Only one data point so far. Audit it again later to start a trend.
+          </p>
+        )}
+
+        {points.length >= 2 && (
+          <div className="space-y-8">
+            {/* Summary */}
+            <div className="grid md:grid-cols-3 gap-4">
+              <div className="p-4 rounded-lg bg-black/20 border border-white/10">
+                <div className="text-sm text-muted-foreground">Overall score</div>
+                <div className="text-2xl font-bold">
+                  {first.score} → {latest.score}{' '}
+                  <span className={latest.score < first.score ? 'text-red-400' : latest.score > first.score ? 'text-green-400' : 'text-white/50'}>
+                    {latest.score - first.score > 0 ? `+${latest.score - first.score}` : latest.score - first.score}
+                  </span>
+                </div>
+              </div>
+              <div className="p-4 rounded-lg bg-black/20 border border-white/10">
+                <div className="text-sm text-muted-foreground">Issues</div>
+                <div className="text-2xl font-bold">{first.totalIssues} → {latest.totalIssues}</div>
+              </div>
+              <div className="p-4 rounded-lg bg-black/20 border border-white/10">
+                <div className="text-sm text-muted-foreground">Period</div>
+                <div className="text-lg font-bold">{formatDate(first.time)} – {formatDate(latest.time)}</div>
+              </div>
+            </div>
+
+            {/* Scores over time */}
+            <div className="h-80">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={points} margin={{ top: 20, right: 20, left: 0, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" opacity={0.1} />
+                  <XAxis
+                    dataKey="time"
+                    type="number"
+                    scale="time"
+                    domain={['dataMin', 'dataMax']}
+                    tickFormatter={formatDate}
+                    stroke="#cccccc66"
+                    tick={{ fontSize: 12 }}
+                  />
+                  <YAxis domain={[0, 100]} stroke="#cccccc66" tick={{ fontSize: 12 }} />
+                  <Tooltip
+                    labelFormatter={(time: number) => new Date(time).toLocaleString()}
+                    contentStyle={{ backgroundColor: '#111', borderColor: '#333', color: '#fff' }}
+                  />
+                  <Legend />
+                  {annotations.map(annotation => (
+                    <ReferenceLine
+                      key={annotation.time}
+                      x={annotation.time}
+                      stroke={annotation.issueDelta > 0 ? '#f87171' : '#4ade80'}
+                      strokeDasharray="4 4"
+                      label={{ value: annotation.label, position: 'top', fill: annotation.issueDelta > 0 ? '#f87171' : '#4ade80', fontSize: 11 }}
+                    />
+                  ))}
+                  {SERIES.map(series => (
+                    <Line
+                      key={series.key}
+                      type="monotone"
+                      dataKey={series.key}
+                      name={series.label}
+                      stroke={series.color}
+                      strokeWidth={series.width}
+                      dot={{ r: 3 }}
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+
+            {/* Issue count changes */}
+            <div>
+              <h3 className="text-lg font-semibold mb-3">Issue Count Changes</h3>
+              {annotations.length === 0 ? (
+                <p className="text-muted-foreground text-sm">The number of issues hasn't changed in this period.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {annotations.map(annotation => (
+                    <li
+                      key={annotation.time}
+                      className={`p-3 rounded-md border flex items-center justify-between ${
+                        annotation.issueDelta > 0
+                          ? 'bg-red-900/20 border-red-500/40'
+                          : 'bg-green-900/10 border-green-500/20'
+                      }`}
+                    >
+                      <span className="text-sm">{new Date(annotation.time).toLocaleString()}</span>
+                      <span className={`text-sm font-semibold ${annotation.issueDelta > 0 ? 'text-red-400' : 'text-green-400'}`}>
+                        {annotation.label}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="mt-8 border-t border-white/10 pt-4 flex gap-6">
+          <button
+            className="text-sm text-primary hover:underline"
+            onClick={() => navigate('/history')}
+          >
+            Back to history
+          </button>
+          {scope === 'url' && target && (
+            <button
+              className="text-sm text-primary hover:underline"
+              onClick={() => navigate(`/compare?url=${encodeURIComponent(target)}`)}
+            >
+              Compare runs
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TrendsPage;
@@ -0,0 +1,334 @@
+/**
+ * Audit report generator
+ * Renders a single-page audit as a self-contained, branded HTML document
+ * (inline styles, no external assets) that can be downloaded as-is or
+ * printed to PDF
+ */
+import { AuditCategoryName, AuditIssue, AuditResult, SeoAnalysisResult } from '../api/types';
+import { isAuditResult, normalizeAuditResult } from '../api/normalizer';
+import { SEVERITY_ORDER } from '../analysis/rules';
+import { downloadFile } from '../export/download';
+
+export interface AuditReportOptions {
+  // Shown in the report header and footer
+  brandName?: string;
+  // Defaults to now
+  generatedAt?: Date;
+}
+
+const CATEGORY_LABELS: Record<AuditCategoryName, string> = {
+  metadata: 'Metadata',
+  content: 'Content',
+  technical: 'Technical',
+  userExperience: 'User Experience'
+};
+
+const PRIORITY_ORDER: Record<string, number> = {
+  high: 0,
+  medium: 1,
+  low: 2
+};
+
+const BRAND_COLORS = {
+  purple: '#8b5cf6',
+  blue: '#0ea5e9',
+  good: '#16a34a',
+  average: '#ca8a04',
+  poor: '#dc2626'
+};
+
+const REPORT_STYLES = `
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; color: #111827; background: #f3f4f6; line-height: 1.5; }
+  .page { max-width: 880px; margin: 0 auto; background: #fff; }
+  header { padding: 32px 40px; color: #fff; background: linear-gradient(135deg, ${BRAND_COLORS.purple}, ${BRAND_COLORS.blue}); }
+  header .brand { font-weight: 700; letter-spacing: 0.02em; opacity: 0.9; }
+  header h1 { margin: 8px 0 4px; font-size: 26px; }
+  header .url { word-break: break-all; opacity: 0.9; }
+  header .meta { margin-top: 8px; font-size: 13px; opacity: 0.8; }
+  main { padding: 32px 40px; }
+  section { margin-bottom: 32px; page-break-inside: avoid; }
+  h2 { font-size: 18px; margin: 0 0 12px; padding-bottom: 6px; border-bottom: 2px solid #e5e7eb; }
+  .summary { display: flex; align-items: center; gap: 32px; }
+  .stats { display: grid; grid-template-columns: repeat(3, 1fr); gap: 12px; flex: 1; }
+  .stat { border: 1px solid #e5e7eb; border-radius: 8px; padding: 12px; }
+  .stat .label { font-size: 12px; color: #6b7280; }
+  .stat .value { font-size: 22px; font-weight: 700; }
+  .category { border: 1px solid #e5e7eb; border-radius: 8px; padding: 12px 16px; margin-bottom: 12px; page-break-inside: avoid; }
+  .category-header { display: flex; justify-content: space-between; align-items: center; font-weight: 600; }
+  .bar { height: 8px; background: #e5e7eb; border-radius: 4px; overflow: hidden; margin: 8px 0; }
+  .bar div { height: 100%; border-radius: 4px; }
+  ul.issues, ul.recommendations { list-style: none; margin: 0; padding: 0; }
+  ul.issues li, ul.recommendations li { padding: 8px 0; border-top: 1px solid #f3f4f6; font-size: 14px; }
+  .badge { display: inline-block; min-width: 64px; text-align: center; font-size: 11px; font-weight: 600; text-transform: uppercase; padding: 2px 8px; border-radius: 999px; margin-right: 8px; color: #fff; }
+  .badge.critical, .badge.high { background: ${BRAND_COLORS.poor}; }
+  .badge.warning, .badge.medium { background: ${BRAND_COLORS.average}; }
+  .badge.info, .badge.low { background: #2563eb; }
+  .muted { color: #6b7280; font-size: 13px; }
+  .outline { margin: 0; padding-left: 0; list-style: none; font-size: 14px; }
+  .outline li { padding: 3px 0; }
+  .outline .level { display: inline-block; width: 32px; font-weight: 700; color: ${BRAND_COLORS.purple}; }
+  .outline .h2 { padding-left: 24px; }
+  table { width: 100%; border-collapse: collapse; font-size: 14px; }
+  td { padding: 8px 4px; border-top: 1px solid #f3f4f6; vertical-align: top; }
+  td.check { width: 40%; }
+  td.status { width: 90px; font-weight: 600; }
+  .pass { color: ${BRAND_COLORS.good}; }
+  .fail { color: ${BRAND_COLORS.poor}; }
+  .warn { color: ${BRAND_COLORS.average}; }
+  footer { padding: 16px 40px 32px; font-size: 12px; color: #9ca3af; text-align: center; }
+  @page { size: A4; margin: 12mm; }
+  @media print {
+    body { background: #fff; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+    .page { max-width: none; }
+  }
+`;
+
+/**
+ * Escape text for safe inclusion in HTML
+ */
+function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function scoreColor(score: number): string {
+  return score >= 80 ? BRAND_COLORS.good : score >= 50 ? BRAND_COLORS.average : BRAND_COLORS.poor;
+}
+
+function formatType(type: string): string {
+  return type.replace(/_/g, ' ').replace(/\b\w/g, letter => letter.toUpperCase());
+}
+
+/**
+ * Circular score gauge as inline SVG
+ */
+function renderGauge(score: number): string {
+  const radius = 52;
+  const circumference = 2 * Math.PI * radius;
+  const filled = (Math.max(0, Math.min(100, score)) / 100) * circumference;
+  const color = scoreColor(score);
+
+  return `
+    <svg width="140" height="140" viewBox="0 0 140 140" role="img" aria-label="Score ${score} out of 100">
+      <circle cx="70" cy="70" r="${radius}" fill="none" stroke="#e5e7eb" stroke-width="14" />
+      <circle cx="70" cy="70" r="${radius}" fill="none" stroke="${color}" stroke-width="14" stroke-linecap="round"
+        stroke-dasharray="${filled.toFixed(1)} ${circumference.toFixed(1)}" transform="rotate(-90 70 70)" />
+      <text x="70" y="68" text-anchor="middle" font-size="34" font-weight="700" fill="${color}">${score}</text>
+      <text x="70" y="92" text-anchor="middle" font-size="12" fill="#6b7280">out of 100</text>
+    </svg>`;
+}
+
+function renderIssue(issue: AuditIssue): string {
+  const current = issue.current !== undefined && issue.current !== '' ? ` <span class="muted">(current: ${escapeHtml(issue.current)})</span>` : '';
+  return `
+    <li>
+      <span class="badge ${escapeHtml(issue.severity)}">${escapeHtml(issue.severity)}</span>
+      <strong>${escapeHtml(formatType(issue.type))}</strong>${current}
+      <div class="muted">${escapeHtml(issue.recommendation)}</div>
+    </li>`;
+}
+
+function renderCategories(result: AuditResult): string {
+  return (Object.keys(CATEGORY_LABELS) as AuditCategoryName[]).map(name => {
+    const category = result.categories[name];
+    const issues = [...category.issues].sort((a, b) => (SEVERITY_ORDER[a.severity] ?? 3) - (SEVERITY_ORDER[b.severity] ?? 3));
+
+    return `
+      <div class="category">
+        <div class="category-header">
+          <span>${CATEGORY_LABELS[name]}</span>
+          <span style="color: ${scoreColor(category.score)}">${category.score}/100</span>
+        </div>
+        <div class="bar"><div style="width: ${category.score}%; background: ${scoreColor(category.score)}"></div></div>
+        ${issues.length > 0
+          ? `<ul class="issues">${issues.map(renderIssue).join('')}</ul>`
+          : '<p class="muted">No issues found.</p>'}
+      </div>`;
+  }).join('');
+}
+
+function renderRecommendations(result: AuditResult): string {
+  if (result.recommendations.length === 0) {
+    return '<p class="muted">No recommendations. Nice work.</p>';
+  }
+
+  const sorted = [...result.recommendations].sort(
+    (a, b) => (PRIORITY_ORDER[a.priority] ?? 3) - (PRIORITY_ORDER[b.priority] ?? 3)
+  );
+
+  return `
+    <ul class="recommendations">
+      ${sorted.map(recommendation => `
+        <li>
+          <span class="badge ${escapeHtml(recommendation.priority)}">${escapeHtml(recommendation.priority)}</span>
+          ${escapeHtml(recommendation.description)}
+        </li>`).join('')}
+    </ul>`;
+}
+
+function renderHeadingOutline(result: AuditResult): string {
+  const { headings } = result.pageData;
+  const items = [
+    ...headings.h1Texts.map(text => `<li><span class="level">H1</span>${escapeHtml(text)}</li>`),
+    ...headings.h2Texts.map(text => `<li class="h2"><span class="level">H2</span>${escapeHtml(text)}</li>`)
+  ];
+
+  return `
+    <p class="muted">${headings.h1Count} H1, ${headings.h2Count} H2 and ${headings.h3Count} H3 headings.</p>
+    ${items.length > 0 ? `<ul class="outline">${items.join('')}</ul>` : '<p class="muted">No headings found.</p>'}`;
+}
+
+function renderTechnicalChecks(result: AuditResult): string {
+  const { pageData } = result;
+  const { technical } = pageData;
+
+  // [check, state, detail]
+  const checks: Array<[string, 'pass' | 'warn' | 'fail', string]> = [
+    ['Title tag', pageData.title.text ? 'pass' : 'fail', pageData.title.text ? `"${pageData.title.text}" (${pageData.title.length} characters)` : 'Missing'],
+    ['Meta description', pageData.metaDescription.text ? 'pass' : 'fail', pageData.metaDescription.text ? `"${pageData.metaDescription.text}" (${pageData.metaDescription.length} characters)` : 'Missing'],
+    ['Single H1', pageData.headings.h1Count === 1 ? 'pass' : pageData.headings.h1Count === 0 ? 'fail' : 'warn', `${pageData.headings.h1Count} found`],
+    ['Canonical URL', technical.hasCanonical ? 'pass' : 'warn', technical.canonicalUrl || 'Not set'],
+    ['Mobile viewport', technical.hasMobileViewport ? 'pass' : 'fail', technical.hasMobileViewport ? 'Present' : 'Missing'],
+    ['Structured data', technical.hasStructuredData ? 'pass' : 'warn', technical.structuredDataTypes.join(', ') || 'None found'],
+    ['Image alt text', pageData.images.withoutAlt === 0 ? 'pass' : 'warn', `${pageData.images.withoutAlt} of ${pageData.images.total} images missing alt text`],
+    ['Links', pageData.links.internalCount > 0 ? 'pass' : 'warn', `${pageData.links.internalCount} internal, ${pageData.links.externalCount} external`],
+    ['Hreflang', pageData.hreflang.length > 0 ? 'pass' : 'warn', pageData.hreflang.length > 0 ? pageData.hreflang.map(tag => tag.hreflang).join(', ') : 'None declared']
+  ];
+
+  const labels = { pass: 'Pass', warn: 'Review', fail: 'Fail' };
+
+  return `
+    <table>
+      ${checks.map(([check, state, detail]) => `
+        <tr>
+          <td class="check">${escapeHtml(check)}</td>
+          <td class="status ${state}">${labels[state]}</td>
+          <td class="muted">${escapeHtml(detail)}</td>
+        </tr>`).join('')}
+    </table>`;
+}
+
+/**
+ * Render the full report
+ * @param input Canonical result, or a raw backend result which is normalized first
+ * @param options Branding and report date
+ * @returns Complete HTML document
+ */
+export function renderAuditReportHtml(input: AuditResult | SeoAnalysisResult, options: AuditReportOptions = {}): string {
+  const result = isAuditResult(input) ? input : normalizeAuditResult(input);
+  const brandName = options.brandName || 'MardenSEO';
+  const generatedAt = options.generatedAt || new Date();
+  const analyzedAt = result.analyzedAt ? new Date(result.analyzedAt) : generatedAt;
+
+  const body = result.status === 'error'
+    ? `<section><h2>Audit failed</h2><p class="fail">${escapeHtml(result.error?.message || 'The page could not be analyzed.')}</p></section>`
+    : `
+      <section>
+        <h2>Summary</h2>
+        <div class="summary">
+          ${renderGauge(result.score)}
+          <div class="stats">
+            <div class="stat"><div class="label">Issues found</div><div class="value">${result.totalIssuesCount}</div></div>
+            <div class="stat"><div class="label">Critical issues</div><div class="value" style="color: ${BRAND_COLORS.poor}">${result.criticalIssuesCount}</div></div>
+            <div class="stat"><div class="label">Recommendations</div><div class="value">${result.recommendations.length}</div></div>
+          </div>
+        </div>
+      </section>
+      <section>
+        <h2>Recommendations</h2>
+        ${renderRecommendations(result)}
+      </section>
+      <section>
+        <h2>Category Breakdown</h2>
+        ${renderCategories(result)}
+      </section>
+      <section>
+        <h2>Heading Outline</h2>
+        ${renderHeadingOutline(result)}
+      </section>
+      <section>
+        <h2>Technical Checks</h2>
+        ${renderTechnicalChecks(result)}
+      </section>`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>SEO Audit Report – ${escapeHtml(result.url)}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+<div class="page">
+  <header>
+    <div class="brand">${escapeHtml(brandName)}</div>
+    <h1>SEO Audit Report</h1>
+    <div class="url">${escapeHtml(result.url)}</div>
+    <div class="meta">Analyzed ${escapeHtml(analyzedAt.toLocaleString())}</div>
+  </header>
+  <main>${body}</main>
+  <footer>Generated by ${escapeHtml(brandName)} on ${escapeHtml(generatedAt.toLocaleDateString())}</footer>
+</div>
+</body>
+</html>`;
+}
+
+/**
+ * File name for a report, e.g. seo-report-example.com-2024-05-01.html
+ */
+export function reportFileName(result: AuditResult, extension: string): string {
+  let host = 'page';
+  try {
+    host = new URL(result.url).hostname.replace(/^www\./, '');
+  } catch (e) {
+    // Keep the generic name
+  }
+  return `seo-report-${host}-${new Date().toISOString().slice(0, 10)}.${extension}`;
+}
+
+/**
+ * Download the report as a standalone HTML file
+ */
+export function downloadAuditReportHtml(result: AuditResult, options: AuditReportOptions = {}): void {
+  downloadFile(renderAuditReportHtml(result, options), reportFileName(result, 'html'), 'text/html;charset=utf-8;');
+}
+
+/**
+ * Open the browser's print dialog for the report so it can be saved as a
+ * PDF. The report is printed from a hidden frame, leaving the app untouched
+ */
+export function printAuditReportPdf(result: AuditResult, options: AuditReportOptions = {}): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const frame = document.createElement('iframe');
+    frame.setAttribute('aria-hidden', 'true');
+    frame.style.position = 'fixed';
+    frame.style.width = '0';
+    frame.style.height = '0';
+    frame.style.border = '0';
+
+    frame.onload = () => {
+      const frameWindow = frame.contentWindow;
+      if (!frameWindow) {
+        frame.remove();
+        reject(new Error('Could not prepare the report for printing'));
+        return;
+      }
+
+      // The dialog title becomes the suggested PDF file name
+      frameWindow.document.title = reportFileName(result, 'pdf').replace(/\.pdf$/, '');
+      frameWindow.addEventListener('afterprint', () => frame.remove(), { once: true });
+      frameWindow.focus();
+      frameWindow.print();
+      resolve();
+    };
+
+    frame.srcdoc = renderAuditReportHtml(result, options);
+    document.body.appendChild(frame);
+  });
+}
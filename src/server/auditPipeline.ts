@@ -0,0 +1,159 @@
+/**
+ * Server-side audit pipeline
+ * Fetches a page from Node and runs it through the same HTML analysis the
+ * browser uses, with linkedom standing in for DOMParser
+ */
+import { DOMParser } from 'linkedom';
+
+import { AuditResult, HttpPageData, LabPerformanceData } from '../api/types';
+import { createErrorResult } from '../api/normalizer';
+import { isValidUrl, normalizeUrl, toRequestUrl } from '../api/url';
+import { extractPageData, HtmlParser, scorePageData } from '../analysis/htmlAnalyzer';
+import { fetchWithRedirects, pickHttpHeaders, probeUrlVariants, RedirectError } from './httpAudit';
+import { measureLabPerformance } from './labPerformance';
+
+export interface ServerAuditOptions {
+  // Per-page fetch timeout
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  // Also request the http:// and www/non-www variants of the page (default true)
+  probeVariants?: boolean;
+  // Also load the page in headless Chromium to measure Web Vitals (default false)
+  measurePerformance?: boolean;
+}
+
+export const USER_AGENT = 'MardenSEOAudit/1.0';
+
+export interface FetchedPage {
+  // URL that was requested, normalized
+  url: string;
+  // URL after redirects
+  finalUrl: string;
+  html: string;
+  // Redirects and headers as served
+  http: HttpPageData;
+  // Lab measurements, when taken
+  performance?: LabPerformanceData;
+}
+
+export const parseHtml: HtmlParser = html => new DOMParser().parseFromString(html, 'text/html') as unknown as Document;
+
+/**
+ * Message for a failed fetch. fetch only says "fetch failed" and puts the
+ * system or TLS error on cause. Its code (ENOTFOUND, ECONNREFUSED, CERT_...)
+ * is also reported as error.code, which clients map to DNS, TLS and refused
+ * connection errors
+ */
+function describeFetchError(error: Error & { cause?: { code?: string; message?: string } }): string {
+  const { code, message } = error.cause || {};
+  const detail = code && message && !message.includes(code) ? `${code}: ${message}` : message || code;
+  return detail ? `${error.message} (${detail})` : error.message;
+}
+
+/**
+ * Fetch a page's HTML
+ * The exact URL is requested (only a missing protocol is added) and redirects
+ * are recorded, so the result's url is normalized but the chain is real
+ * @param url URL to fetch
+ * @param options Timeout, cancellation and variant probing
+ * @returns The page, or an error result explaining why it couldn't be fetched
+ */
+export async function fetchPage(url: string, options: ServerAuditOptions = {}): Promise<FetchedPage | AuditResult> {
+  const normalizedUrl = normalizeUrl(url);
+  const requestUrl = toRequestUrl(url);
+
+  if (!isValidUrl(normalizedUrl) || !isValidUrl(requestUrl)) {
+    return createErrorResult(url, 'Invalid URL format', 'invalid_url');
+  }
+
+  const { timeoutMs = 20000, signal, probeVariants = true } = options;
+  const headers = {
+    'Accept': 'text/html',
+    'Accept-Encoding': 'gzip, deflate, br',
+    'User-Agent': USER_AGENT
+  };
+
+  try {
+    const { response, finalUrl, redirects } = await fetchWithRedirects(requestUrl, { headers, timeoutMs, signal });
+
+    if (!response.ok) {
+      await response.body?.cancel();
+      return createErrorResult(normalizedUrl, `Page responded with HTTP ${response.status}`, 'http_error');
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    if (contentType && !contentType.includes('html')) {
+      await response.body?.cancel();
+      return createErrorResult(normalizedUrl, `Expected HTML but got ${contentType}`, 'unsupported_content');
+    }
+
+    const html = await response.text();
+    const variants = probeVariants ? await probeUrlVariants(finalUrl, { headers, timeoutMs, signal }) : {};
+
+    return {
+      url: normalizedUrl,
+      finalUrl,
+      html,
+      http: {
+        requestedUrl: requestUrl,
+        finalUrl,
+        status: response.status,
+        redirects,
+        headers: pickHttpHeaders(response.headers),
+        ...variants
+      }
+    };
+  } catch (error) {
+    if (error instanceof RedirectError) {
+      return createErrorResult(normalizedUrl, error.message, error.type);
+    }
+    if (signal?.aborted) {
+      return createErrorResult(normalizedUrl, 'The audit was cancelled', 'cancelled');
+    }
+    if ((error as Error).name === 'TimeoutError') {
+      return createErrorResult(normalizedUrl, 'Timed out fetching the page', 'timeout');
+    }
+    return createErrorResult(normalizedUrl, describeFetchError(error), 'fetch_error', error.cause?.code);
+  }
+}
+
+/**
+ * Whether fetchPage returned an error result instead of a page
+ */
+export function isFetchError(page: FetchedPage | AuditResult): page is AuditResult {
+  return !('html' in page);
+}
+
+/**
+ * Analyze a fetched page, including how it was served
+ */
+export function analyzePage(page: FetchedPage): AuditResult {
+  const pageData = { ...extractPageData(parseHtml(page.html), page.finalUrl), http: page.http };
+  if (page.performance) pageData.performance = page.performance;
+  return scorePageData(pageData, page.url);
+}
+
+/**
+ * Fetch and analyze one URL
+ * Failures (bad URL, network error, non-HTML response) come back as error
+ * results rather than exceptions, so one bad page never stops a run
+ * @param url URL to audit
+ * @param options Timeout, cancellation, variant probing and lab measurement
+ * @returns Canonical audit result
+ */
+export async function auditUrl(url: string, options: ServerAuditOptions = {}): Promise<AuditResult> {
+  const page = await fetchPage(url, options);
+  if (isFetchError(page)) return page;
+
+  if (options.measurePerformance) {
+    try {
+      page.performance = await measureLabPerformance(page.finalUrl, { signal: options.signal });
+    } catch (error) {
+      if (options.signal?.aborted) return createErrorResult(page.url, 'The audit was cancelled', 'cancelled');
+      // The rest of the audit stands without lab metrics
+      console.warn(`[audit] Could not measure performance of ${page.finalUrl}:`, (error as Error).message);
+    }
+  }
+
+  return analyzePage(page);
+}
@@ -0,0 +1,127 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { delay } from '../api/abort';
+import { JobResultsResponse } from '../api/types';
+import { auditUrl } from './auditPipeline';
+import { AuditRequestError, createAuditService } from './auditService';
+
+const PAGE = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <title>Fixture page for the audit pipeline</title>
+  <meta name="description" content="A page served from a local server so the audit runs end to end without the network.">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <link rel="canonical" href="/page">
+</head>
+<body>
+  <h1>Fixture page</h1>
+  <h2>Section</h2>
+  <p>Some text with an <a href="/other">internal link</a> and <a href="https://example.org/">an external one</a>.</p>
+  <img src="/photo.jpg">
+</body>
+</html>`;
+
+// Fixture pages by path: [status, headers, body]
+const ROUTES: Record<string, [number, Record<string, string>, string]> = {
+  '/page': [200, { 'Content-Type': 'text/html; charset=utf-8' }, PAGE],
+  '/old': [301, { Location: '/page' }, ''],
+  '/missing': [404, { 'Content-Type': 'text/html' }, '<h1>Not found</h1>'],
+  '/data.json': [200, { 'Content-Type': 'application/json' }, '{}']
+};
+
+let server: Server;
+let origin: string;
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    const [status, headers, body] = ROUTES[request.url] || ROUTES['/missing'];
+    response.writeHead(status, headers).end(body);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+describe('auditUrl', () => {
+  it('fetches and analyzes a page', async () => {
+    const result = await auditUrl(`${origin}/page`);
+
+    expect(result.status).not.toBe('error');
+    expect(result.url).toBe(`${origin}/page`);
+    expect(result.pageData.title.text).toBe('Fixture page for the audit pipeline');
+    expect(result.pageData.headings.h1Count).toBe(1);
+    expect(result.pageData.technical.hasCanonical).toBe(true);
+    expect(result.pageData.technical.hasMobileViewport).toBe(true);
+    expect(result.pageData.images).toEqual({ total: 1, withoutAlt: 1 });
+    expect(result.pageData.http).toMatchObject({ status: 200, redirects: [] });
+  });
+
+  it('records redirects', async () => {
+    const result = await auditUrl(`${origin}/old`);
+
+    expect(result.pageData.http.finalUrl).toBe(`${origin}/page`);
+    expect(result.pageData.http.redirects).toEqual([{ url: `${origin}/old`, status: 301 }]);
+  });
+
+  it('reports HTTP errors and non-HTML responses as error results', async () => {
+    const missing = await auditUrl(`${origin}/missing`);
+    expect(missing.status).toBe('error');
+    expect(missing.error).toEqual({ type: 'http_error', message: 'Page responded with HTTP 404' });
+
+    const json = await auditUrl(`${origin}/data.json`);
+    expect(json.error?.type).toBe('unsupported_content');
+  });
+
+  it('keeps the system error code of failed fetches', async () => {
+    // A port nothing listens on
+    const closed = createServer();
+    await new Promise<void>(resolve => closed.listen(0, '127.0.0.1', resolve));
+    const { port } = closed.address() as AddressInfo;
+    await new Promise<void>(resolve => closed.close(() => resolve()));
+
+    const result = await auditUrl(`http://127.0.0.1:${port}/`);
+    expect(result.error?.type).toBe('fetch_error');
+    expect(result.error?.code).toBe('ECONNREFUSED');
+    expect(result.error?.message).toContain('ECONNREFUSED');
+  });
+});
+
+describe('createAuditService', () => {
+  const service = createAuditService();
+
+  it('audits a page', async () => {
+    const response = await service.analyze({ url: `${origin}/page` });
+
+    expect(response.status).toBe('ok');
+    expect(response.url).toBe(`${origin}/page`);
+    expect(response.data.pageData.title.text).toBe('Fixture page for the audit pipeline');
+  });
+
+  it('audits a batch, keeping failed pages as error results', async () => {
+    const response = await service.batch({ urls: [`${origin}/page`, `${origin}/missing`] });
+
+    expect(response.totalUrls).toBe(2);
+    expect(response.results.map(result => result.status === 'error')).toEqual([false, true]);
+  });
+
+  it('runs page audits as jobs', async () => {
+    const { jobId } = service.submitPageAudit({ url: `${origin}/page` });
+
+    while (['queued', 'processing'].includes(service.jobStatus(jobId).job.status)) {
+      await delay(20);
+    }
+
+    const response = service.jobResults(jobId) as JobResultsResponse;
+    expect(response.status).toBe('ok');
+    expect(response.results).toMatchObject({ url: `${origin}/page` });
+  });
+
+  it('rejects requests without a valid URL', async () => {
+    await expect(service.analyze(null)).rejects.toThrow(AuditRequestError);
+    await expect(service.analyze({ url: 'not a url' })).rejects.toThrow('Invalid URL format');
+    await expect(service.batch({ urls: [] })).rejects.toThrow('urls must be a non-empty array');
+    expect(() => service.submitSiteAudit({ url: `${origin}/`, options: { include: [1] } })).toThrow(AuditRequestError);
+  });
+});
@@ -0,0 +1,284 @@
+/**
+ * Audit service
+ * The self-hosted backend behind server.js. Each method takes a request body
+ * and returns the response the frontend expects (see api/types.ts), so the
+ * app can run without the remote backends
+ */
+import {
+  AuditResult,
+  BatchSeoAnalysisResponse,
+  JobCreationResponse,
+  JobResultsResponse,
+  JobStatusResponse,
+  SeoAnalysisResponse
+} from '../api/types';
+import { isValidUrl, normalizeUrl, toRequestUrl } from '../api/url';
+import { DEFAULT_CHUNK_SIZE } from '../api/batchOrchestrator';
+import { auditUrl, ServerAuditOptions } from './auditPipeline';
+import { auditSite } from './siteAudit';
+import { createJobQueue, JobQueue } from './jobQueue';
+
+export interface AuditServiceOptions {
+  queue?: JobQueue;
+  // Audits a single URL; the server pipeline by default
+  audit?: (url: string, signal?: AbortSignal, options?: Pick<ServerAuditOptions, 'measurePerformance'>) => Promise<AuditResult>;
+  // Measure page audits in headless Chromium unless the request sets options.performance to false
+  measurePerformance?: boolean;
+  // Most URLs accepted by one batch request
+  maxBatchUrls?: number;
+  // URLs of a batch audited at once
+  batchConcurrency?: number;
+}
+
+/**
+ * A request the service can't handle; statusCode is the HTTP status to send
+ */
+export class AuditRequestError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = 'AuditRequestError';
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * Fields of a parsed JSON request body; each is validated where it is used
+ */
+interface AuditRequestBody {
+  url?: unknown;
+  // Address as the user typed it, when url was normalized from it
+  inputUrl?: unknown;
+  urls?: unknown;
+  options: Record<string, unknown>;
+}
+
+/**
+ * Read a request body, which may be anything JSON.parse returns
+ */
+function toRequestBody(body: unknown): AuditRequestBody {
+  const fields = body && typeof body === 'object' ? body as Record<string, unknown> : {};
+  const { options } = fields;
+  return { ...fields, options: options && typeof options === 'object' ? options as Record<string, unknown> : {} };
+}
+
+/**
+ * Validate and normalize a URL from a request body
+ * @throws AuditRequestError when missing or invalid
+ */
+function requireUrl(value: unknown): string {
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new AuditRequestError('url is required');
+  }
+  const url = normalizeUrl(value);
+  if (!isValidUrl(url)) {
+    throw new AuditRequestError(`Invalid URL format: ${value}`);
+  }
+  return url;
+}
+
+/**
+ * The URL to fetch for a request: the address exactly as the user entered it
+ * (inputUrl) when it is the same page as url, so its redirects are audited
+ */
+function requestedUrl(body: AuditRequestBody, url: string): string {
+  const input = body.inputUrl;
+  return typeof input === 'string' && isValidUrl(toRequestUrl(input)) && normalizeUrl(input) === url ? input : String(body.url);
+}
+
+/**
+ * Validate crawl include/exclude patterns: a glob or a list of globs
+ * @throws AuditRequestError when not strings
+ */
+function toPatterns(value: unknown, name: string): string[] {
+  if (value === undefined || value === null) return [];
+  const patterns = Array.isArray(value) ? value : [value];
+  if (!patterns.every(pattern => typeof pattern === 'string')) {
+    throw new AuditRequestError(`options.${name} must be a glob or a list of globs`);
+  }
+  return patterns.filter(pattern => pattern.trim() !== '');
+}
+
+/**
+ * Run tasks with at most `limit` in flight, keeping results in order
+ */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Create the audit service
+ */
+export function createAuditService(options: AuditServiceOptions = {}) {
+  const {
+    queue = createJobQueue(),
+    audit = (url: string, signal?: AbortSignal, auditOptions = {}) => auditUrl(url, { signal, ...auditOptions }),
+    maxBatchUrls = DEFAULT_CHUNK_SIZE,
+    batchConcurrency = 3,
+    measurePerformance = false
+  } = options;
+
+  // Batches are only measured when asked to; a browser per URL is slow
+  const performanceOption = (body: AuditRequestBody, byDefault: boolean) => ({
+    measurePerformance: measurePerformance && (body.options.performance ?? byDefault) === true
+  });
+
+  const jobCreated = (job: JobStatusResponse['job']): JobCreationResponse => ({
+    status: 'ok',
+    message: 'Job created',
+    jobId: job.id,
+    url: job.url,
+    cached: false,
+    timestamp: new Date().toISOString()
+  });
+
+  const service = {
+    /**
+     * POST /seo-analyze: audit one page and wait for the result
+     */
+    analyze: async (requestBody: unknown): Promise<SeoAnalysisResponse> => {
+      const body = toRequestBody(requestBody);
+      const url = requireUrl(body.url);
+      const data = await audit(requestedUrl(body, url), undefined, performanceOption(body, true));
+
+      return {
+        status: data.status === 'error' ? 'error' : 'ok',
+        message: data.error?.message || 'Analysis completed',
+        url,
+        cached: false,
+        timestamp: new Date().toISOString(),
+        data
+      };
+    },
+
+    /**
+     * POST /batch-audit: audit up to maxBatchUrls pages and wait for the results
+     */
+    batch: async (requestBody: unknown): Promise<BatchSeoAnalysisResponse> => {
+      const body = toRequestBody(requestBody);
+      const { urls } = body;
+      if (!Array.isArray(urls) || urls.length === 0) {
+        throw new AuditRequestError('urls must be a non-empty array');
+      }
+      if (urls.length > maxBatchUrls) {
+        throw new AuditRequestError(`A batch can contain at most ${maxBatchUrls} URLs; split larger lists into chunks`);
+      }
+
+      urls.forEach(requireUrl);
+      // Fetched as given; results come back under the normalized URL
+      const auditOptions = performanceOption(body, false);
+      const results = await mapWithConcurrency(urls as string[], batchConcurrency, url => audit(url, undefined, auditOptions));
+
+      return {
+        status: 'ok',
+        message: 'Batch analysis completed',
+        totalUrls: results.length,
+        cached: false,
+        timestamp: new Date().toISOString(),
+        results
+      };
+    },
+
+    /**
+     * POST /submit-page-audit: queue a page audit
+     */
+    submitPageAudit: (requestBody: unknown): JobCreationResponse => {
+      const body = toRequestBody(requestBody);
+      const url = requireUrl(body.url);
+      const input = requestedUrl(body, url);
+      const auditOptions = performanceOption(body, true);
+
+      const job = queue.submit('page_audit', url, async (report, signal) => {
+        report({ stage: 'analyzing', progress: 30, url });
+        const result = await audit(input, signal, auditOptions);
+        report({ stage: 'scoring', progress: 95 });
+        return result;
+      });
+
+      return jobCreated(job);
+    },
+
+    /**
+     * POST /submit-site-audit: queue a site audit
+     */
+    submitSiteAudit: (requestBody: unknown): JobCreationResponse => {
+      const body = toRequestBody(requestBody);
+      const url = requireUrl(body.url);
+      const siteOptions = body.options;
+      const crawlOptions = {
+        maxPages: Number(siteOptions.maxPages) || 20,
+        maxDepth: Number(siteOptions.maxDepth ?? siteOptions.depth) || 3,
+        include: toPatterns(siteOptions.include, 'include'),
+        exclude: toPatterns(siteOptions.exclude, 'exclude'),
+        allowSubdomains: siteOptions.allowSubdomains === true,
+        checkLinks: siteOptions.checkLinks !== false
+      };
+
+      const job = queue.submit(
+        'site_audit',
+        url,
+        (report, signal) => auditSite(url, { ...crawlOptions, signal, onProgress: report }),
+        crawlOptions
+      );
+
+      return jobCreated(job);
+    },
+
+    /**
+     * GET /job-status/:id
+     * @returns undefined for unknown or expired jobs
+     */
+    jobStatus: (id: string): JobStatusResponse | undefined => {
+      const status = queue.getStatus(id);
+      return status && { ...status, timestamp: new Date().toISOString() };
+    },
+
+    /**
+     * GET /job-results/:id
+     * @returns undefined for unknown or expired jobs
+     * @throws AuditRequestError (409) while the job is still running
+     */
+    jobResults: (id: string): JobResultsResponse | undefined => {
+      const status = queue.getStatus(id);
+      if (!status) return undefined;
+
+      const { job } = status;
+      if (job.status === 'queued' || job.status === 'processing') {
+        throw new AuditRequestError('The job has not finished yet', 409);
+      }
+
+      return {
+        status: job.status === 'completed' ? 'ok' : 'error',
+        message: job.status === 'completed' ? 'Job completed' : `Job failed: ${job.error || 'Unknown error'}`,
+        jobId: id,
+        url: job.url,
+        results: queue.getResults(id) ?? null,
+        cached: false,
+        timestamp: new Date().toISOString()
+      };
+    },
+
+    /**
+     * POST /cancel-job/:id
+     */
+    cancelJob: (id: string): boolean => queue.cancel(id),
+
+    queue
+  };
+
+  return service;
+}
+
+export type AuditService = ReturnType<typeof createAuditService>;
@@ -0,0 +1,331 @@
+/**
+ * Site crawler
+ * Breadth-first link discovery from a seed URL. Honors robots.txt and its
+ * Crawl-delay, stays on the seed's host (optionally its subdomains), filters
+ * URLs with include/exclude globs and skips pages that are duplicates of one
+ * already crawled, by URL or by canonical link
+ */
+import { AuditResult } from '../api/types';
+import { delay, withTimeout } from '../api/abort';
+import { isValidUrl, normalizeUrl } from '../api/url';
+import { analyzePage, fetchPage, isFetchError, parseHtml, USER_AGENT } from './auditPipeline';
+import { getCrawlDelay, isAllowedByRobots, parseRobotsTxt, RobotsTxt } from './robots';
+
+export interface CrawlOptions {
+  // Pages to crawl, including the seed
+  maxPages?: number;
+  // Link depth from the seed (the seed is depth 0)
+  maxDepth?: number;
+  // Glob patterns for URL paths; when set, only matching pages are crawled
+  include?: string[];
+  // Glob patterns for URL paths that are never crawled
+  exclude?: string[];
+  // Follow links to subdomains of the seed's domain too
+  allowSubdomains?: boolean;
+  respectRobotsTxt?: boolean;
+  // Wait between requests to one host when robots.txt sets no Crawl-delay
+  delayMs?: number;
+  // Per-page fetch timeout
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  // Called after each page is crawled
+  onPage?: (page: CrawledPage, crawled: number, queued: number) => void;
+}
+
+export type CrawlSkipReason = 'robots' | 'excluded' | 'out_of_scope' | 'duplicate' | 'depth' | 'budget' | 'not_html';
+
+export interface CrawledPage {
+  url: string;
+  // URL after redirects
+  finalUrl: string;
+  depth: number;
+  // The page's canonical URL, when it declares one
+  canonicalUrl?: string;
+  // Every link on the page, nofollow included
+  links: string[];
+  result: AuditResult;
+}
+
+export interface CrawlResult {
+  seed: string;
+  pages: CrawledPage[];
+  // How many discovered URLs were skipped, by reason
+  skipped: Record<CrawlSkipReason, number>;
+  maxDepthReached: number;
+  robotsTxt: {
+    found: boolean;
+    crawlDelay?: number;
+  };
+}
+
+export const MAX_CRAWL_PAGES = 500;
+
+// Longest Crawl-delay honored, in seconds; slower sites would stall the job
+const MAX_CRAWL_DELAY = 30;
+
+// Links to files that can't be audited
+const NON_HTML_EXTENSION = /\.(pdf|jpe?g|png|gif|webp|svg|ico|css|js|json|xml|txt|zip|gz|mp3|mp4|webm|avi|mov|docx?|xlsx?|pptx?)$/i;
+
+/**
+ * Convert a glob to a regular expression: ** matches across slashes,
+ * * and ? within one path segment
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      pattern += '.*';
+      i++;
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Whether a URL matches any of the globs. Globs starting with a scheme
+ * match the whole URL, others the path and query
+ */
+export function matchesGlobs(url: string, globs: string[]): boolean {
+  const { pathname, search } = new URL(url);
+  return globs.some(glob => globToRegExp(glob).test(/^https?:\/\//.test(glob) ? url : `${pathname}${search}`));
+}
+
+/**
+ * Key used to spot duplicate URLs: no fragment, lowercase host, no default
+ * port, no trailing slash, sorted query without tracking parameters
+ */
+export function crawlKey(url: string): string {
+  const parsed = new URL(url);
+  parsed.hash = '';
+  parsed.hostname = parsed.hostname.toLowerCase().replace(/^www\./, '');
+
+  const params = Array.from(parsed.searchParams.entries())
+    .filter(([name]) => !/^(utm_\w+|gclid|fbclid)$/i.test(name))
+    .sort(([a], [b]) => a.localeCompare(b));
+  parsed.search = new URLSearchParams(params).toString();
+
+  return parsed.href.replace(/\/(\?|$)/, '$1');
+}
+
+/**
+ * Every http(s) link on a page, absolute and without fragments, with
+ * whether it is marked rel=nofollow
+ */
+export function extractAnchors(html: string, pageUrl: string): Array<{ url: string; nofollow: boolean }> {
+  const anchors = new Map<string, boolean>();
+
+  Array.from(parseHtml(html).querySelectorAll('a[href]')).forEach(anchor => {
+    const nofollow = /\bnofollow\b/i.test(anchor.getAttribute('rel') || '');
+    try {
+      const link = new URL(anchor.getAttribute('href'), pageUrl);
+      link.hash = '';
+      if (/^https?:$/.test(link.protocol)) {
+        // Followed if any anchor to the URL is
+        anchors.set(link.href, (anchors.get(link.href) ?? true) && nofollow);
+      }
+    } catch (e) {
+      // Ignore hrefs that aren't URLs (javascript:, malformed)
+    }
+  });
+
+  return Array.from(anchors, ([url, nofollow]) => ({ url, nofollow }));
+}
+
+/**
+ * Crawl a site breadth-first from a seed URL
+ * Page fetch failures are recorded as error results; the crawl only throws
+ * when it is cancelled
+ * @param seedUrl Where to start
+ * @param options Limits, scope, filters and callbacks
+ */
+export async function crawlSite(seedUrl: string, options: CrawlOptions = {}): Promise<CrawlResult> {
+  const {
+    include = [],
+    exclude = [],
+    allowSubdomains = false,
+    respectRobotsTxt = true,
+    delayMs = 0,
+    timeoutMs,
+    signal,
+    onPage
+  } = options;
+  const maxPages = Math.max(1, Math.min(options.maxPages || 20, MAX_CRAWL_PAGES));
+  const maxDepth = Math.max(0, options.maxDepth ?? 3);
+
+  const seed = normalizeUrl(seedUrl);
+  if (!isValidUrl(seed)) {
+    throw new Error(`Invalid URL format: ${seedUrl}`);
+  }
+
+  const seedHost = new URL(seed).hostname.replace(/^www\./, '');
+  const inScope = (url: string) => {
+    const host = new URL(url).hostname.replace(/^www\./, '');
+    return host === seedHost || (allowSubdomains && host.endsWith(`.${seedHost}`));
+  };
+
+  const result: CrawlResult = {
+    seed,
+    pages: [],
+    skipped: { robots: 0, excluded: 0, out_of_scope: 0, duplicate: 0, depth: 0, budget: 0, not_html: 0 },
+    maxDepthReached: 0,
+    robotsTxt: { found: false }
+  };
+
+  // robots.txt per origin; null when missing or unreadable
+  const robotsByOrigin = new Map<string, RobotsTxt | null>();
+  const loadRobots = async (origin: string): Promise<RobotsTxt | null> => {
+    if (robotsByOrigin.has(origin)) return robotsByOrigin.get(origin);
+
+    let robots: RobotsTxt | null = null;
+    try {
+      const response = await fetch(`${origin}/robots.txt`, {
+        headers: { 'User-Agent': USER_AGENT },
+        signal: withTimeout(timeoutMs ?? 10000, signal)
+      });
+      if (response.ok) robots = parseRobotsTxt(await response.text());
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.warn(`[crawler] Could not read ${origin}/robots.txt:`, (error as Error).message);
+    }
+
+    robotsByOrigin.set(origin, robots);
+    return robots;
+  };
+
+  // Last request time per origin, for the crawl delay
+  const lastRequestAt = new Map<string, number>();
+  const waitForTurn = async (origin: string, robots: RobotsTxt | null) => {
+    const crawlDelay = robots ? getCrawlDelay(robots, USER_AGENT) : undefined;
+    const minGap = crawlDelay !== undefined ? Math.min(crawlDelay, MAX_CRAWL_DELAY) * 1000 : delayMs;
+    const wait = (lastRequestAt.get(origin) ?? -Infinity) + minGap - Date.now();
+    if (wait > 0) await delay(wait, signal);
+    lastRequestAt.set(origin, Date.now());
+  };
+
+  // Keys of every URL queued or crawled, and of every canonical URL claimed by a crawled page
+  const seen = new Set<string>([crawlKey(seed)]);
+  const claimed = new Set<string>();
+  const queue: Array<{ url: string; depth: number }> = [{ url: seed, depth: 0 }];
+
+  const seedRobots = respectRobotsTxt ? await loadRobots(new URL(seed).origin) : null;
+  result.robotsTxt = { found: !!seedRobots, crawlDelay: seedRobots ? getCrawlDelay(seedRobots, USER_AGENT) : undefined };
+
+  const enqueue = (url: string, depth: number) => {
+    const key = crawlKey(url);
+    if (seen.has(key)) return;
+    seen.add(key);
+
+    if (!inScope(url)) {
+      result.skipped.out_of_scope++;
+    } else if (NON_HTML_EXTENSION.test(new URL(url).pathname)) {
+      result.skipped.not_html++;
+    } else if (depth > maxDepth) {
+      result.skipped.depth++;
+    } else if (exclude.length > 0 && matchesGlobs(url, exclude)) {
+      result.skipped.excluded++;
+    } else if (include.length > 0 && !matchesGlobs(url, include)) {
+      result.skipped.excluded++;
+    } else {
+      queue.push({ url, depth });
+    }
+  };
+
+  while (queue.length > 0) {
+    if (signal?.aborted) throw signal.reason;
+
+    if (result.pages.length >= maxPages) {
+      result.skipped.budget += queue.length;
+      break;
+    }
+
+    const { url, depth } = queue.shift();
+
+    // Another page already declared this URL as its canonical
+    if (claimed.has(crawlKey(url))) {
+      result.skipped.duplicate++;
+      continue;
+    }
+
+    const origin = new URL(url).origin;
+    const robots = respectRobotsTxt ? await loadRobots(origin) : null;
+    if (robots && !isAllowedByRobots(robots, url, USER_AGENT)) {
+      result.skipped.robots++;
+      continue;
+    }
+
+    await waitForTurn(origin, robots);
+    // The http:// and www variants are the same for every page; check them once
+    const page = await fetchPage(url, { timeoutMs, signal, probeVariants: depth === 0 });
+    if (signal?.aborted) throw signal.reason;
+
+    if (isFetchError(page)) {
+      // Broken pages are part of the picture; keep them as error results
+      const crawled: CrawledPage = { url, finalUrl: url, depth, links: [], result: page };
+      result.pages.push(crawled);
+      onPage?.(crawled, result.pages.length, queue.length);
+      continue;
+    }
+
+    // Redirects may lead off-site or to a page already crawled under another URL
+    if (!inScope(page.finalUrl)) {
+      result.skipped.out_of_scope++;
+      continue;
+    }
+    const finalKey = crawlKey(page.finalUrl);
+    if (claimed.has(finalKey)) {
+      result.skipped.duplicate++;
+      continue;
+    }
+    seen.add(finalKey);
+
+    const audit = analyzePage(page);
+    const anchors = extractAnchors(page.html, page.finalUrl);
+    const canonical = audit.pageData.technical.canonicalUrl;
+    let canonicalKey = finalKey;
+    if (canonical) {
+      try {
+        canonicalKey = crawlKey(new URL(canonical, page.finalUrl).href);
+      } catch (e) {
+        // Malformed canonical; the page stands for itself
+      }
+    }
+
+    // Pages pointing their canonical at a page already crawled are duplicates
+    if (claimed.has(canonicalKey)) {
+      result.skipped.duplicate++;
+    } else {
+      claimed.add(canonicalKey);
+      claimed.add(finalKey);
+
+      const crawled: CrawledPage = {
+        url,
+        finalUrl: page.finalUrl,
+        depth,
+        canonicalUrl: canonical || undefined,
+        links: anchors.map(anchor => anchor.url),
+        result: audit
+      };
+      result.pages.push(crawled);
+      result.maxDepthReached = Math.max(result.maxDepthReached, depth);
+      onPage?.(crawled, result.pages.length, queue.length);
+    }
+
+    // Duplicates still lead to pages worth crawling
+    anchors.forEach(anchor => {
+      if (!anchor.nofollow) enqueue(anchor.url, depth + 1);
+    });
+    // The canonical target is the page search engines keep; make sure it's visited
+    if (canonical && canonicalKey !== finalKey) {
+      enqueue(new URL(canonical, page.finalUrl).href, depth);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,141 @@
+/**
+ * Cron expressions
+ * Parses standard five-field expressions (minute hour day-of-month month
+ * day-of-week) with lists, ranges and steps, and finds the next run time
+ */
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // When both day fields are restricted, either may match (as in cron)
+  anyDay: boolean;
+}
+
+export class CronExpressionError extends Error {
+  constructor(expression: string, reason: string) {
+    super(`Invalid cron expression "${expression}": ${reason}`);
+    this.name = 'CronExpressionError';
+  }
+}
+
+// Common shortcuts
+const ALIASES: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 1',
+  '@monthly': '0 0 1 * *'
+};
+
+const FIELDS: Array<{ name: string; min: number; max: number }> = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 }
+];
+
+// Give up looking for a match after this many minutes (a little over 4 years)
+const MAX_SEARCH_MINUTES = 4 * 366 * 24 * 60 + 1;
+
+/**
+ * Expand one field (e.g. "*\/15", "1-5", "0,30") into the values it matches
+ */
+function parseField(expression: string, value: string, field: { name: string; min: number; max: number }): Set<number> {
+  const values = new Set<number>();
+
+  value.split(',').forEach(part => {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+
+    if (!Number.isInteger(step) || step < 1) {
+      throw new CronExpressionError(expression, `bad step "${stepText}" in ${field.name}`);
+    }
+
+    let start = field.min;
+    let end = field.max;
+
+    if (range !== '*') {
+      const [from, to] = range.split('-').map(Number);
+      start = from;
+      end = to === undefined ? (stepText === undefined ? from : field.max) : to;
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < field.min || end > field.max || start > end) {
+      throw new CronExpressionError(expression, `"${part}" is out of range for ${field.name}`);
+    }
+
+    for (let n = start; n <= end; n += step) {
+      values.add(n);
+    }
+  });
+
+  return values;
+}
+
+/**
+ * Parse a cron expression
+ * @throws CronExpressionError when the expression is malformed
+ */
+export function parseCron(expression: string): CronSchedule {
+  const normalized = ALIASES[expression.trim()] || expression.trim();
+  const parts = normalized.split(/\s+/);
+
+  if (parts.length !== 5) {
+    throw new CronExpressionError(expression, 'expected 5 fields');
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) =>
+    parseField(expression, part, FIELDS[index])
+  );
+
+  // 7 is an alias for Sunday
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    expression,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDay: parts[2] !== '*' && parts[4] !== '*'
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+  return schedule.anyDay ? dayOfMonth || dayOfWeek : dayOfMonth && dayOfWeek;
+}
+
+/**
+ * First time strictly after `from` that matches the schedule, in local time
+ * @returns The next run, or null if the expression never matches (e.g. Feb 30)
+ */
+export function nextCronRun(schedule: CronSchedule, from: Date = new Date()): Date | null {
+  const next = new Date(from.getTime());
+  next.setSeconds(0, 0);
+  next.setMinutes(next.getMinutes() + 1);
+
+  for (let i = 0; i < MAX_SEARCH_MINUTES; i++) {
+    if (!schedule.months.has(next.getMonth() + 1) || !matchesDay(schedule, next)) {
+      // Skip to the start of the next day
+      next.setHours(24, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(next.getHours())) {
+      next.setHours(next.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (schedule.minutes.has(next.getMinutes())) {
+      return next;
+    }
+    next.setMinutes(next.getMinutes() + 1);
+  }
+
+  return null;
+}
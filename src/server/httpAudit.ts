@@ -0,0 +1,149 @@
+/**
+ * HTTP audit
+ * Follows redirects one hop at a time from the exact requested URL so the
+ * chain can be audited, checks that the http:// and www/non-www variants of
+ * a page lead to the same place, and picks out the response headers the
+ * technical rules look at
+ */
+import { HttpPageData, RedirectHop } from '../api/types';
+import { withTimeout } from '../api/abort';
+
+export interface RedirectFetchOptions {
+  method?: 'GET' | 'HEAD';
+  headers?: Record<string, string>;
+  // Per-request timeout
+  timeoutMs?: number;
+  // Hops followed before giving up
+  maxRedirects?: number;
+  signal?: AbortSignal;
+}
+
+export interface RedirectedResponse {
+  response: Response;
+  finalUrl: string;
+  redirects: RedirectHop[];
+}
+
+/**
+ * A redirect chain that loops or never ends
+ */
+export class RedirectError extends Error {
+  type: 'redirect_loop' | 'too_many_redirects';
+  redirects: RedirectHop[];
+
+  constructor(message: string, type: RedirectError['type'], redirects: RedirectHop[]) {
+    super(message);
+    this.name = 'RedirectError';
+    this.type = type;
+    this.redirects = redirects;
+  }
+}
+
+/**
+ * Fetch a URL, following redirects manually and recording each hop
+ * @param url Exact URL to request
+ * @param options Request method and headers, timeout, redirect limit and cancellation
+ * @returns The final response with the redirects that led to it
+ * @throws RedirectError on redirect loops or too many redirects; fetch errors as thrown by fetch
+ */
+export async function fetchWithRedirects(url: string, options: RedirectFetchOptions = {}): Promise<RedirectedResponse> {
+  const { method = 'GET', headers, timeoutMs = 20000, maxRedirects = 10, signal } = options;
+  // One timeout for the whole chain
+  const requestSignal = withTimeout(timeoutMs, signal);
+  const redirects: RedirectHop[] = [];
+  const visited = new Set<string>([url]);
+  let current = url;
+
+  for (;;) {
+    const response = await fetch(current, { method, headers, redirect: 'manual', signal: requestSignal });
+    const location = response.headers.get('location');
+
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return { response, finalUrl: current, redirects };
+    }
+
+    await response.body?.cancel();
+    redirects.push({ url: current, status: response.status });
+    const next = new URL(location, current).href;
+
+    if (visited.has(next)) {
+      throw new RedirectError(`Redirect loop back to ${next}`, 'redirect_loop', redirects);
+    }
+    if (redirects.length >= maxRedirects) {
+      throw new RedirectError(`More than ${maxRedirects} redirects`, 'too_many_redirects', redirects);
+    }
+    visited.add(next);
+    current = next;
+  }
+}
+
+/**
+ * Response headers kept in pageData.http
+ */
+export function pickHttpHeaders(headers: Headers): HttpPageData['headers'] {
+  const picked: HttpPageData['headers'] = {};
+  const read = (name: string, key: keyof HttpPageData['headers']) => {
+    const value = headers.get(name);
+    if (value !== null) picked[key] = value;
+  };
+
+  read('cache-control', 'cacheControl');
+  read('strict-transport-security', 'strictTransportSecurity');
+  read('x-robots-tag', 'xRobotsTag');
+  read('content-type', 'contentType');
+  read('content-encoding', 'contentEncoding');
+
+  return picked;
+}
+
+/**
+ * Where a URL ends up after redirects, or undefined when it can't be reached
+ */
+async function resolveUrl(url: string, options: RedirectFetchOptions): Promise<string | undefined> {
+  try {
+    const { response, finalUrl } = await fetchWithRedirects(url, { ...options, method: 'HEAD' });
+    // Some servers reject HEAD; the redirects before that still tell where the URL goes
+    return response.status < 400 || response.status === 405 ? finalUrl : undefined;
+  } catch (error) {
+    if (options.signal?.aborted) throw error;
+    return undefined;
+  }
+}
+
+/**
+ * Check the http:// and www/non-www variants of a page's URL
+ * Variants that can't be reached (no DNS for the www host, no port 80) are
+ * left unset rather than reported
+ * @param finalUrl URL the page was served from
+ * @param options Headers, timeout and cancellation for the extra requests
+ */
+export async function probeUrlVariants(
+  finalUrl: string,
+  options: RedirectFetchOptions = {}
+): Promise<Pick<HttpPageData, 'httpsRedirect' | 'wwwConsistent'>> {
+  const served = new URL(finalUrl);
+  const result: Pick<HttpPageData, 'httpsRedirect' | 'wwwConsistent'> = {};
+
+  if (served.protocol === 'https:') {
+    const insecure = new URL(finalUrl);
+    insecure.protocol = 'http:';
+    const resolved = await resolveUrl(insecure.href, options);
+    if (resolved !== undefined) {
+      result.httpsRedirect = resolved.startsWith('https://');
+    }
+  }
+
+  const alternate = new URL(finalUrl);
+  alternate.hostname = served.hostname.startsWith('www.')
+    ? served.hostname.slice(4)
+    : `www.${served.hostname}`;
+  // IP addresses and localhost have no www variant
+  if (!/^(\d+\.){3}\d+$|^\[|^(www\.)?localhost$/.test(served.hostname)) {
+    const resolved = await resolveUrl(alternate.href, options);
+    if (resolved !== undefined) {
+      result.wwwConsistent = new URL(resolved).hostname === served.hostname;
+    }
+  }
+
+  return result;
+}
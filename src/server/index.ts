@@ -0,0 +1,27 @@
+/**
+ * Server entry
+ * Node-only modules used by server.js. Built with `npm run build:server`
+ */
+export { analyzePage, auditUrl, fetchPage, isFetchError } from './auditPipeline';
+export { fetchWithRedirects, pickHttpHeaders, probeUrlVariants, RedirectError } from './httpAudit';
+export { findChromeExecutable, measureLabPerformance, LabPerformanceUnavailableError } from './labPerformance';
+export { AuditRequestError, createAuditService } from './auditService';
+export { createJobQueue, toProgressEvent } from './jobQueue';
+export { auditSite, summarizeSite, MAX_SITE_AUDIT_PAGES } from './siteAudit';
+export { crawlSite, crawlKey, extractAnchors, globToRegExp, matchesGlobs, MAX_CRAWL_PAGES } from './crawler';
+export { checkLink, checkLinks, countBrokenLinks, getLinkProblems, LINK_PROBLEMS, MAX_CHECKED_LINKS } from './linkChecker';
+export { parseRobotsTxt, isAllowedByRobots, getCrawlDelay } from './robots';
+export { parseCron, nextCronRun, CronExpressionError } from './cron';
+export { createScheduleStore } from './scheduleStore';
+export { createScheduler, findScoreDrops, ScheduleValidationError, MAX_URLS_PER_SCHEDULE } from './scheduler';
+
+export type { AuditSchedule, ScheduleRun, ScoreDropAlert, ScheduleStore } from './scheduleStore';
+export type { Scheduler, SchedulerOptions, ScheduleInput } from './scheduler';
+export type { AuditService, AuditServiceOptions } from './auditService';
+export type { JobQueue, JobRecord } from './jobQueue';
+export type { SiteAuditOptions } from './siteAudit';
+export type { CrawlOptions, CrawlResult, CrawledPage, CrawlSkipReason } from './crawler';
+export type { LinkCheckOptions, LinkStatus } from './linkChecker';
+export type { RedirectFetchOptions, RedirectedResponse } from './httpAudit';
+export type { LabPerformanceOptions } from './labPerformance';
+export type { RobotsTxt, RobotsGroup, RobotsRule } from './robots';
@@ -0,0 +1,179 @@
+/**
+ * In-memory job queue
+ * Page and site audits run as jobs so clients can follow them through
+ * /job-status, /job-progress and /job-results. Jobs use the same model as
+ * JobStatusResponse and are dropped a while after they finish
+ */
+import { JobProgressEvent, JobStatusResponse } from '../api/types';
+import { applyProgressEvent, createJobStatus } from '../api/jobProgress';
+
+export type JobRecord = JobStatusResponse['job'];
+
+/**
+ * Work done by a job
+ * @param report Push a progress event
+ * @param signal Aborted when the job is cancelled
+ * @returns The job's results
+ */
+export type JobRunner<T> = (report: (event: JobProgressEvent) => void, signal: AbortSignal) => Promise<T>;
+
+export type JobListener = (event: JobProgressEvent, job: JobRecord) => void;
+
+export interface JobQueueOptions {
+  // Jobs running at once; the rest wait as queued
+  concurrency?: number;
+  // How long finished jobs and their results are kept
+  retentionMs?: number;
+}
+
+interface QueuedJob {
+  status: JobStatusResponse;
+  results?: unknown;
+  controller: AbortController;
+  listeners: Set<JobListener>;
+  start: () => void;
+}
+
+function createId(): string {
+  return `job-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * A job's current state as a progress event, sent first to new stream subscribers
+ */
+export function toProgressEvent(job: JobRecord): JobProgressEvent {
+  const finished = job.status === 'completed' || job.status === 'failed';
+
+  return {
+    stage: finished ? job.status as JobProgressEvent['stage'] : job.stage || 'queued',
+    progress: job.progress,
+    message: job.message,
+    current: job.current,
+    total: job.total,
+    url: job.currentUrl,
+    error: job.error
+  };
+}
+
+/**
+ * Create a job queue
+ */
+export function createJobQueue(options: JobQueueOptions = {}) {
+  const { concurrency = 2, retentionMs = 60 * 60 * 1000 } = options;
+
+  const jobs = new Map<string, QueuedJob>();
+  const waiting: string[] = [];
+  let running = 0;
+
+  const isFinished = (job: QueuedJob) =>
+    job.status.job.status === 'completed' || job.status.job.status === 'failed';
+
+  const emit = (id: string, event: JobProgressEvent) => {
+    const job = jobs.get(id);
+    if (!job || isFinished(job)) return;
+
+    job.status = applyProgressEvent(job.status, event);
+    job.listeners.forEach(listener => listener(event, job.status.job));
+
+    if (isFinished(job)) {
+      job.listeners.clear();
+      setTimeout(() => jobs.delete(id), retentionMs).unref?.();
+    }
+  };
+
+  const startNext = () => {
+    while (running < concurrency && waiting.length > 0) {
+      const job = jobs.get(waiting.shift());
+      if (job && !isFinished(job)) job.start();
+    }
+  };
+
+  const queue = {
+    /**
+     * Queue a job; it starts as soon as a slot is free
+     * @param type Job type, e.g. page_audit
+     * @param url URL the job is about
+     * @param run The work to do
+     * @param jobOptions Options to report back with the job
+     * @returns The queued job
+     */
+    submit: <T>(type: string, url: string, run: JobRunner<T>, jobOptions: Record<string, unknown> = {}): JobRecord => {
+      const id = createId();
+      const controller = new AbortController();
+      const status = createJobStatus(id, url, type);
+      status.job.options = jobOptions;
+
+      const job: QueuedJob = {
+        status,
+        controller,
+        listeners: new Set(),
+        start: () => {
+          running++;
+          emit(id, { stage: 'fetching', progress: 5, url });
+
+          run(event => emit(id, event), controller.signal)
+            .then(results => {
+              job.results = results;
+              emit(id, { stage: 'completed', message: 'Audit complete' });
+            })
+            .catch(error => {
+              const message = controller.signal.aborted ? 'Job was cancelled' : (error as Error).message;
+              console.error(`[jobs] ${type} ${id} failed:`, message);
+              emit(id, { stage: 'failed', error: message, message });
+            })
+            .finally(() => {
+              running--;
+              startNext();
+            });
+        }
+      };
+
+      jobs.set(id, job);
+      waiting.push(id);
+      startNext();
+
+      return job.status.job;
+    },
+
+    /**
+     * Current status of a job, or undefined once it has expired
+     */
+    getStatus: (id: string): JobStatusResponse | undefined => jobs.get(id)?.status,
+
+    /**
+     * Results of a completed job
+     */
+    getResults: (id: string): unknown => jobs.get(id)?.results,
+
+    /**
+     * Follow a job's progress events until it finishes
+     * @returns Unsubscribe function
+     */
+    subscribe: (id: string, listener: JobListener): (() => void) => {
+      const job = jobs.get(id);
+      if (!job || isFinished(job)) return () => undefined;
+
+      job.listeners.add(listener);
+      return () => job.listeners.delete(listener);
+    },
+
+    /**
+     * Stop a queued or running job
+     * @returns False when the job doesn't exist or already finished
+     */
+    cancel: (id: string): boolean => {
+      const job = jobs.get(id);
+      if (!job || isFinished(job)) return false;
+
+      job.controller.abort();
+      emit(id, { stage: 'failed', error: 'Job was cancelled', message: 'Job was cancelled' });
+      return true;
+    },
+
+    stats: () => ({ running, queued: waiting.length, total: jobs.size })
+  };
+
+  return queue;
+}
+
+export type JobQueue = ReturnType<typeof createJobQueue>;
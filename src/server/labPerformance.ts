@@ -0,0 +1,319 @@
+/**
+ * Lab performance
+ * Loads a page in a local headless Chromium and measures Core Web Vitals
+ * (LCP, CLS, INP) along with FCP, TTFB and total blocking time, and records
+ * every resource it loads. INP needs an interaction, so after the page
+ * settles one click is made on a spot that isn't a link or control
+ */
+import { existsSync } from 'node:fs';
+
+import { LabPerformanceData, PageResource, ResourceType, WebVitalName } from '../api/types';
+import { delay } from '../api/abort';
+import { buildResourceInventory, isThirdParty, parseCacheTtl } from '../analysis/resources';
+import { passesCoreWebVitals, toWebVitalMetric } from '../analysis/webVitals';
+
+export interface LabPerformanceOptions {
+  // Chrome or Chromium binary; found with findChromeExecutable when unset
+  executablePath?: string;
+  // Page load timeout
+  timeoutMs?: number;
+  viewport?: { width: number; height: number };
+  signal?: AbortSignal;
+}
+
+/**
+ * Lab measurement isn't possible here: puppeteer-core or a browser is missing
+ */
+export class LabPerformanceUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LabPerformanceUnavailableError';
+  }
+}
+
+// Where Chrome and Chromium are usually installed
+const CHROME_PATHS = [
+  '/usr/bin/chromium',
+  '/usr/bin/chromium-browser',
+  '/usr/bin/google-chrome',
+  '/usr/bin/google-chrome-stable',
+  '/Applications/Google Chrome.app/Contents/MacOS/Google Chrome',
+  'C:\\Program Files\\Google\\Chrome\\Application\\chrome.exe'
+];
+
+// Main-thread work beyond this counts as blocking
+const LONG_TASK_BUDGET = 50;
+
+// Elements a click could navigate or change state with
+const INTERACTIVE_SELECTOR = 'a, button, input, select, textarea, label, summary, details, iframe, [onclick], [role="button"], [role="link"], [contenteditable]';
+
+// What installCollector records in the page, as window.__labVitals
+interface CollectedVitals {
+  lcp: number;
+  fcp: number;
+  cls: number;
+  inp: number;
+  // [startTime, duration] of each long task
+  longTasks: Array<[number, number]>;
+}
+
+type CollectorWindow = Window & { __labVitals?: CollectedVitals };
+
+// Fields of the observed entries the collector reads; lib.dom has no types
+// for layout shifts, and its event timing type may lack interactionId
+interface ObservedEntry extends PerformanceEntry {
+  // layout-shift
+  value?: number;
+  hadRecentInput?: boolean;
+  // event and first-input
+  interactionId?: number;
+}
+
+interface ResourceTimingEntry extends PerformanceResourceTiming {
+  renderBlockingStatus?: 'blocking' | 'non-blocking';
+}
+
+// Everything read back from the page once it has settled
+interface CollectedMetrics extends CollectedVitals {
+  ttfb?: number;
+  // URLs of the resources that blocked rendering
+  renderBlocking: string[];
+  images: Array<PageResource['image'] & { url: string }>;
+}
+
+/**
+ * Browser binary to measure with: CHROME_PATH, then the usual install locations
+ * @returns Path, or undefined when no browser is installed
+ */
+export function findChromeExecutable(): string | undefined {
+  const configured = process.env.CHROME_PATH || process.env.PUPPETEER_EXECUTABLE_PATH;
+  if (configured) return configured;
+  return CHROME_PATHS.find(path => existsSync(path));
+}
+
+/**
+ * Map a DevTools resource type onto the reported types
+ */
+function toResourceType(type: string | undefined): ResourceType {
+  switch (type) {
+    case 'Document': return 'document';
+    case 'Script': return 'script';
+    case 'Stylesheet': return 'stylesheet';
+    case 'Image': return 'image';
+    case 'Font': return 'font';
+    case 'Media': return 'media';
+    default: return 'other';
+  }
+}
+
+/**
+ * Runs in the page before any of its scripts and records the entries the
+ * metrics are computed from
+ */
+function installCollector() {
+  const vitals: CollectedVitals = { lcp: 0, fcp: 0, cls: 0, inp: 0, longTasks: [] };
+  (window as CollectorWindow).__labVitals = vitals;
+  // Keep every resource timing entry; the default buffer holds 250
+  performance.setResourceTimingBufferSize(2000);
+
+  const observe = (type: string, onEntry: (entry: ObservedEntry) => void, options: Record<string, unknown> = {}) => {
+    try {
+      new PerformanceObserver(list => list.getEntries().forEach(entry => onEntry(entry as ObservedEntry)))
+        .observe({ type, buffered: true, ...options });
+    } catch (e) {
+      // Entry type not supported by this browser
+    }
+  };
+
+  observe('largest-contentful-paint', entry => { vitals.lcp = entry.startTime; });
+  observe('paint', entry => {
+    if (entry.name === 'first-contentful-paint') vitals.fcp = entry.startTime;
+  });
+
+  // CLS is the largest session of shifts less than 1s apart and at most 5s long
+  let session = 0;
+  let sessionStart = 0;
+  let lastShift = 0;
+  observe('layout-shift', entry => {
+    if (entry.hadRecentInput) return;
+    if (session > 0 && entry.startTime - lastShift < 1000 && entry.startTime - sessionStart < 5000) {
+      session += entry.value;
+    } else {
+      session = entry.value;
+      sessionStart = entry.startTime;
+    }
+    lastShift = entry.startTime;
+    vitals.cls = Math.max(vitals.cls, session);
+  });
+
+  observe('longtask', entry => { vitals.longTasks.push([entry.startTime, entry.duration]); });
+  // Event entries under 16ms aren't reported, but the first input always is
+  const onInteraction = (entry: ObservedEntry) => {
+    if (entry.interactionId) vitals.inp = Math.max(vitals.inp, entry.duration);
+  };
+  observe('first-input', onInteraction);
+  observe('event', onInteraction, { durationThreshold: 16 });
+}
+
+/**
+ * Load a page in headless Chromium and measure it
+ * @param url Page to load
+ * @param options Browser, timeout, viewport and cancellation
+ * @returns Lab metrics with ratings, and every resource the page loaded
+ * @throws LabPerformanceUnavailableError when puppeteer-core or a browser is missing;
+ * navigation errors as thrown by puppeteer
+ */
+export async function measureLabPerformance(url: string, options: LabPerformanceOptions = {}): Promise<LabPerformanceData> {
+  const { timeoutMs = 30000, viewport = { width: 1350, height: 940 }, signal } = options;
+
+  const executablePath = options.executablePath || findChromeExecutable();
+  if (!executablePath) {
+    throw new LabPerformanceUnavailableError('No Chrome or Chromium found; set CHROME_PATH');
+  }
+
+  let puppeteer: typeof import('puppeteer-core');
+  try {
+    puppeteer = await import('puppeteer-core');
+  } catch (e) {
+    throw new LabPerformanceUnavailableError('puppeteer-core is not installed');
+  }
+
+  if (signal?.aborted) throw signal.reason;
+  const browser = await puppeteer.launch({
+    executablePath,
+    headless: true,
+    args: ['--no-sandbox', '--disable-dev-shm-usage', '--disable-gpu']
+  });
+  const closeBrowser = () => { browser.close().catch(() => undefined); };
+  signal?.addEventListener('abort', closeBrowser, { once: true });
+
+  try {
+    const page = await browser.newPage();
+    await page.setViewport(viewport);
+    await page.setCacheEnabled(false);
+    await page.evaluateOnNewDocument(installCollector);
+
+    // Each response, from the DevTools protocol so cross-origin sizes and headers count too
+    const requests = new Map<string, PageResource>();
+    const resources: PageResource[] = [];
+    const cdp = await page.createCDPSession();
+    await cdp.send('Network.enable');
+    cdp.on('Network.requestWillBeSent', event => {
+      if (!/^https?:/.test(event.request.url)) return;
+      // A redirect reuses the request id; the resource is whatever it ends on
+      requests.set(event.requestId, {
+        url: event.request.url,
+        type: toResourceType(event.type),
+        host: new URL(event.request.url).hostname,
+        thirdParty: isThirdParty(event.request.url, url),
+        transferBytes: 0,
+        resourceBytes: 0,
+        cacheTtl: 0,
+        renderBlocking: false
+      });
+    });
+    cdp.on('Network.responseReceived', event => {
+      const resource = requests.get(event.requestId);
+      if (!resource) return;
+      const headers = Object.fromEntries(
+        Object.entries(event.response.headers).map(([name, value]) => [name.toLowerCase(), value])
+      );
+      resource.status = event.response.status;
+      resource.mimeType = event.response.mimeType || undefined;
+      resource.contentEncoding = headers['content-encoding'] || undefined;
+      resource.cacheControl = headers['cache-control'] || undefined;
+      resource.cacheTtl = parseCacheTtl(headers['cache-control'], headers.expires, headers.date);
+    });
+    cdp.on('Network.dataReceived', event => {
+      const resource = requests.get(event.requestId);
+      if (resource) resource.resourceBytes += event.dataLength;
+    });
+    cdp.on('Network.loadingFinished', event => {
+      const resource = requests.get(event.requestId);
+      if (!resource) return;
+      resource.transferBytes = event.encodedDataLength;
+      resources.push(resource);
+      requests.delete(event.requestId);
+    });
+
+    await page.goto(url, { waitUntil: 'load', timeout: timeoutMs });
+    await page.waitForNetworkIdle({ idleTime: 500, timeout: 5000 }).catch(() => undefined);
+
+    // A click on a neutral spot gives INP an interaction to measure
+    const spot = await page.evaluate((selector: string) => {
+      const { innerWidth: width, innerHeight: height } = window;
+      const candidates = [[0.5, 0.5], [0.9, 0.5], [0.1, 0.5], [0.5, 0.9], [0.98, 0.98]];
+      for (const [x, y] of candidates) {
+        const el = document.elementFromPoint(width * x, height * y);
+        if (el && !el.closest(selector)) return { x: width * x, y: height * y };
+      }
+      return null;
+    }, INTERACTIVE_SELECTOR);
+    if (spot) {
+      await page.mouse.click(spot.x, spot.y);
+      await delay(500, signal);
+    }
+
+    const collected = await page.evaluate((): CollectedMetrics => {
+      const vitals = (window as CollectorWindow).__labVitals;
+      const navigation = performance.getEntriesByType('navigation')[0] as PerformanceNavigationTiming | undefined;
+      const renderBlocking = (performance.getEntriesByType('resource') as ResourceTimingEntry[])
+        .filter(entry => entry.renderBlockingStatus === 'blocking')
+        .map(entry => entry.name);
+      const images = Array.from(document.images)
+        .filter(img => img.currentSrc && img.naturalWidth > 0)
+        .map(img => ({
+          url: img.currentSrc,
+          naturalWidth: img.naturalWidth,
+          naturalHeight: img.naturalHeight,
+          displayWidth: Math.round(img.getBoundingClientRect().width),
+          displayHeight: Math.round(img.getBoundingClientRect().height)
+        }));
+      return { ...vitals, ttfb: navigation ? navigation.responseStart : undefined, renderBlocking, images };
+    });
+
+    const renderBlocking = new Set<string>(collected.renderBlocking);
+    // The same image can be shown more than once; keep its largest display size
+    const images = new Map<string, PageResource['image']>();
+    collected.images.forEach(({ url: src, ...image }) => {
+      const shown = images.get(src);
+      if (!shown || image.displayWidth > shown.displayWidth) images.set(src, image);
+    });
+    resources.forEach(resource => {
+      resource.renderBlocking = renderBlocking.has(resource.url);
+      if (resource.type === 'image' && images.has(resource.url)) resource.image = images.get(resource.url);
+    });
+
+    const tbt = collected.longTasks
+      .filter(([start]) => start >= collected.fcp)
+      .reduce((sum, [, duration]) => sum + Math.max(0, duration - LONG_TASK_BUDGET), 0);
+
+    const values: Partial<Record<WebVitalName, number>> = {
+      lcp: collected.lcp || undefined,
+      fcp: collected.fcp || undefined,
+      cls: collected.cls,
+      // Only measured when the click registered as an interaction
+      inp: collected.inp || undefined,
+      ttfb: collected.ttfb,
+      tbt: collected.fcp ? tbt : undefined
+    };
+    const metrics: LabPerformanceData['metrics'] = {};
+    (Object.keys(values) as WebVitalName[]).forEach(name => {
+      if (values[name] !== undefined) metrics[name] = toWebVitalMetric(name, values[name]);
+    });
+
+    return {
+      measuredAt: new Date().toISOString(),
+      metrics,
+      resources: buildResourceInventory(resources),
+      passed: passesCoreWebVitals(metrics)
+    };
+  } catch (e) {
+    // Closing the browser on abort fails whatever was running; report the abort instead
+    if (signal?.aborted) throw signal.reason;
+    throw e;
+  } finally {
+    signal?.removeEventListener('abort', closeBrowser);
+    await browser.close().catch(() => undefined);
+  }
+}
@@ -0,0 +1,232 @@
+/**
+ * Link checker
+ * Verifies every link found on crawled pages. Each link is requested with
+ * HEAD, falling back to GET when HEAD fails, and redirects are followed one
+ * hop at a time so chains and loops can be reported
+ */
+import { CheckedLink, LinkProblem, LinkReport } from '../api/types';
+import { withTimeout } from '../api/abort';
+import { getMetaRobots } from '../analysis/htmlAnalyzer';
+import { isNoindex } from '../analysis/rules';
+import { parseHtml, USER_AGENT } from './auditPipeline';
+import { crawlKey, CrawledPage } from './crawler';
+
+export interface LinkCheckOptions {
+  // Requests in flight at once
+  concurrency?: number;
+  // Per-request timeout
+  timeoutMs?: number;
+  // Links to check; the rest are counted but not requested
+  maxLinks?: number;
+  // Hops followed before giving up
+  maxRedirects?: number;
+  // GET HTML pages to read meta robots, not only the X-Robots-Tag header
+  readMetaRobots?: boolean;
+  signal?: AbortSignal;
+  // Called after each link is checked
+  onProgress?: (checked: number, total: number) => void;
+}
+
+export interface LinkStatus {
+  // Final HTTP status; missing when the request failed
+  status?: number;
+  error?: string;
+  // Each URL redirected to, in order
+  redirects: string[];
+  // A redirect led back to a URL already in the chain
+  loop: boolean;
+  // X-Robots-Tag or meta robots of the final page says noindex
+  noindex: boolean;
+}
+
+export const LINK_PROBLEMS: LinkProblem[] = ['broken', 'redirect', 'redirect_chain', 'redirect_loop', 'mixed_content', 'noindex'];
+
+export const MAX_CHECKED_LINKS = 1000;
+
+/**
+ * Check one link
+ * Only fails when cancelled; network errors come back as status.error
+ * @param url Absolute URL
+ * @param options Timeout, redirect limit and cancellation
+ */
+export async function checkLink(url: string, options: LinkCheckOptions = {}): Promise<LinkStatus> {
+  const { timeoutMs = 10000, maxRedirects = 10, readMetaRobots = false, signal } = options;
+  const redirects: string[] = [];
+  const visited = new Set<string>([url]);
+  let current = url;
+  let method: 'HEAD' | 'GET' = 'HEAD';
+
+  for (;;) {
+    const requestSignal = withTimeout(timeoutMs, signal);
+    let response: Response;
+    try {
+      response = await fetch(current, {
+        method,
+        redirect: 'manual',
+        headers: { 'User-Agent': USER_AGENT },
+        signal: requestSignal
+      });
+    } catch (error) {
+      if (signal?.aborted) throw signal.reason;
+      // Some servers drop HEAD requests; only a failed GET makes a link broken
+      if (method === 'HEAD') {
+        method = 'GET';
+        continue;
+      }
+      const message = requestSignal.aborted ? 'Timed out' : (error as Error).message;
+      return { error: message, redirects, loop: false, noindex: false };
+    }
+
+    const location = response.headers.get('location');
+    if (response.status >= 300 && response.status < 400 && location) {
+      await response.body?.cancel();
+      const next = new URL(location, current).href;
+      redirects.push(next);
+
+      if (visited.has(next)) {
+        return { status: response.status, redirects, loop: true, noindex: false };
+      }
+      if (redirects.length > maxRedirects) {
+        return { status: response.status, error: 'Too many redirects', redirects, loop: false, noindex: false };
+      }
+      visited.add(next);
+      current = next;
+      continue;
+    }
+
+    const isHtml = (response.headers.get('content-type') || '').includes('html');
+
+    // HEAD isn't supported everywhere (405, 501, or errors only for HEAD); confirm with GET.
+    // Meta robots also needs the body
+    if (method === 'HEAD' && (response.status >= 400 || (readMetaRobots && response.ok && isHtml))) {
+      await response.body?.cancel();
+      method = 'GET';
+      continue;
+    }
+
+    let noindex = isNoindex(response.headers.get('x-robots-tag'));
+    if (method === 'GET' && readMetaRobots && response.ok && isHtml) {
+      noindex = noindex || isNoindex(getMetaRobots(parseHtml(await response.text())));
+    } else {
+      await response.body?.cancel();
+    }
+
+    return { status: response.status, redirects, loop: false, noindex };
+  }
+}
+
+/**
+ * Problems of a checked link
+ * @param url The link
+ * @param status Result of checkLink
+ * @param sources Pages linking to it
+ */
+export function getLinkProblems(url: string, status: LinkStatus, sources: string[]): LinkProblem[] {
+  const problems: LinkProblem[] = [];
+  const broken = status.error !== undefined || status.status === undefined || status.status >= 400;
+
+  if (status.loop) {
+    problems.push('redirect_loop');
+  } else if (broken) {
+    problems.push('broken');
+  }
+  if (!status.loop && status.redirects.length === 1) problems.push('redirect');
+  if (!status.loop && status.redirects.length > 1) problems.push('redirect_chain');
+  if (url.startsWith('http://') && sources.some(source => source.startsWith('https://'))) {
+    problems.push('mixed_content');
+  }
+  if (!broken && status.noindex) problems.push('noindex');
+
+  return problems;
+}
+
+/**
+ * Check every link on the crawled pages
+ * Links to pages the crawl fetched without redirects aren't requested again
+ * @param pages Crawled pages with their links
+ * @param options Concurrency, limits, cancellation and progress
+ * @returns Report of the links with problems, each with the pages linking to it
+ */
+export async function checkLinks(pages: CrawledPage[], options: LinkCheckOptions = {}): Promise<LinkReport> {
+  const { concurrency = 5, maxLinks = MAX_CHECKED_LINKS, signal, onProgress } = options;
+
+  // Pages linking to each URL
+  const sources = new Map<string, string[]>();
+  pages.forEach(page => {
+    page.links.forEach(link => {
+      const linkedFrom = sources.get(link) || [];
+      if (!linkedFrom.includes(page.finalUrl)) linkedFrom.push(page.finalUrl);
+      sources.set(link, linkedFrom);
+    });
+  });
+
+  // Crawled pages answered 200 without redirecting
+  const crawled = new Map<string, LinkStatus>();
+  pages.forEach(page => {
+    if (page.result.status !== 'error' && crawlKey(page.url) === crawlKey(page.finalUrl)) {
+      crawled.set(crawlKey(page.url), {
+        status: 200,
+        redirects: [],
+        loop: false,
+        noindex: Boolean(page.result.pageData.technical.noindex)
+      });
+    }
+  });
+
+  const hostOf = (url: string) => new URL(url).hostname.replace(/^www\./, '');
+  const isInternal = (url: string) => sources.get(url).some(source => hostOf(source) === hostOf(url));
+
+  // Internal links first, they matter most when the budget runs out
+  const targets = Array.from(sources.keys()).sort((a, b) => Number(isInternal(b)) - Number(isInternal(a)));
+  const toCheck = targets.slice(0, maxLinks);
+
+  const links: CheckedLink[] = [];
+  let checked = 0;
+  let next = 0;
+
+  const worker = async () => {
+    while (next < toCheck.length) {
+      const url = toCheck[next++];
+      // Only internal pages are worth downloading to look for noindex
+      const status = crawled.get(crawlKey(url)) || await checkLink(url, { ...options, readMetaRobots: isInternal(url) });
+      if (signal?.aborted) throw signal.reason;
+
+      const linkedFrom = sources.get(url);
+      const problems = getLinkProblems(url, status, linkedFrom);
+      if (problems.length > 0) {
+        links.push({
+          url,
+          internal: isInternal(url),
+          status: status.status,
+          error: status.error,
+          redirects: status.redirects,
+          problems,
+          sources: linkedFrom
+        });
+      }
+
+      checked++;
+      onProgress?.(checked, toCheck.length);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, toCheck.length) }, worker));
+
+  const summary = Object.fromEntries(LINK_PROBLEMS.map(problem => [problem, 0])) as Record<LinkProblem, number>;
+  links.forEach(link => link.problems.forEach(problem => summary[problem]++));
+
+  return {
+    totalLinks: targets.length,
+    checkedLinks: toCheck.length,
+    summary,
+    // Most linked-to first
+    links: links.sort((a, b) => b.sources.length - a.sources.length || a.url.localeCompare(b.url))
+  };
+}
+
+/**
+ * Number of broken links on a page, for pageData.links.brokenCount
+ */
+export function countBrokenLinks(report: LinkReport, pageUrl: string): number {
+  return report.links.filter(link => link.problems.includes('broken') && link.sources.includes(pageUrl)).length;
+}
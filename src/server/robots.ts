@@ -0,0 +1,135 @@
+/**
+ * robots.txt
+ * Parses robots.txt per RFC 9309: the group for the most specific matching
+ * user agent applies (falling back to *), and the longest matching rule
+ * wins, with Allow winning ties. Also reads the non-standard Crawl-delay
+ */
+
+export interface RobotsRule {
+  allow: boolean;
+  path: string;
+}
+
+export interface RobotsGroup {
+  userAgents: string[];
+  rules: RobotsRule[];
+  // Seconds between requests
+  crawlDelay?: number;
+}
+
+export interface RobotsTxt {
+  groups: RobotsGroup[];
+  sitemaps: string[];
+}
+
+/**
+ * Parse robots.txt content
+ */
+export function parseRobotsTxt(text: string): RobotsTxt {
+  const robots: RobotsTxt = { groups: [], sitemaps: [] };
+  let group: RobotsGroup | null = null;
+  // Consecutive user-agent lines share one group
+  let collectingAgents = false;
+
+  text.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) return;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      if (!collectingAgents || !group) {
+        group = { userAgents: [], rules: [] };
+        robots.groups.push(group);
+      }
+      group.userAgents.push(value.toLowerCase());
+      collectingAgents = true;
+      return;
+    }
+
+    if (field === 'sitemap') {
+      if (value) robots.sitemaps.push(value);
+      return;
+    }
+
+    collectingAgents = false;
+    if (!group) return;
+
+    if (field === 'allow' || field === 'disallow') {
+      // An empty Disallow allows everything
+      if (value) group.rules.push({ allow: field === 'allow', path: value });
+    } else if (field === 'crawl-delay') {
+      const seconds = Number(value);
+      if (Number.isFinite(seconds) && seconds >= 0) group.crawlDelay = seconds;
+    }
+  });
+
+  return robots;
+}
+
+/**
+ * The group that applies to a user agent: the longest agent name contained
+ * in its product token, otherwise the * group
+ */
+function findGroup(robots: RobotsTxt, userAgent: string): RobotsGroup | undefined {
+  const agent = userAgent.toLowerCase().split('/')[0];
+  let best: RobotsGroup | undefined;
+  let bestLength = 0;
+
+  robots.groups.forEach(group => {
+    group.userAgents.forEach(name => {
+      if (name !== '*' && agent.includes(name) && name.length > bestLength) {
+        best = group;
+        bestLength = name.length;
+      }
+    });
+  });
+
+  return best || robots.groups.find(group => group.userAgents.includes('*'));
+}
+
+function ruleToRegExp(path: string): RegExp {
+  const anchored = path.endsWith('$');
+  const pattern = (anchored ? path.slice(0, -1) : path)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${pattern}${anchored ? '$' : ''}`);
+}
+
+/**
+ * Whether a user agent may fetch a URL
+ * @param robots Parsed robots.txt of the URL's origin
+ * @param url Absolute URL
+ * @param userAgent Crawler user agent
+ */
+export function isAllowedByRobots(robots: RobotsTxt, url: string, userAgent: string): boolean {
+  const group = findGroup(robots, userAgent);
+  if (!group) return true;
+
+  const { pathname, search } = new URL(url);
+  const target = `${pathname}${search}`;
+  let match: RobotsRule | null = null;
+
+  for (const rule of group.rules) {
+    if (!ruleToRegExp(rule.path).test(target)) continue;
+    if (
+      !match ||
+      rule.path.length > match.path.length ||
+      (rule.path.length === match.path.length && rule.allow)
+    ) {
+      match = rule;
+    }
+  }
+
+  return match ? match.allow : true;
+}
+
+/**
+ * Crawl-delay for a user agent in seconds, if set
+ */
+export function getCrawlDelay(robots: RobotsTxt, userAgent: string): number | undefined {
+  return findGroup(robots, userAgent)?.crawlDelay;
+}
@@ -0,0 +1,171 @@
+/**
+ * Schedule store
+ * Keeps audit schedules and their run history in a JSON file so they
+ * survive server restarts
+ */
+import { promises as fs } from 'fs';
+import path from 'path';
+
+import { AuditResult } from '../api/types';
+
+export interface AuditSchedule {
+  id: string;
+  name: string;
+  urls: string[];
+  // Five-field cron expression, e.g. "0 6 * * 1" for Mondays at 06:00
+  cron: string;
+  // Flag a URL when its score drops by more than this many points between runs
+  scoreDropThreshold: number;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+  lastRunAt?: string;
+  nextRunAt?: string | null;
+}
+
+export interface ScoreDropAlert {
+  url: string;
+  previousScore: number;
+  score: number;
+  drop: number;
+}
+
+export interface ScheduleRun {
+  id: string;
+  scheduleId: string;
+  trigger: 'schedule' | 'manual';
+  startedAt: string;
+  finishedAt?: string;
+  status: 'running' | 'completed' | 'failed';
+  results: AuditResult[];
+  // Average over results that didn't error
+  averageScore: number | null;
+  alerts: ScoreDropAlert[];
+  error?: string;
+}
+
+interface ScheduleFile {
+  version: number;
+  schedules: AuditSchedule[];
+  runs: ScheduleRun[];
+}
+
+const FILE_VERSION = 1;
+
+/**
+ * Create a store backed by a JSON file. The file and its directory are
+ * created on first write
+ * @param filePath Where to keep the data
+ * @param maxRunsPerSchedule Older runs are dropped beyond this
+ */
+export function createScheduleStore(filePath: string, maxRunsPerSchedule = 50) {
+  let data: ScheduleFile | null = null;
+  // Writes are chained so concurrent saves never interleave
+  let writing: Promise<void> = Promise.resolve();
+
+  const load = async (): Promise<ScheduleFile> => {
+    if (data) return data;
+
+    try {
+      const parsed = JSON.parse(await fs.readFile(filePath, 'utf8'));
+      data = {
+        version: FILE_VERSION,
+        schedules: parsed.schedules || [],
+        runs: parsed.runs || []
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Could not read schedules from ${filePath}:`, error);
+      }
+      data = { version: FILE_VERSION, schedules: [], runs: [] };
+    }
+
+    return data;
+  };
+
+  const persist = (): Promise<void> => {
+    writing = writing
+      .catch(() => undefined)
+      .then(async () => {
+        // Write to a temp file and rename so a crash never leaves half a file
+        const tempPath = `${filePath}.tmp`;
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(tempPath, JSON.stringify(data, null, 2));
+        await fs.rename(tempPath, filePath);
+      });
+    return writing;
+  };
+
+  return {
+    filePath,
+
+    listSchedules: async (): Promise<AuditSchedule[]> => {
+      return (await load()).schedules;
+    },
+
+    getSchedule: async (id: string): Promise<AuditSchedule | undefined> => {
+      return (await load()).schedules.find(schedule => schedule.id === id);
+    },
+
+    /**
+     * Insert or replace a schedule
+     */
+    saveSchedule: async (schedule: AuditSchedule): Promise<AuditSchedule> => {
+      const file = await load();
+      const index = file.schedules.findIndex(item => item.id === schedule.id);
+
+      if (index === -1) {
+        file.schedules.push(schedule);
+      } else {
+        file.schedules[index] = schedule;
+      }
+
+      await persist();
+      return schedule;
+    },
+
+    /**
+     * Delete a schedule and its runs
+     * @returns False if there was no such schedule
+     */
+    removeSchedule: async (id: string): Promise<boolean> => {
+      const file = await load();
+      const before = file.schedules.length;
+
+      file.schedules = file.schedules.filter(schedule => schedule.id !== id);
+      file.runs = file.runs.filter(run => run.scheduleId !== id);
+
+      await persist();
+      return file.schedules.length < before;
+    },
+
+    /**
+     * Runs of a schedule, newest first
+     */
+    listRuns: async (scheduleId: string, limit?: number): Promise<ScheduleRun[]> => {
+      const runs = (await load()).runs
+        .filter(run => run.scheduleId === scheduleId)
+        .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+      return limit ? runs.slice(0, limit) : runs;
+    },
+
+    /**
+     * Insert or replace a run, pruning the oldest runs of its schedule
+     */
+    saveRun: async (run: ScheduleRun): Promise<ScheduleRun> => {
+      const file = await load();
+      const others = file.runs.filter(item => item.id !== run.id);
+
+      const kept = [run, ...others.filter(item => item.scheduleId === run.scheduleId)]
+        .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+        .slice(0, maxRunsPerSchedule);
+
+      file.runs = [...others.filter(item => item.scheduleId !== run.scheduleId), ...kept];
+
+      await persist();
+      return run;
+    }
+  };
+}
+
+export type ScheduleStore = ReturnType<typeof createScheduleStore>;
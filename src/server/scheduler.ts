@@ -0,0 +1,301 @@
+/**
+ * Audit scheduler
+ * Runs recurring audits of a URL or list of URLs on cron schedules, stores
+ * each run and flags URLs whose score dropped more than the schedule allows
+ */
+import { AuditResult } from '../api/types';
+import { nextCronRun, parseCron } from './cron';
+import { auditUrl } from './auditPipeline';
+import { AuditSchedule, ScheduleRun, ScheduleStore, ScoreDropAlert } from './scheduleStore';
+
+export interface SchedulerOptions {
+  store: ScheduleStore;
+  // How often to look for due schedules
+  tickIntervalMs?: number;
+  // Used when a schedule doesn't set its own threshold
+  defaultScoreDropThreshold?: number;
+  // Audits a single URL; the server pipeline by default
+  audit?: (url: string) => Promise<AuditResult>;
+  // Called for every run that flagged a score drop
+  onScoreDrop?: (schedule: AuditSchedule, run: ScheduleRun) => void;
+}
+
+export interface ScheduleInput {
+  name?: string;
+  urls?: string[];
+  cron?: string;
+  scoreDropThreshold?: number;
+  enabled?: boolean;
+}
+
+export class ScheduleValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScheduleValidationError';
+  }
+}
+
+export const MAX_URLS_PER_SCHEDULE = 100;
+
+function createId(prefix: string): string {
+  return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function nextRunAt(cron: string, from = new Date()): string | null {
+  return nextCronRun(parseCron(cron), from)?.toISOString() || null;
+}
+
+/**
+ * Check a create or update payload
+ * @throws ScheduleValidationError describing the first problem found
+ */
+function validateInput(input: ScheduleInput, partial: boolean): void {
+  if (!partial || input.urls !== undefined) {
+    if (!Array.isArray(input.urls) || input.urls.length === 0) {
+      throw new ScheduleValidationError('urls must be a non-empty array');
+    }
+    if (input.urls.length > MAX_URLS_PER_SCHEDULE) {
+      throw new ScheduleValidationError(`A schedule can audit at most ${MAX_URLS_PER_SCHEDULE} URLs`);
+    }
+    if (input.urls.some(url => typeof url !== 'string' || url.trim() === '')) {
+      throw new ScheduleValidationError('urls must be non-empty strings');
+    }
+  }
+
+  if (!partial || input.cron !== undefined) {
+    if (typeof input.cron !== 'string') {
+      throw new ScheduleValidationError('cron is required');
+    }
+    try {
+      parseCron(input.cron);
+    } catch (error) {
+      throw new ScheduleValidationError((error as Error).message);
+    }
+  }
+
+  if (input.scoreDropThreshold !== undefined) {
+    const threshold = input.scoreDropThreshold;
+    if (typeof threshold !== 'number' || !Number.isFinite(threshold) || threshold < 0 || threshold > 100) {
+      throw new ScheduleValidationError('scoreDropThreshold must be a number between 0 and 100');
+    }
+  }
+}
+
+/**
+ * Compare a run with the previous run of the same schedule
+ * @returns One alert per URL whose score fell by more than the threshold
+ */
+export function findScoreDrops(
+  results: AuditResult[],
+  previous: AuditResult[],
+  threshold: number
+): ScoreDropAlert[] {
+  const previousScores = new Map(
+    previous.filter(result => result.status !== 'error').map(result => [result.url, result.score])
+  );
+
+  return results
+    .filter(result => result.status !== 'error' && previousScores.has(result.url))
+    .map(result => {
+      const previousScore = previousScores.get(result.url);
+      return { url: result.url, previousScore, score: result.score, drop: previousScore - result.score };
+    })
+    .filter(alert => alert.drop > threshold);
+}
+
+/**
+ * Create the scheduler. Call start() to begin checking for due schedules
+ */
+export function createScheduler(options: SchedulerOptions) {
+  const {
+    store,
+    tickIntervalMs = 30000,
+    defaultScoreDropThreshold = 10,
+    audit = (url: string) => auditUrl(url),
+    onScoreDrop
+  } = options;
+
+  let timer: ReturnType<typeof setInterval> | null = null;
+  // Schedules with a run in progress
+  const running = new Set<string>();
+
+  /**
+   * Audit every URL of a schedule, one at a time, and store the run
+   */
+  const executeRun = async (schedule: AuditSchedule, trigger: ScheduleRun['trigger']): Promise<ScheduleRun> => {
+    running.add(schedule.id);
+
+    const run: ScheduleRun = {
+      id: createId('run'),
+      scheduleId: schedule.id,
+      trigger,
+      startedAt: new Date().toISOString(),
+      status: 'running',
+      results: [],
+      averageScore: null,
+      alerts: []
+    };
+
+    console.log(`[scheduler] Running "${schedule.name}" (${schedule.urls.length} URLs, ${trigger})`);
+
+    try {
+      const [previousRun] = (await store.listRuns(schedule.id)).filter(item => item.status === 'completed');
+      await store.saveRun(run);
+
+      for (const url of schedule.urls) {
+        run.results.push(await audit(url));
+      }
+
+      const scored = run.results.filter(result => result.status !== 'error');
+      run.averageScore = scored.length > 0
+        ? Math.round(scored.reduce((sum, result) => sum + result.score, 0) / scored.length)
+        : null;
+      run.alerts = findScoreDrops(run.results, previousRun?.results || [], schedule.scoreDropThreshold);
+      run.status = 'completed';
+    } catch (error) {
+      console.error(`[scheduler] Run of "${schedule.name}" failed:`, error);
+      run.status = 'failed';
+      run.error = (error as Error).message;
+    } finally {
+      run.finishedAt = new Date().toISOString();
+      running.delete(schedule.id);
+    }
+
+    await store.saveRun(run);
+
+    // Re-read so edits made during the run aren't overwritten
+    const current = await store.getSchedule(schedule.id);
+    if (current) {
+      await store.saveSchedule({
+        ...current,
+        lastRunAt: run.startedAt,
+        nextRunAt: current.enabled ? nextRunAt(current.cron) : null
+      });
+    }
+
+    if (run.alerts.length > 0) {
+      run.alerts.forEach(alert => {
+        console.warn(`[scheduler] Score drop on ${alert.url}: ${alert.previousScore} → ${alert.score} (-${alert.drop})`);
+      });
+      onScoreDrop?.(schedule, run);
+    }
+
+    return run;
+  };
+
+  /**
+   * Start every enabled schedule that is due and not already running
+   */
+  const tick = async (): Promise<void> => {
+    const now = Date.now();
+    const schedules = await store.listSchedules();
+
+    schedules
+      .filter(schedule => schedule.enabled && !running.has(schedule.id))
+      .filter(schedule => schedule.nextRunAt && Date.parse(schedule.nextRunAt) <= now)
+      .forEach(schedule => {
+        executeRun(schedule, 'schedule').catch(error => {
+          console.error(`[scheduler] Could not record run of "${schedule.name}":`, error);
+        });
+      });
+  };
+
+  return {
+    /**
+     * Begin checking for due schedules. Schedules whose run was missed while
+     * the server was down run on the first tick
+     */
+    start: async (): Promise<void> => {
+      if (timer) return;
+
+      const schedules = await store.listSchedules();
+      for (const schedule of schedules.filter(item => item.enabled && !item.nextRunAt)) {
+        await store.saveSchedule({ ...schedule, nextRunAt: nextRunAt(schedule.cron) });
+      }
+
+      timer = setInterval(() => {
+        tick().catch(error => console.error('[scheduler] Tick failed:', error));
+      }, tickIntervalMs);
+      console.log(`[scheduler] Started with ${schedules.length} schedule(s), data in ${store.filePath}`);
+
+      await tick();
+    },
+
+    stop: (): void => {
+      if (timer) clearInterval(timer);
+      timer = null;
+    },
+
+    isRunning: (scheduleId: string): boolean => running.has(scheduleId),
+
+    listSchedules: (): Promise<AuditSchedule[]> => store.listSchedules(),
+
+    getSchedule: (id: string): Promise<AuditSchedule | undefined> => store.getSchedule(id),
+
+    /**
+     * @throws ScheduleValidationError when the input is invalid
+     */
+    createSchedule: async (input: ScheduleInput): Promise<AuditSchedule> => {
+      validateInput(input, false);
+
+      const now = new Date().toISOString();
+      const enabled = input.enabled ?? true;
+      const schedule: AuditSchedule = {
+        id: createId('schedule'),
+        name: input.name?.trim() || input.urls[0],
+        urls: input.urls.map(url => url.trim()),
+        cron: input.cron,
+        scoreDropThreshold: input.scoreDropThreshold ?? defaultScoreDropThreshold,
+        enabled,
+        createdAt: now,
+        updatedAt: now,
+        nextRunAt: enabled ? nextRunAt(input.cron) : null
+      };
+
+      return store.saveSchedule(schedule);
+    },
+
+    /**
+     * @returns The updated schedule, or undefined if it doesn't exist
+     * @throws ScheduleValidationError when the input is invalid
+     */
+    updateSchedule: async (id: string, input: ScheduleInput): Promise<AuditSchedule | undefined> => {
+      const existing = await store.getSchedule(id);
+      if (!existing) return undefined;
+
+      validateInput(input, true);
+
+      const updated: AuditSchedule = {
+        ...existing,
+        name: input.name?.trim() || existing.name,
+        urls: input.urls ? input.urls.map(url => url.trim()) : existing.urls,
+        cron: input.cron ?? existing.cron,
+        scoreDropThreshold: input.scoreDropThreshold ?? existing.scoreDropThreshold,
+        enabled: input.enabled ?? existing.enabled,
+        updatedAt: new Date().toISOString()
+      };
+      updated.nextRunAt = updated.enabled ? nextRunAt(updated.cron) : null;
+
+      return store.saveSchedule(updated);
+    },
+
+    deleteSchedule: (id: string): Promise<boolean> => store.removeSchedule(id),
+
+    /**
+     * Run a schedule now, outside its cron timing
+     * @returns The finished run, or undefined if the schedule doesn't exist
+     */
+    runNow: async (id: string): Promise<ScheduleRun | undefined> => {
+      const schedule = await store.getSchedule(id);
+      if (!schedule) return undefined;
+      if (running.has(id)) {
+        throw new ScheduleValidationError('This schedule is already running');
+      }
+      return executeRun(schedule, 'manual');
+    },
+
+    listRuns: (scheduleId: string, limit?: number): Promise<ScheduleRun[]> => store.listRuns(scheduleId, limit)
+  };
+}
+
+export type Scheduler = ReturnType<typeof createScheduler>;
@@ -0,0 +1,122 @@
+/**
+ * Site audit
+ * Crawls a site from a start page and summarizes every crawled page in the
+ * start page's result as siteAnalysis
+ */
+import { AuditResult, JobProgressEvent, LinkReport } from '../api/types';
+import { createErrorResult } from '../api/normalizer';
+import { scorePageData } from '../analysis/htmlAnalyzer';
+import { ServerAuditOptions } from './auditPipeline';
+import { crawlSite, CrawlOptions, CrawlResult, MAX_CRAWL_PAGES } from './crawler';
+import { checkLinks, countBrokenLinks } from './linkChecker';
+
+export interface SiteAuditOptions extends ServerAuditOptions, Omit<CrawlOptions, 'onPage'> {
+  // Verify every link found on the crawled pages (default true)
+  checkLinks?: boolean;
+  onProgress?: (event: JobProgressEvent) => void;
+}
+
+export const MAX_SITE_AUDIT_PAGES = MAX_CRAWL_PAGES;
+
+/**
+ * Summary of the audited pages for AuditResult.siteAnalysis
+ */
+export function summarizeSite(results: AuditResult[], crawl?: CrawlResult): AuditResult['siteAnalysis'] {
+  const scored = results.filter(result => result.status !== 'error');
+  const frequency = new Map<string, { type: string; frequency: number; severity: string }>();
+
+  scored.forEach(result => {
+    const types = new Map<string, string>();
+    Object.values(result.categories).forEach(category => {
+      category.issues.forEach(issue => types.set(issue.type, issue.severity));
+    });
+    types.forEach((severity, type) => {
+      const entry = frequency.get(type) || { type, frequency: 0, severity };
+      entry.frequency++;
+      frequency.set(type, entry);
+    });
+  });
+
+  return {
+    averageScore: scored.length > 0
+      ? Math.round(scored.reduce((sum, result) => sum + result.score, 0) / scored.length)
+      : 0,
+    commonIssues: Array.from(frequency.values()).sort((a, b) => b.frequency - a.frequency).slice(0, 20),
+    pages: results.map(result => ({
+      url: result.url,
+      score: result.score,
+      title: result.pageData?.title?.text || '',
+      issuesFound: result.totalIssuesCount,
+      criticalIssuesCount: result.criticalIssuesCount
+    })),
+    crawl: crawl && {
+      pagesCrawled: crawl.pages.length,
+      maxDepthReached: crawl.maxDepthReached,
+      skipped: crawl.skipped,
+      robotsTxt: crawl.robotsTxt
+    }
+  };
+}
+
+/**
+ * Audit a site starting from one page
+ * @param url Start page
+ * @param options Crawl limits and filters, timeout, cancellation and progress
+ * @returns The start page's result with siteAnalysis covering every crawled page
+ */
+export async function auditSite(url: string, options: SiteAuditOptions = {}): Promise<AuditResult> {
+  const { onProgress, checkLinks: shouldCheckLinks = true, ...crawlOptions } = options;
+  const maxPages = Math.max(1, Math.min(options.maxPages || 20, MAX_SITE_AUDIT_PAGES));
+  // Share of the progress bar taken by the crawl; link checking gets the rest
+  const crawlShare = shouldCheckLinks ? 70 : 90;
+
+  const crawl = await crawlSite(url, {
+    ...crawlOptions,
+    maxPages,
+    onPage: (page, crawled, queued) => {
+      onProgress?.({
+        stage: 'crawling',
+        progress: 5 + Math.round((crawled / maxPages) * crawlShare),
+        current: crawled,
+        total: Math.min(maxPages, crawled + queued),
+        url: page.url
+      });
+    }
+  });
+
+  let results = crawl.pages.map(page => page.result);
+  if (!results[0]) {
+    return createErrorResult(crawl.seed, 'robots.txt does not allow crawling this page', 'robots_disallowed');
+  }
+  // The start page failed; there's nothing to report about
+  if (results[0].status === 'error') return results[0];
+
+  let linkReport: LinkReport | undefined;
+  if (shouldCheckLinks) {
+    linkReport = await checkLinks(crawl.pages, {
+      signal: options.signal,
+      timeoutMs: options.timeoutMs,
+      onProgress: (checked, total) => {
+        onProgress?.({
+          stage: 'checking_links',
+          progress: 5 + crawlShare + Math.round((checked / total) * (90 - crawlShare)),
+          current: checked,
+          total
+        });
+      }
+    });
+
+    // Rescore pages with their broken link counts so broken_links is reported
+    results = crawl.pages.map(({ finalUrl, result }) => {
+      if (result.status === 'error') return result;
+      const pageData = {
+        ...result.pageData,
+        links: { ...result.pageData.links, brokenCount: countBrokenLinks(linkReport, finalUrl) }
+      };
+      return scorePageData(pageData, result.url);
+    });
+  }
+
+  onProgress?.({ stage: 'scoring', progress: 97 });
+  return { ...results[0], siteAnalysis: summarizeSite(results, crawl), linkReport };
+}
@@ -16,7 +16,7 @@ export interface AuditResult {
   score: number;
   issuesFound: number;
   opportunities: number;
-  performanceMetrics: {
+  performanceMetrics?: {
     lcp: {
       value: number;
       unit: string;
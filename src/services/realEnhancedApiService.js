@@ -104,7 +104,8 @@ export const performEnhancedAnalysis = async (url, options = {}) => {
             status: 'good',
             message: 'Mobile analysis not yet implemented on backend'
           },
-          structuredData: {
+          // Backends that validate structured data report it with the page's technical data
+          structuredData: data.data.pageData.technical?.structuredData || {
             present: false,
             message: 'Schema validation not yet implemented on backend'
           },
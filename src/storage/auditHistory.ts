@@ -0,0 +1,161 @@
+/**
+ * Audit history
+ * Every completed audit and batch is saved to IndexedDB so reports can be
+ * reopened later without re-running them
+ */
+import { AuditResult, BatchSeoAnalysisResponse } from '../api/types';
+import { STORES, withStore } from './db';
+
+export type AuditHistoryKind = 'single' | 'batch';
+
+export interface AuditHistoryEntry {
+  id: string;
+  kind: AuditHistoryKind;
+  // Audited URL, or the first URL of a batch
+  url: string;
+  // Page title for single audits, used by search
+  title?: string;
+  // Hostnames (without www.) of every audited URL
+  domains: string[];
+  // Overall score, averaged over successful results for batches
+  score: number | null;
+  createdAt: string;
+  result?: AuditResult;
+  batch?: BatchSeoAnalysisResponse;
+}
+
+export interface AuditHistoryQuery {
+  // Matches URL and title, case-insensitive
+  search?: string;
+  domain?: string;
+  kind?: AuditHistoryKind;
+  limit?: number;
+}
+
+/**
+ * Hostname of a URL without the www. prefix
+ */
+export function getDomain(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch (e) {
+    return url;
+  }
+}
+
+function createId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function matchesSearch(entry: AuditHistoryEntry, search: string): boolean {
+  const needle = search.trim().toLowerCase();
+  if (!needle) return true;
+
+  const haystack = [
+    entry.url,
+    entry.title,
+    ...(entry.batch?.results.map(result => result.url) || [])
+  ];
+
+  return haystack.some(value => value?.toLowerCase().includes(needle));
+}
+
+export const auditHistory = {
+  /**
+   * Save a completed single-page audit
+   */
+  saveAudit: async (result: AuditResult): Promise<AuditHistoryEntry> => {
+    const entry: AuditHistoryEntry = {
+      id: createId(),
+      kind: 'single',
+      url: result.url,
+      title: result.pageData.title.text,
+      domains: [getDomain(result.url)],
+      score: result.score,
+      createdAt: new Date().toISOString(),
+      result
+    };
+
+    await withStore(STORES.auditHistory, 'readwrite', store => store.put(entry));
+    return entry;
+  },
+
+  /**
+   * Save a completed batch
+   */
+  saveBatch: async (batch: BatchSeoAnalysisResponse): Promise<AuditHistoryEntry> => {
+    const scored = batch.results.filter(result => result.status !== 'error');
+
+    const entry: AuditHistoryEntry = {
+      id: createId(),
+      kind: 'batch',
+      url: batch.results[0]?.url || '',
+      domains: Array.from(new Set(batch.results.map(result => getDomain(result.url)))),
+      score: scored.length > 0
+        ? Math.round(scored.reduce((sum, result) => sum + result.score, 0) / scored.length)
+        : null,
+      createdAt: new Date().toISOString(),
+      batch
+    };
+
+    await withStore(STORES.auditHistory, 'readwrite', store => store.put(entry));
+    return entry;
+  },
+
+  get: async (id: string): Promise<AuditHistoryEntry | undefined> => {
+    return withStore<AuditHistoryEntry | undefined>(STORES.auditHistory, 'readonly', store => store.get(id));
+  },
+
+  /**
+   * List saved audits, newest first
+   */
+  list: async (query: AuditHistoryQuery = {}): Promise<AuditHistoryEntry[]> => {
+    const entries = await withStore<AuditHistoryEntry[]>(STORES.auditHistory, 'readonly', store =>
+      query.domain
+        ? store.index('domains').getAll(query.domain)
+        : store.index('createdAt').getAll()
+    );
+
+    const filtered = entries
+      .filter(entry => !query.kind || entry.kind === query.kind)
+      .filter(entry => !query.search || matchesSearch(entry, query.search))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    return query.limit ? filtered.slice(0, query.limit) : filtered;
+  },
+
+  /**
+   * Every domain with at least one saved audit, alphabetically
+   */
+  listDomains: async (): Promise<string[]> => {
+    const entries = await auditHistory.list();
+    return Array.from(new Set(entries.flatMap(entry => entry.domains))).sort();
+  },
+
+  remove: async (id: string): Promise<void> => {
+    await withStore(STORES.auditHistory, 'readwrite', store => store.delete(id));
+  },
+
+  clear: async (): Promise<void> => {
+    await withStore(STORES.auditHistory, 'readwrite', store => store.clear());
+  }
+};
+
+/**
+ * Save a finished audit in the background; history is best effort and
+ * never interrupts the audit flow. Error results aren't saved
+ */
+export function recordAudit(result: AuditResult | null | undefined): void {
+  if (!result || result.status === 'error') return;
+
+  auditHistory.saveAudit(result).catch(error => console.warn('Could not save audit to history:', error));
+}
+
+/**
+ * Save a finished batch in the background
+ */
+export function recordBatch(batch: BatchSeoAnalysisResponse | null | undefined): void {
+  if (!batch || batch.results.length === 0) return;
+
+  auditHistory.saveBatch(batch).catch(error => console.warn('Could not save batch to history:', error));
+}
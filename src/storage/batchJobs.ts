@@ -0,0 +1,290 @@
+/**
+ * Batch jobs
+ * Batch runs are saved to IndexedDB as they progress so a reload or crash
+ * doesn't lose finished results; the remaining URLs can be resumed later.
+ * Jobs use the same statuses as backend jobs (JobStatusResponse). Results are
+ * stored one per URL apart from their job, so saving a chunk or checking in
+ * doesn't rewrite everything collected so far
+ */
+import { AuditResult, BatchSeoAnalysisResponse, JobStatusResponse } from '../api/types';
+import { STORES, withStore, withTransaction } from './db';
+
+export type BatchJobStatus = JobStatusResponse['job']['status'];
+
+export interface BatchJobOptions {
+  concurrency?: number;
+  maxConcurrentPerHost?: number;
+  hostDelayMs?: number;
+}
+
+export interface BatchJob {
+  id: string;
+  status: BatchJobStatus;
+  createdAt: number;
+  updatedAt: number;
+  // Tab running the job, and the last time it checked in
+  ownerId?: string;
+  heartbeatAt: number;
+  // Normalized URLs, in the order they were submitted
+  urls: string[];
+  options: BatchJobOptions;
+  // Finished results by URL, error results included
+  results: Record<string, AuditResult>;
+  error?: string;
+}
+
+// A job as stored; its results are in the batchResults store
+type StoredBatchJob = Omit<BatchJob, 'results'>;
+
+interface StoredBatchResult {
+  jobId: string;
+  url: string;
+  result: AuditResult;
+}
+
+export interface BatchJobProgress {
+  done: string[];
+  failed: string[];
+  pending: string[];
+}
+
+// A running job checks in at least this often
+export const BATCH_JOB_HEARTBEAT_MS = 10000;
+
+// A processing job that hasn't checked in for this long was interrupted
+const INTERRUPTED_AFTER_MS = 3 * BATCH_JOB_HEARTBEAT_MS;
+
+function createId(prefix = 'batch'): string {
+  return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Identifies this tab. Kept in sessionStorage so it survives a reload, which
+ * lets a reloaded tab recognize its own jobs as interrupted straight away
+ */
+function loadTabId(): string {
+  try {
+    const existing = sessionStorage.getItem('batchJobTabId');
+    if (existing) return existing;
+    const id = createId('tab');
+    sessionStorage.setItem('batchJobTabId', id);
+    return id;
+  } catch (e) {
+    return createId('tab');
+  }
+}
+
+const TAB_ID = loadTabId();
+
+// Jobs being run by this page
+const runningJobs = new Set<string>();
+
+/**
+ * Which URLs of a job are done, failed or still pending
+ */
+export function getBatchJobProgress(job: BatchJob): BatchJobProgress {
+  const progress: BatchJobProgress = { done: [], failed: [], pending: [] };
+
+  job.urls.forEach(url => {
+    const result = job.results[url];
+    if (!result) {
+      progress.pending.push(url);
+    } else if (result.status === 'error') {
+      progress.failed.push(url);
+    } else {
+      progress.done.push(url);
+    }
+  });
+
+  return progress;
+}
+
+/**
+ * Whether a job stopped without finishing: its tab was closed or reloaded,
+ * or it was cancelled
+ */
+export function isBatchJobInterrupted(job: BatchJob, now = Date.now()): boolean {
+  if (job.status === 'failed') return true;
+  if (job.status === 'completed') return false;
+  if (job.ownerId === TAB_ID) return !runningJobs.has(job.id);
+  return now - job.heartbeatAt > INTERRUPTED_AFTER_MS;
+}
+
+/**
+ * Finished results of a job, in submission order
+ */
+export function getBatchJobResults(job: BatchJob): AuditResult[] {
+  return job.urls.map(url => job.results[url]).filter(Boolean);
+}
+
+/**
+ * The job's results as a batch response, for BatchAuditResults and history
+ */
+export function toBatchResponse(job: BatchJob): BatchSeoAnalysisResponse {
+  const results = getBatchJobResults(job);
+
+  return {
+    status: 'success',
+    message: job.status === 'completed' ? 'Batch analysis completed' : 'Partial results of an unfinished batch',
+    totalUrls: results.length,
+    timestamp: new Date(job.updatedAt).toISOString(),
+    cached: false,
+    results
+  };
+}
+
+/**
+ * Add finished results to a job
+ * @param job Job to update; not modified
+ * @param urls URLs the results belong to
+ * @param results Results in the same order as urls
+ * @returns Updated job
+ */
+export function addBatchJobResults(job: BatchJob, urls: string[], results: AuditResult[]): BatchJob {
+  const merged = { ...job.results };
+  urls.forEach((url, index) => {
+    if (results[index]) merged[url] = results[index];
+  });
+
+  const now = Date.now();
+  return { ...job, results: merged, updatedAt: now, heartbeatAt: now };
+}
+
+// Saves run one after another so a slow write can't overwrite a newer one
+let writeChain: Promise<unknown> = Promise.resolve();
+
+function enqueueWrite<T>(write: () => Promise<T>): Promise<T> {
+  const next = writeChain.then(write, write);
+  writeChain = next.catch(() => undefined);
+  return next;
+}
+
+// Keys of every result of a job: [jobId, url] for any url
+function jobResultsRange(id: string): IDBKeyRange {
+  return IDBKeyRange.bound([id], [id, []]);
+}
+
+function toStoredJob(job: BatchJob): StoredBatchJob {
+  const { results: _results, ...stored } = job;
+  return stored;
+}
+
+/**
+ * Load the results of a stored job
+ */
+async function loadJob(stored: StoredBatchJob): Promise<BatchJob> {
+  const saved = await withStore<StoredBatchResult[]>(STORES.batchResults, 'readonly', store =>
+    store.getAll(jobResultsRange(stored.id))
+  );
+  const results: Record<string, AuditResult> = {};
+  saved.forEach(entry => {
+    results[entry.url] = entry.result;
+  });
+  return { ...stored, results };
+}
+
+/**
+ * Update fields of a stored job in place, if it still exists
+ */
+function updateStoredJob(store: IDBObjectStore, id: string, changes: Partial<StoredBatchJob>): void {
+  const request = store.get(id);
+  request.onsuccess = () => {
+    if (request.result) store.put({ ...request.result, ...changes });
+  };
+}
+
+export const batchJobs = {
+  /**
+   * Create a job for a new batch
+   */
+  create: async (urls: string[], options: BatchJobOptions = {}): Promise<BatchJob> => {
+    const now = Date.now();
+    const job: BatchJob = {
+      id: createId(),
+      status: 'queued',
+      createdAt: now,
+      updatedAt: now,
+      heartbeatAt: now,
+      urls,
+      options,
+      results: {}
+    };
+
+    await batchJobs.save(job);
+    return job;
+  },
+
+  /**
+   * Mark a job as run by this page
+   * @returns The job owned by this tab; save it to record the claim
+   */
+  claim: (job: BatchJob): BatchJob => {
+    runningJobs.add(job.id);
+    return { ...job, ownerId: TAB_ID, status: 'processing', error: undefined, heartbeatAt: Date.now() };
+  },
+
+  /**
+   * This page stopped running the job
+   */
+  release: (id: string): void => {
+    runningJobs.delete(id);
+  },
+
+  /**
+   * Save a job's status and settings; its results are saved with saveResults
+   */
+  save: (job: BatchJob): Promise<void> =>
+    enqueueWrite(async () => {
+      await withStore(STORES.batchJobs, 'readwrite', store => store.put(toStoredJob(job)));
+    }),
+
+  /**
+   * Save finished results of a job and mark it as updated
+   * @param id Job the results belong to
+   * @param urls URLs the results belong to
+   * @param results Results in the same order as urls
+   */
+  saveResults: (id: string, urls: string[], results: AuditResult[]): Promise<void> =>
+    enqueueWrite(() =>
+      withTransaction([STORES.batchJobs, STORES.batchResults], 'readwrite', transaction => {
+        const resultStore = transaction.objectStore(STORES.batchResults);
+        urls.forEach((url, index) => {
+          if (results[index]) resultStore.put({ jobId: id, url, result: results[index] });
+        });
+        const now = Date.now();
+        updateStoredJob(transaction.objectStore(STORES.batchJobs), id, { updatedAt: now, heartbeatAt: now });
+      })
+    ),
+
+  /**
+   * Record that the job is still running
+   */
+  heartbeat: (id: string): Promise<void> =>
+    enqueueWrite(() =>
+      withTransaction([STORES.batchJobs], 'readwrite', transaction => {
+        updateStoredJob(transaction.objectStore(STORES.batchJobs), id, { heartbeatAt: Date.now() });
+      })
+    ),
+
+  get: async (id: string): Promise<BatchJob | undefined> => {
+    const stored = await withStore<StoredBatchJob | undefined>(STORES.batchJobs, 'readonly', store => store.get(id));
+    return stored && loadJob(stored);
+  },
+
+  /**
+   * List jobs with their results, most recently updated first
+   */
+  list: async (): Promise<BatchJob[]> => {
+    const stored = await withStore<StoredBatchJob[]>(STORES.batchJobs, 'readonly', store => store.index('updatedAt').getAll());
+    const jobs = await Promise.all(stored.map(loadJob));
+    return jobs.sort((a, b) => b.updatedAt - a.updatedAt);
+  },
+
+  remove: (id: string): Promise<void> =>
+    enqueueWrite(() =>
+      withTransaction([STORES.batchJobs, STORES.batchResults], 'readwrite', transaction => {
+        transaction.objectStore(STORES.batchJobs).delete(id);
+        transaction.objectStore(STORES.batchResults).delete(jobResultsRange(id));
+      })
+    )
+};
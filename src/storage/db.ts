@@ -0,0 +1,146 @@
+/**
+ * IndexedDB access for data kept in the browser between visits
+ * All stores live in one database; bump DB_VERSION and extend upgrade()
+ * when adding a store or index
+ */
+
+const DB_NAME = 'marden-seo-audit';
+const DB_VERSION = 4;
+
+export const STORES = {
+  auditHistory: 'auditHistory',
+  batchJobs: 'batchJobs',
+  batchResults: 'batchResults',
+  ruleConfigs: 'ruleConfigs'
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function upgrade(db: IDBDatabase, oldVersion: number, transaction: IDBTransaction): void {
+  if (oldVersion < 1) {
+    const history = db.createObjectStore(STORES.auditHistory, { keyPath: 'id' });
+    history.createIndex('createdAt', 'createdAt');
+    history.createIndex('domains', 'domains', { multiEntry: true });
+  }
+  if (oldVersion < 2) {
+    const jobs = db.createObjectStore(STORES.batchJobs, { keyPath: 'id' });
+    jobs.createIndex('updatedAt', 'updatedAt');
+  }
+  if (oldVersion < 3) {
+    db.createObjectStore(STORES.ruleConfigs, { keyPath: 'domain' });
+  }
+  if (oldVersion < 4) {
+    // Results of batch jobs by [jobId, url]; jobs kept them in their own record before
+    const results = db.createObjectStore(STORES.batchResults, { keyPath: ['jobId', 'url'] });
+    if (oldVersion >= 2) {
+      const jobs = transaction.objectStore(STORES.batchJobs);
+      jobs.openCursor().onsuccess = (event) => {
+        const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+        if (!cursor) return;
+        const { results: jobResults = {}, ...job } = cursor.value;
+        Object.entries(jobResults).forEach(([url, result]) => results.put({ jobId: job.id, url, result }));
+        cursor.update(job);
+        cursor.continue();
+      };
+    }
+  }
+}
+
+/**
+ * Open (and create or upgrade) the database; the connection is shared
+ * @throws Error when IndexedDB is unavailable, e.g. in some private browsing modes
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion, request.transaction);
+    request.onsuccess = () => {
+      const db = request.result;
+      // A newer version opened in another tab; close so its upgrade isn't
+      // blocked, and reopen at that version on next use
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('Database upgrade blocked by another open tab'));
+  });
+
+  // Let the next call try again instead of caching the failure
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+}
+
+/**
+ * Wrap an IndexedDB request in a promise
+ */
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Run a request against a store in its own transaction
+ * @param storeName Store to use
+ * @param mode Transaction mode
+ * @param run Creates the request from the store
+ */
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+  // A failed request rejects below; don't also report the aborted transaction as unhandled
+  done.catch(() => undefined);
+
+  const result = await requestToPromise(run(transaction.objectStore(storeName)));
+  // Writes only count once the transaction commits
+  await done;
+
+  return result;
+}
+
+/**
+ * Run several requests against one or more stores in one transaction
+ * @param storeNames Stores to use
+ * @param mode Transaction mode
+ * @param run Makes the requests; their results can be read once this resolves
+ * @returns Resolves when the transaction commits
+ */
+export async function withTransaction(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  run: (transaction: IDBTransaction) => void
+): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeNames, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+  run(transaction);
+  await done;
+}
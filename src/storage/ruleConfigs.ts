@@ -0,0 +1,75 @@
+/**
+ * Project rule settings
+ * Which rules run and with which thresholds, saved per domain (a project)
+ * and applied to every audit of that domain's pages in this browser
+ */
+import { AuditResult } from '../api/types';
+import { createRuleRegistry, defaultRules, RuleConfig } from '../analysis/rules';
+import { rescoreResult } from '../analysis/htmlAnalyzer';
+import { getDomain } from './auditHistory';
+import { STORES, withStore } from './db';
+
+export interface ProjectRuleConfig {
+  // Hostname without www., as getDomain returns it
+  domain: string;
+  config: RuleConfig;
+  updatedAt: string;
+}
+
+export const ruleConfigs = {
+  get: async (domain: string): Promise<ProjectRuleConfig | undefined> => {
+    return withStore<ProjectRuleConfig | undefined>(STORES.ruleConfigs, 'readonly', store => store.get(domain));
+  },
+
+  /**
+   * Every project with saved settings, by domain
+   */
+  list: async (): Promise<ProjectRuleConfig[]> => {
+    const configs = await withStore<ProjectRuleConfig[]>(STORES.ruleConfigs, 'readonly', store => store.getAll());
+    return configs.sort((a, b) => a.domain.localeCompare(b.domain));
+  },
+
+  save: async (domain: string, config: RuleConfig): Promise<ProjectRuleConfig> => {
+    const entry: ProjectRuleConfig = { domain, config, updatedAt: new Date().toISOString() };
+    await withStore(STORES.ruleConfigs, 'readwrite', store => store.put(entry));
+    return entry;
+  },
+
+  /**
+   * Go back to the default rules for a domain
+   */
+  remove: async (domain: string): Promise<void> => {
+    await withStore(STORES.ruleConfigs, 'readwrite', store => store.delete(domain));
+  }
+};
+
+/**
+ * Saved rule settings for the project a URL belongs to. Best effort: when
+ * IndexedDB is unavailable the default rules apply
+ * @returns The settings, or undefined when the project has none
+ */
+export async function loadProjectRuleConfig(url: string): Promise<RuleConfig | undefined> {
+  try {
+    return (await ruleConfigs.get(getDomain(url)))?.config;
+  } catch (error) {
+    console.warn('Could not load project rule settings:', error);
+    return undefined;
+  }
+}
+
+/**
+ * Re-score results with the settings of their projects. Error results and
+ * results of domains without saved settings are returned as they are
+ */
+export async function applyProjectRules(results: AuditResult[]): Promise<AuditResult[]> {
+  const configs = new Map<string, RuleConfig | undefined>();
+  for (const result of results) {
+    const domain = getDomain(result.url);
+    if (!configs.has(domain)) configs.set(domain, await loadProjectRuleConfig(result.url));
+  }
+
+  return results.map(result => {
+    const config = configs.get(getDomain(result.url));
+    return config && result.status !== 'error' ? rescoreResult(result, createRuleRegistry(defaultRules, config)) : result;
+  });
+}
@@ -5,7 +5,7 @@ import path from "path";
 // import { componentTagger } from "lovable-tagger";
 
 // https://vitejs.dev/config/
-export default defineConfig(({ mode }) => ({
+export default defineConfig(({ mode, isSsrBuild }) => ({
   server: {
     host: "::",
     port: 8081,
@@ -29,6 +29,8 @@ export default defineConfig(({ mode }) => ({
     },
   },
   build: {
+    // public/ belongs to the client build only
+    copyPublicDir: !isSsrBuild,
     // Ensure source maps are generated for easier debugging
     sourcemap: true,
     // Make output more verbose for debugging
@@ -36,7 +38,8 @@ export default defineConfig(({ mode }) => ({
     rollupOptions: {
       output: {
         // Ensure these are set correctly to fix asset path issues
-        entryFileNames: 'assets/[name].[hash].js',
+        // The server bundle (npm run build:server) is imported by name from server.js
+        entryFileNames: isSsrBuild ? '[name].js' : 'assets/[name].[hash].js',
         chunkFileNames: 'assets/[name].[hash].js',
         assetFileNames: 'assets/[name].[hash].[ext]'
       }